@@ -0,0 +1,130 @@
+/**
+ * Library API
+ *
+ * createSelector binds a project folder and a home folder and offers the
+ * CLI commands as methods that return structured results: nothing is
+ * printed, nothing exits, and invalid input is thrown as an Error.
+ *
+ *   const mcp = createSelector({ cwd: '/path/to/repo' });
+ *   const { results } = await mcp.disable(['github'], { source: 'plugin' });
+ */
+
+import { existsSync, statSync } from 'node:fs';
+import { resolve } from 'node:path';
+// Relative imports: the package's type declarations keep import paths as written
+import type {
+  AuditResult,
+  ConfigValidation,
+  ProjectAction,
+  ServerActionOutcome,
+  ServerExplanation,
+  ServerListEntry,
+} from '../types/index.js';
+import { applyServerAction } from '../core/config/actions.js';
+import { auditConfiguration } from '../core/config/audit.js';
+import { extractRawDefinitions } from '../core/config/discovery.js';
+import { loadServerExplanation } from '../core/config/explain.js';
+import { resolveServers } from '../core/config/precedence.js';
+import { validateConfigSources } from '../core/config/validation.js';
+import { toServerListEntry } from '../core/servers/listing.js';
+import { parseSelector, selectServers, SELECTOR_FIELDS, type SelectorField } from '../core/servers/selector.js';
+import { expandPath } from '../utils/paths.js';
+import { withHomeDir } from '../utils/platform.js';
+import { findProjectRoot, type ProjectRoot } from '../utils/project.js';
+
+/** Attribute filters, as for --source, --scope, --transport and --state */
+export interface SelectorFilters {
+  /** mcpjson, direct-global, direct-local, plugin, direct or enterprise */
+  source?: string | string[];
+  /** enterprise, local, project or user */
+  scope?: string | string[];
+  /** stdio, http or sse */
+  transport?: string | string[];
+  /** green (on), orange (paused) or red (off) */
+  state?: string | string[];
+}
+
+export interface SelectorOptions {
+  /** Folder to work in, walked up to the project root (default: process.cwd()) */
+  cwd?: string;
+  /** Folder holding ~/.claude and ~/.claude.json (default: the user's home) */
+  home?: string;
+}
+
+export interface ActionOptions extends SelectorFilters {
+  /** Every server when no names or filters are given (enable and disable only) */
+  all?: boolean;
+}
+
+/** Commands bound to one project (see createSelector) */
+export interface McpSelector {
+  /** Project the selector works on */
+  readonly project: ProjectRoot;
+  /** Resolved servers, optionally only those matching names, patterns and filters */
+  list(terms?: string[], filters?: SelectorFilters): Promise<ServerListEntry[]>;
+  /** Enable servers (GREEN) */
+  enable(terms: string[], options?: ActionOptions): Promise<ServerActionOutcome>;
+  /** Disable servers (RED) */
+  disable(terms: string[], options?: ActionOptions): Promise<ServerActionOutcome>;
+  /** Pause servers (ORANGE): enabled in config, not started by Claude */
+  pause(terms: string[], filters?: SelectorFilters): Promise<ServerActionOutcome>;
+  /** Resume paused servers (ORANGE to GREEN) */
+  resume(terms: string[], filters?: SelectorFilters): Promise<ServerActionOutcome>;
+  /** Configuration health checks (mcp audit) */
+  audit(): Promise<AuditResult>;
+  /** Syntax and schema errors of every configuration file (mcp validate) */
+  validate(): Promise<ConfigValidation[]>;
+  /** Why a server has its state (mcp why); null if no such server */
+  why(server: string): Promise<ServerExplanation | null>;
+}
+
+/**
+ * Filter values as the CLI flags take them (comma-separated)
+ */
+function toFilterOptions(filters: SelectorFilters): Partial<Record<SelectorField, string>> {
+  const options: Partial<Record<SelectorField, string>> = {};
+  for (const field of SELECTOR_FIELDS) {
+    const value = filters[field];
+    if (value !== undefined) options[field] = Array.isArray(value) ? value.join(',') : value;
+  }
+  return options;
+}
+
+/**
+ * Create a selector for a project
+ *
+ * @throws Error if cwd is not a folder
+ */
+export function createSelector(options: SelectorOptions = {}): McpSelector {
+  const inHome = <T>(fn: () => T): T => (options.home ? withHomeDir(resolve(options.home), fn) : fn());
+
+  const start = inHome(() => resolve(options.cwd ? expandPath(options.cwd) : process.cwd()));
+  if (!existsSync(start) || !statSync(start).isDirectory()) {
+    throw new Error(`Project folder not found: ${options.cwd}`);
+  }
+
+  const project = inHome(() => findProjectRoot(start));
+  const cwd = project.root;
+
+  const apply = (action: ProjectAction, terms: string[], { all, ...filters }: ActionOptions = {}) =>
+    inHome(async () => applyServerAction(cwd, action, parseSelector(terms, toFilterOptions(filters)), { all }));
+
+  return {
+    project,
+
+    list: (terms = [], filters = {}) => inHome(async () => {
+      const selector = parseSelector(terms, toFilterOptions(filters));
+      const servers = resolveServers(await extractRawDefinitions(cwd));
+      return selectServers(servers, selector).servers.map(toServerListEntry);
+    }),
+
+    enable: (terms, actionOptions) => apply('enable', terms, actionOptions),
+    disable: (terms, actionOptions) => apply('disable', terms, actionOptions),
+    pause: (terms, filters) => apply('pause', terms, filters),
+    resume: (terms, filters) => apply('resume', terms, filters),
+
+    audit: () => inHome(() => auditConfiguration(cwd)),
+    validate: () => inHome(() => validateConfigSources(cwd)),
+    why: (server) => inHome(() => loadServerExplanation(server, cwd)),
+  };
+}
@@ -3,42 +3,29 @@
  */
 
 import { discoverAllSources } from '@/core/config/discovery.js';
-import { validateJsonSyntax } from '@/core/config/parser.js';
+import { auditConfiguration } from '@/core/config/audit.js';
 import type { AuditIssue } from '@/types/index.js';
 import chalk from 'chalk';
+import { resolveProjectDir, type ProjectOptions } from '@/cli/project.js';
 
-export interface AuditOptions {
+export interface AuditOptions extends ProjectOptions {
   json?: boolean;
 }
 
-export async function runAudit(options: AuditOptions): Promise<void> {
-  const cwd = process.cwd();
-  const sources = await discoverAllSources(cwd);
-  const issues: AuditIssue[] = [];
-  const passedChecks: string[] = [];
-
-  // Check 1: Validate JSON syntax
-  for (const source of sources) {
-    if (!source.exists) continue;
-
-    const result = await validateJsonSyntax(source.path);
-    if (!result.valid) {
-      issues.push({
-        severity: 'error',
-        file: source.path,
-        message: `Invalid JSON: ${result.error}`,
-        suggestion: result.line
-          ? `Check line ${result.line}, column ${result.column}`
-          : undefined,
-      });
-    } else {
-      passedChecks.push(`Valid JSON: ${source.path}`);
-    }
+function severityIcon(severity: AuditIssue['severity']): string {
+  switch (severity) {
+    case 'error':
+      return chalk.red('✗');
+    case 'warning':
+      return chalk.yellow('⚠');
+    case 'info':
+      return chalk.cyan('ℹ');
   }
+}
 
-  // Check 2: Look for control arrays in wrong locations
-  // (This would require reading the file content and checking)
-  // TODO: Implement full control array location checks
+export async function runAudit(options: AuditOptions): Promise<void> {
+  const cwd = resolveProjectDir(options);
+  const { issues, passedChecks } = await auditConfiguration(cwd);
 
   // Output results
   if (options.json) {
@@ -50,17 +37,21 @@ export async function runAudit(options: AuditOptions): Promise<void> {
       console.log(chalk.red(`Found ${issues.length} issue(s):\n`));
 
       for (const issue of issues) {
-        const icon = issue.severity === 'error' ? chalk.red('✗') : chalk.yellow('⚠');
-        console.log(`${icon} ${issue.file}`);
+        console.log(`${severityIcon(issue.severity)} ${issue.file}`);
         console.log(`   ${issue.message}`);
         if (issue.suggestion) {
           console.log(chalk.dim(`   ${issue.suggestion}`));
         }
         console.log();
       }
+
+      if (issues.some(i => i.fixable)) {
+        console.log(chalk.dim('Run "mcp fix-config" to fix auto-fixable issues'));
+      }
     }
 
     // Summary
+    const sources = await discoverAllSources(cwd);
     console.log(chalk.dim(`\nChecked ${sources.filter(s => s.exists).length} configuration files`));
   }
 
@@ -0,0 +1,306 @@
+/**
+ * Backups commands - Browse, compare and restore configuration backups
+ *
+ * Usage:
+ *   mcp backups list [--file <path>]
+ *   mcp backups show <backup>
+ *   mcp backups diff <backup> [--to <path>]
+ *   mcp backups restore <backup> [--mcp-only] [--to <path>] [--yes]
+ *   mcp backups prune [--dry-run] [--keep-last <n>] [--keep-days <n>] [--max-size <mb>]
+ *
+ * <backup> is a list number (1 = newest), a backup id, or a unique id prefix.
+ */
+
+import { resolve } from 'node:path';
+import chalk from 'chalk';
+import type { BackupEntry, JsonChange } from '@/types/index.js';
+import {
+  diffBackup,
+  findBackup,
+  listBackups,
+  readBackupJson,
+  restoreBackup,
+} from '@/core/backups/backups.js';
+import { pickMcpKeys } from '@/core/backups/diff.js';
+import { enforceBackupRetention } from '@/core/config/writer.js';
+import { getHomeDir } from '@/utils/platform.js';
+
+export interface BackupsOptions {
+  file?: string;
+  to?: string;
+  mcpOnly?: boolean;
+  yes?: boolean;
+  dryRun?: boolean;
+  keepLast?: string;
+  keepDays?: string;
+  maxSize?: string;
+  json?: boolean;
+  quiet?: boolean;
+}
+
+const MAX_VALUE_LENGTH = 60;
+
+function shortenPath(path: string): string {
+  const home = getHomeDir();
+  return path.startsWith(home) ? `~${path.slice(home.length)}` : path;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString('en-AU', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+function formatValue(value: unknown): string {
+  const text = JSON.stringify(value) ?? 'undefined';
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text;
+}
+
+/**
+ * Format a change as one line (+ added, - removed, ~ changed)
+ */
+function formatChange(change: JsonChange): string {
+  switch (change.type) {
+    case 'added':
+      return chalk.green(`+ ${change.path}: ${formatValue(change.after)}`);
+    case 'removed':
+      return chalk.red(`- ${change.path}: ${formatValue(change.before)}`);
+    case 'changed':
+      return chalk.yellow(`~ ${change.path}: ${formatValue(change.before)} → ${formatValue(change.after)}`);
+  }
+}
+
+function requireBackup(ref: string): BackupEntry {
+  try {
+    return findBackup(ref);
+  } catch (error) {
+    console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+    console.log(chalk.dim('Run "mcp backups list" to see available backups'));
+    process.exit(1);
+  }
+}
+
+function parseNumber(value: string | undefined, label: string): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0 || value.trim() === '') {
+    console.error(chalk.red(`Error: Invalid ${label} "${value}"`));
+    process.exit(1);
+  }
+  return parsed;
+}
+
+function fail(error: unknown): never {
+  console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+  process.exit(1);
+}
+
+/**
+ * Interactive prompt for confirmation
+ */
+async function promptConfirm(message: string): Promise<boolean> {
+  const readline = await import('node:readline');
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(`${message} [y/N] `, (answer) => {
+      rl.close();
+      resolve(answer.toLowerCase() === 'y' || answer.toLowerCase() === 'yes');
+    });
+  });
+}
+
+export async function runBackupsList(options: BackupsOptions): Promise<void> {
+  const file = options.file ? resolve(options.file) : undefined;
+  const backups = listBackups()
+    .map((backup, index) => ({ number: index + 1, ...backup }))
+    .filter((backup) => !file || backup.source === file);
+
+  if (options.json) {
+    console.log(JSON.stringify(backups, null, 2));
+    return;
+  }
+
+  if (backups.length === 0) {
+    console.log(chalk.dim(file ? `No backups of ${shortenPath(file)}` : 'No backups found in ~/.claude/backups/'));
+    return;
+  }
+
+  for (const backup of backups) {
+    const source = backup.source ? shortenPath(backup.source) : chalk.yellow('(unknown file)');
+    console.log(`${chalk.yellow(`${backup.number}.`)} ${source} ${chalk.dim(`- ${backup.operation}`)}`);
+    console.log(chalk.dim(`   ${formatDate(backup.createdAt)}  ${formatSize(backup.size)}  ${backup.id}`));
+  }
+}
+
+export async function runBackupsShow(ref: string, options: BackupsOptions): Promise<void> {
+  const backup = requireBackup(ref);
+
+  let mcpKeys: Record<string, unknown>;
+  try {
+    mcpKeys = pickMcpKeys(readBackupJson(backup));
+  } catch (error) {
+    fail(error);
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify({ ...backup, mcp: mcpKeys }, null, 2));
+    return;
+  }
+
+  console.log(chalk.bold(`\nBackup ${backup.id}\n`));
+  console.log(`  File:      ${backup.source ? backup.source : chalk.yellow('(unknown)')}`);
+  console.log(`  Operation: ${backup.operation}${backup.inferred ? chalk.dim(' (inferred from name)') : ''}`);
+  console.log(`  Created:   ${formatDate(backup.createdAt)}`);
+  console.log(`  Size:      ${formatSize(backup.size)}`);
+  console.log(chalk.bold('\nMCP configuration:\n'));
+  console.log(JSON.stringify(mcpKeys, null, 2));
+}
+
+export async function runBackupsDiff(ref: string, options: BackupsOptions): Promise<void> {
+  const backup = requireBackup(ref);
+
+  let diff: ReturnType<typeof diffBackup>;
+  try {
+    diff = diffBackup(backup, options.to ? resolve(options.to) : undefined);
+  } catch (error) {
+    fail(error);
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify({ backup: backup.id, ...diff }, null, 2));
+    return;
+  }
+
+  if (diff.changes.length === 0) {
+    console.log(chalk.green(`✓ MCP configuration in ${shortenPath(diff.target)} matches the backup`));
+    return;
+  }
+
+  console.log(chalk.bold(`\nRestoring ${backup.id} would change ${shortenPath(diff.target)}:\n`));
+  if (!diff.exists) {
+    console.log(chalk.dim('  (file does not exist and would be created)\n'));
+  }
+  for (const change of diff.changes) {
+    console.log(`  ${formatChange(change)}`);
+  }
+}
+
+export async function runBackupsRestore(ref: string, options: BackupsOptions): Promise<void> {
+  const backup = requireBackup(ref);
+  const target = options.to ? resolve(options.to) : undefined;
+
+  let diff: ReturnType<typeof diffBackup> | undefined;
+  try {
+    diff = diffBackup(backup, target);
+  } catch (error) {
+    // Whole-file restores don't need the backup to be valid JSON
+    if (options.mcpOnly || (!backup.source && !target)) fail(error);
+  }
+
+  // A dry run writes nothing, so there is nothing to confirm
+  if (!options.yes && !options.json && !options.dryRun) {
+    if (diff) {
+      console.log(chalk.bold(`\nMCP changes to ${shortenPath(diff.target)}:\n`));
+      for (const change of diff.changes) {
+        console.log(`  ${formatChange(change)}`);
+      }
+      if (diff.changes.length === 0) console.log(chalk.dim('  (none)'));
+      console.log();
+    }
+
+    const scope = options.mcpOnly ? 'MCP settings' : 'the whole file';
+    if (!(await promptConfirm(`Restore ${scope} from ${backup.id}?`))) {
+      console.log(chalk.dim('Cancelled'));
+      return;
+    }
+  }
+
+  let transaction;
+  try {
+    transaction = restoreBackup(backup, { target, mcpOnly: options.mcpOnly });
+  } catch (error) {
+    fail(error);
+  }
+
+  const restored = transaction.files[0]!.path;
+  if (options.json) {
+    console.log(JSON.stringify({
+      backup: backup.id,
+      target: restored,
+      mcpOnly: !!options.mcpOnly,
+      transaction: transaction.id,
+      changes: diff?.changes ?? [],
+    }, null, 2));
+  } else if (!options.quiet) {
+    console.log(chalk.green(`✓ Restored ${shortenPath(restored)} from ${backup.id}`));
+    console.log(chalk.dim('  Undo with: mcp rollback --last'));
+    console.log(chalk.dim('  Restart Claude for changes to take effect'));
+  }
+}
+
+export async function runBackupsPrune(options: BackupsOptions): Promise<void> {
+  const policy = {
+    keepLast: parseNumber(options.keepLast, '--keep-last'),
+    keepDailyDays: parseNumber(options.keepDays, '--keep-days'),
+    maxTotalMB: parseNumber(options.maxSize, '--max-size'),
+  };
+
+  let result: ReturnType<typeof enforceBackupRetention>;
+  try {
+    result = enforceBackupRetention({ dryRun: options.dryRun, policy });
+  } catch (error) {
+    fail(error);
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify({
+      dryRun: !!options.dryRun,
+      policy: result.policy,
+      pruned: result.pruned.map((set) => set.id),
+      kept: result.kept.length,
+      freed: result.freed,
+    }, null, 2));
+    return;
+  }
+
+  const { keepLast, keepDailyDays, maxTotalMB } = result.policy;
+  console.log(chalk.dim(
+    `Policy: keep last ${keepLast} per file, daily for ${keepDailyDays} days, ` +
+    (maxTotalMB > 0 ? `at most ${maxTotalMB}MB` : 'no size cap')
+  ));
+
+  if (result.pruned.length === 0) {
+    console.log(chalk.green(`✓ Nothing to prune (${result.kept.length} backups kept)`));
+    return;
+  }
+
+  if (!options.quiet) {
+    for (const set of result.pruned) {
+      console.log(chalk.dim(`  ${options.dryRun ? 'would delete' : 'deleted'} ${set.id} (${formatSize(set.size)})`));
+    }
+  }
+
+  const verb = options.dryRun ? 'Would prune' : 'Pruned';
+  console.log(chalk.green(
+    `${options.dryRun ? '' : '✓ '}${verb} ${result.pruned.length} backups, freeing ${formatSize(result.freed)} ` +
+    `(${result.kept.length} kept)`
+  ));
+  if (options.dryRun) {
+    console.log(chalk.dim('Run without --dry-run to delete them'));
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Budget command - Keep the enabled servers' tools within a token budget
+ *
+ * Usage: mcp budget [--max-tokens <n>] [--save] [--pin <server>] [--apply]
+ */
+
+import chalk from 'chalk';
+import type { BudgetPlan, Server } from '@/types/index.js';
+import { extractRawDefinitions } from '@/core/config/discovery.js';
+import { resolveServers } from '@/core/config/precedence.js';
+import { saveServerStates } from '@/core/config/state.js';
+import { applyToggle, getDisplayState } from '@/core/servers/toggle.js';
+import { getServerInventories } from '@/core/mcp/probe.js';
+import { loadBudgetConfig, planBudget, saveBudgetConfig } from '@/core/budget/budget.js';
+import { resolveProjectDir, type ProjectOptions } from '@/cli/project.js';
+
+export interface BudgetOptions extends ProjectOptions {
+  maxTokens?: string;
+  save?: boolean;
+  pin?: string[];
+  unpin?: string[];
+  apply?: boolean;
+  state?: string;
+  refresh?: boolean;
+  timeout?: string;
+  json?: boolean;
+  quiet?: boolean;
+}
+
+function parsePositiveInt(value: string, label: string): number {
+  const parsed = parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed <= 0 || String(parsed) !== value.trim()) {
+    console.error(chalk.red(`Error: Invalid ${label} "${value}"`));
+    process.exit(1);
+  }
+  return parsed;
+}
+
+function printPlan(plan: BudgetPlan, pinned: string[], targetState: 'red' | 'orange'): void {
+  const color = plan.overBudget ? chalk.red : chalk.green;
+
+  console.log(chalk.bold('\nContext Budget\n'));
+  console.log(`  Enabled servers: ${color(`~${plan.totalTokens}`)} / ${plan.maxTokens} tokens`);
+  if (pinned.length > 0) {
+    console.log(chalk.dim(`  Pinned: ${pinned.join(', ')}`));
+  }
+  if (plan.unknown.length > 0) {
+    console.log(chalk.yellow(`  ⚠ Not counted (could not inspect): ${plan.unknown.join(', ')}`));
+  }
+  console.log();
+
+  if (!plan.overBudget) {
+    console.log(chalk.green('✓ Within budget'));
+    return;
+  }
+
+  console.log(chalk.red(`✗ Over budget by ~${plan.totalTokens - plan.maxTokens} tokens`));
+
+  if (plan.suggestions.length > 0) {
+    console.log(`\nSuggested (→ ${targetState === 'red' ? 'RED' : 'ORANGE'}):`);
+    for (const s of plan.suggestions) {
+      console.log(`  ${s.server}  ${chalk.dim(`~${s.tokens} tokens`)}`);
+    }
+    console.log(chalk.dim(`\n  Total after: ~${plan.totalAfter} tokens`));
+  }
+
+  if (!plan.achievable) {
+    console.log(chalk.yellow('\n⚠ Budget cannot be met without disabling pinned or enterprise-managed servers'));
+  }
+}
+
+export async function runBudget(options: BudgetOptions): Promise<void> {
+  const cwd = resolveProjectDir(options);
+  const targetState = options.state ?? 'red';
+
+  if (targetState !== 'red' && targetState !== 'orange') {
+    console.error(chalk.red(`Error: Invalid state "${targetState}" (expected red or orange)`));
+    process.exit(1);
+  }
+
+  let config = await loadBudgetConfig();
+
+  // Update pins and the saved budget first
+  if (options.pin?.length || options.unpin?.length || options.save) {
+    const pinned = (config.pinned ?? [])
+      .concat(options.pin ?? [])
+      .filter((name) => !(options.unpin ?? []).includes(name));
+    const maxTokens = options.save && options.maxTokens
+      ? parsePositiveInt(options.maxTokens, '--max-tokens')
+      : config.maxTokens;
+
+    config = await saveBudgetConfig({ pinned, maxTokens });
+  }
+
+  const maxTokens = options.maxTokens
+    ? parsePositiveInt(options.maxTokens, '--max-tokens')
+    : config.maxTokens;
+
+  if (!maxTokens) {
+    console.error(chalk.red('Error: No budget configured'));
+    console.log('Usage: mcp budget --max-tokens <n> [--save]');
+    process.exit(1);
+  }
+
+  const pinned = config.pinned ?? [];
+  let servers: Server[] = resolveServers(await extractRawDefinitions(cwd));
+
+  const { inventories } = await getServerInventories(
+    servers.filter((s) => getDisplayState(s) === 'green'),
+    {
+      cwd,
+      refresh: options.refresh,
+      timeoutMs: options.timeout ? parsePositiveInt(options.timeout, '--timeout') : undefined,
+    }
+  );
+
+  const plan = planBudget(servers, inventories, maxTokens, pinned);
+
+  let applied: string[] = [];
+  if (options.apply && plan.suggestions.length > 0) {
+    applied = plan.suggestions.map((s) => s.server);
+    servers = servers.map((s) => (applied.includes(s.name) ? applyToggle(s, targetState) : s));
+
+    const { errors } = await saveServerStates(servers, cwd);
+    if (errors.length > 0) {
+      for (const error of errors) console.error(chalk.red(error));
+      process.exit(1);
+    }
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify({ ...plan, pinned, applied, state: targetState }, null, 2));
+  } else if (!options.quiet) {
+    printPlan(plan, pinned, targetState);
+
+    if (applied.length > 0) {
+      console.log(chalk.green(`\n✓ Moved ${applied.length} server(s) to ${targetState === 'red' ? 'RED' : 'ORANGE'}`));
+    } else if (plan.suggestions.length > 0) {
+      console.log(chalk.dim('\nRun with --apply to make these changes'));
+    }
+  }
+
+  // Over budget is a failure for scripts unless the suggestions fixed it
+  if (plan.overBudget && !(applied.length > 0 && plan.achievable)) {
+    process.exit(1);
+  }
+}
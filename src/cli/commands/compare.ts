@@ -10,6 +10,7 @@ import { exec } from 'node:child_process';
 import { promisify } from 'node:util';
 import { extractRawDefinitions } from '@/core/config/discovery.js';
 import { resolveServers } from '@/core/config/precedence.js';
+import { resolveProject, type ProjectOptions } from '@/cli/project.js';
 
 const execAsync = promisify(exec);
 
@@ -64,13 +65,15 @@ function toClaudeFormat(ourName: string): string | null {
   return `plugin:${pluginName}:${serverKey}`;
 }
 
-export async function runCompare(): Promise<void> {
+export async function runCompare(options: ProjectOptions = {}): Promise<void> {
+  const project = resolveProject(options);
   console.log(chalk.dim('Comparing with Claude Code...\n'));
 
   // Get Claude's server list
   let claudeOutput: string;
   try {
     const { stdout } = await execAsync('claude mcp list 2>&1', {
+      cwd: project.start,
       timeout: 30000,
     });
     claudeOutput = stdout;
@@ -83,8 +86,7 @@ export async function runCompare(): Promise<void> {
   const claudeServers = parseClaudeOutput(claudeOutput);
 
   // Get our tool's server list
-  const cwd = process.cwd();
-  const rawData = await extractRawDefinitions(cwd);
+  const rawData = await extractRawDefinitions(project.root);
   const ourServers = resolveServers(rawData);
 
   // Filter to only plugin servers that are GREEN (enabled and running)
@@ -1,21 +1,105 @@
 /**
  * Context report command - Show current context and configuration summary
+ *
+ * With --tokens, lists the tools of each enabled server and the estimated
+ * context cost of the enabled set (inventories are cached, see core/mcp/inventory.ts).
  */
 
 import { discoverAllSources, extractRawDefinitions } from '@/core/config/discovery.js';
 import { resolveServers } from '@/core/config/precedence.js';
-import { detectPlatform } from '@/utils/platform.js';
+import { getDisplayState } from '@/core/servers/toggle.js';
+import { getServerInventories } from '@/core/mcp/probe.js';
+import { sumTokens } from '@/core/mcp/inventory.js';
+import { detectPlatform, normaliseProjectPath } from '@/utils/platform.js';
+import type { ProjectRoot } from '@/utils/project.js';
+import { resolveProject, type ProjectOptions } from '@/cli/project.js';
 import chalk from 'chalk';
 
-export async function runContextReport(): Promise<void> {
-  const cwd = process.cwd();
+export interface ContextReportOptions extends ProjectOptions {
+  tokens?: boolean;
+  refresh?: boolean;
+  timeout?: string;
+  json?: boolean;
+}
+
+async function runTokenReport(project: ProjectRoot, options: ContextReportOptions): Promise<void> {
+  const cwd = project.root;
+  const rawData = await extractRawDefinitions(cwd);
+  // ORANGE servers are not started, so they cost nothing
+  const enabled = resolveServers(rawData).filter((s) => getDisplayState(s) === 'green');
+
+  const timeoutMs = options.timeout ? parseInt(options.timeout, 10) : undefined;
+  const { inventories, failures } = await getServerInventories(enabled, {
+    cwd,
+    timeoutMs,
+    refresh: options.refresh,
+  });
+
+  const ranked = Object.values(inventories).sort((a, b) => b.tokens - a.tokens);
+  const totalTokens = sumTokens(ranked);
+  const totalTools = ranked.reduce((sum, inv) => sum + inv.tools.length, 0);
+
+  if (options.json) {
+    console.log(JSON.stringify({
+      project: { root: project.root, key: project.key },
+      totalTokens,
+      totalTools,
+      servers: ranked,
+      unavailable: failures.map((f) => ({ server: f.server, status: f.status, error: f.error })),
+    }, null, 2));
+    return;
+  }
+
+  console.log(chalk.bold('\nContext Cost (enabled servers)'));
+  console.log(chalk.dim(`Project: ${project.root}\n`));
+
+  if (ranked.length === 0 && failures.length === 0) {
+    console.log(chalk.dim('  (no enabled servers)'));
+    return;
+  }
+
+  const width = Math.max(10, ...ranked.map((inv) => inv.server.length), ...failures.map((f) => f.server.length));
+  console.log(chalk.dim(`  ${'Server'.padEnd(width)}  ${'Tools'.padStart(5)}  ${'~Tokens'.padStart(8)}`));
+
+  for (const inv of ranked) {
+    console.log(`  ${inv.server.padEnd(width)}  ${String(inv.tools.length).padStart(5)}  ${String(inv.tokens).padStart(8)}`);
+  }
+  for (const failure of failures) {
+    console.log(`  ${failure.server.padEnd(width)}  ${chalk.red(`unavailable (${failure.status})`)} ${chalk.dim(failure.error ?? '')}`);
+  }
+
+  console.log(chalk.dim(`  ${'─'.repeat(width + 17)}`));
+  console.log(chalk.bold(`  ${'Total'.padEnd(width)}  ${String(totalTools).padStart(5)}  ${String(totalTokens).padStart(8)}`));
+
+  if (failures.length > 0) {
+    console.log(chalk.yellow(`\n⚠ ${failures.length} server(s) could not be inspected and are not counted`));
+  }
+  console.log(chalk.dim('\nEstimates use ~4 characters per token. Use --refresh to re-inspect cached servers.'));
+}
+
+export async function runContextReport(options: ContextReportOptions = {}): Promise<void> {
+  const project = resolveProject(options);
+  const cwd = project.root;
+
+  if (options.tokens) {
+    await runTokenReport(project, options);
+    return;
+  }
   const platform = detectPlatform();
 
   console.log(chalk.bold('\nContext Report\n'));
 
   // Platform info
   console.log(chalk.cyan('Platform:'), platform);
-  console.log(chalk.cyan('Working directory:'), cwd);
+  console.log(chalk.cyan('Working directory:'), project.start);
+  console.log(
+    chalk.cyan('Project root:'),
+    project.root,
+    chalk.dim(project.marker ? `(nearest ${project.marker})` : '(no .git or .claude found, using the working directory)')
+  );
+  if (project.key !== normaliseProjectPath(project.root)) {
+    console.log(chalk.cyan('Project key:'), project.key, chalk.dim('(in ~/.claude.json)'));
+  }
   console.log();
 
   // Discover sources
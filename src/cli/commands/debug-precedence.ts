@@ -5,9 +5,10 @@
 import { extractRawDefinitions } from '@/core/config/discovery.js';
 import { tracePrecedence } from '@/core/config/precedence.js';
 import chalk from 'chalk';
+import { resolveProjectDir, type ProjectOptions } from '@/cli/project.js';
 
-export async function runDebugPrecedence(serverName: string): Promise<void> {
-  const cwd = process.cwd();
+export async function runDebugPrecedence(serverName: string, options: ProjectOptions = {}): Promise<void> {
+  const cwd = resolveProjectDir(options);
   const rawData = await extractRawDefinitions(cwd);
 
   const trace = tracePrecedence(serverName, rawData);
@@ -3,77 +3,42 @@
  */
 
 import chalk from 'chalk';
-import { extractRawDefinitions } from '@/core/config/discovery.js';
-import { resolveServers } from '@/core/config/precedence.js';
-import { saveServerStates } from '@/core/config/state.js';
-import { disableServer, applyToggle, disableAllServers } from '@/core/servers/toggle.js';
+import { applyServerAction } from '@/core/config/actions.js';
+import { isSelectorEmpty, parseSelector, type ServerSelector } from '@/core/servers/selector.js';
+import { resolveProjectDir, type ProjectOptions } from '@/cli/project.js';
 
-export interface DisableOptions {
+export interface DisableOptions extends ProjectOptions {
   all?: boolean;
   json?: boolean;
   quiet?: boolean;
-}
-
-interface DisableResult {
-  server: string;
-  success: boolean;
-  error?: string;
+  source?: string;
+  scope?: string;
+  transport?: string;
+  state?: string;
 }
 
 export async function runDisable(
   serverNames: string[],
   options: DisableOptions
 ): Promise<void> {
-  const cwd = process.cwd();
-
-  // Load current state
-  const rawData = await extractRawDefinitions(cwd);
-  let servers = resolveServers(rawData);
-
-  const results: DisableResult[] = [];
-
-  if (options.all) {
-    // Disable all servers
-    servers = disableAllServers(servers);
+  const cwd = resolveProjectDir(options);
 
-    for (const server of servers) {
-      if (!server.flags.enterprise) {
-        results.push({ server: server.name, success: true });
-      }
-    }
+  let selector: ServerSelector;
+  try {
+    selector = parseSelector(serverNames, options);
+  } catch (error) {
+    console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+    process.exit(1);
+  }
 
-    if (!options.quiet && !options.json) {
-      console.log(chalk.yellow(`Disabled ${results.length} servers`));
-    }
-  } else if (serverNames.length === 0) {
+  if (!options.all && isSelectorEmpty(selector)) {
     console.error(chalk.red('Error: No servers specified'));
-    console.log('Usage: mcp disable <server1> [server2] ...');
+    console.log('Usage: mcp disable <server|pattern> [...] [--source|--scope|--transport|--state <values>]');
     console.log('       mcp disable --all');
     process.exit(1);
-  } else {
-    // Disable specific servers
-    for (const name of serverNames) {
-      const server = servers.find((s) => s.name === name);
-
-      if (!server) {
-        results.push({ server: name, success: false, error: 'Not found' });
-        continue;
-      }
-
-      const result = disableServer(server);
-
-      if (result.success && result.newState) {
-        const index = servers.findIndex((s) => s.name === name);
-        servers[index] = applyToggle(server, result.newState);
-        results.push({ server: name, success: true });
-      } else {
-        results.push({ server: name, success: false, error: result.reason });
-      }
-    }
   }
 
-  // Save changes
-  const { errors } = await saveServerStates(servers, cwd);
+  const { results, errors } = await applyServerAction(cwd, 'disable', selector, { all: options.all });
 
   if (errors.length > 0) {
     for (const error of errors) {
@@ -81,6 +46,10 @@ export async function runDisable(
     }
   }
 
+  if (options.all && isSelectorEmpty(selector) && !options.quiet && !options.json) {
+    console.log(chalk.yellow(`Disabled ${results.length} servers`));
+  }
+
   // Output results
   if (options.json) {
     console.log(JSON.stringify({
@@ -89,6 +58,9 @@ export async function runDisable(
       results,
     }, null, 2));
   } else if (!options.quiet) {
+    if (results.length === 0) {
+      console.log(chalk.dim('No matching servers'));
+    }
     for (const r of results) {
       if (r.success) {
         console.log(chalk.yellow('○'), r.server);
@@ -0,0 +1,100 @@
+/**
+ * Doctor command - Check that servers actually start and answer
+ *
+ * Runs the MCP initialize handshake against each enabled server (or the
+ * named one) and reports connected, failed or timed out.
+ *
+ * Usage: mcp doctor [server] [--all] [--timeout <ms>] [--json]
+ */
+
+import chalk from 'chalk';
+import type { HealthCheckResult, HealthStatus, Server } from '@/types/index.js';
+import { extractRawDefinitions } from '@/core/config/discovery.js';
+import { resolveServers } from '@/core/config/precedence.js';
+import { DEFAULT_PROBE_TIMEOUT_MS, probeServers } from '@/core/mcp/probe.js';
+import { resolveProjectDir, type ProjectOptions } from '@/cli/project.js';
+
+export interface DoctorOptions extends ProjectOptions {
+  all?: boolean;
+  timeout?: string;
+  json?: boolean;
+}
+
+const statusLabels: Record<HealthStatus, string> = {
+  connected: chalk.green('✓ connected'),
+  failed: chalk.red('✗ failed'),
+  timeout: chalk.yellow('⏱ timeout'),
+};
+
+function printResult(result: HealthCheckResult, width: number): void {
+  const name = result.server.padEnd(width);
+  const transport = chalk.dim(result.transport.padEnd(5));
+  const latency = chalk.dim(`${result.latencyMs}ms`);
+
+  let detail = '';
+  if (result.status === 'connected' && result.serverInfo) {
+    const { name: infoName, version } = result.serverInfo;
+    detail = chalk.dim(` ${infoName}${version ? ` ${version}` : ''}`);
+  }
+
+  console.log(`  ${name}  ${transport}  ${statusLabels[result.status]} ${latency}${detail}`);
+  if (result.error) {
+    console.log(chalk.dim(`  ${' '.repeat(width)}  ${result.error}`));
+  }
+}
+
+export async function runDoctor(serverName: string | undefined, options: DoctorOptions): Promise<void> {
+  const cwd = resolveProjectDir(options);
+  const timeoutMs = options.timeout ? parseInt(options.timeout, 10) : DEFAULT_PROBE_TIMEOUT_MS;
+
+  if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+    console.error(chalk.red(`Error: Invalid timeout "${options.timeout}"`));
+    process.exit(1);
+  }
+
+  const rawData = await extractRawDefinitions(cwd);
+  const servers = resolveServers(rawData);
+
+  let targets: Server[];
+  if (serverName) {
+    const server = servers.find((s) => s.name === serverName);
+    if (!server) {
+      console.error(chalk.red(`Error: Server "${serverName}" not found`));
+      process.exit(1);
+    }
+    targets = [server];
+  } else {
+    targets = options.all ? servers : servers.filter((s) => s.state === 'on');
+  }
+
+  const probeable = targets.filter((s) => s.definition);
+  const results = await probeServers(
+    probeable.map((s) => ({ name: s.name, definition: s.definition!, sourceType: s.sourceType })),
+    { timeoutMs, cwd }
+  );
+  const unhealthy = results.filter((r) => r.status !== 'connected');
+
+  if (options.json) {
+    console.log(JSON.stringify({ results, healthy: unhealthy.length === 0 }, null, 2));
+  } else {
+    console.log(chalk.bold('\nServer Health\n'));
+
+    if (results.length === 0) {
+      console.log(chalk.dim(serverName ? '  (no definition to probe)' : '  (no enabled servers)'));
+    } else {
+      const width = Math.max(...results.map((r) => r.server.length));
+      results.forEach((r) => printResult(r, width));
+    }
+
+    console.log();
+    if (unhealthy.length === 0) {
+      console.log(chalk.green(`✓ ${results.length} server(s) healthy`));
+    } else {
+      console.log(chalk.red(`✗ ${unhealthy.length} of ${results.length} server(s) unhealthy`));
+    }
+  }
+
+  if (unhealthy.length > 0) {
+    process.exit(1);
+  }
+}
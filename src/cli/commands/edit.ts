@@ -0,0 +1,106 @@
+/**
+ * Edit command - Change a server definition in place
+ *
+ * Usage: mcp edit <server> --set args[1]=--verbose --env API_KEY=abc
+ */
+
+import chalk from 'chalk';
+import type { ServerDefinition } from '@/types/index.js';
+import {
+  editServerDefinition,
+  parseAssignment,
+  parseKeyValueList,
+  type DefinitionEdit,
+} from '@/core/servers/definitions.js';
+import { resolveProjectDir, type ProjectOptions } from '@/cli/project.js';
+
+export interface EditOptions extends ProjectOptions {
+  set?: string[];
+  unset?: string[];
+  env?: string[];
+  header?: string[];
+  json?: boolean;
+  quiet?: boolean;
+}
+
+/**
+ * Convert command-line options to definition edits
+ *
+ * @returns Edits, or an error message for the first malformed option
+ */
+function collectEdits(options: EditOptions): DefinitionEdit[] | string {
+  const edits: DefinitionEdit[] = [];
+
+  for (const assignment of options.set ?? []) {
+    const edit = parseAssignment(assignment);
+    if (!edit) return `Invalid --set "${assignment}" (expected path=value)`;
+    edits.push(edit);
+  }
+
+  for (const entry of options.env ?? []) {
+    const parsed = parseAssignment(entry);
+    if (!parsed) return `Invalid --env "${entry}" (expected KEY=value)`;
+    edits.push({ path: `env.${parsed.path}`, value: parsed.value });
+  }
+
+  for (const entry of options.header ?? []) {
+    const parsed = Object.entries(parseKeyValueList(entry, ':') ?? {});
+    if (parsed.length !== 1) return `Invalid --header "${entry}" (expected "Name: value")`;
+    const [name, value] = parsed[0]!;
+    edits.push({ path: `headers.${name}`, value });
+  }
+
+  for (const path of options.unset ?? []) {
+    edits.push({ path });
+  }
+
+  return edits;
+}
+
+function printDefinitionChanges(before: ServerDefinition, after: ServerDefinition): void {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+  for (const key of keys) {
+    const oldValue = JSON.stringify(before[key as keyof ServerDefinition]);
+    const newValue = JSON.stringify(after[key as keyof ServerDefinition]);
+    if (oldValue === newValue) continue;
+
+    if (oldValue !== undefined) console.log(chalk.red(`   - ${key}: ${oldValue}`));
+    if (newValue !== undefined) console.log(chalk.green(`   + ${key}: ${newValue}`));
+  }
+}
+
+export async function runEdit(serverName: string, options: EditOptions): Promise<void> {
+  const edits = collectEdits(options);
+
+  if (typeof edits === 'string') {
+    console.error(chalk.red(`Error: ${edits}`));
+    process.exit(1);
+  }
+
+  if (edits.length === 0) {
+    console.error(chalk.red('Error: No changes specified'));
+    console.log('Usage: mcp edit <server> --set <path=value> [--unset <path>] [--env KEY=value] [--header "Name: value"]');
+    console.log(chalk.dim('Paths: command, url, type, args, args[N], env.KEY, headers.NAME'));
+    process.exit(1);
+  }
+
+  try {
+    const result = await editServerDefinition(serverName, edits, resolveProjectDir(options));
+
+    if (options.json) {
+      console.log(JSON.stringify({ server: serverName, ...result }, null, 2));
+    } else if (!options.quiet) {
+      console.log(chalk.green(`✓ Updated "${serverName}" in ${result.file}`));
+      printDefinitionChanges(result.before, result.after);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (options.json) {
+      console.log(JSON.stringify({ server: serverName, error: message }, null, 2));
+    } else {
+      console.error(chalk.red(`Error: ${message}`));
+    }
+    process.exit(1);
+  }
+}
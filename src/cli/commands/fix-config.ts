@@ -4,178 +4,170 @@
  * Detects and fixes common configuration problems:
  * - Control arrays in wrong locations (enabledMcpjsonServers in wrong file)
  * - enabledPlugins[name] = false (should be omitted instead)
+ * - disabledMcpServers nested at the wrong level of ~/.claude.json
  * - Orphaned references in control arrays
+ *
+ * Detection is shared with the audit command (core/config/audit.ts).
  */
 
-import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'node:fs';
-import { homedir } from 'node:os';
-import { join } from 'node:path';
 import chalk from 'chalk';
-import { discoverAllSources } from '@/core/config/discovery.js';
-import { validateJsonSyntax } from '@/core/config/parser.js';
-import type { AuditIssue } from '@/types/index.js';
-
-export interface FixConfigOptions {
+import { auditConfiguration } from '@/core/config/audit.js';
+import { atomicWriteJson, createBackup } from '@/core/config/writer.js';
+import { parseJsonc } from '@/core/config/jsonc.js';
+import { readTextFile } from '@/core/config/dry-run.js';
+import type { AuditIssue, SettingsSchema } from '@/types/index.js';
+import { resolveProjectDir, type ProjectOptions } from '@/cli/project.js';
+
+export interface FixConfigOptions extends ProjectOptions {
   apply?: boolean;
+  dryRun?: boolean;
 }
 
 interface DetectedIssue extends AuditIssue {
   fix?: () => Promise<boolean>;
 }
 
+/**
+ * Build the fix action for an audit issue from its fixType/fixData
+ */
+function createFix(issue: AuditIssue): (() => Promise<boolean>) | undefined {
+  const data = issue.fixData ?? {};
+
+  switch (issue.fixType) {
+    case 'remove-key':
+      return () => removeKeyFromFile(issue.file, data.key as string, (data.path as string[]) ?? []);
+    case 'remove-explicit-false':
+      return () => removePluginExplicitFalse(issue.file, data.pluginName as string);
+    case 'move-array':
+      return () => moveArrayInFile(issue.file, data.from as string[], data.to as string[]);
+    case 'remove-array-entry':
+      return () => removeArrayEntryFromFile(
+        issue.file,
+        data.key as string,
+        data.value as string,
+        (data.path as string[]) ?? []
+      );
+    default:
+      return undefined;
+  }
+}
+
 /**
  * Detect all fixable configuration issues
  */
 async function detectIssues(cwd: string): Promise<DetectedIssue[]> {
-  const sources = await discoverAllSources(cwd);
-  const issues: DetectedIssue[] = [];
-
-  // Check 1: JSON syntax errors (not auto-fixable)
-  for (const source of sources) {
-    if (!source.exists) continue;
-
-    const result = await validateJsonSyntax(source.path);
-    if (!result.valid) {
-      issues.push({
-        severity: 'error',
-        file: source.path,
-        message: `Invalid JSON: ${result.error}`,
-        suggestion: result.line
-          ? `Check line ${result.line}, column ${result.column}`
-          : 'Fix JSON syntax manually',
-        fixable: false,
-      });
-    }
-  }
+  const { issues } = await auditConfiguration(cwd);
+  return issues.map((issue) => ({
+    ...issue,
+    fix: issue.fixable ? createFix(issue) : undefined,
+  }));
+}
 
-  // Check 2: Control arrays in wrong locations
-  const mcpjsonControlArrays = ['enabledMcpjsonServers', 'disabledMcpjsonServers', 'enableAllProjectMcpServers'];
-  const settingsFiles = sources.filter(s =>
-    s.exists &&
-    (s.path.includes('settings.json') || s.path.includes('settings.local.json'))
-  );
-  const nonSettingsFiles = sources.filter(s =>
-    s.exists &&
-    !s.path.includes('settings.json') &&
-    !s.path.includes('settings.local.json')
-  );
-
-  for (const source of nonSettingsFiles) {
-    try {
-      const content = JSON.parse(readFileSync(source.path, 'utf-8'));
-      for (const arrayName of mcpjsonControlArrays) {
-        if (content[arrayName] !== undefined) {
-          issues.push({
-            severity: 'warning',
-            file: source.path,
-            message: `"${arrayName}" found in wrong location`,
-            suggestion: `This array only works in .claude/settings*.json files`,
-            fixable: true,
-            fixType: 'remove-key',
-            fixData: { key: arrayName },
-            fix: async () => {
-              return await removeKeyFromFile(source.path, arrayName);
-            },
-          });
-        }
-      }
-    } catch {
-      // JSON parse error already caught above
-    }
+/**
+ * Read a JSON file, including fixes made earlier in a dry run
+ */
+function readJsonFile(filePath: string) {
+  const content = readTextFile(filePath);
+  if (content === null) {
+    throw new Error('file not found');
   }
+  return parseJsonc<SettingsSchema>(content);
+}
 
-  // Check 3: enabledPlugins[name] = false (should be omitted)
-  for (const source of settingsFiles) {
-    try {
-      const content = JSON.parse(readFileSync(source.path, 'utf-8'));
-      if (content.enabledPlugins && typeof content.enabledPlugins === 'object') {
-        for (const [pluginName, value] of Object.entries(content.enabledPlugins)) {
-          if (value === false) {
-            issues.push({
-              severity: 'warning',
-              file: source.path,
-              message: `enabledPlugins["${pluginName}"] = false makes plugin invisible`,
-              suggestion: `Remove the entry to allow plugin to be re-enabled`,
-              fixable: true,
-              fixType: 'remove-explicit-false',
-              fixData: { pluginName },
-              fix: async () => {
-                return await removePluginExplicitFalse(source.path, pluginName);
-              },
-            });
-          }
-        }
-      }
-    } catch {
-      // JSON parse error already caught above
-    }
-  }
+/**
+ * Write a fixed JSON file atomically, editing only the keys that changed
+ */
+function writeFixedFile(filePath: string, content: unknown): void {
+  atomicWriteJson(filePath, content);
+}
 
-  // Check 4: disabledMcpServers in wrong location
-  for (const source of settingsFiles) {
-    try {
-      const content = JSON.parse(readFileSync(source.path, 'utf-8'));
-      if (content.disabledMcpServers !== undefined) {
-        issues.push({
-          severity: 'warning',
-          file: source.path,
-          message: `"disabledMcpServers" found in wrong location`,
-          suggestion: `This array only works in ~/.claude.json (root or .projects[cwd])`,
-          fixable: true,
-          fixType: 'remove-key',
-          fixData: { key: 'disabledMcpServers' },
-          fix: async () => {
-            return await removeKeyFromFile(source.path, 'disabledMcpServers');
-          },
-        });
-      }
-    } catch {
-      // JSON parse error already caught above
-    }
+/**
+ * Walk a key path from the root of a parsed JSON file
+ */
+function getAtPath(content: unknown, path: string[]): Record<string, unknown> | undefined {
+  let current = content;
+  for (const segment of path) {
+    if (typeof current !== 'object' || current === null) return undefined;
+    current = (current as Record<string, unknown>)[segment];
   }
-
-  return issues;
+  return typeof current === 'object' && current !== null
+    ? current as Record<string, unknown>
+    : undefined;
 }
 
 /**
- * Create a backup of a file before modifying
+ * Remove a key from a JSON file (optionally from a nested object)
  */
-async function createBackup(filePath: string): Promise<string | null> {
-  if (!existsSync(filePath)) return null;
+async function removeKeyFromFile(filePath: string, key: string, path: string[] = []): Promise<boolean> {
+  try {
+    const content = readJsonFile(filePath);
+    const parent = getAtPath(content, path);
+    if (!parent || parent[key] === undefined) return true;
+
+    createBackup(filePath, 'fix-config');
+    delete parent[key];
 
-  const backupDir = join(homedir(), '.claude', 'backups');
-  if (!existsSync(backupDir)) {
-    mkdirSync(backupDir, { recursive: true });
+    writeFixedFile(filePath, content);
+    return true;
+  } catch (error) {
+    console.error(chalk.red(`Failed to remove "${key}" from ${filePath}: ${error}`));
+    return false;
   }
+}
+
+/**
+ * Move an array to another key path, merging with any existing entries
+ */
+async function moveArrayInFile(filePath: string, from: string[], to: string[]): Promise<boolean> {
+  try {
+    const content = readJsonFile(filePath);
+    const fromKey = from[from.length - 1]!;
+    const fromParent = getAtPath(content, from.slice(0, -1));
+    const entries = fromParent?.[fromKey];
+    if (!fromParent || !Array.isArray(entries)) return true;
+
+    const toKey = to[to.length - 1]!;
+    const toParent = getAtPath(content, to.slice(0, -1));
+    if (!toParent) {
+      console.error(chalk.red(`Failed to move ${from.join('.')}: ${to.slice(0, -1).join('.')} not found`));
+      return false;
+    }
 
-  const timestamp = Date.now();
-  const fileName = filePath.replace(/[\/\\]/g, '_');
-  const backupPath = join(backupDir, `${fileName}.${timestamp}.backup`);
+    createBackup(filePath, 'fix-config');
+    const existing = Array.isArray(toParent[toKey]) ? toParent[toKey] as unknown[] : [];
+    toParent[toKey] = [...new Set([...existing, ...entries])];
+    delete fromParent[fromKey];
 
-  writeFileSync(backupPath, readFileSync(filePath));
-  return backupPath;
+    writeFixedFile(filePath, content);
+    return true;
+  } catch (error) {
+    console.error(chalk.red(`Failed to move ${from.join('.')} in ${filePath}: ${error}`));
+    return false;
+  }
 }
 
 /**
- * Remove a key from a JSON file
+ * Remove a single entry from an array in a JSON file
  */
-async function removeKeyFromFile(filePath: string, key: string): Promise<boolean> {
+async function removeArrayEntryFromFile(
+  filePath: string,
+  key: string,
+  value: string,
+  path: string[] = []
+): Promise<boolean> {
   try {
-    const content = JSON.parse(readFileSync(filePath, 'utf-8'));
-    if (content[key] === undefined) return true;
-
-    await createBackup(filePath);
-    delete content[key];
+    const content = readJsonFile(filePath);
+    const parent = getAtPath(content, path);
+    const entries = parent?.[key];
+    if (!parent || !Array.isArray(entries) || !entries.includes(value)) return true;
 
-    // Atomic write
-    const tempPath = `${filePath}.tmp.${Date.now()}`;
-    writeFileSync(tempPath, JSON.stringify(content, null, 2));
-    const { renameSync } = await import('node:fs');
-    renameSync(tempPath, filePath);
+    createBackup(filePath, 'fix-config');
+    parent[key] = entries.filter((entry) => entry !== value);
 
+    writeFixedFile(filePath, content);
     return true;
   } catch (error) {
-    console.error(chalk.red(`Failed to remove "${key}" from ${filePath}: ${error}`));
+    console.error(chalk.red(`Failed to remove "${value}" from ${key} in ${filePath}: ${error}`));
     return false;
   }
 }
@@ -185,12 +177,12 @@ async function removeKeyFromFile(filePath: string, key: string): Promise<boolean
  */
 async function removePluginExplicitFalse(filePath: string, pluginName: string): Promise<boolean> {
   try {
-    const content = JSON.parse(readFileSync(filePath, 'utf-8'));
+    const content = readJsonFile(filePath);
     if (!content.enabledPlugins || content.enabledPlugins[pluginName] !== false) {
       return true;
     }
 
-    await createBackup(filePath);
+    createBackup(filePath, 'fix-config');
     delete content.enabledPlugins[pluginName];
 
     // Clean up empty enabledPlugins object
@@ -198,12 +190,7 @@ async function removePluginExplicitFalse(filePath: string, pluginName: string):
       delete content.enabledPlugins;
     }
 
-    // Atomic write
-    const tempPath = `${filePath}.tmp.${Date.now()}`;
-    writeFileSync(tempPath, JSON.stringify(content, null, 2));
-    const { renameSync } = await import('node:fs');
-    renameSync(tempPath, filePath);
-
+    writeFixedFile(filePath, content);
     return true;
   } catch (error) {
     console.error(chalk.red(`Failed to fix enabledPlugins in ${filePath}: ${error}`));
@@ -230,7 +217,7 @@ async function promptConfirm(message: string): Promise<boolean> {
 }
 
 export async function runFixConfig(options: FixConfigOptions): Promise<void> {
-  const cwd = process.cwd();
+  const cwd = resolveProjectDir(options);
 
   console.log(chalk.cyan('Scanning for configuration issues...\n'));
 
@@ -244,12 +231,14 @@ export async function runFixConfig(options: FixConfigOptions): Promise<void> {
   // Separate fixable and non-fixable issues
   const fixableIssues = issues.filter(i => i.fixable && i.fix);
   const nonFixableIssues = issues.filter(i => !i.fixable);
+  const manualErrors = nonFixableIssues.filter(i => i.severity === 'error');
 
   // Display non-fixable issues
   if (nonFixableIssues.length > 0) {
     console.log(chalk.red(`Found ${nonFixableIssues.length} issue(s) requiring manual fix:\n`));
     for (const issue of nonFixableIssues) {
-      console.log(chalk.red('✗') + ` ${issue.file}`);
+      const icon = issue.severity === 'error' ? chalk.red('✗') : chalk.cyan('ℹ');
+      console.log(icon + ` ${issue.file}`);
       console.log(`   ${issue.message}`);
       if (issue.suggestion) {
         console.log(chalk.dim(`   ${issue.suggestion}`));
@@ -271,14 +260,14 @@ export async function runFixConfig(options: FixConfigOptions): Promise<void> {
       console.log();
     }
 
-    // Apply fixes
-    if (options.apply) {
-      console.log(chalk.cyan('Applying fixes automatically...\n'));
+    // Apply fixes (a dry run applies them all in memory)
+    if (options.apply || options.dryRun) {
+      console.log(chalk.cyan(options.dryRun ? 'Previewing fixes...\n' : 'Applying fixes automatically...\n'));
       for (const issue of fixableIssues) {
         if (issue.fix) {
           const success = await issue.fix();
           if (success) {
-            console.log(chalk.green('✓') + ` Fixed: ${issue.message}`);
+            console.log(chalk.green('✓') + ` ${options.dryRun ? 'Would fix' : 'Fixed'}: ${issue.message}`);
           } else {
             console.log(chalk.red('✗') + ` Failed: ${issue.message}`);
           }
@@ -310,7 +299,8 @@ export async function runFixConfig(options: FixConfigOptions): Promise<void> {
   console.log(chalk.dim(`Auto-fixable: ${fixableIssues.length}`));
   console.log(chalk.dim(`Manual fix required: ${nonFixableIssues.length}`));
 
-  if (nonFixableIssues.length > 0) {
+  // Informational issues (e.g. duplicate definitions) don't fail the command
+  if (manualErrors.length > 0) {
     process.exit(1);
   }
 }
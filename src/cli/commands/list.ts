@@ -0,0 +1,125 @@
+/**
+ * List command - Print the resolved server list
+ *
+ * Formats:
+ * - table (default): aligned columns with coloured states
+ * - json: ServerListSchema, versioned for scripts (see core/servers/listing.ts)
+ * - csv: one row per server with a header row
+ */
+
+import chalk from 'chalk';
+import { extractRawDefinitions } from '@/core/config/discovery.js';
+import { resolveServers } from '@/core/config/precedence.js';
+import { parseSelector, selectServers } from '@/core/servers/selector.js';
+import {
+  DEFAULT_TABLE_FIELDS,
+  SERVER_LIST_FIELDS,
+  SERVER_LIST_JSON_SCHEMA,
+  buildServerList,
+  formatListField,
+  parseListFields,
+  toServerListEntry,
+  type ServerListField,
+} from '@/core/servers/listing.js';
+import type { DisplayState } from '@/types/index.js';
+import { resolveProjectDir, type ProjectOptions } from '@/cli/project.js';
+
+export interface ListOptions extends ProjectOptions {
+  json?: boolean;
+  csv?: boolean;
+  format?: string;
+  fields?: string;
+  schema?: boolean;
+  quiet?: boolean;
+  source?: string;
+  scope?: string;
+  transport?: string;
+  state?: string;
+}
+
+const FORMATS = ['table', 'json', 'csv'] as const;
+
+const STATE_COLOURS: Record<DisplayState, (text: string) => string> = {
+  green: chalk.green,
+  orange: chalk.yellow,
+  red: chalk.red,
+};
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function fail(message: string): never {
+  console.error(chalk.red(`Error: ${message}`));
+  process.exit(1);
+}
+
+export async function runList(serverNames: string[], options: ListOptions): Promise<void> {
+  if (options.schema) {
+    console.log(JSON.stringify(SERVER_LIST_JSON_SCHEMA, null, 2));
+    return;
+  }
+
+  const format = options.json ? 'json' : options.csv ? 'csv' : options.format ?? 'table';
+  if (!(FORMATS as readonly string[]).includes(format)) {
+    fail(`Invalid format "${format}" (expected ${FORMATS.join(', ')})`);
+  }
+
+  let fields: ServerListField[];
+  try {
+    fields = options.fields
+      ? parseListFields(options.fields)
+      : format === 'table' ? DEFAULT_TABLE_FIELDS : [...SERVER_LIST_FIELDS];
+  } catch (error) {
+    fail(error instanceof Error ? error.message : String(error));
+  }
+
+  const cwd = resolveProjectDir(options);
+  const rawData = await extractRawDefinitions(cwd);
+  let servers = resolveServers(rawData);
+
+  if (serverNames.length > 0 || options.source || options.scope || options.transport || options.state) {
+    try {
+      servers = selectServers(servers, parseSelector(serverNames, options)).servers;
+    } catch (error) {
+      fail(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  if (format === 'json') {
+    console.log(JSON.stringify(buildServerList(servers, cwd, fields), null, 2));
+    return;
+  }
+
+  const rows = servers.map(toServerListEntry);
+
+  if (format === 'csv') {
+    if (!options.quiet) {
+      console.log(fields.join(','));
+    }
+    for (const entry of rows) {
+      console.log(fields.map((field) => escapeCsv(formatListField(entry, field))).join(','));
+    }
+    return;
+  }
+
+  if (rows.length === 0) {
+    console.log(chalk.dim('No servers found'));
+    return;
+  }
+
+  const widths = fields.map((field) =>
+    Math.max(field.length, ...rows.map((entry) => formatListField(entry, field).length))
+  );
+
+  if (!options.quiet) {
+    console.log(chalk.dim(fields.map((field, i) => field.padEnd(widths[i]!)).join('  ').trimEnd()));
+  }
+  for (const entry of rows) {
+    const cells = fields.map((field, i) => {
+      const text = formatListField(entry, field).padEnd(widths[i]!);
+      return field === 'state' ? STATE_COLOURS[entry.state](text) : text;
+    });
+    console.log(cells.join('  ').trimEnd());
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Pause and resume commands - Switch servers to and from ORANGE
+ *
+ * A paused server stays enabled in its config but is listed in
+ * disabledMcpServers for the current project, so Claude does not start
+ * it. Resuming removes it from that list again.
+ */
+
+import chalk from 'chalk';
+import { applyServerAction } from '@/core/config/actions.js';
+import { isSelectorEmpty, parseSelector, type ServerSelector } from '@/core/servers/selector.js';
+import type { DisplayState } from '@/types/index.js';
+import { resolveProjectDir, type ProjectOptions } from '@/cli/project.js';
+
+export interface PauseOptions extends ProjectOptions {
+  json?: boolean;
+  quiet?: boolean;
+  source?: string;
+  scope?: string;
+  transport?: string;
+  state?: string;
+}
+
+async function runRuntimeToggle(
+  action: 'pause' | 'resume',
+  serverNames: string[],
+  options: PauseOptions
+): Promise<void> {
+  const cwd = resolveProjectDir(options);
+
+  let selector: ServerSelector;
+  try {
+    selector = parseSelector(serverNames, options);
+  } catch (error) {
+    console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+    process.exit(1);
+  }
+
+  if (isSelectorEmpty(selector)) {
+    console.error(chalk.red('Error: No servers specified'));
+    console.log(`Usage: mcp ${action} <server|pattern> [...] [--source|--scope|--transport|--state <values>]`);
+    process.exit(1);
+  }
+
+  const { results, errors } = await applyServerAction(cwd, action, selector);
+
+  if (errors.length > 0) {
+    for (const error of errors) {
+      console.error(chalk.red(error));
+    }
+  }
+
+  const target: DisplayState = action === 'pause' ? 'orange' : 'green';
+
+  // Output results
+  if (options.json) {
+    console.log(JSON.stringify({
+      [action === 'pause' ? 'paused' : 'resumed']: results.filter((r) => r.success).length,
+      failed: results.filter((r) => !r.success).length,
+      results,
+    }, null, 2));
+  } else if (!options.quiet) {
+    if (results.length === 0) {
+      console.log(chalk.dim('No matching servers'));
+    }
+    for (const r of results) {
+      if (!r.success) {
+        console.log(chalk.red('✗'), r.server, chalk.dim(`(${r.error})`));
+        continue;
+      }
+
+      const icon = action === 'pause' ? chalk.yellow('◐') : chalk.green('●');
+      const note = action === 'pause' ? '(already paused)' : '(already running)';
+      console.log(icon, r.server + (r.previous === target ? ` ${chalk.dim(note)}` : ''));
+    }
+  }
+
+  // Exit with error if any failed
+  if (results.some((r) => !r.success)) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Pause servers (ORANGE): enabled in config, not started by Claude
+ */
+export async function runPause(serverNames: string[], options: PauseOptions): Promise<void> {
+  await runRuntimeToggle('pause', serverNames, options);
+}
+
+/**
+ * Resume paused servers (ORANGE to GREEN)
+ */
+export async function runResume(serverNames: string[], options: PauseOptions): Promise<void> {
+  await runRuntimeToggle('resume', serverNames, options);
+}
@@ -0,0 +1,175 @@
+/**
+ * Profile commands - Save, list, apply, delete and diff named server profiles
+ */
+
+import chalk from 'chalk';
+import type { DisplayState } from '@/types/index.js';
+import { extractRawDefinitions } from '@/core/config/discovery.js';
+import { resolveServers } from '@/core/config/precedence.js';
+import { saveServerStates } from '@/core/config/state.js';
+import {
+  loadProfiles,
+  getProfile,
+  saveProfile,
+  deleteProfile,
+  applyProfileToServers,
+  diffProfile,
+  validateProfileName,
+} from '@/core/profiles/profiles.js';
+import { resolveProjectDir, type ProjectOptions } from '@/cli/project.js';
+
+export interface ProfileOptions extends ProjectOptions {
+  json?: boolean;
+  quiet?: boolean;
+  description?: string;
+}
+
+const stateLabels: Record<DisplayState, string> = {
+  green: 'enabled',
+  red: 'disabled',
+  orange: 'paused',
+};
+
+const stateChalk: Record<DisplayState, (text: string) => string> = {
+  green: chalk.green,
+  red: chalk.red,
+  orange: chalk.yellow,
+};
+
+function formatState(state: DisplayState | undefined): string {
+  if (!state) return chalk.dim('(none)');
+  return stateChalk[state](stateLabels[state]);
+}
+
+async function loadServers(cwd: string) {
+  const rawData = await extractRawDefinitions(cwd);
+  return resolveServers(rawData);
+}
+
+async function requireProfile(name: string) {
+  const profile = await getProfile(name);
+  if (!profile) {
+    console.error(chalk.red(`Error: Profile "${name}" not found`));
+    console.log(chalk.dim('Run "mcp profile list" to see saved profiles'));
+    process.exit(1);
+  }
+  return profile;
+}
+
+export async function runProfileSave(name: string, options: ProfileOptions): Promise<void> {
+  const nameError = validateProfileName(name);
+  if (nameError) {
+    console.error(chalk.red(`Error: ${nameError}`));
+    process.exit(1);
+  }
+
+  const servers = await loadServers(resolveProjectDir(options));
+  const profile = await saveProfile(name, servers, options.description);
+
+  if (options.json) {
+    console.log(JSON.stringify({ name, ...profile }, null, 2));
+  } else if (!options.quiet) {
+    console.log(chalk.green(`✓ Saved profile "${name}" (${Object.keys(profile.servers).length} servers)`));
+  }
+}
+
+export async function runProfileList(options: ProfileOptions): Promise<void> {
+  const profiles = await loadProfiles();
+  const names = Object.keys(profiles).sort();
+
+  if (options.json) {
+    console.log(JSON.stringify(profiles, null, 2));
+    return;
+  }
+
+  if (names.length === 0) {
+    console.log(chalk.dim('No profiles saved'));
+    console.log(chalk.dim('Create one with: mcp profile save <name>'));
+    return;
+  }
+
+  for (const name of names) {
+    const profile = profiles[name]!;
+    const states = Object.values(profile.servers);
+    const enabled = states.filter((s) => s === 'green').length;
+    const paused = states.filter((s) => s === 'orange').length;
+
+    console.log(`${chalk.bold(name)} ${chalk.dim(`- ${states.length} servers`)}`);
+    console.log(chalk.dim(`   ${enabled} enabled, ${paused} paused, ${states.length - enabled - paused} disabled`));
+    if (profile.description) {
+      console.log(chalk.dim(`   ${profile.description}`));
+    }
+  }
+}
+
+export async function runProfileApply(name: string, options: ProfileOptions): Promise<void> {
+  const profile = await requireProfile(name);
+  const cwd = resolveProjectDir(options);
+
+  const { servers, results } = applyProfileToServers(await loadServers(cwd), profile);
+
+  // Results list changed servers and failures: write nothing unless something changed
+  const { errors } = results.some((r) => r.success) ? await saveServerStates(servers, cwd) : { errors: [] };
+  for (const error of errors) {
+    console.error(chalk.red(error));
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify({
+      profile: name,
+      changed: results.filter((r) => r.success).length,
+      failed: results.filter((r) => !r.success).length,
+      results,
+    }, null, 2));
+  } else if (!options.quiet) {
+    if (results.length === 0) {
+      console.log(chalk.dim(`Profile "${name}" already matches current state`));
+    }
+    for (const r of results) {
+      if (r.success) {
+        console.log(chalk.green('✓'), r.server, chalk.dim(`${stateLabels[r.from!]} → ${stateLabels[r.to]}`));
+      } else {
+        console.log(chalk.red('✗'), r.server, chalk.dim(`(${r.error})`));
+      }
+    }
+  }
+
+  if (errors.length > 0 || results.some((r) => !r.success)) {
+    process.exit(1);
+  }
+}
+
+export async function runProfileDelete(name: string, options: ProfileOptions): Promise<void> {
+  const deleted = await deleteProfile(name);
+
+  if (!deleted) {
+    console.error(chalk.red(`Error: Profile "${name}" not found`));
+    process.exit(1);
+  }
+
+  if (!options.quiet) {
+    console.log(chalk.green(`✓ Deleted profile "${name}"`));
+  }
+}
+
+export async function runProfileDiff(name: string, options: ProfileOptions): Promise<void> {
+  const profile = await requireProfile(name);
+  const diff = diffProfile(await loadServers(resolveProjectDir(options)), profile);
+
+  if (options.json) {
+    console.log(JSON.stringify({ profile: name, differences: diff }, null, 2));
+    return;
+  }
+
+  if (diff.length === 0) {
+    console.log(chalk.green(`✓ Current state matches profile "${name}"`));
+    return;
+  }
+
+  console.log(chalk.bold(`\nDifferences from profile "${name}":\n`));
+  for (const entry of diff) {
+    console.log(`  ${entry.server}`);
+    console.log(chalk.dim('     current: ') + formatState(entry.current));
+    console.log(chalk.dim('     profile: ') + formatState(entry.profile));
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Projects commands - MCP state across every project in ~/.claude.json
+ *
+ * list shows each project's servers by state and flags stale entries whose
+ * folder no longer exists. enable, disable, pause and resume change the
+ * selected servers in every project (or those given with --project) and
+ * save all of them as one transaction.
+ */
+
+import chalk from 'chalk';
+import { resolve } from 'node:path';
+import { applyToProjects, listProjects } from '@/core/config/projects.js';
+import { isNamePattern, isSelectorEmpty, parseSelector, type ServerSelector } from '@/core/servers/selector.js';
+import type { DisplayState, ProjectAction, ProjectSummary } from '@/types/index.js';
+import { resolveProjectDir, type ProjectOptions } from '@/cli/project.js';
+
+export interface ProjectsListOptions extends ProjectOptions {
+  json?: boolean;
+  stale?: boolean;
+}
+
+export interface ProjectsActionOptions {
+  project?: string[];
+  json?: boolean;
+  quiet?: boolean;
+  source?: string;
+  scope?: string;
+  transport?: string;
+  state?: string;
+}
+
+const STATE_LABELS: { state: DisplayState; label: string; icon: string; colour: (text: string) => string }[] = [
+  { state: 'green', label: 'on', icon: '●', colour: chalk.green },
+  { state: 'orange', label: 'paused', icon: '◐', colour: chalk.yellow },
+  { state: 'red', label: 'off', icon: '○', colour: chalk.red },
+];
+
+const ACTION_ICONS: Record<ProjectAction, string> = {
+  enable: chalk.green('●'),
+  disable: chalk.red('○'),
+  pause: chalk.yellow('◐'),
+  resume: chalk.green('●'),
+};
+
+const ACTION_TARGETS: Record<ProjectAction, DisplayState> = {
+  enable: 'green',
+  disable: 'red',
+  pause: 'orange',
+  resume: 'green',
+};
+
+function printProject(project: ProjectSummary): void {
+  const tag = project.current ? chalk.cyan(' (current)') : '';
+  const stale = project.exists ? '' : chalk.yellow(' stale: folder no longer exists');
+  console.log(chalk.bold(project.path) + tag + stale);
+
+  for (const { state, label, icon, colour } of STATE_LABELS) {
+    const names = project.servers.filter((s) => s.state === state).map((s) => s.name);
+    if (names.length > 0) {
+      console.log(`  ${colour(icon)} ${colour(label.padEnd(7))} ${names.join(', ')}`);
+    }
+  }
+
+  // Stale projects have nothing to resolve - show what ~/.claude.json still holds
+  if (!project.exists) {
+    for (const [key, names] of Object.entries(project.entry)) {
+      if (names.length > 0) {
+        console.log(chalk.dim(`  ${key}: ${names.join(', ')}`));
+      }
+    }
+  }
+}
+
+export async function runProjectsList(options: ProjectsListOptions): Promise<void> {
+  let projects = await listProjects(resolveProjectDir(options));
+  if (options.stale) {
+    projects = projects.filter((p) => !p.exists);
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify({ projects }, null, 2));
+    return;
+  }
+
+  if (projects.length === 0) {
+    console.log(chalk.dim(options.stale ? 'No stale projects' : 'No projects in ~/.claude.json'));
+    return;
+  }
+
+  for (const project of projects) {
+    printProject(project);
+    console.log();
+  }
+
+  const stale = projects.filter((p) => !p.exists).length;
+  console.log(chalk.dim(`${projects.length} project${projects.length === 1 ? '' : 's'}${stale > 0 ? `, ${stale} stale` : ''}`));
+}
+
+export async function runProjectsAction(
+  action: ProjectAction,
+  serverNames: string[],
+  options: ProjectsActionOptions
+): Promise<void> {
+  let selector: ServerSelector;
+  try {
+    selector = parseSelector(serverNames, options);
+  } catch (error) {
+    console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+    process.exit(1);
+  }
+
+  if (isSelectorEmpty(selector)) {
+    console.error(chalk.red('Error: No servers specified'));
+    console.log(`Usage: mcp projects ${action} <server|pattern> [...] [--project <path>]`);
+    process.exit(1);
+  }
+
+  let outcome: Awaited<ReturnType<typeof applyToProjects>>;
+  try {
+    outcome = await applyToProjects(action, selector, {
+      projects: options.project?.map((path) => resolve(path)),
+    });
+  } catch (error) {
+    console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+    process.exit(1);
+  }
+
+  const { results, unmatched, skipped, errors } = outcome;
+
+  for (const error of errors) {
+    console.error(chalk.red(error));
+  }
+
+  const target = ACTION_TARGETS[action];
+  const succeeded = results.filter((r) => r.success);
+  const failed = results.filter((r) => !r.success);
+
+  if (options.json) {
+    console.log(JSON.stringify({
+      action,
+      changed: succeeded.filter((r) => r.previous !== target).length,
+      failed: failed.length,
+      unmatched,
+      skipped,
+      results,
+    }, null, 2));
+  } else if (!options.quiet) {
+    let project: string | null = null;
+    for (const r of results) {
+      if (r.project !== project) {
+        project = r.project;
+        console.log(chalk.bold(project));
+      }
+      if (r.success) {
+        const note = r.previous === target ? ` ${chalk.dim('(unchanged)')}` : '';
+        console.log(`  ${ACTION_ICONS[action]} ${r.server}${note}`);
+      } else {
+        console.log(`  ${chalk.red('✗')} ${r.server} ${chalk.dim(`(${r.error})`)}`);
+      }
+    }
+
+    for (const term of unmatched) {
+      console.log(chalk.red('✗'), term, chalk.dim(isNamePattern(term) ? '(No matching servers in any project)' : '(Not found in any project)'));
+    }
+    if (results.length === 0 && unmatched.length === 0) {
+      console.log(chalk.dim('No matching servers in any project'));
+    }
+    if (skipped.length > 0) {
+      console.log(chalk.dim(`Skipped ${skipped.length} stale project${skipped.length === 1 ? '' : 's'} (see mcp projects list --stale)`));
+    }
+  }
+
+  if (errors.length > 0 || failed.length > 0 || unmatched.length > 0) {
+    process.exit(1);
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Prune projects command - Remove stale project entries from ~/.claude.json
+ *
+ * Finds projects[path] entries whose folder no longer exists (deleted
+ * checkouts, temp directories) and removes their MCP keys, or with
+ * --entire the whole entry. ~/.claude.json is backed up first.
+ */
+
+import chalk from 'chalk';
+import { findStaleProjects, loadProjectEntries, pruneStaleProjects } from '@/core/config/projects.js';
+
+export interface PruneProjectsOptions {
+  entire?: boolean;
+  dryRun?: boolean;
+  json?: boolean;
+  quiet?: boolean;
+}
+
+export async function runPruneProjects(options: PruneProjectsOptions): Promise<void> {
+  const { pruned, backup } = await pruneStaleProjects({ entire: options.entire });
+
+  // Stale entries left alone because they hold no MCP keys
+  const kept = options.entire
+    ? []
+    : findStaleProjects(await loadProjectEntries()).filter((entry) => entry.mcpKeys.length === 0);
+
+  if (options.json) {
+    console.log(JSON.stringify({ entire: !!options.entire, pruned, kept: kept.map((e) => e.path), backup }, null, 2));
+    return;
+  }
+
+  if (options.quiet) return;
+
+  if (pruned.length === 0) {
+    console.log(chalk.green('✓ No stale projects to prune'));
+  } else {
+    for (const entry of pruned) {
+      const removed = options.entire ? 'whole entry' : entry.mcpKeys.join(', ');
+      console.log(`  ${chalk.red('−')} ${entry.path} ${chalk.dim(`(${removed})`)}`);
+    }
+
+    const what = options.entire ? 'stale project entries' : 'MCP keys from stale projects';
+    console.log(chalk.green(`\n✓ ${options.dryRun ? 'Would remove' : 'Removed'} ${what}: ${pruned.length}`));
+    if (backup) {
+      console.log(chalk.dim(`  Backup: ${backup} (restore with mcp backups)`));
+    }
+  }
+
+  if (kept.length > 0) {
+    const entries = kept.length === 1 ? 'entry holds' : 'entries hold';
+    console.log(chalk.dim(`${kept.length} stale ${entries} no MCP keys (remove with --entire)`));
+  }
+}
@@ -6,11 +6,13 @@
  * the plugin to be re-enabled.
  */
 
-import { existsSync, readFileSync, writeFileSync, mkdirSync, renameSync } from 'node:fs';
-import { homedir } from 'node:os';
-import { join } from 'node:path';
+import { existsSync, readFileSync } from 'node:fs';
 import chalk from 'chalk';
+import type { SettingsSchema } from '@/types/index.js';
 import { discoverAllSources } from '@/core/config/discovery.js';
+import { atomicWriteJson, createBackup } from '@/core/config/writer.js';
+import { parseJsonc } from '@/core/config/jsonc.js';
+import { resolveProjectDir, type ProjectOptions } from '@/cli/project.js';
 
 interface RestoreResult {
   file: string;
@@ -18,25 +20,6 @@ interface RestoreResult {
   error?: string;
 }
 
-/**
- * Create a backup of a file before modifying
- */
-function createBackup(filePath: string): string | null {
-  if (!existsSync(filePath)) return null;
-
-  const backupDir = join(homedir(), '.claude', 'backups');
-  if (!existsSync(backupDir)) {
-    mkdirSync(backupDir, { recursive: true });
-  }
-
-  const timestamp = Date.now();
-  const fileName = filePath.replace(/[\/\\]/g, '_');
-  const backupPath = join(backupDir, `${fileName}.${timestamp}.backup`);
-
-  writeFileSync(backupPath, readFileSync(filePath));
-  return backupPath;
-}
-
 /**
  * Remove explicit false from enabledPlugins in a file
  */
@@ -46,7 +29,7 @@ function restorePluginInFile(filePath: string, pluginName: string): RestoreResul
       return { file: filePath, restored: false };
     }
 
-    const content = JSON.parse(readFileSync(filePath, 'utf-8'));
+    const content = parseJsonc<SettingsSchema>(readFileSync(filePath, 'utf-8'));
 
     // Check if enabledPlugins exists and has the plugin set to false
     if (!content.enabledPlugins || content.enabledPlugins[pluginName] !== false) {
@@ -54,7 +37,7 @@ function restorePluginInFile(filePath: string, pluginName: string): RestoreResul
     }
 
     // Create backup
-    const backupPath = createBackup(filePath);
+    const backupPath = createBackup(filePath, 'restore-plugin');
     if (backupPath) {
       console.log(chalk.dim(`  Created backup: ${backupPath}`));
     }
@@ -67,10 +50,7 @@ function restorePluginInFile(filePath: string, pluginName: string): RestoreResul
       delete content.enabledPlugins;
     }
 
-    // Atomic write
-    const tempPath = `${filePath}.tmp.${Date.now()}`;
-    writeFileSync(tempPath, JSON.stringify(content, null, 2));
-    renameSync(tempPath, filePath);
+    atomicWriteJson(filePath, content);
 
     return { file: filePath, restored: true };
   } catch (error) {
@@ -82,7 +62,7 @@ function restorePluginInFile(filePath: string, pluginName: string): RestoreResul
   }
 }
 
-export async function runRestorePlugin(plugin: string): Promise<void> {
+export async function runRestorePlugin(plugin: string, options: ProjectOptions = {}): Promise<void> {
   if (!plugin || !plugin.trim()) {
     console.error(chalk.red('Error: Plugin name is required'));
     console.log(chalk.dim('Usage: mcp restore-plugin <plugin-name>'));
@@ -90,7 +70,7 @@ export async function runRestorePlugin(plugin: string): Promise<void> {
   }
 
   const pluginName = plugin.trim();
-  const cwd = process.cwd();
+  const cwd = resolveProjectDir(options);
 
   console.log(chalk.cyan(`Searching for hard-disabled plugin "${pluginName}"...\n`));
 
@@ -111,7 +91,7 @@ export async function runRestorePlugin(plugin: string): Promise<void> {
 
   for (const source of settingsFiles) {
     try {
-      const content = JSON.parse(readFileSync(source.path, 'utf-8'));
+      const content = parseJsonc<SettingsSchema>(readFileSync(source.path, 'utf-8'));
 
       // Check if this file has the plugin disabled
       if (content.enabledPlugins && content.enabledPlugins[pluginName] === false) {
@@ -144,7 +124,7 @@ export async function runRestorePlugin(plugin: string): Promise<void> {
 
     for (const source of settingsFiles) {
       try {
-        const content = JSON.parse(readFileSync(source.path, 'utf-8'));
+        const content = parseJsonc<SettingsSchema>(readFileSync(source.path, 'utf-8'));
         if (content.enabledPlugins) {
           for (const [name, value] of Object.entries(content.enabledPlugins)) {
             if (value === false) {
@@ -1,57 +1,18 @@
 /**
  * Rollback command - Restore from configuration backups
  *
- * Lists available backups and allows interactive or direct restoration.
- * Creates a pre-rollback backup before restoring to prevent data loss.
+ * Lists recent saves (multi-file transactions, undone as a unit) and single
+ * file backups, and allows interactive or direct restoration.
+ * Restores run as transactions, so the current file is backed up first.
  */
 
-import { existsSync, readdirSync, statSync, renameSync, mkdirSync, copyFileSync } from 'node:fs';
-import { join } from 'node:path';
-import { homedir } from 'node:os';
 import chalk from 'chalk';
+import type { TransactionEntry } from '@/types/index.js';
+import { listTransactions, undoTransaction } from '@/core/config/transaction.js';
+import { listBackups, restoreBackup } from '@/core/backups/backups.js';
 
-const BACKUP_DIR = join(homedir(), '.claude', 'backups');
-
-interface Backup {
-  path: string;
-  name: string;
-  timestamp: Date;
-  size: number;
-}
-
-/**
- * List all available backups
- */
-function listBackups(): Backup[] {
-  if (!existsSync(BACKUP_DIR)) {
-    return [];
-  }
-
-  const files = readdirSync(BACKUP_DIR);
-  const backups: Backup[] = [];
-
-  for (const file of files) {
-    if (!file.endsWith('.bak') && !file.endsWith('.backup')) {
-      continue;
-    }
-
-    const filePath = join(BACKUP_DIR, file);
-    try {
-      const stats = statSync(filePath);
-      backups.push({
-        path: filePath,
-        name: file,
-        timestamp: stats.mtime,
-        size: stats.size,
-      });
-    } catch {
-      // Skip files we can't stat
-      continue;
-    }
-  }
-
-  // Sort by timestamp, newest first
-  return backups.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+export interface RollbackOptions {
+  last?: boolean;
 }
 
 /**
@@ -93,91 +54,6 @@ function formatDate(date: Date): string {
   return dateStr;
 }
 
-/**
- * Create a pre-rollback backup of current state
- */
-function createPreRollbackBackup(filePath: string): string | null {
-  if (!existsSync(filePath)) {
-    return null;
-  }
-
-  if (!existsSync(BACKUP_DIR)) {
-    mkdirSync(BACKUP_DIR, { recursive: true });
-  }
-
-  const timestamp = Date.now();
-  const fileName = filePath.replace(/[\/\\]/g, '_');
-  const backupPath = join(BACKUP_DIR, `pre-rollback.${fileName}.${timestamp}.bak`);
-
-  copyFileSync(filePath, backupPath);
-  return backupPath;
-}
-
-/**
- * Restore a backup file to its original location
- */
-function restoreBackup(backup: Backup): { success: boolean; targetPath: string | null; error?: string } {
-  try {
-    // Extract original file path from backup name
-    // Format: original_filename.timestamp.bak or _path_to_file.timestamp.backup
-    const name = backup.name;
-
-    // Try to determine the target path
-    let targetPath: string;
-
-    if (name.includes('claude.json')) {
-      targetPath = join(homedir(), '.claude.json');
-    } else if (name.includes('settings.local.json')) {
-      // Could be user or project settings
-      if (name.startsWith('_home_') || name.startsWith('~_')) {
-        targetPath = join(homedir(), '.claude', 'settings.local.json');
-      } else {
-        // Project settings - we'd need to know the project path
-        return {
-          success: false,
-          targetPath: null,
-          error: 'Cannot determine target path for project settings backup',
-        };
-      }
-    } else if (name.includes('settings.json')) {
-      if (name.startsWith('_home_') || name.startsWith('~_')) {
-        targetPath = join(homedir(), '.claude', 'settings.json');
-      } else {
-        return {
-          success: false,
-          targetPath: null,
-          error: 'Cannot determine target path for project settings backup',
-        };
-      }
-    } else {
-      return {
-        success: false,
-        targetPath: null,
-        error: 'Unknown backup type',
-      };
-    }
-
-    // Create pre-rollback backup
-    const preRollbackPath = createPreRollbackBackup(targetPath);
-    if (preRollbackPath) {
-      console.log(chalk.dim(`  Created pre-rollback backup: ${preRollbackPath}`));
-    }
-
-    // Atomic restore
-    const tempPath = `${targetPath}.tmp.${Date.now()}`;
-    copyFileSync(backup.path, tempPath);
-    renameSync(tempPath, targetPath);
-
-    return { success: true, targetPath };
-  } catch (error) {
-    return {
-      success: false,
-      targetPath: null,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
-  }
-}
-
 /**
  * Interactive prompt for selection
  */
@@ -208,59 +84,122 @@ async function promptSelect(message: string, options: string[]): Promise<number>
   });
 }
 
-export async function runRollback(): Promise<void> {
+/**
+ * Undo a save transaction and report the result
+ */
+function undoSave(transaction: TransactionEntry): void {
+  console.log(chalk.cyan(`Undoing ${transaction.operation} from ${formatDate(new Date(transaction.createdAt))}`));
+
+  try {
+    undoTransaction(transaction.id);
+  } catch (error) {
+    console.log(chalk.red(`\n✗ Failed to undo: ${error instanceof Error ? error.message : error}`));
+    process.exit(1);
+  }
+
+  for (const file of transaction.files) {
+    console.log(chalk.green('  ✓'), file.backup ? file.path : `${file.path} ${chalk.dim('(removed)')}`);
+  }
+  console.log(chalk.dim('\n  Restart Claude for changes to take effect'));
+}
+
+export async function runRollback(options: RollbackOptions = {}): Promise<void> {
+  // Saves that can still be undone ('pending' = interrupted mid-write)
+  const transactions = listTransactions().filter(
+    (t) => t.status === 'committed' || t.status === 'pending'
+  );
+
+  if (options.last) {
+    const latest = transactions[0];
+    if (!latest) {
+      console.log(chalk.yellow('No saves to undo'));
+      return;
+    }
+    undoSave(latest);
+    return;
+  }
+
   console.log(chalk.cyan('Searching for available backups...\n'));
 
-  const backups = listBackups();
+  // Files saved by transactions are restored through their save above
+  const backups = listBackups().filter((b) => !b.transaction);
 
-  if (backups.length === 0) {
+  if (backups.length === 0 && transactions.length === 0) {
     console.log(chalk.yellow('No backups found in ~/.claude/backups/'));
     console.log(chalk.dim('Backups are created automatically before configuration changes.'));
     return;
   }
 
-  // Display available backups
-  console.log(chalk.cyan(`Found ${backups.length} backup(s):\n`));
-
   const maxBackupsToShow = 10;
+  const displayTransactions = transactions.slice(0, maxBackupsToShow);
   const displayBackups = backups.slice(0, maxBackupsToShow);
 
-  for (let i = 0; i < displayBackups.length; i++) {
-    const backup = displayBackups[i]!;
-    console.log(chalk.yellow(`${i + 1}.`) + ` ${backup.name}`);
-    console.log(chalk.dim(`   ${formatDate(backup.timestamp)} - ${formatSize(backup.size)}`));
-  }
+  // Display recent saves (numbered first)
+  if (displayTransactions.length > 0) {
+    console.log(chalk.cyan('Recent saves (all files restored together):\n'));
 
-  if (backups.length > maxBackupsToShow) {
-    console.log(chalk.dim(`\n   ... and ${backups.length - maxBackupsToShow} more`));
+    for (let i = 0; i < displayTransactions.length; i++) {
+      const transaction = displayTransactions[i]!;
+      const interrupted = transaction.status === 'pending' ? chalk.red(' [interrupted]') : '';
+      console.log(chalk.yellow(`${i + 1}.`) + ` ${transaction.operation}${interrupted}`);
+      console.log(chalk.dim(`   ${formatDate(new Date(transaction.createdAt))} - ${transaction.files.map((f) => f.path).join(', ')}`));
+    }
+
+    console.log();
   }
 
-  console.log();
+  // Display available backups
+  if (displayBackups.length > 0) {
+    console.log(chalk.cyan(`Found ${backups.length} backup(s):\n`));
+
+    for (let i = 0; i < displayBackups.length; i++) {
+      const backup = displayBackups[i]!;
+      const source = backup.source ?? chalk.yellow('(unknown file)');
+      console.log(chalk.yellow(`${displayTransactions.length + i + 1}.`) + ` ${source} ${chalk.dim(`- ${backup.operation}`)}`);
+      console.log(chalk.dim(`   ${formatDate(new Date(backup.createdAt))} - ${formatSize(backup.size)} - ${backup.id}`));
+    }
+
+    if (backups.length > maxBackupsToShow) {
+      console.log(chalk.dim(`\n   ... and ${backups.length - maxBackupsToShow} more`));
+    }
+
+    console.log();
+  }
 
   // Prompt for selection
-  const selection = await promptSelect('Select backup to restore', displayBackups.map(b => b.name));
+  const selection = await promptSelect('Select backup to restore', [
+    ...displayTransactions.map((t) => t.id),
+    ...displayBackups.map((b) => b.id),
+  ]);
 
   if (selection < 0) {
     console.log(chalk.dim('Cancelled'));
     return;
   }
 
-  const selectedBackup = displayBackups[selection];
+  console.log();
+
+  const selectedTransaction = displayTransactions[selection];
+  if (selectedTransaction) {
+    undoSave(selectedTransaction);
+    return;
+  }
+
+  const selectedBackup = displayBackups[selection - displayTransactions.length];
   if (!selectedBackup) {
     console.log(chalk.red('Invalid selection'));
     return;
   }
 
-  console.log();
-  console.log(chalk.cyan(`Restoring: ${selectedBackup.name}`));
-
-  const result = restoreBackup(selectedBackup);
+  console.log(chalk.cyan(`Restoring: ${selectedBackup.id}`));
 
-  if (result.success) {
-    console.log(chalk.green(`\n✓ Successfully restored to: ${result.targetPath}`));
+  try {
+    const transaction = restoreBackup(selectedBackup);
+    console.log(chalk.green(`\n✓ Successfully restored to: ${transaction.files[0]!.path}`));
+    console.log(chalk.dim('  Undo with: mcp rollback --last'));
     console.log(chalk.dim('  Restart Claude for changes to take effect'));
-  } else {
-    console.log(chalk.red(`\n✗ Failed to restore: ${result.error}`));
+  } catch (error) {
+    console.log(chalk.red(`\n✗ Failed to restore: ${error instanceof Error ? error.message : error}`));
     process.exit(1);
   }
 }
@@ -13,18 +13,20 @@ import { canRunTui } from '@/utils/terminal.js';
 import { App } from '@/tui/App.js';
 import { getSessionContext, formatSessionWarning } from '@/utils/session.js';
 import { findClaudeBinary } from '@/utils/executable.js';
+import { resolveProject, type ProjectOptions } from '@/cli/project.js';
 
-export interface TuiOptions {
+export interface TuiOptions extends ProjectOptions {
   strictDisable?: boolean;
   quiet?: boolean;
   claudeArgs?: string[];
   launch?: boolean;
+  watch?: boolean;
 }
 
 /**
- * Launch Claude with given arguments
+ * Launch Claude with given arguments in a folder
  */
-function launchClaude(args: string[]): void {
+function launchClaude(args: string[], cwd: string): void {
   const claudeBin = findClaudeBinary();
 
   if (!claudeBin) {
@@ -41,10 +43,12 @@ function launchClaude(args: string[]): void {
   const child =
     process.platform === 'win32'
       ? spawn('pwsh.exe', ['-NoProfile', '-NoLogo', '-Command', 'claude', ...args], {
+          cwd,
           stdio: 'inherit',
           env: process.env,
         })
       : spawn(claudeBin, args, {
+          cwd,
           stdio: 'inherit',
           env: process.env,
         });
@@ -92,7 +96,9 @@ export async function runTui(options: TuiOptions): Promise<void> {
     }
   }
 
-  const cwd = process.cwd();
+  // Claude is launched where mcp was started (or in --project), not at the root
+  const project = resolveProject(options);
+  const cwd = project.root;
   const claudeArgs = options.claudeArgs || [];
   const shouldLaunch = options.launch !== false;
 
@@ -104,6 +110,7 @@ export async function runTui(options: TuiOptions): Promise<void> {
     React.createElement(App, {
       cwd,
       strictDisable: options.strictDisable,
+      watch: options.watch !== false,
       onSaveComplete: () => {
         userSaved = true;
       },
@@ -115,6 +122,6 @@ export async function runTui(options: TuiOptions): Promise<void> {
 
   // Launch Claude if user saved and launch is enabled
   if (userSaved && shouldLaunch) {
-    launchClaude(claudeArgs);
+    launchClaude(claudeArgs, project.start);
   }
 }
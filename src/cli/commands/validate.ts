@@ -1,40 +1,42 @@
 /**
- * Validate command - Quick JSON syntax validation
+ * Validate command - Check every config file's syntax and schema
  */
 
-import { discoverAllSources } from '@/core/config/discovery.js';
-import { validateJsonSyntax } from '@/core/config/parser.js';
+import { validateConfigSources } from '@/core/config/validation.js';
 import chalk from 'chalk';
+import { resolveProjectDir, type ProjectOptions } from '@/cli/project.js';
 
-export async function runValidate(): Promise<void> {
-  const cwd = process.cwd();
-  const sources = await discoverAllSources(cwd);
-
-  let hasErrors = false;
-  let validCount = 0;
-  let totalCount = 0;
-
-  for (const source of sources) {
-    if (!source.exists) continue;
-    totalCount++;
+export interface ValidateOptions extends ProjectOptions {
+  json?: boolean;
+}
 
-    const result = await validateJsonSyntax(source.path);
+export async function runValidate(options: ValidateOptions = {}): Promise<void> {
+  const cwd = resolveProjectDir(options);
+  const results = await validateConfigSources(cwd);
+  const hasErrors = results.some((r) => !r.valid);
+
+  if (options.json) {
+    console.log(JSON.stringify(results, null, 2));
+  } else {
+    for (const result of results) {
+      if (result.valid) {
+        console.log(chalk.green('✓'), result.file);
+        continue;
+      }
 
-    if (result.valid) {
-      validCount++;
-      console.log(chalk.green('✓'), source.path);
-    } else {
-      hasErrors = true;
-      console.log(chalk.red('✗'), source.path);
-      console.log(chalk.dim(`  ${result.error}`));
-      if (result.line) {
-        console.log(chalk.dim(`  Line ${result.line}, column ${result.column}`));
+      console.log(chalk.red('✗'), result.file);
+      for (const violation of result.violations) {
+        const at = violation.pointer ? `${violation.pointer}: ` : '';
+        console.log(chalk.dim(`  ${at}${violation.message}`));
+        if (violation.line) {
+          console.log(chalk.dim(`    Line ${violation.line}, column ${violation.column}`));
+        }
       }
     }
-  }
 
-  console.log();
-  console.log(`${validCount}/${totalCount} files valid`);
+    console.log();
+    console.log(`${results.filter((r) => r.valid).length}/${results.length} files valid`);
+  }
 
   if (hasErrors) {
     process.exit(1);
@@ -0,0 +1,88 @@
+/**
+ * Why command - Explain why a server is in its current state
+ *
+ * Goes further than debug-precedence: shows the winning definition and
+ * state entries with their scope priorities, enableAllProjectMcpServers,
+ * the enterprise rule that matched, and what would change the outcome.
+ */
+
+import chalk from 'chalk';
+import { formatStateLabel, loadServerExplanation } from '@/core/config/explain.js';
+import type { DisplayState, WhyEntry } from '@/types/index.js';
+import { resolveProjectDir, type ProjectOptions } from '@/cli/project.js';
+
+export interface WhyOptions extends ProjectOptions {
+  json?: boolean;
+}
+
+const STATE_COLOURS: Record<DisplayState, (text: string) => string> = {
+  green: chalk.green,
+  orange: chalk.yellow,
+  red: chalk.red,
+};
+
+function printEntries(entries: WhyEntry[]): void {
+  const width = Math.max(...entries.map((e) => e.key.length));
+  for (const entry of entries) {
+    const marker = entry.won ? chalk.green('→') : ' ';
+    const line = `[${entry.priority}] ${entry.scope.padEnd(10)} ${entry.key.padEnd(width)}  ${entry.file}`;
+    console.log(`  ${marker} ${entry.won ? line : chalk.dim(line)}`);
+  }
+}
+
+export async function runWhy(serverName: string, options: WhyOptions): Promise<void> {
+  const explanation = await loadServerExplanation(serverName, resolveProjectDir(options));
+
+  if (!explanation) {
+    if (options.json) {
+      console.log(JSON.stringify({ server: serverName, error: 'Not found' }, null, 2));
+    } else {
+      console.error(chalk.red(`Error: Server "${serverName}" not found`));
+      console.log(chalk.dim('Run mcp list to see every server'));
+    }
+    process.exit(1);
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(explanation, null, 2));
+    return;
+  }
+
+  const { definition, control, enableAllProjectMcpServers: enableAll, access } = explanation;
+
+  console.log(chalk.bold(`\n${explanation.server} is ${STATE_COLOURS[explanation.state](formatStateLabel(explanation.state))}\n`));
+  console.log(chalk.dim('Scope priority: enterprise 4 > local 3 > project 2 > user 1\n'));
+
+  console.log(chalk.cyan('Definition:'));
+  printEntries(definition.entries);
+  console.log(`  ${definition.reason}\n`);
+
+  console.log(chalk.cyan('State:'));
+  if (control.entries.length > 0) {
+    printEntries(control.entries);
+  }
+  console.log(`  ${control.reason}`);
+  if (control.paused) {
+    console.log(`  ${chalk.yellow('Paused:')} ${control.paused}`);
+  }
+  console.log();
+
+  console.log(chalk.cyan('enableAllProjectMcpServers:'));
+  console.log(`  ${enableAll.applies ? chalk.green('Applies. ') : ''}${enableAll.reason}\n`);
+
+  console.log(chalk.cyan('Enterprise access:'));
+  const verdict = access.allowed ? chalk.green('Allowed') : chalk.red('Not allowed');
+  console.log(`  ${verdict}: ${access.reason}`);
+  if (access.rule && access.list) {
+    console.log(chalk.dim(`  Rule: ${access.list} ${JSON.stringify(access.rule)} in ${access.file}`));
+  }
+  console.log();
+
+  if (explanation.changes.length > 0) {
+    console.log(chalk.cyan('To change this:'));
+    for (const change of explanation.changes) {
+      console.log(`  • ${change}`);
+    }
+    console.log();
+  }
+}
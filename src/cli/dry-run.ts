@@ -0,0 +1,70 @@
+/**
+ * --dry-run and --diff for mutating commands
+ *
+ * Wraps a command in a write recording (core/config/dry-run.ts) and prints
+ * a unified diff of every file it wrote:
+ *   --dry-run  Keep writes in memory and only print the diff
+ *   --diff     Write as usual and print the diff
+ *
+ * With --json the diff goes to stderr so stdout stays parseable.
+ */
+
+import chalk from 'chalk';
+import { formatUnifiedDiff, startWriteRecording, stopWriteRecording } from '@/core/config/dry-run.js';
+
+export interface WriteModeOptions {
+  dryRun?: boolean;
+  diff?: boolean;
+  json?: boolean;
+}
+
+function colourLine(line: string): string {
+  if (line.startsWith('---') || line.startsWith('+++')) return chalk.bold(line);
+  if (line.startsWith('@@')) return chalk.cyan(line);
+  if (line.startsWith('+')) return chalk.green(line);
+  if (line.startsWith('-')) return chalk.red(line);
+  return line;
+}
+
+/**
+ * Run a command, recording its writes if --dry-run or --diff was given
+ */
+export async function withWriteMode(options: WriteModeOptions, run: () => Promise<void>): Promise<void> {
+  if (!options.dryRun && !options.diff) {
+    await run();
+    return;
+  }
+
+  const print = options.json ? console.error : console.log;
+  let reported = false;
+
+  const report = () => {
+    if (reported) return;
+    reported = true;
+
+    const writes = stopWriteRecording();
+    print();
+    if (writes.length === 0) {
+      print(chalk.dim(options.dryRun ? 'Dry run: no files would change' : 'No files changed'));
+      return;
+    }
+
+    for (const write of writes) {
+      print(formatUnifiedDiff(write).map(colourLine).join('\n'));
+    }
+    if (options.dryRun) {
+      print(chalk.dim(`\nDry run: ${writes.length} file(s) would change, nothing was written`));
+    }
+  };
+
+  // Commands exit early on failures, after some files may have changed
+  process.once('exit', report);
+  startWriteRecording({ dryRun: options.dryRun });
+
+  try {
+    await run();
+  } finally {
+    process.removeListener('exit', report);
+    report();
+  }
+}
@@ -14,8 +14,7 @@
  */
 
 import { Command } from 'commander';
-
-const VERSION = '2.5.1';
+import { VERSION } from '@/utils/version.js';
 
 // Capture Claude args passed after -- separator
 const dashDashIndex = process.argv.indexOf('--');
@@ -28,14 +27,27 @@ if (dashDashIndex !== -1) {
   process.argv = process.argv.slice(0, dashDashIndex);
 }
 
+/** Collect repeatable option values into an array */
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
 const program = new Command();
 
 program
   .name('mcp')
   .description('MCP Server Selector TUI for Claude Code\n\nClaude flags (--resume, --dangerously-skip-permissions, etc.) are passed through.')
   .version(VERSION)
+  .option('--cwd <dir>', 'Run as if mcp was started in <dir> (before the command: mcp --cwd <dir> list)')
   .allowUnknownOption() // Allow Claude flags to pass through
-  .enablePositionalOptions(); // Required for passThroughOptions on subcommands
+  .enablePositionalOptions() // Required for passThroughOptions on subcommands
+  .hook('preAction', async () => {
+    const { cwd } = program.opts<{ cwd?: string }>();
+    if (cwd) {
+      const { changeDirectory } = await import('./project.js');
+      changeDirectory(cwd);
+    }
+  });
 
 // Default TUI mode
 program
@@ -45,13 +57,15 @@ program
   .option('--strict-disable', 'Convert ORANGE servers to RED before launching Claude')
   .option('-q, --quiet', 'Suppress non-essential output')
   .option('--no-launch', 'Do not launch Claude after saving (for testing)')
+  .option('--no-watch', 'Do not reload when config files change on disk')
   .allowUnknownOption() // Allow Claude flags to pass through
   .passThroughOptions() // Stop parsing options after first positional
+  .option('--project <dir>', 'Project folder (default: the current directory, walked up to the nearest .git or .claude)')
   .action(async (claudeArgsFromCommand: string[], options) => {
     // Combine arguments from command line and post-dash args
     const claudeArgs = [...claudeArgsFromCommand, ...postDashArgs];
     const { runTui } = await import('./commands/tui.js');
-    await runTui({ ...options, claudeArgs, launch: options.launch !== false });
+    await runTui({ ...options, claudeArgs, launch: options.launch !== false, watch: options.watch !== false });
   });
 
 // Diagnostic commands
@@ -59,6 +73,7 @@ program
   .command('audit')
   .description('Check configuration health and detect issues')
   .option('--json', 'Output as JSON')
+  .option('--project <dir>', 'Project folder (default: the current directory, walked up to the nearest .git or .claude)')
   .action(async (options) => {
     const { runAudit } = await import('./commands/audit.js');
     await runAudit(options);
@@ -66,41 +81,304 @@ program
 
 program
   .command('validate')
-  .description('Quick validation of all configuration file syntax')
-  .action(async () => {
+  .description('Check every configuration file for syntax and schema errors')
+  .option('--json', 'Output as JSON')
+  .option('--project <dir>', 'Project folder (default: the current directory, walked up to the nearest .git or .claude)')
+  .action(async (options) => {
     const { runValidate } = await import('./commands/validate.js');
-    await runValidate();
+    await runValidate(options);
   });
 
 program
   .command('debug-precedence <server>')
   .description('Show precedence resolution trace for a server')
-  .action(async (server) => {
+  .option('--project <dir>', 'Project folder (default: the current directory, walked up to the nearest .git or .claude)')
+  .action(async (server, options) => {
     const { runDebugPrecedence } = await import('./commands/debug-precedence.js');
-    await runDebugPrecedence(server);
+    await runDebugPrecedence(server, options);
+  });
+
+program
+  .command('why <server>')
+  .description('Explain why a server is on, off or paused, and what would change it')
+  .option('--json', 'Output as JSON')
+  .option('--project <dir>', 'Project folder (default: the current directory, walked up to the nearest .git or .claude)')
+  .action(async (server, options) => {
+    const { runWhy } = await import('./commands/why.js');
+    await runWhy(server, options);
   });
 
 // Server management commands
 program
   .command('enable [servers...]')
-  .description('Enable specific servers')
+  .description('Enable servers by name, glob (\'time*\') or regex (\'/^git/\')')
   .option('--all', 'Enable all servers')
+  .option('--source <sources>', 'Only servers from: mcpjson, direct, direct-global, direct-local, plugin, enterprise')
+  .option('--scope <scopes>', 'Only servers in: enterprise, local, project, user')
+  .option('--transport <transports>', 'Only servers using: stdio, http, sse')
+  .option('--state <states>', 'Only servers that are: red, green, orange')
   .option('--json', 'Output as JSON')
   .option('-q, --quiet', 'Suppress output')
+  .option('--dry-run', 'Show a diff of the changes without writing anything')
+  .option('--diff', 'Show a diff of every file changed')
+  .option('--project <dir>', 'Project folder (default: the current directory, walked up to the nearest .git or .claude)')
   .action(async (servers, options) => {
+    const { withWriteMode } = await import('./dry-run.js');
     const { runEnable } = await import('./commands/enable.js');
-    await runEnable(servers, options);
+    await withWriteMode(options, () => runEnable(servers, options));
   });
 
 program
   .command('disable [servers...]')
-  .description('Disable specific servers')
+  .description('Disable servers by name, glob (\'time*\') or regex (\'/^git/\')')
   .option('--all', 'Disable all servers')
+  .option('--source <sources>', 'Only servers from: mcpjson, direct, direct-global, direct-local, plugin, enterprise')
+  .option('--scope <scopes>', 'Only servers in: enterprise, local, project, user')
+  .option('--transport <transports>', 'Only servers using: stdio, http, sse')
+  .option('--state <states>', 'Only servers that are: red, green, orange')
   .option('--json', 'Output as JSON')
   .option('-q, --quiet', 'Suppress output')
+  .option('--dry-run', 'Show a diff of the changes without writing anything')
+  .option('--diff', 'Show a diff of every file changed')
+  .option('--project <dir>', 'Project folder (default: the current directory, walked up to the nearest .git or .claude)')
   .action(async (servers, options) => {
+    const { withWriteMode } = await import('./dry-run.js');
     const { runDisable } = await import('./commands/disable.js');
-    await runDisable(servers, options);
+    await withWriteMode(options, () => runDisable(servers, options));
+  });
+
+program
+  .command('list [servers...]')
+  .description('List servers with their state, scope and source (names, globs or /regex/ narrow the list)')
+  .option('--format <format>', 'Output format: table, json, csv (default: table)')
+  .option('--json', 'Output as JSON (same as --format json)')
+  .option('--csv', 'Output as CSV (same as --format csv)')
+  .option('--fields <fields>', 'Comma-separated fields: name, state, scope, sourceType, definitionFile, transport, flags, plugin')
+  .option('--source <sources>', 'Only servers from: mcpjson, direct, direct-global, direct-local, plugin, enterprise')
+  .option('--scope <scopes>', 'Only servers in: enterprise, local, project, user')
+  .option('--transport <transports>', 'Only servers using: stdio, http, sse')
+  .option('--state <states>', 'Only servers that are: red, green, orange')
+  .option('--schema', 'Print the JSON Schema of the --json output')
+  .option('-q, --quiet', 'Omit the header row')
+  .option('--project <dir>', 'Project folder (default: the current directory, walked up to the nearest .git or .claude)')
+  .action(async (servers, options) => {
+    const { runList } = await import('./commands/list.js');
+    await runList(servers, options);
+  });
+
+program
+  .command('pause [servers...]')
+  .description('Pause servers (ORANGE): keep them enabled but stop Claude starting them in this project')
+  .option('--source <sources>', 'Only servers from: mcpjson, direct, direct-global, direct-local, plugin, enterprise')
+  .option('--scope <scopes>', 'Only servers in: enterprise, local, project, user')
+  .option('--transport <transports>', 'Only servers using: stdio, http, sse')
+  .option('--state <states>', 'Only servers that are: red, green, orange')
+  .option('--json', 'Output as JSON')
+  .option('-q, --quiet', 'Suppress output')
+  .option('--dry-run', 'Show a diff of the changes without writing anything')
+  .option('--diff', 'Show a diff of every file changed')
+  .option('--project <dir>', 'Project folder (default: the current directory, walked up to the nearest .git or .claude)')
+  .action(async (servers, options) => {
+    const { withWriteMode } = await import('./dry-run.js');
+    const { runPause } = await import('./commands/pause.js');
+    await withWriteMode(options, () => runPause(servers, options));
+  });
+
+program
+  .command('resume [servers...]')
+  .description('Resume paused servers (ORANGE to GREEN)')
+  .option('--source <sources>', 'Only servers from: mcpjson, direct, direct-global, direct-local, plugin, enterprise')
+  .option('--scope <scopes>', 'Only servers in: enterprise, local, project, user')
+  .option('--transport <transports>', 'Only servers using: stdio, http, sse')
+  .option('--state <states>', 'Only servers that are: red, green, orange')
+  .option('--json', 'Output as JSON')
+  .option('-q, --quiet', 'Suppress output')
+  .option('--dry-run', 'Show a diff of the changes without writing anything')
+  .option('--diff', 'Show a diff of every file changed')
+  .option('--project <dir>', 'Project folder (default: the current directory, walked up to the nearest .git or .claude)')
+  .action(async (servers, options) => {
+    const { withWriteMode } = await import('./dry-run.js');
+    const { runResume } = await import('./commands/pause.js');
+    await withWriteMode(options, () => runResume(servers, options));
+  });
+
+program
+  .command('edit <server>')
+  .description('Edit a server definition in place (backs up the file first)')
+  .option('--set <path=value>', 'Set a field: command, url, type, args, args[N], env.KEY, headers.NAME', collect)
+  .option('--unset <path>', 'Remove a field (same paths as --set)', collect)
+  .option('--env <KEY=value>', 'Set an environment variable', collect)
+  .option('--header <"Name: value">', 'Set an HTTP header', collect)
+  .option('--json', 'Output as JSON')
+  .option('-q, --quiet', 'Suppress output')
+  .option('--project <dir>', 'Project folder (default: the current directory, walked up to the nearest .git or .claude)')
+  .option('--dry-run', 'Show a diff of the changes without writing anything')
+  .option('--diff', 'Show a diff of every file changed')
+  .action(async (server, options) => {
+    const { runEdit } = await import('./commands/edit.js');
+    const { withWriteMode } = await import('./dry-run.js');
+    await withWriteMode(options, () => runEdit(server, options));
+  });
+
+// Cross-project commands
+const projects = program
+  .command('projects')
+  .description('Show and change MCP state across every project in ~/.claude.json');
+
+projects
+  .command('list', { isDefault: true })
+  .description('List projects with their servers by state, flagging stale paths')
+  .option('--stale', 'Only projects whose folder no longer exists')
+  .option('--json', 'Output as JSON')
+  .option('--project <dir>', 'Project folder (default: the current directory, walked up to the nearest .git or .claude)')
+  .action(async (options) => {
+    const { runProjectsList } = await import('./commands/projects.js');
+    await runProjectsList(options);
+  });
+
+projects
+  .command('enable [servers...]')
+  .description('Enable servers in every project (names, globs or /regex/)')
+  .option('--project <path>', 'Only this project (repeatable)', collect)
+  .option('--source <sources>', 'Only servers from: mcpjson, direct, direct-global, direct-local, plugin, enterprise')
+  .option('--scope <scopes>', 'Only servers in: enterprise, local, project, user')
+  .option('--transport <transports>', 'Only servers using: stdio, http, sse')
+  .option('--state <states>', 'Only servers that are: red, green, orange')
+  .option('--json', 'Output as JSON')
+  .option('-q, --quiet', 'Suppress output')
+  .option('--dry-run', 'Show a diff of the changes without writing anything')
+  .option('--diff', 'Show a diff of every file changed')
+  .action(async (servers, options) => {
+    const { withWriteMode } = await import('./dry-run.js');
+    const { runProjectsAction } = await import('./commands/projects.js');
+    await withWriteMode(options, () => runProjectsAction('enable', servers, options));
+  });
+
+projects
+  .command('disable [servers...]')
+  .description('Disable servers in every project (names, globs or /regex/)')
+  .option('--project <path>', 'Only this project (repeatable)', collect)
+  .option('--source <sources>', 'Only servers from: mcpjson, direct, direct-global, direct-local, plugin, enterprise')
+  .option('--scope <scopes>', 'Only servers in: enterprise, local, project, user')
+  .option('--transport <transports>', 'Only servers using: stdio, http, sse')
+  .option('--state <states>', 'Only servers that are: red, green, orange')
+  .option('--json', 'Output as JSON')
+  .option('-q, --quiet', 'Suppress output')
+  .option('--dry-run', 'Show a diff of the changes without writing anything')
+  .option('--diff', 'Show a diff of every file changed')
+  .action(async (servers, options) => {
+    const { withWriteMode } = await import('./dry-run.js');
+    const { runProjectsAction } = await import('./commands/projects.js');
+    await withWriteMode(options, () => runProjectsAction('disable', servers, options));
+  });
+
+projects
+  .command('pause [servers...]')
+  .description('Pause servers in every project (names, globs or /regex/)')
+  .option('--project <path>', 'Only this project (repeatable)', collect)
+  .option('--source <sources>', 'Only servers from: mcpjson, direct, direct-global, direct-local, plugin, enterprise')
+  .option('--scope <scopes>', 'Only servers in: enterprise, local, project, user')
+  .option('--transport <transports>', 'Only servers using: stdio, http, sse')
+  .option('--state <states>', 'Only servers that are: red, green, orange')
+  .option('--json', 'Output as JSON')
+  .option('-q, --quiet', 'Suppress output')
+  .option('--dry-run', 'Show a diff of the changes without writing anything')
+  .option('--diff', 'Show a diff of every file changed')
+  .action(async (servers, options) => {
+    const { withWriteMode } = await import('./dry-run.js');
+    const { runProjectsAction } = await import('./commands/projects.js');
+    await withWriteMode(options, () => runProjectsAction('pause', servers, options));
+  });
+
+projects
+  .command('resume [servers...]')
+  .description('Resume paused servers in every project (names, globs or /regex/)')
+  .option('--project <path>', 'Only this project (repeatable)', collect)
+  .option('--source <sources>', 'Only servers from: mcpjson, direct, direct-global, direct-local, plugin, enterprise')
+  .option('--scope <scopes>', 'Only servers in: enterprise, local, project, user')
+  .option('--transport <transports>', 'Only servers using: stdio, http, sse')
+  .option('--state <states>', 'Only servers that are: red, green, orange')
+  .option('--json', 'Output as JSON')
+  .option('-q, --quiet', 'Suppress output')
+  .option('--dry-run', 'Show a diff of the changes without writing anything')
+  .option('--diff', 'Show a diff of every file changed')
+  .action(async (servers, options) => {
+    const { withWriteMode } = await import('./dry-run.js');
+    const { runProjectsAction } = await import('./commands/projects.js');
+    await withWriteMode(options, () => runProjectsAction('resume', servers, options));
+  });
+
+program
+  .command('prune-projects')
+  .description('Remove MCP keys of ~/.claude.json projects whose folder no longer exists (backs up first)')
+  .option('--entire', 'Remove the whole project entry, not only its MCP keys')
+  .option('--json', 'Output as JSON')
+  .option('-q, --quiet', 'Suppress output')
+  .option('--dry-run', 'Show a diff of the changes without writing anything')
+  .option('--diff', 'Show a diff of every file changed')
+  .action(async (options) => {
+    const { withWriteMode } = await import('./dry-run.js');
+    const { runPruneProjects } = await import('./commands/prune-projects.js');
+    await withWriteMode(options, () => runPruneProjects(options));
+  });
+
+// Profile commands
+const profile = program
+  .command('profile')
+  .description('Save and apply named server profiles');
+
+profile
+  .command('save <name>')
+  .description('Save current server states as a profile')
+  .option('-d, --description <text>', 'Profile description')
+  .option('--json', 'Output as JSON')
+  .option('-q, --quiet', 'Suppress output')
+  .option('--project <dir>', 'Project folder (default: the current directory, walked up to the nearest .git or .claude)')
+  .action(async (name, options) => {
+    const { runProfileSave } = await import('./commands/profile.js');
+    await runProfileSave(name, options);
+  });
+
+profile
+  .command('list')
+  .description('List saved profiles')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    const { runProfileList } = await import('./commands/profile.js');
+    await runProfileList(options);
+  });
+
+profile
+  .command('apply <name>')
+  .description('Apply a saved profile to the current project')
+  .option('--json', 'Output as JSON')
+  .option('-q, --quiet', 'Suppress output')
+  .option('--project <dir>', 'Project folder (default: the current directory, walked up to the nearest .git or .claude)')
+  .option('--dry-run', 'Show a diff of the changes without writing anything')
+  .option('--diff', 'Show a diff of every file changed')
+  .action(async (name, options) => {
+    const { runProfileApply } = await import('./commands/profile.js');
+    const { withWriteMode } = await import('./dry-run.js');
+    await withWriteMode(options, () => runProfileApply(name, options));
+  });
+
+profile
+  .command('delete <name>')
+  .description('Delete a saved profile')
+  .option('-q, --quiet', 'Suppress output')
+  .action(async (name, options) => {
+    const { runProfileDelete } = await import('./commands/profile.js');
+    await runProfileDelete(name, options);
+  });
+
+profile
+  .command('diff <name>')
+  .description('Show differences between a profile and current state')
+  .option('--json', 'Output as JSON')
+  .option('--project <dir>', 'Project folder (default: the current directory, walked up to the nearest .git or .claude)')
+  .action(async (name, options) => {
+    const { runProfileDiff } = await import('./commands/profile.js');
+    await runProfileDiff(name, options);
   });
 
 // Utility commands
@@ -126,9 +404,48 @@ program
 program
   .command('context-report')
   .description('Show current context and configuration summary')
-  .action(async () => {
+  .option('--tokens', 'Estimate the context cost of enabled servers (starts them to list tools)')
+  .option('--refresh', 'Ignore cached tool inventories')
+  .option('--timeout <ms>', 'Per-server timeout when inspecting (default: 10000)')
+  .option('--json', 'Output as JSON (with --tokens)')
+  .option('--project <dir>', 'Project folder (default: the current directory, walked up to the nearest .git or .claude)')
+  .action(async (options) => {
     const { runContextReport } = await import('./commands/context-report.js');
-    await runContextReport();
+    await runContextReport(options);
+  });
+
+program
+  .command('budget')
+  .description('Compare enabled servers\' tool tokens to a budget and suggest servers to disable')
+  .option('--max-tokens <n>', 'Token budget (default: saved budget)')
+  .option('--save', 'Save --max-tokens as the default budget')
+  .option('--pin <server>', 'Never suggest this server (saved)', collect)
+  .option('--unpin <server>', 'Remove a pin (saved)', collect)
+  .option('--apply', 'Apply the suggestions')
+  .option('--state <state>', 'State for suggested servers: red or orange (default: red)')
+  .option('--refresh', 'Ignore cached tool inventories')
+  .option('--timeout <ms>', 'Per-server timeout when inspecting (default: 10000)')
+  .option('--json', 'Output as JSON')
+  .option('-q, --quiet', 'Suppress output')
+  .option('--project <dir>', 'Project folder (default: the current directory, walked up to the nearest .git or .claude)')
+  .option('--dry-run', 'Show a diff of the changes without writing anything')
+  .option('--diff', 'Show a diff of every file changed')
+  .action(async (options) => {
+    const { runBudget } = await import('./commands/budget.js');
+    const { withWriteMode } = await import('./dry-run.js');
+    await withWriteMode(options, () => runBudget(options));
+  });
+
+program
+  .command('doctor [server]')
+  .description('Check that servers start and complete the MCP handshake')
+  .option('--all', 'Include disabled servers')
+  .option('--timeout <ms>', 'Handshake timeout per server (default: 10000)')
+  .option('--json', 'Output as JSON')
+  .option('--project <dir>', 'Project folder (default: the current directory, walked up to the nearest .git or .claude)')
+  .action(async (server, options) => {
+    const { runDoctor } = await import('./commands/doctor.js');
+    await runDoctor(server, options);
   });
 
 // Fix commands
@@ -136,25 +453,101 @@ program
   .command('fix-config')
   .description('Auto-fix detected configuration issues')
   .option('--apply', 'Apply fixes without confirmation')
+  .option('--dry-run', 'Show a diff of the changes without writing anything')
+  .option('--diff', 'Show a diff of every file changed')
+  .option('--project <dir>', 'Project folder (default: the current directory, walked up to the nearest .git or .claude)')
   .action(async (options) => {
+    const { withWriteMode } = await import('./dry-run.js');
     const { runFixConfig } = await import('./commands/fix-config.js');
-    await runFixConfig(options);
+    await withWriteMode(options, () => runFixConfig(options));
   });
 
 program
   .command('restore-plugin <plugin>')
   .description('Restore a hard-disabled plugin')
-  .action(async (plugin) => {
+  .option('--dry-run', 'Show a diff of the changes without writing anything')
+  .option('--diff', 'Show a diff of every file changed')
+  .option('--project <dir>', 'Project folder (default: the current directory, walked up to the nearest .git or .claude)')
+  .action(async (plugin, options) => {
+    const { withWriteMode } = await import('./dry-run.js');
     const { runRestorePlugin } = await import('./commands/restore-plugin.js');
-    await runRestorePlugin(plugin);
+    await withWriteMode(options, () => runRestorePlugin(plugin, options));
   });
 
 program
   .command('rollback')
-  .description('Revert ~/.claude.json to last backup')
-  .action(async () => {
+  .description('Undo a save or restore a configuration backup')
+  .option('--last', 'Undo the most recent save without prompting')
+  .option('--dry-run', 'Show a diff of the changes without writing anything')
+  .option('--diff', 'Show a diff of every file changed')
+  .action(async (options) => {
+    const { withWriteMode } = await import('./dry-run.js');
     const { runRollback } = await import('./commands/rollback.js');
-    await runRollback();
+    await withWriteMode(options, () => runRollback(options));
+  });
+
+// Backup commands
+const backups = program
+  .command('backups')
+  .description('Browse, compare and restore configuration backups');
+
+backups
+  .command('list')
+  .description('List backups, newest first')
+  .option('--file <path>', 'Only backups of this file')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    const { runBackupsList } = await import('./commands/backups.js');
+    await runBackupsList(options);
+  });
+
+backups
+  .command('show <backup>')
+  .description('Show a backup\'s metadata and MCP configuration (number from list, or id)')
+  .option('--json', 'Output as JSON')
+  .action(async (backup, options) => {
+    const { runBackupsShow } = await import('./commands/backups.js');
+    await runBackupsShow(backup, options);
+  });
+
+backups
+  .command('diff <backup>')
+  .description('Show MCP changes restoring a backup would make')
+  .option('--to <path>', 'Compare with this file instead of the backup\'s source')
+  .option('--json', 'Output as JSON')
+  .action(async (backup, options) => {
+    const { runBackupsDiff } = await import('./commands/backups.js');
+    await runBackupsDiff(backup, options);
+  });
+
+backups
+  .command('restore <backup>')
+  .description('Restore a backup (undo with mcp rollback --last)')
+  .option('--mcp-only', 'Only restore MCP-related keys, keeping the rest of the current file')
+  .option('--to <path>', 'Restore to this file instead of the backup\'s source')
+  .option('-y, --yes', 'Restore without confirmation')
+  .option('--json', 'Output as JSON')
+  .option('-q, --quiet', 'Suppress output')
+  .option('--dry-run', 'Show a diff of the changes without writing anything')
+  .option('--diff', 'Show a diff of every file changed')
+  .action(async (backup, options) => {
+    const { runBackupsRestore } = await import('./commands/backups.js');
+    const { withWriteMode } = await import('./dry-run.js');
+    await withWriteMode(options, () => runBackupsRestore(backup, options));
+  });
+
+backups
+  .command('prune')
+  .description('Delete old backups by the retention policy (~/.claude/mcp-selector.json)')
+  .option('--dry-run', 'Show what would be deleted')
+  .option('--keep-last <n>', 'Newest backups to keep per file')
+  .option('--keep-days <n>', 'Days to keep one backup per day')
+  .option('--max-size <mb>', 'Total size cap in MB (0 = no cap)')
+  .option('--json', 'Output as JSON')
+  .option('-q, --quiet', 'Only print the summary')
+  .action(async (options) => {
+    const { runBackupsPrune } = await import('./commands/backups.js');
+    await runBackupsPrune(options);
   });
 
 // Plugin management commands
@@ -162,17 +555,23 @@ program
   .command('install <plugin>')
   .description('Install a plugin from marketplace (e.g., "developer-toolkit@wookstar-claude-plugins")')
   .option('--copy', 'Copy plugin to cache directory instead of using marketplace path')
+  .option('--dry-run', 'Show a diff of the changes without writing anything')
+  .option('--diff', 'Show a diff of every file changed')
   .action(async (plugin, options) => {
+    const { withWriteMode } = await import('./dry-run.js');
     const { runInstallPlugin } = await import('./commands/install-plugin.js');
-    await runInstallPlugin(plugin, options);
+    await withWriteMode(options, () => runInstallPlugin(plugin, options));
   });
 
 program
   .command('uninstall <plugin>')
   .description('Uninstall a plugin (remove from installed_plugins.json)')
-  .action(async (plugin) => {
+  .option('--dry-run', 'Show a diff of the changes without writing anything')
+  .option('--diff', 'Show a diff of every file changed')
+  .action(async (plugin, options) => {
+    const { withWriteMode } = await import('./dry-run.js');
     const { runUninstallPlugin } = await import('./commands/uninstall-plugin.js');
-    await runUninstallPlugin(plugin);
+    await withWriteMode(options, () => runUninstallPlugin(plugin));
   });
 
 program
@@ -187,9 +586,10 @@ program
 program
   .command('compare')
   .description('Compare discovered servers with Claude Code /mcp list')
-  .action(async () => {
+  .option('--project <dir>', 'Project folder (default: the current directory, walked up to the nearest .git or .claude)')
+  .action(async (options) => {
     const { runCompare } = await import('./commands/compare.js');
-    await runCompare();
+    await runCompare(options);
   });
 
 // Parse and execute
@@ -0,0 +1,56 @@
+/**
+ * --project for commands that work on the current project, and --cwd
+ *
+ * Commands run against the project root (utils/project.ts) of --project
+ * or the working directory, so mcp behaves the same from any subfolder.
+ * mcp --cwd <dir> <command> changes the working directory first.
+ */
+
+import { existsSync, statSync } from 'node:fs';
+import { resolve } from 'node:path';
+import chalk from 'chalk';
+import { expandPath } from '@/utils/paths.js';
+import { findProjectRoot, type ProjectRoot } from '@/utils/project.js';
+
+export interface ProjectOptions {
+  project?: string;
+}
+
+/**
+ * Project of a command: --project <dir> or the working directory
+ *
+ * Exits with an error if --project is not a folder.
+ */
+export function resolveProject(options: ProjectOptions = {}): ProjectRoot {
+  const start = options.project ? resolve(expandPath(options.project)) : process.cwd();
+
+  if (!existsSync(start) || !statSync(start).isDirectory()) {
+    console.error(chalk.red(`Error: Project folder not found: ${options.project}`));
+    process.exit(1);
+  }
+
+  return findProjectRoot(start);
+}
+
+/**
+ * Root folder of a command's project (see resolveProject)
+ */
+export function resolveProjectDir(options: ProjectOptions = {}): string {
+  return resolveProject(options).root;
+}
+
+/**
+ * Run as if mcp was started in a folder (mcp --cwd <dir>)
+ *
+ * Exits with an error if the folder does not exist.
+ */
+export function changeDirectory(dir: string): void {
+  const target = resolve(expandPath(dir));
+
+  if (!existsSync(target) || !statSync(target).isDirectory()) {
+    console.error(chalk.red(`Error: Folder not found: ${dir}`));
+    process.exit(1);
+  }
+
+  process.chdir(target);
+}
@@ -0,0 +1,250 @@
+/**
+ * Backup history
+ *
+ * Lists every configuration backup in ~/.claude/backups with the file it
+ * came from, the operation that created it and when:
+ * - Backups recorded in the backup index (createBackup in core/config/writer.ts)
+ * - Files saved by multi-file transactions (core/config/transaction.ts)
+ * - Older backups that predate the index, with metadata inferred from
+ *   their names (claude.json.backup.<ms>, <path>.<ms>.backup, <name>.<iso>.bak)
+ *
+ * Restores are transactions themselves, so `mcp rollback --last` undoes them.
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs';
+import { join, relative, sep } from 'node:path';
+import type { BackupEntry, JsonChange, TransactionEntry } from '@/types/index.js';
+import { getBackupIndexPath, getClaudeJsonPath, getHomeDir, getUserMcpJsonPath } from '@/utils/platform.js';
+import { getBackupDir, readBackupIndex } from '@/core/config/writer.js';
+import { parseJsonc } from '@/core/config/jsonc.js';
+import {
+  commitJsonTransaction,
+  commitTransaction,
+  getTransactionsDir,
+  listTransactions,
+} from '@/core/config/transaction.js';
+import { diffMcpKeys, mergeMcpKeys } from './diff.js';
+import { getBackupNameTimestamp } from './retention.js';
+
+export interface RestoreOptions {
+  /** Restore to this file instead of the backup's source */
+  target?: string;
+  /** Only restore MCP-related keys, keeping the rest of the current file */
+  mcpOnly?: boolean;
+}
+
+function toId(path: string): string {
+  return relative(getBackupDir(), path).split(sep).join('/');
+}
+
+function getSize(path: string): number | null {
+  try {
+    return statSync(path).size;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Undo the path mangling of old backups ("/" replaced by "_")
+ *
+ * Lossy for paths containing "_", so known config files are matched first.
+ */
+function unmanglePath(mangled: string): string | null {
+  const known = [
+    getClaudeJsonPath(),
+    getUserMcpJsonPath(),
+    join(getHomeDir(), '.claude', 'settings.json'),
+    join(getHomeDir(), '.claude', 'settings.local.json'),
+  ];
+  const match = known.find((path) => path.replace(/[/\\]/g, '_') === mangled);
+  if (match) return match;
+
+  const naive = mangled.replace(/_/g, '/');
+  return existsSync(naive) ? naive : null;
+}
+
+/**
+ * Infer metadata of a backup that predates the index from its name
+ */
+function inferLegacyBackup(name: string, path: string, size: number): BackupEntry | null {
+  if (!name.endsWith('.bak') && !name.endsWith('.backup') && !/\.backup\.\d+$/.test(name)) {
+    return null;
+  }
+
+  const createdAt = getBackupNameTimestamp(name) ?? statSync(path).mtime.toISOString();
+  const base = { id: name, path, size, createdAt, inferred: true };
+  let match: RegExpMatchArray | null;
+
+  // migration.ts: claude.json.backup.<ms>
+  if (/^claude\.json\.backup\.\d+$/.test(name)) {
+    return { ...base, source: getClaudeJsonPath(), operation: 'migrate' };
+  }
+
+  // rollback.ts: pre-rollback.<mangled path>.<ms>.bak
+  if ((match = name.match(/^pre-rollback\.(.+)\.\d+\.bak$/))) {
+    return { ...base, source: unmanglePath(match[1]!), operation: 'rollback' };
+  }
+
+  // fix-config.ts / restore-plugin.ts: <mangled path>.<ms>.backup
+  if ((match = name.match(/^(.+)\.\d+\.backup$/))) {
+    return { ...base, source: unmanglePath(match[1]!), operation: 'unknown' };
+  }
+
+  // writer.ts: <basename>.<iso>.bak
+  if ((match = name.match(/^(.+)\.\d{4}-\d\d-\d\dT[\d-]+Z(?:-\d+)?\.bak$/))) {
+    return { ...base, source: match[1] === '.claude.json' ? getClaudeJsonPath() : null, operation: 'write' };
+  }
+
+  return { ...base, source: null, operation: 'unknown' };
+}
+
+/**
+ * List all backups, newest first
+ */
+export function listBackups(): BackupEntry[] {
+  const backupDir = getBackupDir();
+  if (!existsSync(backupDir)) return [];
+
+  const backups: BackupEntry[] = [];
+  const indexed = new Set<string>();
+
+  for (const entry of readBackupIndex()) {
+    const path = join(backupDir, entry.file);
+    const size = getSize(path);
+    if (size === null) continue;
+
+    indexed.add(entry.file);
+    backups.push({
+      id: entry.file,
+      path,
+      source: entry.source,
+      operation: entry.operation,
+      createdAt: entry.createdAt,
+      size,
+    });
+  }
+
+  const indexFile = toId(getBackupIndexPath());
+  for (const name of readdirSync(backupDir)) {
+    if (indexed.has(name) || name === indexFile) continue;
+
+    const path = join(backupDir, name);
+    try {
+      if (!statSync(path).isFile()) continue;
+      const legacy = inferLegacyBackup(name, path, statSync(path).size);
+      if (legacy) backups.push(legacy);
+    } catch {
+      // Skip files we can't stat
+    }
+  }
+
+  for (const transaction of listTransactions()) {
+    for (const file of transaction.files) {
+      if (!file.backup) continue;
+
+      const path = join(getTransactionsDir(), transaction.id, file.backup);
+      const size = getSize(path);
+      if (size === null) continue;
+
+      backups.push({
+        id: toId(path),
+        path,
+        source: file.path,
+        operation: transaction.operation,
+        createdAt: transaction.createdAt,
+        size,
+        transaction: transaction.id,
+      });
+    }
+  }
+
+  return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Find a backup by list number (1 = newest), id, or unique id prefix
+ *
+ * @throws Error if no backup or more than one backup matches
+ */
+export function findBackup(ref: string, backups: BackupEntry[] = listBackups()): BackupEntry {
+  if (/^\d+$/.test(ref)) {
+    const byNumber = backups[Number(ref) - 1];
+    if (byNumber) return byNumber;
+  }
+
+  const exact = backups.find((b) => b.id === ref);
+  if (exact) return exact;
+
+  const matches = backups.filter((b) => b.id.startsWith(ref));
+  if (matches.length === 1) return matches[0]!;
+  if (matches.length > 1) {
+    throw new Error(`Backup "${ref}" is ambiguous (${matches.length} matches)`);
+  }
+  throw new Error(`Backup "${ref}" not found`);
+}
+
+function resolveTarget(entry: BackupEntry, target?: string): string {
+  const resolved = target ?? entry.source;
+  if (!resolved) {
+    throw new Error(`Cannot tell which file "${entry.id}" was taken from; pass a target path`);
+  }
+  return resolved;
+}
+
+function readJson(path: string): unknown {
+  try {
+    return parseJsonc(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Cannot parse ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Read a backup's parsed JSON
+ *
+ * @throws Error if the backup is not valid JSON
+ */
+export function readBackupJson(entry: BackupEntry): unknown {
+  return readJson(entry.path);
+}
+
+/**
+ * Compare the MCP-related keys of the current file with a backup
+ *
+ * Changes read as what restoring the backup would do.
+ *
+ * @throws Error if the target is unknown or either file is not valid JSON
+ */
+export function diffBackup(
+  entry: BackupEntry,
+  target?: string
+): { target: string; exists: boolean; changes: JsonChange[] } {
+  const resolved = resolveTarget(entry, target);
+  const exists = existsSync(resolved);
+  const current = exists ? readJson(resolved) : {};
+
+  return { target: resolved, exists, changes: diffMcpKeys(current, readBackupJson(entry)) };
+}
+
+/**
+ * Restore a backup over its source file (or `options.target`)
+ *
+ * Runs as a transaction, so the file is backed up first and the restore
+ * can be undone with `mcp rollback --last`.
+ *
+ * @throws Error if the target is unknown or the write failed
+ */
+export function restoreBackup(entry: BackupEntry, options: RestoreOptions = {}): TransactionEntry {
+  const target = resolveTarget(entry, options.target);
+  const operation = `restore ${entry.id}`;
+
+  if (options.mcpOnly) {
+    const current = existsSync(target) ? readJson(target) : {};
+    return commitJsonTransaction(operation, [
+      { path: target, data: mergeMcpKeys(current, readBackupJson(entry)) },
+    ]);
+  }
+
+  return commitTransaction(operation, [{ path: target, content: readFileSync(entry.path, 'utf-8') }]);
+}
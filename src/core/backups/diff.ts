@@ -0,0 +1,148 @@
+/**
+ * Structural JSON diff of MCP-related configuration
+ *
+ * Backups of ~/.claude.json are mostly unrelated state (history, tips,
+ * caches), so comparisons look only at the keys that control MCP servers,
+ * both at the root and inside each projects[path] entry.
+ */
+
+import type { JsonChange } from '@/types/index.js';
+
+/** Keys that control MCP servers (root and projects[path]) */
+export const MCP_KEYS = [
+  'mcpServers',
+  'enabledMcpjsonServers',
+  'disabledMcpjsonServers',
+  'enableAllProjectMcpServers',
+  'enabledPlugins',
+  'disabledMcpServers',
+] as const;
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPrimitive(value: unknown): boolean {
+  return value === null || typeof value !== 'object';
+}
+
+function pickKeys(source: JsonObject): JsonObject {
+  const picked: JsonObject = {};
+  for (const key of MCP_KEYS) {
+    if (source[key] !== undefined) picked[key] = source[key];
+  }
+  return picked;
+}
+
+/**
+ * Keep only MCP-related keys of a config file (including per-project ones)
+ */
+export function pickMcpKeys(data: unknown): JsonObject {
+  if (!isObject(data)) return {};
+
+  const picked = pickKeys(data);
+
+  if (isObject(data.projects)) {
+    const projects: JsonObject = {};
+    for (const [path, project] of Object.entries(data.projects)) {
+      if (!isObject(project)) continue;
+      const keys = pickKeys(project);
+      if (Object.keys(keys).length > 0) projects[path] = keys;
+    }
+    if (Object.keys(projects).length > 0) picked.projects = projects;
+  }
+
+  return picked;
+}
+
+/**
+ * Replace the MCP-related keys of `target` with those of `source`
+ *
+ * Other keys of `target` (and of its projects) are kept as they are.
+ */
+export function mergeMcpKeys(target: unknown, source: unknown): JsonObject {
+  const result: JsonObject = isObject(target) ? structuredClone(target) : {};
+  const from = pickMcpKeys(source);
+
+  const replaceKeys = (into: JsonObject, keys: JsonObject) => {
+    for (const key of MCP_KEYS) {
+      if (keys[key] === undefined) delete into[key];
+      else into[key] = keys[key];
+    }
+  };
+
+  replaceKeys(result, from);
+
+  const fromProjects = isObject(from.projects) ? from.projects : {};
+  const projects = isObject(result.projects) ? result.projects : {};
+
+  for (const path of new Set([...Object.keys(projects), ...Object.keys(fromProjects)])) {
+    const project = isObject(projects[path]) ? projects[path] : {};
+    replaceKeys(project, isObject(fromProjects[path]) ? fromProjects[path] : {});
+    // Drop project entries that only held MCP keys
+    if (Object.keys(project).length > 0) projects[path] = project;
+    else delete projects[path];
+  }
+
+  if (isObject(result.projects) || Object.keys(projects).length > 0) {
+    result.projects = projects;
+  }
+
+  return result;
+}
+
+/**
+ * Format a key path segment (identifiers as .key, anything else quoted)
+ */
+function appendPath(path: string, key: string): string {
+  if (/^[A-Za-z_$][\w$]*$/.test(key)) {
+    return path ? `${path}.${key}` : key;
+  }
+  return `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Compare two JSON values structurally
+ *
+ * Objects are compared key by key. Arrays of primitives (server name lists)
+ * are compared as sets, reporting each added or removed entry; other arrays
+ * are compared as a whole.
+ */
+export function diffJson(before: unknown, after: unknown, path = ''): JsonChange[] {
+  if (isObject(before) && isObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    return keys.flatMap((key) => diffJson(before[key], after[key], appendPath(path, key)));
+  }
+
+  if (before === undefined && after === undefined) return [];
+  if (before === undefined) return [{ path, type: 'added', after }];
+  if (after === undefined) return [{ path, type: 'removed', before }];
+
+  if (
+    Array.isArray(before) &&
+    Array.isArray(after) &&
+    before.every(isPrimitive) &&
+    after.every(isPrimitive)
+  ) {
+    return [
+      ...before
+        .filter((value) => !after.includes(value))
+        .map((value): JsonChange => ({ path: `${path}[]`, type: 'removed', before: value })),
+      ...after
+        .filter((value) => !before.includes(value))
+        .map((value): JsonChange => ({ path: `${path}[]`, type: 'added', after: value })),
+    ];
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+  return [{ path, type: 'changed', before, after }];
+}
+
+/**
+ * Compare the MCP-related keys of two config files
+ */
+export function diffMcpKeys(before: unknown, after: unknown): JsonChange[] {
+  return diffJson(pickMcpKeys(before), pickMcpKeys(after));
+}
@@ -0,0 +1,229 @@
+/**
+ * Backup retention
+ *
+ * Every backed-up write copies the whole file, and ~/.claude.json can be
+ * several MB, so old backups are pruned after each new one:
+ * 1. Keep the newest `keepLast` backups of each file
+ * 2. Keep the newest backup of each day for `keepDailyDays` days
+ * 3. Delete the oldest remaining backups while the total exceeds `maxTotalMB`
+ *    (the newest backup of each file is never deleted)
+ *
+ * A transaction's backups are kept or deleted together. The policy is read
+ * from ~/.claude/mcp-selector.json ("backups" key).
+ *
+ * Reads the backup directory directly so the writers that create backups
+ * (core/config/writer.ts, core/config/transaction.ts) can enforce it.
+ */
+
+import { existsSync, readdirSync, readFileSync, rmSync, statSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import type {
+  BackupIndexSchema,
+  BackupRetentionPolicy,
+  BackupSet,
+  ToolConfigSchema,
+  TransactionEntry,
+} from '@/types/index.js';
+import { getBackupIndexPath, getToolConfigPath } from '@/utils/platform.js';
+
+/** Policy used for settings missing from the tool config */
+export const DEFAULT_RETENTION: Required<BackupRetentionPolicy> = {
+  keepLast: 20,
+  keepDailyDays: 14,
+  maxTotalMB: 100,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RetentionResult {
+  policy: Required<BackupRetentionPolicy>;
+  kept: BackupSet[];
+  pruned: BackupSet[];
+  /** Bytes freed (or that would be freed on a dry run) */
+  freed: number;
+}
+
+function readJson<T>(path: string): T | null {
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+function getSize(path: string): number {
+  const stats = statSync(path);
+  if (!stats.isDirectory()) return stats.size;
+  return readdirSync(path).reduce((sum, name) => sum + getSize(join(path, name)), 0);
+}
+
+/**
+ * Read the timestamp embedded in a backup file name
+ *
+ * Handles <name>.<ms>[.backup|.bak] and <name>.<ISO with - for : and .>.bak
+ *
+ * @returns ISO timestamp, or null if the name has none
+ */
+export function getBackupNameTimestamp(name: string): string | null {
+  const iso = name.match(/\.(\d{4}-\d\d-\d\d)T(\d\d)-(\d\d)-(\d\d)-(\d{3})Z(?:-\d+)?\.bak$/);
+  if (iso) {
+    const [, date, hh, mm, ss, ms] = iso;
+    return `${date}T${hh}:${mm}:${ss}.${ms}Z`;
+  }
+
+  const millis = name.match(/\.(\d{10,})(?:\.backup|\.bak)?$/);
+  return millis ? new Date(Number(millis[1])).toISOString() : null;
+}
+
+/**
+ * Load the retention policy, filling in defaults
+ *
+ * @param overrides - Settings that take precedence over the tool config
+ */
+export function loadRetentionPolicy(overrides: BackupRetentionPolicy = {}): Required<BackupRetentionPolicy> {
+  const config = readJson<ToolConfigSchema>(getToolConfigPath());
+  const defined = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+  return resolvePolicy({ ...config?.backups, ...defined });
+}
+
+/**
+ * Fill in defaults and clamp invalid values (at least one backup is kept)
+ */
+export function resolvePolicy(policy: BackupRetentionPolicy = {}): Required<BackupRetentionPolicy> {
+  const pick = (value: number | undefined, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+
+  return {
+    keepLast: Math.max(1, Math.floor(pick(policy.keepLast, DEFAULT_RETENTION.keepLast))),
+    keepDailyDays: Math.floor(pick(policy.keepDailyDays, DEFAULT_RETENTION.keepDailyDays)),
+    maxTotalMB: pick(policy.maxTotalMB, DEFAULT_RETENTION.maxTotalMB),
+  };
+}
+
+/**
+ * Collect everything in the backup directory as prunable sets
+ */
+export function collectBackupSets(): BackupSet[] {
+  const backupDir = dirname(getBackupIndexPath());
+  if (!existsSync(backupDir)) return [];
+
+  const sets: BackupSet[] = [];
+  const indexed = new Map(
+    (readJson<BackupIndexSchema>(getBackupIndexPath())?.backups ?? []).map((entry) => [entry.file, entry])
+  );
+
+  for (const name of readdirSync(backupDir)) {
+    const path = join(backupDir, name);
+
+    if (name === 'transactions') {
+      for (const id of existsSync(path) ? readdirSync(path) : []) {
+        const dir = join(path, id);
+        const journal = readJson<TransactionEntry>(join(dir, 'journal.json'));
+        if (!journal) continue;
+
+        sets.push({
+          id: `transactions/${id}`,
+          group: 'transactions',
+          createdAt: journal.createdAt,
+          size: getSize(dir),
+          paths: [dir],
+          // An interrupted save can still be recovered with mcp rollback
+          protected: journal.status === 'pending',
+        });
+      }
+      continue;
+    }
+
+    if (!name.endsWith('.bak') && !name.endsWith('.backup') && !/\.backup\.\d+$/.test(name)) continue;
+
+    const stats = statSync(path);
+    if (!stats.isFile()) continue;
+
+    const entry = indexed.get(name);
+    sets.push({
+      id: name,
+      // Backups that predate the index are grouped by name without the timestamp
+      group: entry?.source ?? `legacy:${name.replace(/\.(?:\d{4}-\d\d-\d\dT[\dZ-]+|\d{10,}).*$/, '')}`,
+      createdAt: entry?.createdAt ?? getBackupNameTimestamp(name) ?? stats.mtime.toISOString(),
+      size: stats.size,
+      paths: [path],
+    });
+  }
+
+  return sets;
+}
+
+/**
+ * Decide which backup sets to keep
+ *
+ * @param now - Current time in ms (for the daily window)
+ */
+export function planRetention(
+  sets: BackupSet[],
+  policy: Required<BackupRetentionPolicy>,
+  now = Date.now()
+): { kept: BackupSet[]; pruned: BackupSet[] } {
+  const newestFirst = [...sets].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const keep = new Set<BackupSet>();
+  const newestOfGroup = new Set<BackupSet>();
+  const countByGroup = new Map<string, number>();
+  const days = new Set<string>();
+
+  for (const set of newestFirst) {
+    const count = countByGroup.get(set.group) ?? 0;
+    countByGroup.set(set.group, count + 1);
+    if (count === 0) newestOfGroup.add(set);
+
+    const created = Date.parse(set.createdAt);
+    const day = `${set.group}\n${set.createdAt.slice(0, 10)}`;
+    const isDaily = now - created < policy.keepDailyDays * DAY_MS && !days.has(day);
+    days.add(day);
+
+    if (set.protected || count < policy.keepLast || isDaily) {
+      keep.add(set);
+    }
+  }
+
+  // Enforce the size cap from the oldest up
+  if (policy.maxTotalMB > 0) {
+    const cap = policy.maxTotalMB * 1024 * 1024;
+    let total = [...keep].reduce((sum, set) => sum + set.size, 0);
+
+    for (const set of [...newestFirst].reverse()) {
+      if (total <= cap) break;
+      if (!keep.has(set) || set.protected || newestOfGroup.has(set)) continue;
+      keep.delete(set);
+      total -= set.size;
+    }
+  }
+
+  return {
+    kept: newestFirst.filter((set) => keep.has(set)),
+    pruned: newestFirst.filter((set) => !keep.has(set)),
+  };
+}
+
+/**
+ * Apply the retention policy to the backup directory
+ *
+ * Index entries of deleted backups are left for the caller to drop
+ * (see enforceBackupRetention in core/config/writer.ts).
+ *
+ * @param options.policy - Settings that override the tool config for this run
+ */
+export function pruneBackups(
+  options: { dryRun?: boolean; policy?: BackupRetentionPolicy } = {}
+): RetentionResult {
+  const policy = loadRetentionPolicy(options.policy);
+  const { kept, pruned } = planRetention(collectBackupSets(), policy);
+
+  if (!options.dryRun) {
+    for (const set of pruned) {
+      for (const path of set.paths) {
+        rmSync(path, { recursive: true, force: true });
+      }
+    }
+  }
+
+  return { policy, kept, pruned, freed: pruned.reduce((sum, set) => sum + set.size, 0) };
+}
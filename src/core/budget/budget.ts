@@ -0,0 +1,115 @@
+/**
+ * Context budget
+ *
+ * Compares the estimated token cost of the enabled servers (from their tool
+ * inventories) against a budget stored in ~/.claude/mcp-budget.json, and
+ * suggests the fewest servers to disable to get back under it.
+ *
+ * Enterprise-managed, blocked and restricted servers are never suggested,
+ * and neither are servers the user pinned.
+ */
+
+import type {
+  BudgetConfigSchema,
+  BudgetPlan,
+  BudgetSuggestion,
+  Server,
+  ServerInventory,
+} from '@/types/index.js';
+import { getBudgetConfigPath } from '@/utils/platform.js';
+import { parseJsonFile } from '@/core/config/parser.js';
+import { atomicWriteJson } from '@/core/config/writer.js';
+import { getDisplayState } from '@/core/servers/toggle.js';
+
+/**
+ * Load budget settings
+ */
+export async function loadBudgetConfig(): Promise<BudgetConfigSchema> {
+  return (await parseJsonFile<BudgetConfigSchema>(getBudgetConfigPath(), 'budget')) ?? {};
+}
+
+/**
+ * Update budget settings, keeping fields that are not passed
+ */
+export async function saveBudgetConfig(update: BudgetConfigSchema): Promise<BudgetConfigSchema> {
+  const config: BudgetConfigSchema = { ...(await loadBudgetConfig()), ...update, version: 1 };
+  if (config.pinned) {
+    config.pinned = [...new Set(config.pinned)].sort();
+  }
+  atomicWriteJson(getBudgetConfigPath(), config);
+  return config;
+}
+
+/**
+ * Whether a server may be suggested for disabling
+ */
+export function isBudgetCandidate(server: Server, pinned: readonly string[]): boolean {
+  return (
+    !server.flags.enterprise &&
+    !server.flags.blocked &&
+    !server.flags.restricted &&
+    !pinned.includes(server.name)
+  );
+}
+
+/**
+ * Estimated tokens of servers that will start (GREEN)
+ */
+export function getEnabledTokens(
+  servers: Server[],
+  inventories: Record<string, ServerInventory>
+): number {
+  return servers
+    .filter((s) => getDisplayState(s) === 'green')
+    .reduce((sum, s) => sum + (inventories[s.name]?.tokens ?? 0), 0);
+}
+
+/**
+ * Evaluate the enabled servers against a budget
+ *
+ * Suggestions are chosen to disable as few servers as possible: the most
+ * expensive candidates first, and for the last one the cheapest server that
+ * still closes the gap.
+ */
+export function planBudget(
+  servers: Server[],
+  inventories: Record<string, ServerInventory>,
+  maxTokens: number,
+  pinned: readonly string[] = []
+): BudgetPlan {
+  const enabled = servers.filter((s) => getDisplayState(s) === 'green');
+  const totalTokens = getEnabledTokens(servers, inventories);
+  const unknown = enabled.filter((s) => !inventories[s.name]).map((s) => s.name);
+
+  const candidates: BudgetSuggestion[] = enabled
+    .filter((s) => inventories[s.name] && isBudgetCandidate(s, pinned))
+    .map((s) => ({ server: s.name, tokens: inventories[s.name]!.tokens }))
+    .filter((c) => c.tokens > 0)
+    .sort((a, b) => b.tokens - a.tokens || a.server.localeCompare(b.server));
+
+  const suggestions: BudgetSuggestion[] = [];
+  let need = totalTokens - maxTokens;
+
+  while (need > 0 && candidates.length > 0) {
+    // Cheapest single candidate that closes the gap, otherwise the most expensive
+    const closing = candidates.filter((c) => c.tokens >= need).pop();
+    const pick = closing ?? candidates[0]!;
+
+    candidates.splice(candidates.indexOf(pick), 1);
+    suggestions.push(pick);
+    need -= pick.tokens;
+  }
+
+  suggestions.sort((a, b) => b.tokens - a.tokens);
+  const totalAfter = totalTokens - suggestions.reduce((sum, s) => sum + s.tokens, 0);
+
+  return {
+    maxTokens,
+    totalTokens,
+    overBudget: totalTokens > maxTokens,
+    suggestions,
+    totalAfter,
+    achievable: totalAfter <= maxTokens,
+    unknown,
+  };
+}
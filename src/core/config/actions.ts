@@ -0,0 +1,76 @@
+/**
+ * State changes in the current project
+ *
+ * Applies enable, disable, pause or resume to the servers a selector
+ * matches and saves the changed config files. mcp enable/disable/pause/
+ * resume and the library API (src/api) print or return the outcome.
+ */
+
+import type { ProjectAction, ServerActionOutcome, ServerActionResult } from '@/types/index.js';
+import { extractRawDefinitions } from './discovery.js';
+import { resolveServers } from './precedence.js';
+import { saveServerStates } from './state.js';
+import { applyToggle, getDisplayState, SERVER_ACTIONS } from '../servers/toggle.js';
+import { isNamePattern, isSelectorEmpty, selectServers, type ServerSelector } from '../servers/selector.js';
+
+/**
+ * Apply an action to the selected servers of a project
+ *
+ * With all and an empty selector, enable and disable apply to every
+ * server they can change; servers they cannot change are left out of
+ * the results. Names and patterns that match nothing are failed results.
+ * Nothing is saved unless at least one server succeeded.
+ *
+ * @param cwd - Project root
+ * @param options.all - Select every server (enable and disable only)
+ * @throws Error if the selector is empty and all does not apply
+ */
+export async function applyServerAction(
+  cwd: string,
+  action: ProjectAction,
+  selector: ServerSelector,
+  options: { all?: boolean } = {}
+): Promise<ServerActionOutcome> {
+  const all = options.all && isSelectorEmpty(selector) && (action === 'enable' || action === 'disable');
+  if (!all && isSelectorEmpty(selector)) {
+    throw new Error('No servers specified');
+  }
+
+  const rawData = await extractRawDefinitions(cwd);
+  const servers = resolveServers(rawData);
+  const results: ServerActionResult[] = [];
+  const selection = selectServers(servers, selector);
+
+  for (const term of selection.unmatched) {
+    results.push({ server: term, success: false, error: isNamePattern(term) ? 'No matching servers' : 'Not found' });
+  }
+
+  for (const server of selection.servers) {
+    const previous = getDisplayState(server);
+    const result = SERVER_ACTIONS[action](server);
+
+    if (all && !result.success) continue;
+
+    // disabledMcpServers turns direct servers off, so they have no paused state
+    if (result.success && action === 'pause' && server.sourceType.startsWith('direct')) {
+      results.push({ server: server.name, success: false, previous, error: 'Direct servers cannot be paused (use mcp disable)' });
+      continue;
+    }
+
+    if (result.success && result.newState) {
+      const index = servers.findIndex((s) => s.name === server.name);
+      servers[index] = applyToggle(server, result.newState);
+      results.push({ server: server.name, success: true, previous });
+    } else {
+      results.push({ server: server.name, success: false, previous, error: result.reason });
+    }
+  }
+
+  // Nothing to write (and no backup or journal entry) when every result failed
+  if (!results.some((r) => r.success)) {
+    return { results, errors: [] };
+  }
+
+  const { errors } = await saveServerStates(servers, cwd);
+  return { results, errors };
+}
@@ -0,0 +1,468 @@
+/**
+ * Configuration audit
+ *
+ * Detects configuration problems that Claude Code silently ignores:
+ * - Invalid JSON and values that do not match the file's schema
+ * - Control arrays in files Claude does not read them from
+ * - enabledPlugins entries set to explicit false
+ * - disabledMcpServers at the wrong level of ~/.claude.json
+ * - Orphaned control array entries for servers that are no longer defined
+ * - The same server defined in several scopes
+ * - Plaintext secrets in server definitions committed to git
+ * - ${VAR} references to variables that are not set
+ *
+ * Fixable issues carry fixType/fixData so fix-config can act on them.
+ * fixData paths are object key paths from the file root to the parent
+ * object holding the key (an empty path means the root object).
+ */
+
+import { readFileSync } from 'node:fs';
+import type {
+  AuditIssue,
+  AuditResult,
+  ConfigSource,
+  RawDefinition,
+} from '@/types/index.js';
+import { expandServerDefinition, findPlaintextSecrets, getExpandOptions } from '@/core/servers/expansion.js';
+import { isTrackedByGit } from '@/utils/git.js';
+import { getInstalledPluginsPath } from '@/utils/platform.js';
+import { getProjectKey } from '@/utils/project.js';
+import { getPluginDisableFormat } from '@/utils/plugin.js';
+import { discoverAllSources, extractRawDefinitions } from './discovery.js';
+import { findWinningDefinition } from './precedence.js';
+import { parseJsonc } from './jsonc.js';
+import { parseInstalledPlugins } from './parser.js';
+import { validateConfigSources } from './validation.js';
+
+/** Keys that only work in .claude/settings*.json */
+const SETTINGS_ONLY_KEYS = [
+  'enabledMcpjsonServers',
+  'disabledMcpjsonServers',
+  'enableAllProjectMcpServers',
+  'enabledPlugins',
+];
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read a JSON file as an object, or null if unreadable
+ */
+function readJsonObject(path: string): JsonObject | null {
+  try {
+    const content = parseJsonc(readFileSync(path, 'utf-8'));
+    return isObject(content) ? content : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check 1: JSON syntax and schema of every existing file
+ */
+async function checkSchemas(
+  cwd: string,
+  issues: AuditIssue[],
+  passedChecks: string[]
+): Promise<void> {
+  for (const result of await validateConfigSources(cwd)) {
+    if (result.valid) {
+      passedChecks.push(`Valid: ${result.file}`);
+      continue;
+    }
+
+    for (const violation of result.violations) {
+      const location = violation.line ? `Check line ${violation.line}, column ${violation.column}` : undefined;
+      issues.push({
+        severity: 'error',
+        file: result.file,
+        message: violation.pointer ? `${violation.pointer}: ${violation.message}` : violation.message,
+        suggestion: location ?? 'Fix JSON syntax manually',
+        fixable: false,
+        pointer: violation.pointer,
+        line: violation.line,
+        column: violation.column,
+      });
+    }
+  }
+}
+
+/**
+ * Check 2: Control arrays in files Claude ignores them in
+ *
+ * - enabledMcpjsonServers/disabledMcpjsonServers/enabledPlugins only work in settings files
+ *   (and the per-project sections of ~/.claude.json for the mcpjson arrays, so
+ *   enabledPlugins is flagged there too)
+ * - disabledMcpServers only works in ~/.claude.json
+ */
+function checkControlArrayLocations(
+  sources: ConfigSource[],
+  issues: AuditIssue[]
+): void {
+  for (const source of sources) {
+    if (!source.exists) continue;
+    const content = readJsonObject(source.path);
+    if (!content) continue;
+
+    if (source.type === 'settings') {
+      if (content.disabledMcpServers !== undefined) {
+        issues.push({
+          severity: 'warning',
+          file: source.path,
+          message: 'disabledMcpServers in wrong location',
+          suggestion: 'This array only works in ~/.claude.json (root or .projects[cwd])',
+          fixable: true,
+          fixType: 'remove-key',
+          fixData: { key: 'disabledMcpServers', path: [] },
+        });
+      }
+      continue;
+    }
+
+    if (source.type !== 'mcp' && source.type !== 'claude' && source.type !== 'enterprise') {
+      continue;
+    }
+
+    const keys = source.type === 'claude'
+      ? SETTINGS_ONLY_KEYS
+      : [...SETTINGS_ONLY_KEYS, 'disabledMcpServers'];
+
+    for (const key of keys) {
+      if (content[key] !== undefined) {
+        issues.push({
+          severity: 'warning',
+          file: source.path,
+          message: `${key} in wrong location`,
+          suggestion: key === 'disabledMcpServers'
+            ? 'This array only works in ~/.claude.json (root or .projects[cwd])'
+            : 'This key only works in .claude/settings*.json files',
+          fixable: true,
+          fixType: 'remove-key',
+          fixData: { key, path: [] },
+        });
+      }
+    }
+
+    if (source.type === 'claude' && isObject(content.projects)) {
+      for (const [project, entry] of Object.entries(content.projects)) {
+        if (!isObject(entry) || entry.enabledPlugins === undefined) continue;
+        issues.push({
+          severity: 'warning',
+          file: source.path,
+          message: `projects["${project}"].enabledPlugins in wrong location`,
+          suggestion: 'This key only works in .claude/settings*.json files',
+          fixable: true,
+          fixType: 'remove-key',
+          fixData: { key: 'enabledPlugins', path: ['projects', project] },
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Check 3: enabledPlugins[name] = false (hides the plugin from Claude's UI)
+ */
+function checkExplicitFalsePlugins(
+  sources: ConfigSource[],
+  issues: AuditIssue[]
+): void {
+  for (const source of sources) {
+    if (!source.exists || source.type !== 'settings') continue;
+    const content = readJsonObject(source.path);
+    if (!content || !isObject(content.enabledPlugins)) continue;
+
+    for (const [pluginName, value] of Object.entries(content.enabledPlugins)) {
+      if (value === false) {
+        issues.push({
+          severity: 'warning',
+          file: source.path,
+          message: `enabledPlugins["${pluginName}"] = false makes plugin invisible`,
+          suggestion: 'Remove the entry to allow plugin to be re-enabled',
+          fixable: true,
+          fixType: 'remove-explicit-false',
+          fixData: { pluginName },
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Check 4: disabledMcpServers nested inside an mcpServers map in ~/.claude.json
+ *
+ * Claude only reads it at the root or directly under .projects[path].
+ * Inside mcpServers it is treated as a server definition (or ignored).
+ */
+function checkDisabledMcpServersLevel(
+  sources: ConfigSource[],
+  issues: AuditIssue[]
+): void {
+  const source = sources.find((s) => s.type === 'claude' && s.exists);
+  if (!source) return;
+  const content = readJsonObject(source.path);
+  if (!content) return;
+
+  const inspectServers = (servers: unknown, parentPath: string[]) => {
+    if (!isObject(servers)) return;
+    const target = [...parentPath, 'disabledMcpServers'];
+
+    if (Array.isArray(servers.disabledMcpServers)) {
+      issues.push({
+        severity: 'error',
+        file: source.path,
+        message: `disabledMcpServers nested in ${[...parentPath, 'mcpServers'].join('.')}`,
+        suggestion: `Move it to ${target.join('.')}`,
+        fixable: true,
+        fixType: 'move-array',
+        fixData: { from: [...parentPath, 'mcpServers', 'disabledMcpServers'], to: target },
+      });
+    }
+
+    for (const [name, def] of Object.entries(servers)) {
+      if (isObject(def) && Array.isArray(def.disabledMcpServers)) {
+        issues.push({
+          severity: 'error',
+          file: source.path,
+          message: `disabledMcpServers inside server definition "${name}"`,
+          suggestion: `Move it to ${target.join('.')}`,
+          fixable: true,
+          fixType: 'move-array',
+          fixData: { from: [...parentPath, 'mcpServers', name, 'disabledMcpServers'], to: target },
+        });
+      }
+    }
+  };
+
+  inspectServers(content.mcpServers, []);
+
+  if (isObject(content.projects)) {
+    for (const [projectPath, project] of Object.entries(content.projects)) {
+      if (isObject(project)) {
+        inspectServers(project.mcpServers, ['projects', projectPath]);
+      }
+    }
+  }
+}
+
+/**
+ * Check 5: Orphaned entries that reference servers no longer defined
+ *
+ * Only project and local scope arrays are checked - user scope arrays
+ * legitimately reference servers defined in other projects.
+ */
+async function checkOrphanedEntries(
+  cwd: string,
+  sources: ConfigSource[],
+  rawData: RawDefinition[],
+  issues: AuditIssue[]
+): Promise<void> {
+  const defs = rawData.filter((d) => d.type === 'def');
+  const definedNames = new Set(defs.map((d) => d.server));
+  const disableNames = new Set(definedNames);
+  for (const def of defs) {
+    if (def.sourceType === 'plugin') {
+      disableNames.add(getPluginDisableFormat(def.server));
+    }
+  }
+
+  const installedPath = getInstalledPluginsPath();
+  const installed = sources.some((s) => s.path === installedPath && s.exists)
+    ? await parseInstalledPlugins(installedPath)
+    : null;
+  const installedKeys = installed?.plugins ? new Set(Object.keys(installed.plugins)) : null;
+
+  const orphan = (file: string, key: string, value: string, path: string[]): AuditIssue => ({
+    severity: 'info',
+    file,
+    message: `${key} references undefined server "${value}"`,
+    suggestion: 'Remove the stale entry',
+    fixable: true,
+    fixType: 'remove-array-entry',
+    fixData: { key, value, path },
+  });
+
+  for (const source of sources) {
+    if (!source.exists || source.type !== 'settings') continue;
+    if (source.scope !== 'local' && source.scope !== 'project') continue;
+    const content = readJsonObject(source.path);
+    if (!content) continue;
+
+    for (const key of ['enabledMcpjsonServers', 'disabledMcpjsonServers']) {
+      const entries = content[key];
+      if (!Array.isArray(entries)) continue;
+      for (const value of entries) {
+        if (typeof value === 'string' && !definedNames.has(value)) {
+          issues.push(orphan(source.path, key, value, []));
+        }
+      }
+    }
+
+    if (installedKeys && isObject(content.enabledPlugins)) {
+      for (const [pluginKey, value] of Object.entries(content.enabledPlugins)) {
+        if (value !== true || installedKeys.has(pluginKey)) continue;
+        const message = `enabledPlugins references plugin "${pluginKey}" that is not installed`;
+
+        // Committed settings enable the plugin for teammates who may have it installed
+        if (source.scope === 'project') {
+          issues.push({
+            severity: 'info',
+            file: source.path,
+            message,
+            suggestion: 'Install the plugin (the entry is shared with everyone using the repository)',
+            fixable: false,
+          });
+          continue;
+        }
+
+        issues.push({
+          severity: 'info',
+          file: source.path,
+          message,
+          suggestion: 'Install the plugin or remove the entry',
+          fixable: true,
+          fixType: 'remove-key',
+          fixData: { key: pluginKey, path: ['enabledPlugins'] },
+        });
+      }
+    }
+  }
+
+  // Current project's disabledMcpServers in ~/.claude.json
+  const claudeSource = sources.find((s) => s.type === 'claude' && s.exists);
+  const claudeJson = claudeSource ? readJsonObject(claudeSource.path) : null;
+  if (!claudeSource || !claudeJson || !isObject(claudeJson.projects)) return;
+
+  const projectKey = getProjectKey(cwd);
+  const project = claudeJson.projects[projectKey];
+  if (!isObject(project) || !Array.isArray(project.disabledMcpServers)) return;
+
+  for (const value of project.disabledMcpServers) {
+    if (typeof value === 'string' && !disableNames.has(value)) {
+      issues.push(orphan(claudeSource.path, 'disabledMcpServers', value, ['projects', projectKey]));
+    }
+  }
+}
+
+/**
+ * Check 6: The same server defined in several scopes
+ *
+ * Not an error, but only the highest priority definition is used,
+ * which is a common source of confusion when editing the others.
+ */
+function checkDuplicateDefinitions(rawData: RawDefinition[], issues: AuditIssue[]): void {
+  const byServer = new Map<string, RawDefinition[]>();
+
+  for (const item of rawData) {
+    if (item.type !== 'def' || item.sourceType === 'plugin') continue;
+    const list = byServer.get(item.server) ?? [];
+    list.push(item);
+    byServer.set(item.server, list);
+  }
+
+  for (const [server, defs] of byServer) {
+    if (defs.length < 2) continue;
+
+    const winner = findWinningDefinition(server, defs)!;
+    const locations = defs.map((d) => `${d.scope}: ${d.file}`).join(', ');
+    issues.push({
+      severity: 'info',
+      file: winner.file,
+      message: `"${server}" is defined in ${defs.length} places (${locations})`,
+      suggestion: `Definition from ${winner.scope} scope is used; remove the others to avoid confusion`,
+      fixable: false,
+    });
+  }
+}
+
+/**
+ * Check 7: API keys written into env or headers of a file committed to git
+ *
+ * Plugin definitions are skipped - their files belong to the marketplace.
+ */
+async function checkPlaintextSecrets(rawData: RawDefinition[], issues: AuditIssue[]): Promise<void> {
+  const tracked = new Map<string, Promise<boolean>>();
+  const isTracked = (file: string) => {
+    if (!tracked.has(file)) tracked.set(file, isTrackedByGit(file));
+    return tracked.get(file)!;
+  };
+
+  for (const item of rawData) {
+    if (item.type !== 'def' || item.sourceType === 'plugin' || !item.definition) continue;
+    const secrets = findPlaintextSecrets(item.server, item.definition);
+    if (secrets.length === 0 || !(await isTracked(item.file))) continue;
+
+    for (const secret of secrets) {
+      issues.push({
+        severity: 'warning',
+        file: item.file,
+        message: `"${item.server}" has a plaintext secret in ${secret.field}.${secret.key} (${secret.masked}) and the file is committed to git`,
+        suggestion: `Move it to an environment variable: "${secret.key}": "${secret.replacement}"`,
+        fixable: false,
+      });
+    }
+  }
+}
+
+/**
+ * Check 8: ${VAR} references without a value or default
+ *
+ * Only the definitions in use are checked. Claude Code starts servers
+ * with its own environment, which is usually the one mcp runs in.
+ */
+function checkUnresolvedVariables(rawData: RawDefinition[], issues: AuditIssue[]): void {
+  const names = new Set(rawData.filter((d) => d.type === 'def').map((d) => d.server));
+
+  for (const server of names) {
+    const winner = findWinningDefinition(server, rawData)!;
+    if (!winner.definition) continue;
+
+    const { unresolved } = expandServerDefinition(winner.definition, process.env, getExpandOptions(winner.sourceType));
+    if (unresolved.length === 0) continue;
+
+    const list = unresolved.map((name) => `\${${name}}`).join(', ');
+    issues.push({
+      severity: 'warning',
+      file: winner.file,
+      message: `"${server}" uses ${list} but ${unresolved.length === 1 ? 'it is' : 'they are'} not set`,
+      suggestion: `Set ${unresolved.join(', ')} before starting Claude Code, or add a default: \${${unresolved[0]}:-value}`,
+      fixable: false,
+    });
+  }
+}
+
+/**
+ * Run all configuration checks
+ */
+export async function auditConfiguration(cwd: string): Promise<AuditResult> {
+  const sources = await discoverAllSources(cwd);
+  const rawData = await extractRawDefinitions(cwd);
+  const issues: AuditIssue[] = [];
+  const passedChecks: string[] = [];
+
+  await checkSchemas(cwd, issues, passedChecks);
+
+  const checks: Array<[string, (found: AuditIssue[]) => void | Promise<void>]> = [
+    ['Control arrays in valid locations', (found) => checkControlArrayLocations(sources, found)],
+    ['No hard-disabled plugins', (found) => checkExplicitFalsePlugins(sources, found)],
+    ['disabledMcpServers at valid level', (found) => checkDisabledMcpServersLevel(sources, found)],
+    ['No orphaned references', (found) => checkOrphanedEntries(cwd, sources, rawData, found)],
+    ['No duplicate server definitions', (found) => checkDuplicateDefinitions(rawData, found)],
+    ['No plaintext secrets in committed files', (found) => checkPlaintextSecrets(rawData, found)],
+    ['No unset variables in server definitions', (found) => checkUnresolvedVariables(rawData, found)],
+  ];
+
+  for (const [label, check] of checks) {
+    const found: AuditIssue[] = [];
+    await check(found);
+    if (found.length === 0) {
+      passedChecks.push(label);
+    }
+    issues.push(...found);
+  }
+
+  return { issues, passedChecks };
+}
@@ -22,8 +22,8 @@ import {
   getProjectMcpJsonPath,
   getMarketplacesDir,
   getInstalledPluginsPath,
-  normaliseProjectPath,
 } from '@/utils/platform.js';
+import { getProjectKey } from '@/utils/project.js';
 import {
   parseClaudeJson,
   parseMcpJson,
@@ -406,8 +406,8 @@ async function extractFromClaudeJson(
 
   // Project-specific configurations
   if (data.projects) {
-    // Normalise cwd for Claude Code project key lookup
-    const normalisedCwd = normaliseProjectPath(cwd);
+    // Claude Code keys projects by their git root (see utils/project.ts)
+    const normalisedCwd = getProjectKey(cwd);
     // Find the current project entry
     const projectEntry = data.projects[normalisedCwd];
 
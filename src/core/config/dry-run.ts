@@ -0,0 +1,227 @@
+/**
+ * Write recording and dry runs
+ *
+ * Every configuration write goes through interceptWrite (atomicWriteFile,
+ * atomicWriteJson and transactions in writer.ts / transaction.ts). While a
+ * recording is active it remembers each file's contents before its first
+ * write, so a command can report what it changed:
+ * - Recording (--diff): files are written as usual
+ * - Dry run (--dry-run): writes are kept in memory instead, and backups,
+ *   journals and lock files are skipped
+ *
+ * readTextFile sees writes made earlier in a dry run, so commands that
+ * change one file several times report the combined result.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+/** A file written while recording (null = missing or deleted) */
+export interface RecordedWrite {
+  path: string;
+  before: string | null;
+  after: string | null;
+}
+
+interface Recording {
+  dryRun: boolean;
+  /** Contents before the first write, by absolute path */
+  before: Map<string, string | null>;
+  /** Dry-run contents, by absolute path */
+  pending: Map<string, string | null>;
+}
+
+/** Lines of context around each change */
+const CONTEXT_LINES = 3;
+
+/** Largest changed region compared line by line (lines × lines) */
+const MAX_DIFF_CELLS = 4_000_000;
+
+let recording: Recording | null = null;
+
+function readDisk(path: string): string | null {
+  try {
+    return existsSync(path) ? readFileSync(path, 'utf-8') : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Start recording writes
+ *
+ * @param options.dryRun - Keep writes in memory instead of writing files
+ */
+export function startWriteRecording(options: { dryRun?: boolean } = {}): void {
+  recording = { dryRun: !!options.dryRun, before: new Map(), pending: new Map() };
+}
+
+/**
+ * Stop recording and return every file that changed
+ */
+export function stopWriteRecording(): RecordedWrite[] {
+  const current = recording;
+  recording = null;
+  if (!current) return [];
+
+  return [...current.before.entries()]
+    .map(([path, before]) => ({
+      path,
+      before,
+      after: current.dryRun ? current.pending.get(path) ?? null : readDisk(path),
+    }))
+    .filter((write) => write.before !== write.after);
+}
+
+/**
+ * Whether writes are currently kept in memory
+ */
+export function isDryRun(): boolean {
+  return recording?.dryRun ?? false;
+}
+
+/**
+ * Record a write before it happens
+ *
+ * @param content - New contents, or null to delete the file
+ * @returns true if the caller must skip the write (dry run)
+ */
+export function interceptWrite(filePath: string, content: string | null): boolean {
+  if (!recording) return false;
+
+  const path = resolve(filePath);
+  if (!recording.before.has(path)) {
+    recording.before.set(path, readTextFile(path));
+  }
+  if (!recording.dryRun) return false;
+
+  recording.pending.set(path, content);
+  return true;
+}
+
+/**
+ * Read a file as text, including writes made earlier in a dry run
+ *
+ * @returns File contents, or null if the file does not exist
+ */
+export function readTextFile(filePath: string): string | null {
+  const path = resolve(filePath);
+  if (recording?.pending.has(path)) {
+    return recording.pending.get(path)!;
+  }
+  return readDisk(path);
+}
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+/**
+ * Line diff of the region between the common prefix and suffix
+ *
+ * Uses a longest common subsequence table; very large regions (e.g. a
+ * minified file rewritten as formatted JSON) are replaced as a whole.
+ */
+function diffLines(before: string[], after: string[]): DiffOp[] {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+  const middle: DiffOp[] = [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    middle.push(...a.map((line): DiffOp => ({ type: '-', line })));
+    middle.push(...b.map((line): DiffOp => ({ type: '+', line })));
+  } else {
+    // lcs[i][j] = common lines of a[i..] and b[j..]
+    const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i]![j] = a[i] === b[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        middle.push({ type: ' ', line: a[i++]! });
+        j++;
+      } else if (i < a.length && (j === b.length || lcs[i + 1]![j]! >= lcs[i]![j + 1]!)) {
+        middle.push({ type: '-', line: a[i++]! });
+      } else {
+        middle.push({ type: '+', line: b[j++]! });
+      }
+    }
+  }
+
+  return [
+    ...before.slice(0, start).map((line): DiffOp => ({ type: ' ', line })),
+    ...middle,
+    ...before.slice(endBefore).map((line): DiffOp => ({ type: ' ', line })),
+  ];
+}
+
+function splitLines(content: string | null): string[] {
+  if (content === null || content === '') return [];
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+function formatRange(start: number, count: number): string {
+  // Empty ranges point at the line before them, as in diff -u
+  return count === 1 ? `${start}` : `${count === 0 ? start - 1 : start},${count}`;
+}
+
+/**
+ * Format a recorded write as a unified diff (diff -u style)
+ */
+export function formatUnifiedDiff(write: RecordedWrite): string[] {
+  const ops = diffLines(splitLines(write.before), splitLines(write.after));
+  const lines = [
+    `--- ${write.before === null ? '/dev/null' : write.path}`,
+    `+++ ${write.after === null ? '/dev/null' : write.path}`,
+  ];
+
+  // Line numbers in the old and new file before each op
+  const positions: Array<{ old: number; new: number }> = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of ops) {
+    positions.push({ old: oldLine, new: newLine });
+    if (op.type !== '+') oldLine++;
+    if (op.type !== '-') newLine++;
+  }
+
+  let index = 0;
+  while (index < ops.length) {
+    const firstChange = ops.findIndex((op, i) => i >= index && op.type !== ' ');
+    if (firstChange === -1) break;
+
+    // Extend the hunk while changes are within 2 × context of each other
+    let end = firstChange;
+    for (let i = firstChange; i < ops.length && i <= end + CONTEXT_LINES * 2; i++) {
+      if (ops[i]!.type !== ' ') end = i;
+    }
+
+    const hunkStart = Math.max(index, firstChange - CONTEXT_LINES);
+    const hunkEnd = Math.min(ops.length, end + CONTEXT_LINES + 1);
+    const hunk = ops.slice(hunkStart, hunkEnd);
+    const oldCount = hunk.filter((op) => op.type !== '+').length;
+    const newCount = hunk.filter((op) => op.type !== '-').length;
+    const position = positions[hunkStart]!;
+
+    lines.push(`@@ -${formatRange(position.old, oldCount)} +${formatRange(position.new, newCount)} @@`);
+    lines.push(...hunk.map((op) => `${op.type}${op.line}`));
+    index = hunkEnd;
+  }
+
+  return lines;
+}
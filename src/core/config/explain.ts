@@ -0,0 +1,342 @@
+/**
+ * Server state explanations (mcp why)
+ *
+ * Explains a resolved server with the same rules as resolveServers:
+ * - Definition: highest scope priority wins (last wins at equal priority)
+ * - State: the winning control array entry, enabledPlugins entry or
+ *   disabledMcpServers entry, depending on the source type
+ * - Whether enableAllProjectMcpServers applied
+ * - Which enterprise allow/deny rule matched (checkServerAccess)
+ *
+ * and suggests the edits that would change the outcome.
+ */
+
+import { existsSync } from 'node:fs';
+import type {
+  DisplayState,
+  EnterpriseRestriction,
+  RawDefinition,
+  Server,
+  ServerExplanation,
+  WhyEntry,
+} from '@/types/index.js';
+import { SCOPE_PRIORITY } from '@/types/index.js';
+import { checkServerAccess, type AccessControlConfig } from '@/core/enterprise/restrictions.js';
+import { matchServerRestriction } from '@/core/enterprise/matching.js';
+import { expandServer } from '@/core/servers/expansion.js';
+import { getDisplayState } from '@/core/servers/toggle.js';
+import { getPluginKey, matchesPluginDisableEntry } from '@/utils/plugin.js';
+import { getEnterpriseSettingsPath } from '@/utils/platform.js';
+import { extractRawDefinitions } from './discovery.js';
+import { parseEnterpriseSettings } from './parser.js';
+import { resolveServers } from './precedence.js';
+
+/** Enterprise access rules and the file they came from */
+export interface AccessPolicy {
+  config: AccessControlConfig;
+  file: string | null;
+}
+
+const STATE_LABELS: Record<DisplayState, string> = {
+  green: 'GREEN (on)',
+  orange: 'ORANGE (paused)',
+  red: 'RED (off)',
+};
+
+/**
+ * Label for a display state, e.g. "ORANGE (paused)"
+ */
+export function formatStateLabel(state: DisplayState): string {
+  return STATE_LABELS[state];
+}
+
+function toEntry(item: RawDefinition, key: string): WhyEntry {
+  return {
+    type: item.type,
+    key,
+    scope: item.scope,
+    priority: SCOPE_PRIORITY[item.scope],
+    file: item.file,
+    won: false,
+  };
+}
+
+/** Highest priority entry, last at equal priority (as in resolveServers) */
+function findWinner(entries: WhyEntry[]): WhyEntry | undefined {
+  let winner: WhyEntry | undefined;
+  for (const entry of entries) {
+    if (!winner || entry.priority >= winner.priority) winner = entry;
+  }
+  return winner;
+}
+
+function describe(entry: WhyEntry): string {
+  return `${entry.key} in ${entry.file} (${entry.scope}, priority ${entry.priority})`;
+}
+
+function describeLosers(entries: WhyEntry[], winner: WhyEntry): string {
+  const losers = entries.filter((e) => e !== winner);
+  return losers.length > 0 ? `; overrides ${losers.map(describe).join(', ')}` : '';
+}
+
+function explainDefinition(entries: WhyEntry[]): ServerExplanation['definition'] {
+  const winner = findWinner(entries);
+  if (!winner) return { entries, reason: 'No definition found' };
+
+  winner.won = true;
+  const tie = entries.some((e) => e !== winner && e.priority === winner.priority);
+  return {
+    entries,
+    reason: `Defined in ${winner.file} (${winner.scope}, priority ${winner.priority})` +
+      (tie ? ', the last one read at that priority' : '') +
+      describeLosers(entries, winner),
+  };
+}
+
+function explainControl(
+  server: Server,
+  rawData: RawDefinition[]
+): ServerExplanation['control'] {
+  const runtime = rawData
+    .filter((item) => item.type === 'runtime-disable' && matchesPluginDisableEntry(server.name, item.server))
+    .map((item) => toEntry(item, 'disabledMcpServers'));
+  const runtimeWinner = findWinner(runtime);
+
+  if (server.sourceType === 'plugin') {
+    const pluginKey = getPluginKey(server.name);
+    const plugin = rawData
+      .filter((item) => (item.type === 'enable' && item.sourceType === 'plugin') || item.type === 'disable-plugin')
+      .filter((item) => item.server === pluginKey)
+      .map((item) => toEntry(item, `enabledPlugins["${item.server}"] = ${item.type === 'enable'}`));
+    const entries = [...plugin, ...runtime];
+    const pluginWinner = findWinner(plugin);
+
+    // disabledMcpServers only overrides enabledPlugins at a strictly higher priority
+    if (runtimeWinner && runtimeWinner.priority > (pluginWinner?.priority ?? -1)) {
+      runtimeWinner.won = true;
+      return {
+        entries,
+        reason: `${describe(runtimeWinner)} outranks ` +
+          (pluginWinner ? describe(pluginWinner) : 'enabledPlugins (not set)'),
+        paused: null,
+      };
+    }
+    if (!pluginWinner) {
+      return { entries, reason: `Not in enabledPlugins: plugin servers are off until ${pluginKey} is enabled`, paused: null };
+    }
+
+    pluginWinner.won = true;
+    const paused = server.state === 'on' && runtimeWinner;
+    if (paused) runtimeWinner.won = true;
+    return {
+      entries,
+      reason: describe(pluginWinner) + describeLosers(plugin, pluginWinner),
+      paused: paused
+        ? `Listed in ${describe(runtimeWinner)}; at or below the enabledPlugins priority this pauses the server instead of disabling it`
+        : null,
+    };
+  }
+
+  const arrays = rawData
+    .filter((item) => (item.type === 'enable' || item.type === 'disable') && item.sourceType !== 'plugin')
+    .filter((item) => item.server === server.name)
+    .map((item) => toEntry(item, item.type === 'enable' ? 'enabledMcpjsonServers' : 'disabledMcpjsonServers'));
+  const entries = [...arrays, ...runtime];
+  const arrayWinner = findWinner(arrays);
+
+  // Direct servers in disabledMcpServers are off, whatever the arrays say
+  if (server.sourceType.startsWith('direct') && runtimeWinner) {
+    runtimeWinner.won = true;
+    return {
+      entries,
+      reason: `Listed in ${describe(runtimeWinner)}: direct servers in disabledMcpServers are off`,
+      paused: null,
+    };
+  }
+
+  let reason: string;
+  if (arrayWinner) {
+    arrayWinner.won = true;
+    reason = describe(arrayWinner) + describeLosers(arrays, arrayWinner);
+  } else if (server.sourceType === 'mcpjson') {
+    reason = 'Not in enabledMcpjsonServers or disabledMcpjsonServers: .mcp.json servers default to on';
+  } else {
+    reason = 'Not in disabledMcpServers: direct servers default to on';
+  }
+
+  const paused = server.state === 'on' && runtimeWinner;
+  if (paused) runtimeWinner.won = true;
+  return {
+    entries,
+    reason,
+    paused: paused ? `Listed in ${describe(runtimeWinner)}, so Claude does not start it` : null,
+  };
+}
+
+function explainEnableAll(
+  server: Server,
+  rawData: RawDefinition[]
+): ServerExplanation['enableAllProjectMcpServers'] {
+  const entry = findWinner(
+    rawData
+      .filter((item) => item.type === 'enable-all-project')
+      .map((item) => toEntry(item, 'enableAllProjectMcpServers'))
+  ) ?? null;
+
+  if (!entry) {
+    return { entry, applies: false, reason: 'Not set' };
+  }
+  entry.won = true;
+
+  if (server.sourceType !== 'mcpjson' || server.scope !== 'project') {
+    return { entry, applies: false, reason: `Set in ${entry.file}, but it only applies to project .mcp.json servers` };
+  }
+  return {
+    entry,
+    applies: true,
+    reason: `Set in ${entry.file}: Claude Code approves this server without asking. It does not turn servers on or off; the state entries decide that`,
+  };
+}
+
+function explainAccess(server: Server, policy: AccessPolicy): ServerExplanation['access'] {
+  // Resolved servers carry no command/url, which command and URL rules match on.
+  // Rules match what Claude Code runs, so ${VAR} references are expanded first.
+  const { definition } = expandServer(server);
+  const candidate: Server = {
+    ...server,
+    command: definition.command
+      ? [definition.command, ...(definition.args ?? [])]
+      : undefined,
+    url: definition.url,
+  };
+  const { allowedMcpServers, deniedMcpServers } = policy.config;
+  const result = checkServerAccess(candidate, policy.config);
+  const find = (rules?: EnterpriseRestriction[]) =>
+    rules?.find((rule) => matchServerRestriction(candidate, rule)) ?? null;
+
+  if (result.flag === 'blocked') {
+    return { allowed: false, file: policy.file, list: 'deniedMcpServers', rule: find(deniedMcpServers), reason: result.reason! };
+  }
+  if (result.flag === 'restricted') {
+    return { allowed: false, file: policy.file, list: 'allowedMcpServers', rule: null, reason: result.reason! };
+  }
+
+  if (allowedMcpServers === undefined) {
+    const reason = policy.file ? 'No allowedMcpServers or deniedMcpServers rule applies' : 'No enterprise managed settings';
+    return { allowed: true, file: policy.file, list: null, rule: null, reason };
+  }
+  if (server.scope === 'enterprise') {
+    return { allowed: true, file: policy.file, list: null, rule: null, reason: 'Enterprise servers bypass allowedMcpServers' };
+  }
+
+  const rule = find(allowedMcpServers);
+  return { allowed: true, file: policy.file, list: 'allowedMcpServers', rule, reason: `Allowed by allowedMcpServers entry ${JSON.stringify(rule)}` };
+}
+
+function suggestChanges(
+  server: Server,
+  explanation: Omit<ServerExplanation, 'changes'>
+): string[] {
+  const { access, control, definition } = explanation;
+  const changes: string[] = [];
+
+  if (server.flags.enterprise || server.scope === 'enterprise') {
+    return [`Managed by your administrator in ${server.definitionFile}; it cannot be changed here`];
+  }
+  if (access.list === 'deniedMcpServers') {
+    changes.push(`Ask your administrator to remove ${JSON.stringify(access.rule)} from deniedMcpServers in ${access.file}`);
+  } else if (!access.allowed) {
+    changes.push(`Ask your administrator to add {"serverName":"${server.name}"} to allowedMcpServers in ${access.file}`);
+  }
+
+  const name = /^[\w.@:-]+$/.test(server.name) ? server.name : `'${server.name}'`;
+  const winner = control.entries.find((e) => e.won && e.type !== 'runtime-disable') ??
+    control.entries.find((e) => e.won);
+
+  switch (explanation.state) {
+    case 'green':
+      changes.push(`mcp disable ${name} turns it off for this project`);
+      if (!server.sourceType.startsWith('direct')) {
+        changes.push(`mcp pause ${name} keeps it enabled but stops Claude starting it in this project`);
+      }
+      break;
+    case 'orange': {
+      const pause = control.entries.find((e) => e.won && e.type === 'runtime-disable');
+      changes.push(
+        pause?.scope === 'user'
+          ? `Remove ${server.name} from the top-level disabledMcpServers in ${pause.file} (mcp resume only edits this project's list)`
+          : `mcp resume ${name} removes it from this project's disabledMcpServers`
+      );
+      break;
+    }
+    case 'red':
+      if (winner?.scope === 'enterprise') {
+        changes.push(`Turned off by ${winner.file}, which local settings cannot override`);
+      } else if (winner?.type === 'runtime-disable' && winner.scope === 'user') {
+        changes.push(`Remove ${server.name} from the top-level disabledMcpServers in ${winner.file} (mcp enable only edits this project's list)`);
+      } else if (access.allowed) {
+        changes.push(`mcp enable ${name} turns it on for this project (local settings, priority 3)`);
+      }
+      break;
+  }
+
+  if (definition.entries.length > 1) {
+    changes.push(`mcp edit ${name} changes the winning definition; the others are ignored while it exists`);
+  }
+  return changes;
+}
+
+/**
+ * Explain why a server is in its current state
+ *
+ * @param rawData - Raw definitions from extractRawDefinitions
+ * @param policy - Enterprise allow/deny rules (none by default)
+ * @returns null if no server of that name is defined
+ */
+export function explainServer(
+  serverName: string,
+  rawData: RawDefinition[],
+  policy: AccessPolicy = { config: {}, file: null }
+): ServerExplanation | null {
+  const server = resolveServers(rawData).find((s) => s.name === serverName);
+  if (!server) return null;
+
+  const explanation: Omit<ServerExplanation, 'changes'> = {
+    server: server.name,
+    state: getDisplayState(server),
+    sourceType: server.sourceType,
+    definition: explainDefinition(
+      rawData.filter((item) => item.type === 'def' && item.server === serverName).map((item) => toEntry(item, 'mcpServers'))
+    ),
+    control: explainControl(server, rawData),
+    enableAllProjectMcpServers: explainEnableAll(server, rawData),
+    access: explainAccess(server, policy),
+  };
+
+  return { ...explanation, changes: suggestChanges(server, explanation) };
+}
+
+/**
+ * Load the enterprise allow/deny rules from managed-settings.json
+ */
+export async function loadAccessPolicy(): Promise<AccessPolicy> {
+  const file = getEnterpriseSettingsPath();
+  if (!file || !existsSync(file)) return { config: {}, file: null };
+
+  const settings = await parseEnterpriseSettings(file);
+  return {
+    config: {
+      allowedMcpServers: settings?.allowedMcpServers,
+      deniedMcpServers: settings?.deniedMcpServers,
+    },
+    file,
+  };
+}
+
+/**
+ * Explain a server from the configuration on disk
+ */
+export async function loadServerExplanation(serverName: string, cwd: string): Promise<ServerExplanation | null> {
+  const [rawData, policy] = await Promise.all([extractRawDefinitions(cwd), loadAccessPolicy()]);
+  return explainServer(serverName, rawData, policy);
+}
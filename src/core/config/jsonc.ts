@@ -0,0 +1,360 @@
+/**
+ * JSON with comments, and minimal-edit updates of JSON text
+ *
+ * Settings files may contain // and /* *\/ comments and trailing commas
+ * (JSONC). stripJsonComments blanks them out with spaces, keeping every
+ * offset, so positions found in the stripped text (parse errors, JSON
+ * pointers) are positions in the original file.
+ *
+ * updateJsonText applies a new value to a file's text by editing only the
+ * keys whose values changed. Everything else - formatting, key order,
+ * comments, trailing content - stays byte-for-byte identical, so committed
+ * settings files don't get noisy diffs when a few arrays change.
+ */
+
+type JsonObject = Record<string, unknown>;
+
+/** Parsed JSON value with its span in the text */
+type Node =
+  | { kind: 'object'; start: number; end: number; members: Member[] }
+  | { kind: 'array'; start: number; end: number }
+  | { kind: 'value'; start: number; end: number };
+
+/** Object member: "key": value */
+interface Member {
+  key: string;
+  /** Offset of the opening quote of the key */
+  start: number;
+  value: Node;
+}
+
+/** A replacement of text[start, end) */
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Replace comments and trailing commas with spaces (newlines are kept)
+ */
+export function stripJsonComments(text: string): string {
+  const chars = text.split('');
+  const blank = (from: number, to: number) => {
+    for (let j = from; j < to; j++) {
+      if (chars[j] !== '\n' && chars[j] !== '\r') chars[j] = ' ';
+    }
+  };
+
+  // Offset of the last comma not yet followed by a value
+  let pendingComma = -1;
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i]!;
+
+    if (ch === '"') {
+      pendingComma = -1;
+      for (i++; i < text.length && text[i] !== '"'; i++) {
+        if (text[i] === '\\') i++;
+      }
+      i++;
+    } else if (ch === '/' && text[i + 1] === '/') {
+      const end = text.indexOf('\n', i);
+      const stop = end === -1 ? text.length : end;
+      blank(i, stop);
+      i = stop;
+    } else if (ch === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      const stop = end === -1 ? text.length : end + 2;
+      blank(i, stop);
+      i = stop;
+    } else if (ch === ',') {
+      pendingComma = i++;
+    } else if (ch === '}' || ch === ']') {
+      if (pendingComma !== -1) chars[pendingComma] = ' ';
+      pendingComma = -1;
+      i++;
+    } else {
+      if (!/\s/.test(ch)) pendingComma = -1;
+      i++;
+    }
+  }
+
+  return chars.join('');
+}
+
+/**
+ * Parse JSON that may contain comments and trailing commas
+ *
+ * @throws SyntaxError for invalid JSON (positions match the original text)
+ */
+export function parseJsonc<T = unknown>(text: string): T {
+  return JSON.parse(stripJsonComments(text)) as T;
+}
+
+/**
+ * Build the span tree of a stripped JSON text (assumed valid)
+ */
+function parseTree(text: string): Node {
+  let i = 0;
+
+  const skipWhitespace = () => {
+    while (i < text.length && /\s/.test(text[i]!)) i++;
+  };
+
+  const readString = (): string => {
+    const start = i++;
+    while (text[i] !== '"') {
+      if (text[i] === '\\') i++;
+      i++;
+    }
+    i++;
+    return JSON.parse(text.slice(start, i)) as string;
+  };
+
+  const readValue = (): Node => {
+    skipWhitespace();
+    const start = i;
+    const ch = text[i];
+
+    if (ch === '{') {
+      const members: Member[] = [];
+      i++;
+      skipWhitespace();
+      while (text[i] !== '}') {
+        const keyStart = i;
+        const key = readString();
+        skipWhitespace();
+        i++; // ':'
+        members.push({ key, start: keyStart, value: readValue() });
+        skipWhitespace();
+        if (text[i] === ',') {
+          i++;
+          skipWhitespace();
+        }
+      }
+      i++;
+      return { kind: 'object', start, end: i, members };
+    }
+
+    if (ch === '[') {
+      i++;
+      skipWhitespace();
+      while (text[i] !== ']') {
+        readValue();
+        skipWhitespace();
+        if (text[i] === ',') {
+          i++;
+          skipWhitespace();
+        }
+      }
+      i++;
+      return { kind: 'array', start, end: i };
+    }
+
+    if (ch === '"') {
+      readString();
+    } else {
+      while (i < text.length && !/[\s,\]}]/.test(text[i]!)) i++;
+    }
+    return { kind: 'value', start, end: i };
+  };
+
+  return readValue();
+}
+
+/**
+ * Updates JSON text in place (see updateJsonText)
+ */
+class JsonTextEditor {
+  private readonly edits: Edit[] = [];
+  /** Indentation step of the file (first indented line, default 2 spaces) */
+  private readonly unit: string;
+
+  /**
+   * @param stripped - The text with comments blanked (see stripJsonComments)
+   */
+  constructor(private readonly text: string, private readonly stripped: string) {
+    this.unit = /^([ \t]+)\S/m.exec(text)?.[1] ?? '  ';
+  }
+
+  /** Leading whitespace of the line containing an offset */
+  private lineIndent(offset: number): string {
+    const lineStart = this.text.lastIndexOf('\n', offset - 1) + 1;
+    return /^[ \t]*/.exec(this.text.slice(lineStart))![0];
+  }
+
+  /** Start of the line containing an offset, if only whitespace or comments precede it there */
+  private lineStartBefore(offset: number): number | null {
+    const lineStart = this.stripped.lastIndexOf('\n', offset - 1) + 1;
+    return /^[ \t]*$/.test(this.stripped.slice(lineStart, offset)) ? lineStart : null;
+  }
+
+  /** Offset after the newline ending a line, if only whitespace or comments follow the offset there */
+  private lineEndAfter(offset: number): number | null {
+    const newline = this.stripped.indexOf('\n', offset);
+    return newline !== -1 && /^[ \t\r]*$/.test(this.stripped.slice(offset, newline)) ? newline + 1 : null;
+  }
+
+  /** Whether an object's members are on their own lines */
+  private isMultiline(node: Node): boolean {
+    return this.text.slice(node.start, node.end).includes('\n');
+  }
+
+  /** Format a value for insertion at an indentation (multiline) or inline */
+  private format(value: unknown, indent: string | null): string {
+    const json = JSON.stringify(value, null, this.unit) ?? 'null';
+    if (indent !== null) {
+      return json.split('\n').join(`\n${indent}`);
+    }
+    // Inline: [ "a", "b" ] -> ["a", "b"], keeping ": " after keys
+    return json
+      .replace(/([[{])\n\s*/g, '$1')
+      .replace(/\n\s*([\]}])/g, '$1')
+      .replace(/,\n\s*/g, ', ');
+  }
+
+  /** Replace a value, keeping the single-line or multiline style of the original */
+  private replace(node: Node, value: unknown): void {
+    const indent = this.isMultiline(node) ? this.lineIndent(node.start) : null;
+    this.edits.push({ start: node.start, end: node.end, text: this.format(value, indent) });
+  }
+
+  /**
+   * Record the edits that turn a node's value from `before` into `after`
+   *
+   * @param parentMultiline - Whether the enclosing object is laid out on
+   *        several lines (an empty object takes its style)
+   */
+  update(node: Node, before: unknown, after: unknown, parentMultiline = true): void {
+    if (JSON.stringify(before) === JSON.stringify(after)) return;
+
+    if (node.kind !== 'object' || !isObject(before) || !isObject(after)) {
+      this.replace(node, after);
+      return;
+    }
+
+    const kept = node.members.filter((m) => after[m.key] !== undefined);
+    const added = Object.entries(after).filter(([key, value]) => value !== undefined && !(key in before));
+
+    if (kept.length === 0) {
+      // Nothing kept - lay the object out from scratch (comments inside go with it)
+      const multiline = node.members.length > 0 ? this.isMultiline(node) : parentMultiline;
+      this.edits.push({ start: node.start + 1, end: node.end - 1, text: this.layout(node, added, multiline) });
+      return;
+    }
+
+    // Remove runs of consecutive removed members together
+    for (let from = 0; from < node.members.length; from++) {
+      if (after[node.members[from]!.key] !== undefined) continue;
+
+      let to = from;
+      while (to + 1 < node.members.length && after[node.members[to + 1]!.key] === undefined) to++;
+      this.remove(node.members, from, to);
+      from = to;
+    }
+
+    for (const member of kept) {
+      // With duplicate keys the last one is the value JSON.parse returned
+      const last = [...node.members].reverse().find((m) => m.key === member.key);
+      if (member === last) {
+        this.update(member.value, before[member.key], after[member.key], this.isMultiline(node));
+      }
+    }
+
+    if (added.length > 0) {
+      // Append after the last member, in the object's own style
+      const multiline = this.isMultiline(node);
+      const last = kept[kept.length - 1]!;
+      const indent = this.lineIndent(last.start);
+      const separator = multiline ? `,\n${indent}` : ', ';
+      const members = added.map(([key, value]) => this.member(key, value, multiline ? indent : null));
+      this.edits.push({ start: last.value.end, end: last.value.end, text: `${separator}${members.join(separator)}` });
+    }
+  }
+
+  /**
+   * Remove members[from..to], at least one other member being kept
+   *
+   * Members on their own lines are removed with those lines, including
+   * their comments; when they were the last ones, the comma after the
+   * previous member goes too. Comments on the lines of kept members stay.
+   */
+  private remove(members: Member[], from: number, to: number): void {
+    const first = members[from]!;
+    const last = members[to]!;
+    const previous = members[from - 1];
+    const next = members[to + 1];
+
+    // From the last removed value: past its comma (if a member follows) to the end of its line
+    const lastEnd = next ? this.stripped.indexOf(',', last.value.end) + 1 : last.value.end;
+    const lineStart = this.lineStartBefore(first.start);
+    const lineEnd = this.lineEndAfter(lastEnd);
+
+    if (lineStart === null || lineEnd === null) {
+      // On one line: removes "<members>, ", or ", <members>" from the separating comma
+      this.edits.push(next
+        ? { start: first.start, end: next.start, text: '' }
+        : { start: this.stripped.indexOf(',', previous!.value.end), end: last.value.end, text: '' });
+      return;
+    }
+
+    this.edits.push({ start: lineStart, end: lineEnd, text: '' });
+    if (!next) {
+      const comma = this.stripped.indexOf(',', previous!.value.end);
+      this.edits.push({ start: comma, end: comma + 1, text: '' });
+    }
+  }
+
+  /** "key": value */
+  private member(key: string, value: unknown, indent: string | null): string {
+    return `${JSON.stringify(key)}: ${this.format(value, indent)}`;
+  }
+
+  /** Inside of an object holding only the given members, on their own lines or inline */
+  private layout(node: Node, members: Array<[string, unknown]>, multiline: boolean): string {
+    if (members.length === 0) return '';
+
+    if (!multiline) {
+      const padding = /\s/.test(this.text[node.start + 1] ?? '') ? ' ' : '';
+      return `${padding}${members.map(([key, value]) => this.member(key, value, null)).join(', ')}${padding}`;
+    }
+
+    const parentIndent = this.lineIndent(node.start);
+    const indent = parentIndent + this.unit;
+    const lines = members.map(([key, value]) => this.member(key, value, indent));
+    return `\n${indent}${lines.join(`,\n${indent}`)}\n${parentIndent}`;
+  }
+
+  /** The text with every edit applied */
+  apply(): string {
+    let result = this.text;
+    for (const edit of [...this.edits].sort((a, b) => b.start - a.start)) {
+      result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+    }
+    return result;
+  }
+}
+
+/**
+ * Apply a new value to JSON (or JSONC) text, editing only what changed
+ *
+ * Keys are compared recursively through objects; a changed array or
+ * scalar is replaced as a whole. Removed keys are deleted with their
+ * separator, new keys are appended to their object.
+ *
+ * @throws SyntaxError if the text is not valid JSON
+ */
+export function updateJsonText(text: string, value: unknown): string {
+  const stripped = stripJsonComments(text);
+  const before: unknown = JSON.parse(stripped);
+
+  const editor = new JsonTextEditor(text, stripped);
+  editor.update(parseTree(stripped), before, value);
+  return editor.apply();
+}
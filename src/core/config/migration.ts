@@ -5,10 +5,12 @@
  */
 
 import { existsSync, mkdirSync, writeFileSync, readFileSync } from 'node:fs';
-import { homedir } from 'node:os';
 import { join } from 'node:path';
 import type { Server } from '@/types/index.js';
-import { getClaudeJsonPath, normaliseProjectPath } from '@/utils/platform.js';
+import { getClaudeJsonPath } from '@/utils/platform.js';
+import { getProjectKey } from '@/utils/project.js';
+import { createBackup, formatJsonForFile } from './writer.js';
+import { parseJsonc, stripJsonComments } from './jsonc.js';
 
 interface MigrationResult {
   success: boolean;
@@ -30,7 +32,7 @@ export async function migrateServerToProject(
   cwd: string
 ): Promise<MigrationResult> {
   // Normalise cwd for Claude Code project key lookup
-  const normalizedCwd = normaliseProjectPath(cwd);
+  const normalizedCwd = getProjectKey(cwd);
 
   // Validate server type
   if (!server.sourceType.startsWith('direct')) {
@@ -42,23 +44,15 @@ export async function migrateServerToProject(
 
   const claudeJsonPath = getClaudeJsonPath();
   const projectMcpPath = join(normalizedCwd, '.mcp.json');
-  const backupDir = join(homedir(), '.claude', 'backups');
 
   try {
-    // Ensure backup directory exists
-    if (!existsSync(backupDir)) {
-      mkdirSync(backupDir, { recursive: true });
-    }
-
-    // Create timestamped backup
     const timestamp = Date.now();
-    const backupPath = join(backupDir, `claude.json.backup.${timestamp}`);
 
     // Read source file
-    const claudeJson = JSON.parse(readFileSync(claudeJsonPath, 'utf-8'));
+    const claudeJson = JSON.parse(stripJsonComments(readFileSync(claudeJsonPath, 'utf-8')));
 
-    // Write backup
-    writeFileSync(backupPath, JSON.stringify(claudeJson, null, 2));
+    // Create timestamped backup
+    const backupPath = createBackup(claudeJsonPath, `migrate ${server.name}`) ?? undefined;
 
     // Extract server definition
     let definition: Record<string, unknown> | undefined;
@@ -101,7 +95,7 @@ export async function migrateServerToProject(
     // Read or create project .mcp.json
     let projectMcp: { mcpServers?: Record<string, unknown> } = {};
     if (existsSync(projectMcpPath)) {
-      projectMcp = JSON.parse(readFileSync(projectMcpPath, 'utf-8'));
+      projectMcp = parseJsonc(readFileSync(projectMcpPath, 'utf-8'));
     }
 
     // Add server to project .mcp.json
@@ -112,8 +106,8 @@ export async function migrateServerToProject(
     const tempClaudePath = `${claudeJsonPath}.tmp.${timestamp}`;
     const tempMcpPath = `${projectMcpPath}.tmp.${timestamp}`;
 
-    writeFileSync(tempClaudePath, JSON.stringify(claudeJson, null, 2));
-    writeFileSync(tempMcpPath, JSON.stringify(projectMcp, null, 2));
+    writeFileSync(tempClaudePath, formatJsonForFile(claudeJsonPath, claudeJson));
+    writeFileSync(tempMcpPath, formatJsonForFile(projectMcpPath, projectMcp));
 
     // Rename temp files to final destinations
     const { renameSync } = await import('node:fs');
@@ -2,11 +2,15 @@
  * Configuration file parsing utilities
  *
  * Handles reading and validating various configuration file formats.
+ * The typed parsers check content against its schema (schema.ts) and
+ * leave invalid values out; use parseJsonFile without a kind to read a
+ * file unchanged before modifying and writing it back.
  */
 
 import { readFile } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
 import type {
+  ConfigFileKind,
   ClaudeJsonSchema,
   McpJsonSchema,
   SettingsSchema,
@@ -16,11 +20,18 @@ import type {
   InstalledPluginsSchema,
 } from '@/types/index.js';
 import { expandPath } from '@/utils/paths.js';
+import { parseJsonc } from './jsonc.js';
+import { checkConfig } from './schema.js';
 
 /**
  * Safely parse JSON with error handling
+ *
+ * Unreadable and invalid files read as null - mcp validate, mcp audit and
+ * the TUI banner report why.
+ *
+ * @param kind - Check content against this schema, leaving invalid values out
  */
-export async function parseJsonFile<T>(path: string): Promise<T | null> {
+export async function parseJsonFile<T>(path: string, kind?: ConfigFileKind): Promise<T | null> {
   const expandedPath = expandPath(path);
 
   if (!existsSync(expandedPath)) {
@@ -32,10 +43,9 @@ export async function parseJsonFile<T>(path: string): Promise<T | null> {
     if (!content.trim()) {
       return null;
     }
-    return JSON.parse(content) as T;
-  } catch (error) {
-    // Log for debugging but don't throw
-    console.error(`Warning: Failed to parse ${path}:`, error);
+    const data: unknown = parseJsonc(content);
+    return kind ? checkConfig<T>(kind, data).data : (data as T);
+  } catch {
     return null;
   }
 }
@@ -44,49 +54,49 @@ export async function parseJsonFile<T>(path: string): Promise<T | null> {
  * Parse ~/.claude.json
  */
 export async function parseClaudeJson(path: string): Promise<ClaudeJsonSchema | null> {
-  return parseJsonFile<ClaudeJsonSchema>(path);
+  return parseJsonFile<ClaudeJsonSchema>(path, 'claude');
 }
 
 /**
  * Parse .mcp.json file
  */
 export async function parseMcpJson(path: string): Promise<McpJsonSchema | null> {
-  return parseJsonFile<McpJsonSchema>(path);
+  return parseJsonFile<McpJsonSchema>(path, 'mcp');
 }
 
 /**
  * Parse settings.json or settings.local.json
  */
 export async function parseSettingsJson(path: string): Promise<SettingsSchema | null> {
-  return parseJsonFile<SettingsSchema>(path);
+  return parseJsonFile<SettingsSchema>(path, 'settings');
 }
 
 /**
  * Parse enterprise managed-mcp.json
  */
 export async function parseEnterpriseMcp(path: string): Promise<EnterpriseMcpSchema | null> {
-  return parseJsonFile<EnterpriseMcpSchema>(path);
+  return parseJsonFile<EnterpriseMcpSchema>(path, 'enterprise-mcp');
 }
 
 /**
  * Parse enterprise managed-settings.json
  */
 export async function parseEnterpriseSettings(path: string): Promise<EnterpriseSettingsSchema | null> {
-  return parseJsonFile<EnterpriseSettingsSchema>(path);
+  return parseJsonFile<EnterpriseSettingsSchema>(path, 'enterprise-settings');
 }
 
 /**
  * Parse marketplace plugin.json or .mcp.json
  */
 export async function parseMarketplaceJson(path: string): Promise<MarketplaceSchema | null> {
-  return parseJsonFile<MarketplaceSchema>(path);
+  return parseJsonFile<MarketplaceSchema>(path, 'marketplace');
 }
 
 /**
  * Parse installed_plugins.json
  */
 export async function parseInstalledPlugins(path: string): Promise<InstalledPluginsSchema | null> {
-  return parseJsonFile<InstalledPluginsSchema>(path);
+  return parseJsonFile<InstalledPluginsSchema>(path, 'installed-plugins');
 }
 
 /**
@@ -106,7 +116,7 @@ export async function validateJsonSyntax(path: string): Promise<{
 
   try {
     const content = await readFile(expandedPath, 'utf-8');
-    JSON.parse(content);
+    parseJsonc(content);
     return { valid: true };
   } catch (error) {
     if (error instanceof SyntaxError) {
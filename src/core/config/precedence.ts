@@ -276,10 +276,10 @@ export function resolveServers(
 
     // Determine runtime status
     // ORANGE state: enabled in config but runtime-disabled (in disabledMcpServers)
-    // NOTE: disabledMcpServers only applies to direct servers (direct-global, direct-local)
-    // Plugin servers are controlled solely by enabledPlugins, not disabledMcpServers
-    const isDirectServer = def.sourceType?.startsWith('direct');
-    const runtime = state === 'on' && inDisabled && isDirectServer ? 'stopped' : 'unknown';
+    // saveServerStates writes ORANGE as enabled (enabledMcpjsonServers or
+    // enabledPlugins) plus disabledMcpServers, so read that back as paused.
+    // Direct servers in disabledMcpServers are off (above): they cannot be paused.
+    const runtime = state === 'on' && inDisabled ? 'stopped' : 'unknown';
 
     servers.push({
       name,
@@ -332,6 +332,28 @@ function computeFlags(
   return flags;
 }
 
+/**
+ * Find the definition that wins for a server
+ *
+ * Same rule as resolveServers: higher or equal priority wins
+ * (last wins at same priority).
+ */
+export function findWinningDefinition(
+  serverName: string,
+  rawData: RawDefinition[]
+): RawDefinition | undefined {
+  let winner: RawDefinition | undefined;
+
+  for (const item of rawData) {
+    if (item.type !== 'def' || item.server !== serverName) continue;
+    if (!winner || PRIORITY[item.scope] >= PRIORITY[winner.scope]) {
+      winner = item;
+    }
+  }
+
+  return winner;
+}
+
 /**
  * Debug: Get precedence trace for a specific server
  *
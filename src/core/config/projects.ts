@@ -0,0 +1,272 @@
+/**
+ * Cross-project view
+ *
+ * ~/.claude.json keeps a projects[path] entry for every folder Claude Code
+ * has been used in, holding that project's local servers and MCP state
+ * arrays. This lists those projects with the state every server resolves
+ * to in each, flags entries whose folder no longer exists, applies one
+ * change (e.g. disable a server) to many projects in a single save, and
+ * prunes the entries of deleted folders.
+ */
+
+import { join } from 'node:path';
+import type {
+  ClaudeJsonProjectSchema,
+  ClaudeJsonSchema,
+  ProjectAction,
+  ProjectActionResult,
+  ProjectSummary,
+  Server,
+  StaleProjectEntry,
+} from '@/types/index.js';
+import { getHomeDir, normaliseProjectPath, projectPathExists, resolveProjectPath } from '@/utils/platform.js';
+import { getProjectKey } from '@/utils/project.js';
+import { parseClaudeJson, parseJsonFile } from './parser.js';
+import { atomicWriteJson, createBackup } from './writer.js';
+import { extractRawDefinitions } from './discovery.js';
+import { resolveServers } from './precedence.js';
+import { saveProjectServerStates } from './state.js';
+import { applyToggle, getDisplayState, SERVER_ACTIONS } from '../servers/toggle.js';
+import { selectServers, type ServerSelector } from '../servers/selector.js';
+
+/** Keys of a ~/.claude.json project entry that hold MCP configuration */
+export const PROJECT_MCP_KEYS = [
+  'mcpServers',
+  'disabledMcpServers',
+  'enabledMcpjsonServers',
+  'disabledMcpjsonServers',
+] as const;
+
+/**
+ * Read the projects map from ~/.claude.json
+ */
+export async function loadProjectEntries(): Promise<Record<string, ClaudeJsonProjectSchema>> {
+  const claudeJson = await parseClaudeJson(join(getHomeDir(), '.claude.json'));
+  return claudeJson?.projects ?? {};
+}
+
+/**
+ * Summarise a project's MCP keys in ~/.claude.json
+ */
+export function summariseProjectEntry(entry: ClaudeJsonProjectSchema): ProjectSummary['entry'] {
+  return {
+    mcpServers: Object.keys(entry.mcpServers ?? {}),
+    disabledMcpServers: entry.disabledMcpServers ?? [],
+    enabledMcpjsonServers: entry.enabledMcpjsonServers ?? [],
+    disabledMcpjsonServers: entry.disabledMcpjsonServers ?? [],
+  };
+}
+
+/**
+ * Resolve the servers of one project, as the TUI would when run there
+ */
+export async function loadProjectServers(path: string): Promise<Server[]> {
+  return resolveServers(await extractRawDefinitions(path));
+}
+
+/**
+ * List every project in ~/.claude.json, sorted by path
+ *
+ * Server states are only resolved for projects that still exist.
+ *
+ * @param cwd - Current directory, marked as the current project
+ */
+export async function listProjects(cwd: string): Promise<ProjectSummary[]> {
+  const entries = await loadProjectEntries();
+  const current = getProjectKey(cwd);
+  const projects: ProjectSummary[] = [];
+
+  for (const path of Object.keys(entries).sort()) {
+    const folder = resolveProjectPath(path);
+    const servers = folder ? await loadProjectServers(folder) : [];
+
+    projects.push({
+      path,
+      exists: folder !== null,
+      current: path === current,
+      servers: servers.map((server) => ({
+        name: server.name,
+        state: getDisplayState(server),
+        scope: server.scope,
+        sourceType: server.sourceType,
+      })),
+      entry: summariseProjectEntry(entries[path] ?? {}),
+    });
+  }
+
+  return projects;
+}
+
+/**
+ * Apply an action to the selected servers of one project's servers
+ *
+ * Returns the updated servers, the names and patterns that matched
+ * nothing, and whether any state changed.
+ */
+export function applyProjectAction(
+  project: string,
+  servers: Server[],
+  action: ProjectAction,
+  selector: ServerSelector
+): { servers: Server[]; results: ProjectActionResult[]; unmatched: string[]; changed: boolean } {
+  const updated = [...servers];
+  const results: ProjectActionResult[] = [];
+  const selection = selectServers(servers, selector);
+  let changed = false;
+
+  for (const server of selection.servers) {
+    const previous = getDisplayState(server);
+    const result = SERVER_ACTIONS[action](server);
+
+    // disabledMcpServers turns direct servers off, so they have no paused state
+    if (result.success && action === 'pause' && server.sourceType.startsWith('direct')) {
+      results.push({ project, server: server.name, success: false, previous, error: 'Direct servers cannot be paused (use disable)' });
+      continue;
+    }
+
+    if (!result.success || !result.newState) {
+      results.push({ project, server: server.name, success: false, previous, error: result.reason });
+      continue;
+    }
+
+    if (result.newState !== previous) {
+      const index = updated.findIndex((s) => s.name === server.name);
+      updated[index] = applyToggle(server, result.newState);
+      changed = true;
+    }
+    results.push({ project, server: server.name, success: true, previous });
+  }
+
+  return { servers: updated, results, unmatched: selection.unmatched, changed };
+}
+
+/**
+ * Apply an action to the selected servers in every project
+ *
+ * Stale projects are skipped. Projects where nothing changes are not
+ * written; the others are saved as one transaction. unmatched lists the
+ * names and patterns that matched no server in any project.
+ *
+ * @param options.projects - Only these project paths (default: all)
+ * @throws Error if a project path is not in ~/.claude.json
+ */
+export async function applyToProjects(
+  action: ProjectAction,
+  selector: ServerSelector,
+  options: { projects?: string[] } = {}
+): Promise<{ results: ProjectActionResult[]; unmatched: string[]; skipped: string[]; errors: string[] }> {
+  const entries = await loadProjectEntries();
+  const only = options.projects?.map(normaliseProjectPath);
+
+  const unknown = only?.filter((path) => !(path in entries)) ?? [];
+  if (unknown.length > 0) {
+    throw new Error(`Not a project in ~/.claude.json: ${unknown.join(', ')}`);
+  }
+
+  const results: ProjectActionResult[] = [];
+  const skipped: string[] = [];
+  let unmatched = selector.names;
+  const changed: { cwd: string; servers: Server[] }[] = [];
+
+  for (const path of Object.keys(entries).sort()) {
+    if (only && !only.includes(path)) continue;
+
+    // Keys written on Windows are /mnt/<drive> folders under WSL, and vice versa
+    const folder = resolveProjectPath(path);
+    if (!folder) {
+      skipped.push(path);
+      continue;
+    }
+
+    const outcome = applyProjectAction(path, await loadProjectServers(folder), action, selector);
+    results.push(...outcome.results);
+    unmatched = unmatched.filter((term) => outcome.unmatched.includes(term));
+    if (outcome.changed) {
+      changed.push({ cwd: folder, servers: outcome.servers });
+    }
+  }
+
+  const { errors } = changed.length > 0 ? await saveProjectServerStates(changed) : { errors: [] };
+  return { results, unmatched, skipped, errors };
+}
+
+/**
+ * Find project entries whose folder no longer exists
+ *
+ * @param exists - Checks a project key (default: projectPathExists)
+ */
+export function findStaleProjects(
+  projects: Record<string, ClaudeJsonProjectSchema>,
+  exists: (path: string) => boolean = projectPathExists
+): StaleProjectEntry[] {
+  const mcpKeys: readonly string[] = PROJECT_MCP_KEYS;
+
+  return Object.keys(projects)
+    .sort()
+    .filter((path) => !exists(path))
+    .map((path) => {
+      const keys = Object.keys(projects[path] ?? {});
+      return {
+        path,
+        mcpKeys: keys.filter((key) => mcpKeys.includes(key)),
+        otherKeys: keys.filter((key) => !mcpKeys.includes(key)),
+      };
+    });
+}
+
+/**
+ * Remove stale entries, or only their MCP keys, from ~/.claude.json contents
+ *
+ * Returns a copy; the input is not changed.
+ *
+ * @param entire - Remove each whole entry instead of only its MCP keys
+ */
+export function pruneProjectEntries(
+  claudeJson: ClaudeJsonSchema,
+  stale: StaleProjectEntry[],
+  entire: boolean
+): ClaudeJsonSchema {
+  const projects: Record<string, ClaudeJsonProjectSchema> = { ...claudeJson.projects };
+
+  for (const { path } of stale) {
+    if (entire) {
+      delete projects[path];
+      continue;
+    }
+
+    const entry: Record<string, unknown> = { ...projects[path] };
+    for (const key of PROJECT_MCP_KEYS) {
+      delete entry[key];
+    }
+    projects[path] = entry;
+  }
+
+  return { ...claudeJson, projects };
+}
+
+/**
+ * Prune stale project entries from ~/.claude.json
+ *
+ * Without entire, only entries that hold MCP keys are pruned and their
+ * other keys are kept. The file is backed up first (see mcp backups).
+ *
+ * @returns The pruned entries and the backup (null if nothing was written)
+ */
+export async function pruneStaleProjects(
+  options: { entire?: boolean } = {}
+): Promise<{ pruned: StaleProjectEntry[]; backup: string | null }> {
+  const path = join(getHomeDir(), '.claude.json');
+  const claudeJson = await parseJsonFile<ClaudeJsonSchema>(path);
+
+  const pruned = findStaleProjects(claudeJson?.projects ?? {}).filter(
+    (entry) => options.entire || entry.mcpKeys.length > 0
+  );
+  if (!claudeJson || pruned.length === 0) {
+    return { pruned, backup: null };
+  }
+
+  const backup = createBackup(path, 'prune-projects');
+  atomicWriteJson(path, pruneProjectEntries(claudeJson, pruned, !!options.entire));
+
+  return { pruned, backup };
+}
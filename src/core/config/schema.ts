@@ -0,0 +1,392 @@
+/**
+ * Runtime schemas for config files
+ *
+ * Every config file format in types/index.ts has a schema here. Checking
+ * parsed content returns its violations, each with a JSON pointer, and a
+ * copy with the invalid values left out. A bad server definition then
+ * hides that one server instead of the whole file. Unknown keys are kept:
+ * Claude Code's files hold far more than the MCP keys this tool reads.
+ *
+ * locateViolations maps the pointers back to lines and columns in the
+ * file text.
+ */
+
+import type { ConfigFileKind, SchemaViolation } from '@/types/index.js';
+
+/** Marks a value left out of the checked copy */
+const INVALID = Symbol('invalid');
+
+/** Checks a value, records violations and returns the value to keep (or INVALID) */
+type Check = (value: unknown, pointer: string, violations: SchemaViolation[]) => unknown;
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** "a string", "an array", "null" - for violation messages */
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'object') return 'an object';
+  return `a ${typeof value}`;
+}
+
+/**
+ * Escape an object key for use in a JSON pointer (RFC 6901)
+ */
+export function escapePointerToken(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function primitive(type: 'string' | 'number' | 'boolean'): Check {
+  return (value, pointer, violations) => {
+    if (typeof value === type) return value;
+    violations.push({ pointer, message: `expected a ${type}, got ${describe(value)}` });
+    return INVALID;
+  };
+}
+
+const string = primitive('string');
+const number = primitive('number');
+const boolean = primitive('boolean');
+
+function oneOf(values: readonly string[]): Check {
+  return (value, pointer, violations) => {
+    if (typeof value === 'string' && values.includes(value)) return value;
+    const expected = values.map((v) => `"${v}"`).join(', ');
+    violations.push({ pointer, message: `expected one of ${expected}, got ${JSON.stringify(value)}` });
+    return INVALID;
+  };
+}
+
+/** Array whose invalid elements are left out */
+function arrayOf(item: Check): Check {
+  return (value, pointer, violations) => {
+    if (!Array.isArray(value)) {
+      violations.push({ pointer, message: `expected an array, got ${describe(value)}` });
+      return INVALID;
+    }
+    return value
+      .map((entry, index) => item(entry, `${pointer}/${index}`, violations))
+      .filter((entry) => entry !== INVALID);
+  };
+}
+
+/** Object used as a map (any keys); invalid entries are left out */
+function recordOf(item: Check): Check {
+  return (value, pointer, violations) => {
+    if (!isObject(value)) {
+      violations.push({ pointer, message: `expected an object, got ${describe(value)}` });
+      return INVALID;
+    }
+    const result: JsonObject = {};
+    for (const [key, entry] of Object.entries(value)) {
+      const checked = item(entry, `${pointer}/${escapePointerToken(key)}`, violations);
+      if (checked !== INVALID) result[key] = checked;
+    }
+    return result;
+  };
+}
+
+/** Object with known keys; unknown keys are kept, invalid known keys left out */
+function object(shape: Record<string, Check>, required: string[] = []): Check {
+  return (value, pointer, violations) => {
+    if (!isObject(value)) {
+      violations.push({ pointer, message: `expected an object, got ${describe(value)}` });
+      return INVALID;
+    }
+
+    const missing = required.filter((key) => value[key] === undefined);
+    for (const key of missing) {
+      violations.push({ pointer, message: `missing required key "${key}"` });
+    }
+    if (missing.length > 0) return INVALID;
+
+    const result: JsonObject = { ...value };
+    for (const [key, check] of Object.entries(shape)) {
+      if (value[key] === undefined) continue;
+      const checked = check(value[key], `${pointer}/${escapePointerToken(key)}`, violations);
+      if (checked === INVALID) delete result[key];
+      else result[key] = checked;
+    }
+    return result;
+  };
+}
+
+/** Value that is either a string or matches another schema */
+function stringOr(other: Check): Check {
+  return (value, pointer, violations) => (typeof value === 'string' ? value : other(value, pointer, violations));
+}
+
+const stringArray = arrayOf(string);
+
+const serverDefinitionShape = object({
+  command: string,
+  args: stringArray,
+  type: oneOf(['stdio', 'http', 'sse']),
+  url: string,
+  env: recordOf(string),
+  headers: recordOf(string),
+});
+
+/**
+ * Server definition - left out entirely on any violation, since a
+ * half-valid definition would start the wrong command
+ */
+const serverDefinition: Check = (value, pointer, violations) => {
+  const before = violations.length;
+  const checked = serverDefinitionShape(value, pointer, violations);
+  if (checked === INVALID || !isObject(value)) return INVALID;
+
+  const { command, url, type } = value;
+  if (command !== undefined && url !== undefined) {
+    violations.push({ pointer, message: 'has both "command" and "url" (a server is either stdio or http/sse)' });
+  } else if (command === undefined && url === undefined) {
+    violations.push({ pointer, message: 'needs "command" (stdio) or "url" (http/sse)' });
+  } else if (url !== undefined && (type === undefined || type === 'stdio')) {
+    violations.push({ pointer, message: 'has a "url" but no "type" (expected "http" or "sse")' });
+  } else if (command !== undefined && (type === 'http' || type === 'sse')) {
+    violations.push({ pointer, message: `has type "${type}" but a "command" instead of a "url"` });
+  }
+
+  return violations.length > before ? INVALID : checked;
+};
+
+const serverMap = recordOf(serverDefinition);
+
+/**
+ * .mcp.json - standard { mcpServers } or the root-level format some
+ * plugins use (see extractMcpServers in discovery.ts)
+ */
+const mcpJson: Check = (value, pointer, violations) => {
+  const checked = object({ mcpServers: serverMap })(value, pointer, violations);
+  if (checked === INVALID || !isObject(value) || value.mcpServers !== undefined) return checked;
+
+  const result = checked as JsonObject;
+  for (const [key, entry] of Object.entries(value)) {
+    if (!isObject(entry) || !('command' in entry || 'url' in entry || 'type' in entry)) continue;
+    if (serverDefinition(entry, `${pointer}/${escapePointerToken(key)}`, violations) === INVALID) {
+      delete result[key];
+    }
+  }
+  return result;
+};
+
+const claudeJsonProject = object({
+  mcpServers: serverMap,
+  disabledMcpServers: stringArray,
+  enabledMcpjsonServers: stringArray,
+  disabledMcpjsonServers: stringArray,
+});
+
+const settingsShape = {
+  enabledMcpjsonServers: stringArray,
+  disabledMcpjsonServers: stringArray,
+  enableAllProjectMcpServers: boolean,
+  enabledPlugins: recordOf(boolean),
+};
+
+const enterpriseRestriction: Check = (value, pointer, violations) => {
+  const checked = object({
+    serverName: string,
+    serverCommand: stringArray,
+    serverUrl: string,
+  })(value, pointer, violations);
+  if (checked === INVALID || !isObject(value)) return INVALID;
+
+  if (value.serverName === undefined && value.serverCommand === undefined && value.serverUrl === undefined) {
+    violations.push({ pointer, message: 'needs "serverName", "serverCommand" or "serverUrl"' });
+    return INVALID;
+  }
+  return checked;
+};
+
+const inventory = object(
+  {
+    server: string,
+    tools: arrayOf(object({ name: string, description: string, tokens: number }, ['name', 'tokens'])),
+    prompts: number,
+    resources: number,
+    tokens: number,
+    inspectedAt: string,
+    definitionKey: string,
+  },
+  ['server', 'tools', 'tokens', 'definitionKey']
+);
+
+const SCHEMAS: Record<ConfigFileKind, Check> = {
+  claude: object({
+    mcpServers: serverMap,
+    disabledMcpServers: stringArray,
+    projects: recordOf(claudeJsonProject),
+  }),
+  mcp: mcpJson,
+  settings: object(settingsShape),
+  'enterprise-mcp': object({ mcpServers: serverMap }),
+  // managed-settings.json is also read as a settings file
+  'enterprise-settings': object({
+    ...settingsShape,
+    allowedMcpServers: arrayOf(enterpriseRestriction),
+    deniedMcpServers: arrayOf(enterpriseRestriction),
+    strictKnownMarketplaces: arrayOf(object({ source: string, repo: string }, ['source'])),
+  }),
+  marketplace: object({
+    plugins: arrayOf(
+      object(
+        {
+          name: string,
+          source: stringOr(object({})),
+          mcpServers: stringOr(serverMap),
+        },
+        ['name']
+      )
+    ),
+    mcpServers: serverMap,
+  }),
+  'installed-plugins': object({
+    version: number,
+    plugins: recordOf(
+      arrayOf(
+        object(
+          {
+            scope: string,
+            installPath: string,
+            version: string,
+            installedAt: string,
+            lastUpdated: string,
+            gitCommitSha: string,
+            isLocal: boolean,
+          },
+          ['installPath']
+        )
+      )
+    ),
+  }),
+  profiles: object({
+    version: number,
+    profiles: recordOf(
+      object(
+        {
+          servers: recordOf(oneOf(['red', 'green', 'orange'])),
+          createdAt: string,
+          updatedAt: string,
+          description: string,
+        },
+        ['servers']
+      )
+    ),
+  }),
+  inventory: object({ version: number, servers: recordOf(inventory) }),
+  budget: object({ version: number, maxTokens: number, pinned: stringArray }),
+  'tool-config': object({
+    version: number,
+    backups: object({ keepLast: number, keepDailyDays: number, maxTotalMB: number }),
+  }),
+  'backup-index': object({
+    version: number,
+    backups: arrayOf(
+      object(
+        { file: string, source: string, operation: string, createdAt: string },
+        ['file', 'source', 'operation', 'createdAt']
+      )
+    ),
+  }),
+};
+
+/**
+ * Check parsed config file content against its schema
+ *
+ * @returns The content without invalid values (null if the root itself
+ *   is invalid) and the violations, without locations
+ */
+export function checkConfig<T>(
+  kind: ConfigFileKind,
+  data: unknown
+): { data: T | null; violations: SchemaViolation[] } {
+  const violations: SchemaViolation[] = [];
+  const checked = SCHEMAS[kind](data, '', violations);
+  return { data: checked === INVALID ? null : (checked as T), violations };
+}
+
+/**
+ * Offset of every value in a JSON text, by JSON pointer
+ *
+ * Assumes the text is valid JSON (JSON.parse succeeded). For duplicate
+ * keys the last one wins, as with JSON.parse.
+ */
+function indexJsonPointers(text: string): Map<string, number> {
+  const offsets = new Map<string, number>();
+  let i = 0;
+
+  const skipWhitespace = () => {
+    while (i < text.length && /\s/.test(text[i]!)) i++;
+  };
+
+  const readString = (): string => {
+    const start = i++;
+    while (text[i] !== '"') {
+      if (text[i] === '\\') i++;
+      i++;
+    }
+    i++;
+    return JSON.parse(text.slice(start, i)) as string;
+  };
+
+  const readValue = (pointer: string) => {
+    skipWhitespace();
+    offsets.set(pointer, i);
+    const ch = text[i];
+
+    if (ch === '{' || ch === '[') {
+      const close = ch === '{' ? '}' : ']';
+      i++;
+      skipWhitespace();
+      for (let index = 0; text[i] !== close; index++) {
+        if (ch === '{') {
+          const key = readString();
+          skipWhitespace();
+          i++; // ':'
+          readValue(`${pointer}/${escapePointerToken(key)}`);
+        } else {
+          readValue(`${pointer}/${index}`);
+        }
+        skipWhitespace();
+        if (text[i] === ',') {
+          i++;
+          skipWhitespace();
+        }
+      }
+      i++;
+    } else if (ch === '"') {
+      readString();
+    } else {
+      while (i < text.length && !/[\s,\]}]/.test(text[i]!)) i++;
+    }
+  };
+
+  readValue('');
+  return offsets;
+}
+
+/**
+ * 1-based line and column of an offset in a text
+ */
+export function getLineColumn(text: string, offset: number): { line: number; column: number } {
+  const lines = text.slice(0, offset).split('\n');
+  return { line: lines.length, column: (lines[lines.length - 1]?.length ?? 0) + 1 };
+}
+
+/**
+ * Add the line and column of each violation's value in the file text
+ */
+export function locateViolations(text: string, violations: SchemaViolation[]): SchemaViolation[] {
+  if (violations.length === 0) return violations;
+  const offsets = indexJsonPointers(text);
+
+  return violations.map((violation) => {
+    const offset = offsets.get(violation.pointer);
+    return offset === undefined ? violation : { ...violation, ...getLineColumn(text, offset) };
+  });
+}
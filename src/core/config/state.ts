@@ -5,19 +5,22 @@
  * Follows the control array placement rules from CLAUDE.md.
  *
  * Uses file locking to prevent concurrent access issues when multiple
- * instances of the tool or CLI commands run simultaneously.
+ * instances of the tool or CLI commands run simultaneously, and writes all
+ * files of a save as one transaction (see transaction.ts).
  */
 
 import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
 import { dirname, join } from 'node:path';
-import { homedir } from 'node:os';
 import lockfile from 'proper-lockfile';
-import type { Server, SettingsSchema, ClaudeJsonSchema } from '@/types/index.js';
-import { getProjectSettingsPath, normaliseProjectPath } from '@/utils/platform.js';
+import type { Server, SettingsSchema, ClaudeJsonSchema, FileDiff } from '@/types/index.js';
+import { getHomeDir, getProjectSettingsPath } from '@/utils/platform.js';
+import { getProjectKey } from '@/utils/project.js';
 import { getPluginKey, getPluginDisableFormat } from '@/utils/plugin.js';
-import { parseSettingsJson, parseClaudeJson } from './parser.js';
-import { atomicWriteJson } from './writer.js';
+import { parseJsonFile } from './parser.js';
+import { commitJsonTransaction } from './transaction.js';
+import { isDryRun } from './dry-run.js';
 import { getDisplayState } from '../servers/toggle.js';
+import { diffJson } from '../backups/diff.js';
 
 /**
  * Lock options for file locking
@@ -40,6 +43,11 @@ const LOCK_OPTIONS = {
  * @returns Release function to call when done
  */
 async function acquireLock(filePath: string): Promise<() => Promise<void>> {
+  // Dry runs must not create the file, and write nothing to protect
+  if (isDryRun()) {
+    return async () => {};
+  }
+
   // Ensure directory exists
   const dir = dirname(filePath);
   if (!existsSync(dir)) {
@@ -64,7 +72,17 @@ async function acquireLock(filePath: string): Promise<() => Promise<void>> {
 }
 
 /**
- * Save server states to settings files
+ * Servers whose state is written by a save (enterprise servers are fixed)
+ */
+function getSavedServers(servers: Server[]): { mcpjsonServers: Server[]; pluginServers: Server[] } {
+  return {
+    mcpjsonServers: servers.filter((s) => s.sourceType === 'mcpjson' && !s.flags.enterprise),
+    pluginServers: servers.filter((s) => s.sourceType === 'plugin' && !s.flags.enterprise),
+  };
+}
+
+/**
+ * Build the new contents of every file a save writes
  *
  * MCPJSON servers: Save to .claude/settings.local.json
  * - enabledMcpjsonServers for GREEN servers
@@ -76,42 +94,29 @@ async function acquireLock(filePath: string): Promise<() => Promise<void>> {
  *
  * ORANGE state: Save to ~/.claude.json
  * - disabledMcpServers in .projects[cwd] for runtime-disabled servers
+ *
+ * @param base - ~/.claude.json contents to update instead of the file on disk
  */
-export async function saveServerStates(
+async function buildServerStateFiles(
   servers: Server[],
-  cwd: string
-): Promise<{ saved: number; errors: string[] }> {
-  const errors: string[] = [];
-  let saved = 0;
-
-  // Group servers by source type
-  const mcpjsonServers = servers.filter(
-    (s) => s.sourceType === 'mcpjson' && !s.flags.enterprise
-  );
-  const pluginServers = servers.filter(
-    (s) => s.sourceType === 'plugin' && !s.flags.enterprise
-  );
-
-  // Get paths for both config files we'll update
+  cwd: string,
+  base?: ClaudeJsonSchema
+): Promise<[{ path: string; data: SettingsSchema }, { path: string; data: ClaudeJsonSchema }]> {
+  const { mcpjsonServers, pluginServers } = getSavedServers(servers);
   const settingsPath = getProjectSettingsPath(cwd, true);
-  const claudeJsonPath = join(homedir(), '.claude.json');
+  const claudeJsonPath = join(getHomeDir(), '.claude.json');
 
-  // Acquire locks on both files to prevent concurrent modifications
-  const releaseSettingsLock = await acquireLock(settingsPath);
-  const releaseClaudeJsonLock = await acquireLock(claudeJsonPath);
+  // Get current settings
+  let settings: SettingsSchema = {};
 
   try {
-    // Get current settings (inside lock)
-    let settings: SettingsSchema = {};
-
-    try {
-      const existing = await parseSettingsJson(settingsPath);
-      if (existing) {
-        settings = existing;
-      }
-    } catch {
-      // Start with empty settings
+    const existing = await parseJsonFile<SettingsSchema>(settingsPath);
+    if (existing) {
+      settings = existing;
     }
+  } catch {
+    // Start with empty settings
+  }
 
   // Build MCPJSON arrays
   const enabledMcpjsonServers: string[] = [];
@@ -203,51 +208,67 @@ export async function saveServerStates(
     ? enabledPlugins
     : undefined;
 
-  // Ensure directory exists
-  const dir = dirname(settingsPath);
-  if (!existsSync(dir)) {
-    mkdirSync(dir, { recursive: true });
-  }
-
-  // Write settings atomically
-  try {
-    atomicWriteJson(settingsPath, settings);
-    saved = mcpjsonServers.length + pluginServers.length;
-  } catch (error) {
-    errors.push(`Failed to write ${settingsPath}: ${error}`);
-  }
-
   // Update ~/.claude.json for ORANGE state (disabledMcpServers)
-  const claudeJsonPath = join(homedir(), '.claude.json');
   // Normalise cwd for Claude Code project key lookup
-  const normalizedCwd = normaliseProjectPath(cwd);
-  try {
-    let claudeJson: ClaudeJsonSchema = {};
-    const existing = await parseClaudeJson(claudeJsonPath);
+  const normalizedCwd = getProjectKey(cwd);
+  let claudeJson: ClaudeJsonSchema = base ?? {};
+  if (!base) {
+    const existing = await parseJsonFile<ClaudeJsonSchema>(claudeJsonPath);
     if (existing) {
       claudeJson = existing;
     }
+  }
 
-    // Ensure projects object exists
-    if (!claudeJson.projects) {
-      claudeJson.projects = {};
-    }
+  // Ensure projects object exists
+  if (!claudeJson.projects) {
+    claudeJson.projects = {};
+  }
 
-    // Ensure project entry exists
-    if (!claudeJson.projects[normalizedCwd]) {
-      claudeJson.projects[normalizedCwd] = {};
-    }
+  // Ensure project entry exists
+  if (!claudeJson.projects[normalizedCwd]) {
+    claudeJson.projects[normalizedCwd] = {};
+  }
 
-    // Update disabledMcpServers for this project
-    claudeJson.projects[normalizedCwd].disabledMcpServers = disabledMcpServersList.length > 0
-      ? disabledMcpServersList
-      : undefined;
+  // Update disabledMcpServers for this project
+  claudeJson.projects[normalizedCwd].disabledMcpServers = disabledMcpServersList.length > 0
+    ? disabledMcpServersList
+    : undefined;
 
-    // Write atomically
-    atomicWriteJson(claudeJsonPath, claudeJson);
-  } catch (error) {
-    errors.push(`Failed to update ${claudeJsonPath}: ${error}`);
-  }
+  return [
+    { path: settingsPath, data: settings },
+    { path: claudeJsonPath, data: claudeJson },
+  ];
+}
+
+/**
+ * Save server states to settings files
+ *
+ * See buildServerStateFiles for where each state is written.
+ */
+export async function saveServerStates(
+  servers: Server[],
+  cwd: string
+): Promise<{ saved: number; errors: string[] }> {
+  const errors: string[] = [];
+  let saved = 0;
+
+  // Get paths for both config files we'll update
+  const settingsPath = getProjectSettingsPath(cwd, true);
+  const claudeJsonPath = join(getHomeDir(), '.claude.json');
+
+  // Acquire locks on both files to prevent concurrent modifications
+  const releaseSettingsLock = await acquireLock(settingsPath);
+  const releaseClaudeJsonLock = await acquireLock(claudeJsonPath);
+
+  try {
+    // Write both files as one transaction - either both change or neither does
+    try {
+      commitJsonTransaction('save', await buildServerStateFiles(servers, cwd));
+      const { mcpjsonServers, pluginServers } = getSavedServers(servers);
+      saved = mcpjsonServers.length + pluginServers.length;
+    } catch (error) {
+      errors.push(`Failed to save: ${error instanceof Error ? error.message : error}`);
+    }
 
     return { saved, errors };
   } finally {
@@ -257,6 +278,77 @@ export async function saveServerStates(
   }
 }
 
+/**
+ * Save server states for several projects as one transaction
+ *
+ * Each project's settings.local.json gets its own states, and every
+ * project's disabledMcpServers goes into a single ~/.claude.json write,
+ * so a change made across projects is undone by one mcp rollback.
+ */
+export async function saveProjectServerStates(
+  projects: { cwd: string; servers: Server[] }[]
+): Promise<{ saved: number; errors: string[] }> {
+  const errors: string[] = [];
+  let saved = 0;
+
+  const claudeJsonPath = join(getHomeDir(), '.claude.json');
+  const lockPaths = [...projects.map(({ cwd }) => getProjectSettingsPath(cwd, true)), claudeJsonPath];
+
+  const releases: (() => Promise<void>)[] = [];
+  for (const path of lockPaths) {
+    releases.push(await acquireLock(path));
+  }
+
+  try {
+    try {
+      const writes: { path: string; data: unknown }[] = [];
+      let claudeJson: ClaudeJsonSchema | undefined;
+
+      // Each project updates the ~/.claude.json built for the one before
+      for (const { cwd, servers } of projects) {
+        const [settingsFile, claudeJsonFile] = await buildServerStateFiles(servers, cwd, claudeJson);
+        writes.push(settingsFile);
+        claudeJson = claudeJsonFile.data;
+
+        const { mcpjsonServers, pluginServers } = getSavedServers(servers);
+        saved += mcpjsonServers.length + pluginServers.length;
+      }
+
+      if (claudeJson) {
+        writes.push({ path: claudeJsonPath, data: claudeJson });
+        commitJsonTransaction('save projects', writes);
+      }
+    } catch (error) {
+      saved = 0;
+      errors.push(`Failed to save: ${error instanceof Error ? error.message : error}`);
+    }
+
+    return { saved, errors };
+  } finally {
+    for (const release of releases.reverse()) {
+      await release();
+    }
+  }
+}
+
+/**
+ * Preview what saving would change, without writing anything
+ *
+ * Simulates the save and compares each file's new contents with the
+ * file on disk (a missing file counts as empty).
+ */
+export async function previewServerStates(servers: Server[], cwd: string): Promise<FileDiff[]> {
+  const files = await buildServerStateFiles(servers, cwd);
+
+  return Promise.all(
+    files.map(async ({ path, data }) => {
+      const exists = existsSync(path);
+      const current = exists ? await parseJsonFile<unknown>(path) : null;
+      return { path, exists, changes: diffJson(current ?? {}, data) };
+    })
+  );
+}
+
 /**
  * Get summary of changes to be saved
  */
@@ -267,6 +359,7 @@ export function getChangeSummary(
   enabled: string[];
   disabled: string[];
   paused: string[];
+  removed: string[];
   unchanged: number;
 } {
   const enabled: string[] = [];
@@ -274,6 +367,10 @@ export function getChangeSummary(
   const paused: string[] = [];
   let unchanged = 0;
 
+  const removed = original
+    .filter((orig) => !modified.some((s) => s.name === orig.name))
+    .map((orig) => orig.name);
+
   for (const mod of modified) {
     const orig = original.find((s) => s.name === mod.name);
     if (!orig) continue;
@@ -292,7 +389,7 @@ export function getChangeSummary(
     }
   }
 
-  return { enabled, disabled, paused, unchanged };
+  return { enabled, disabled, paused, removed, unchanged };
 }
 
 /**
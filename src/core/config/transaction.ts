@@ -0,0 +1,263 @@
+/**
+ * Multi-file transactions with a rollback journal
+ *
+ * A save that touches several files (e.g. settings.local.json and
+ * ~/.claude.json) is committed as a unit:
+ * 1. Back up every target file into a journal directory
+ * 2. Write the journal (status 'pending')
+ * 3. Write each file atomically
+ * 4. On any failure, restore every file from the journal and mark it
+ *    'rolled-back'; otherwise mark it 'committed'
+ *
+ * Journals live in ~/.claude/backups/transactions/<id>/ and can be undone
+ * later as a unit (mcp rollback). Old journals are pruned by the backup
+ * retention policy (core/backups/retention.ts).
+ */
+
+import { copyFileSync, existsSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { basename, join } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import type { TransactionEntry, TransactionFile } from '@/types/index.js';
+import {
+  atomicWriteFile,
+  enforceBackupRetention,
+  ensureDir,
+  formatJson,
+  formatJsonForFile,
+  getBackupDir,
+} from './writer.js';
+import { interceptWrite, isDryRun } from './dry-run.js';
+
+const JOURNAL_FILE = 'journal.json';
+
+/** A pending JSON write */
+export interface TransactionWrite {
+  path: string;
+  data: unknown;
+}
+
+/** A pending raw write (null content deletes the file) */
+export interface TransactionContent {
+  path: string;
+  content: string | null;
+}
+
+/**
+ * Error thrown when a transaction failed and its files were restored
+ */
+export class TransactionError extends Error {
+  constructor(
+    message: string,
+    public readonly entry: TransactionEntry,
+    public readonly rollbackErrors: string[] = []
+  ) {
+    super(message);
+    this.name = 'TransactionError';
+  }
+}
+
+/**
+ * Directory holding all transaction journals
+ */
+export function getTransactionsDir(): string {
+  return join(getBackupDir(), 'transactions');
+}
+
+function writeJournal(dir: string, entry: TransactionEntry): void {
+  writeFileSync(join(dir, JOURNAL_FILE), formatJson(entry), 'utf-8');
+}
+
+/**
+ * Create a sortable, unique transaction id
+ */
+function createTransactionId(): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return `${timestamp}-${randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * Put every file back as it was before the transaction
+ *
+ * @returns Errors for files that could not be restored
+ */
+function restoreFiles(dir: string, files: TransactionFile[]): string[] {
+  const errors: string[] = [];
+
+  for (const file of files) {
+    try {
+      if (file.backup) {
+        atomicWriteFile(file.path, readFileSync(join(dir, file.backup), 'utf-8'));
+      } else if (existsSync(file.path)) {
+        rmSync(file.path);
+      }
+    } catch (error) {
+      errors.push(`${file.path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Write raw contents to several files as one transaction
+ *
+ * @param operation - What the transaction does (shown in mcp rollback)
+ * @throws TransactionError if any write failed (files are restored first)
+ */
+export function commitTransaction(operation: string, contents: TransactionContent[]): TransactionEntry {
+  // Dry runs keep the writes in memory, without a journal
+  if (isDryRun()) {
+    for (const { path, content } of contents) {
+      interceptWrite(path, content);
+    }
+    return {
+      id: 'dry-run',
+      operation,
+      createdAt: new Date().toISOString(),
+      status: 'committed',
+      files: contents.map(({ path }) => ({ path, backup: null })),
+    };
+  }
+
+  const id = createTransactionId();
+  const dir = join(getTransactionsDir(), id);
+  ensureDir(dir);
+
+  // Back up every target before touching any of them
+  let files: TransactionFile[];
+  try {
+    files = contents.map(({ path }, index) => {
+      if (!existsSync(path)) return { path, backup: null };
+
+      const backup = `${index}-${basename(path)}`;
+      copyFileSync(path, join(dir, backup));
+      return { path, backup };
+    });
+  } catch (error) {
+    // Nothing was written yet - drop the incomplete journal
+    rmSync(dir, { recursive: true, force: true });
+    throw error;
+  }
+
+  const entry: TransactionEntry = {
+    id,
+    operation,
+    createdAt: new Date().toISOString(),
+    status: 'pending',
+    files,
+  };
+  writeJournal(dir, entry);
+
+  try {
+    for (const { path, content } of contents) {
+      if (content === null) {
+        interceptWrite(path, null);
+        if (existsSync(path)) rmSync(path);
+      } else {
+        atomicWriteFile(path, content);
+      }
+    }
+  } catch (error) {
+    const rollbackErrors = restoreFiles(dir, files);
+    entry.status = 'rolled-back';
+    entry.error = error instanceof Error ? error.message : String(error);
+    writeJournal(dir, entry);
+
+    throw new TransactionError(
+      rollbackErrors.length > 0
+        ? `${entry.error} (rollback incomplete: ${rollbackErrors.join('; ')})`
+        : `${entry.error} (all changes rolled back)`,
+      entry,
+      rollbackErrors
+    );
+  }
+
+  entry.status = 'committed';
+  writeJournal(dir, entry);
+
+  // Retention must never fail a committed transaction
+  try {
+    enforceBackupRetention();
+  } catch {
+    // Old journals are pruned again after the next transaction
+  }
+
+  return entry;
+}
+
+/**
+ * Atomically write JSON to several files as one transaction
+ *
+ * Either every file is written or none is changed. Existing files are
+ * edited in place, so keys that did not change keep their formatting.
+ *
+ * @param operation - What the transaction does (shown in mcp rollback)
+ * @throws TransactionError if any write failed (files are restored first)
+ */
+export function commitJsonTransaction(operation: string, writes: TransactionWrite[]): TransactionEntry {
+  return commitTransaction(
+    operation,
+    writes.map(({ path, data }) => ({ path, content: formatJsonForFile(path, data) }))
+  );
+}
+
+/**
+ * Read a transaction journal
+ */
+export function getTransaction(id: string): TransactionEntry | null {
+  const path = join(getTransactionsDir(), id, JOURNAL_FILE);
+  if (!existsSync(path)) return null;
+
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as TransactionEntry;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List transaction journals, newest first
+ */
+export function listTransactions(): TransactionEntry[] {
+  const dir = getTransactionsDir();
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir)
+    .map((id) => getTransaction(id))
+    .filter((entry): entry is TransactionEntry => entry !== null)
+    .sort((a, b) => b.id.localeCompare(a.id));
+}
+
+/**
+ * Undo a transaction, restoring every file it changed
+ *
+ * The undo is itself a transaction, so it can be undone in turn.
+ *
+ * @throws Error if the transaction cannot be undone
+ */
+export function undoTransaction(id: string): TransactionEntry {
+  const entry = getTransaction(id);
+  if (!entry) {
+    throw new Error(`Transaction "${id}" not found`);
+  }
+  // 'pending' means the process died mid-commit; undoing it recovers the files
+  if (entry.status !== 'committed' && entry.status !== 'pending') {
+    throw new Error(`Transaction "${id}" cannot be undone (${entry.status})`);
+  }
+
+  const dir = join(getTransactionsDir(), id);
+  const undo = commitTransaction(
+    `undo ${entry.operation} (${entry.id})`,
+    entry.files.map((file) => ({
+      path: file.path,
+      content: file.backup ? readFileSync(join(dir, file.backup), 'utf-8') : null,
+    }))
+  );
+
+  if (isDryRun()) return undo;
+
+  entry.status = 'undone';
+  entry.undoneBy = undo.id;
+  writeJournal(dir, entry);
+  return undo;
+}
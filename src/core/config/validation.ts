@@ -0,0 +1,93 @@
+/**
+ * Config file validation
+ *
+ * Checks each config file against its schema (schema.ts) and locates
+ * every violation by JSON pointer, line and column. Covers the sources
+ * from discoverAllSources plus this tool's own files (profiles, budget,
+ * inventory cache, backup settings). Used by mcp validate, mcp audit and
+ * the TUI's error banner.
+ */
+
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import type { ConfigFileKind, ConfigSource, ConfigValidation } from '@/types/index.js';
+import { expandPath } from '@/utils/paths.js';
+import {
+  getBackupIndexPath,
+  getBudgetConfigPath,
+  getInventoryCachePath,
+  getProfilesPath,
+  getToolConfigPath,
+} from '@/utils/platform.js';
+import { discoverAllSources } from './discovery.js';
+import { stripJsonComments } from './jsonc.js';
+import { validateJsonSyntax } from './parser.js';
+import { checkConfig, locateViolations } from './schema.js';
+
+/**
+ * Schema of a discovered config source
+ */
+export function getSourceKind(source: ConfigSource): ConfigFileKind {
+  switch (source.type) {
+    case 'claude':
+      return 'claude';
+    case 'mcp':
+      return 'mcp';
+    case 'enterprise':
+      return 'enterprise-mcp';
+    case 'settings':
+      return source.scope === 'enterprise' ? 'enterprise-settings' : 'settings';
+    case 'plugin':
+      return 'marketplace';
+    case 'installed-plugins':
+      return 'installed-plugins';
+  }
+}
+
+/**
+ * Validate one config file: JSON syntax first, then its schema
+ */
+export async function validateConfigFile(path: string, kind: ConfigFileKind): Promise<ConfigValidation> {
+  const syntax = await validateJsonSyntax(path);
+  if (!syntax.valid) {
+    return {
+      file: path,
+      kind,
+      valid: false,
+      violations: [{ pointer: '', message: `Invalid JSON: ${syntax.error}`, line: syntax.line, column: syntax.column }],
+    };
+  }
+
+  // Comments are blanked out in place, so offsets still match the file
+  const content = stripJsonComments(await readFile(expandPath(path), 'utf-8'));
+  const { violations } = checkConfig(kind, JSON.parse(content));
+
+  return {
+    file: path,
+    kind,
+    valid: violations.length === 0,
+    violations: locateViolations(content, violations),
+  };
+}
+
+/**
+ * Validate every existing config file of a project
+ */
+export async function validateConfigSources(cwd: string): Promise<ConfigValidation[]> {
+  const sources = await discoverAllSources(cwd);
+
+  const files: Array<[string, ConfigFileKind]> = [
+    ...sources.filter((s) => s.exists).map((s): [string, ConfigFileKind] => [s.path, getSourceKind(s)]),
+    [getProfilesPath(), 'profiles'],
+    [getBudgetConfigPath(), 'budget'],
+    [getInventoryCachePath(), 'inventory'],
+    [getToolConfigPath(), 'tool-config'],
+    [getBackupIndexPath(), 'backup-index'],
+  ];
+
+  return Promise.all(
+    files
+      .filter(([path]) => existsSync(expandPath(path)))
+      .map(([path, kind]) => validateConfigFile(path, kind))
+  );
+}
@@ -0,0 +1,193 @@
+/**
+ * Config file watching
+ *
+ * Watches every configuration source from discoverAllSources so the TUI
+ * can reload when Claude Code or another terminal edits a file while it
+ * is open. Files are watched through their directory, which also catches
+ * files created later and the temp-file renames of atomic writes. A
+ * missing directory (e.g. a project without .claude/) is watched through
+ * its parent until it appears.
+ *
+ * mergeReloadedServers puts the user's unsaved state changes on top of
+ * the reloaded servers, and reports servers changed on both sides.
+ */
+
+import { existsSync, watch, type FSWatcher } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import type { Server } from '@/types/index.js';
+import { expandPath } from '@/utils/paths.js';
+import { discoverAllSources } from './discovery.js';
+import { getDisplayState } from '../servers/toggle.js';
+
+/** Quiet period before reporting changes (editors write in several steps) */
+const DEFAULT_DEBOUNCE_MS = 200;
+
+/**
+ * Watch every configuration source of a project
+ *
+ * @param onChange - Called with the changed files once writes settle
+ * @returns Function that stops watching
+ */
+export async function watchConfigFiles(
+  cwd: string,
+  onChange: (paths: string[]) => void,
+  options: { debounceMs?: number } = {}
+): Promise<() => void> {
+  const sources = await discoverAllSources(cwd);
+  const debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+
+  // File names to watch, by directory
+  const files = new Map<string, Set<string>>();
+  for (const source of sources) {
+    const path = expandPath(source.path);
+    const names = files.get(dirname(path)) ?? new Set<string>();
+    names.add(basename(path));
+    files.set(dirname(path), names);
+  }
+
+  const watchers = new Set<FSWatcher>();
+  const changed = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  const report = (path: string) => {
+    changed.add(path);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      const paths = [...changed];
+      changed.clear();
+      if (!closed) onChange(paths);
+    }, debounceMs);
+  };
+
+  const open = (dir: string, listener: (filename: string) => void): FSWatcher | null => {
+    try {
+      const watcher = watch(dir, (_event, filename) => {
+        if (filename) listener(filename.toString());
+      });
+      // Watching can fail later (e.g. the directory is deleted) - stop quietly
+      watcher.on('error', () => {
+        watcher.close();
+        watchers.delete(watcher);
+      });
+      watchers.add(watcher);
+      return watcher;
+    } catch {
+      // Unsupported filesystem or no permission - the TUI works without it
+      return null;
+    }
+  };
+
+  const watchDir = (dir: string, names: Set<string>) => {
+    open(dir, (filename) => {
+      if (names.has(filename)) report(join(dir, filename));
+    });
+  };
+
+  for (const [dir, names] of files) {
+    if (existsSync(dir)) {
+      watchDir(dir, names);
+      continue;
+    }
+
+    const parent = dirname(dir);
+    if (!existsSync(parent)) continue;
+
+    // Wait for the directory to be created, then watch it instead
+    const parentWatcher = open(parent, (filename) => {
+      if (filename !== basename(dir) || !existsSync(dir)) return;
+      parentWatcher?.close();
+      if (parentWatcher) watchers.delete(parentWatcher);
+      watchDir(dir, names);
+      report(dir);
+    });
+  }
+
+  return () => {
+    closed = true;
+    if (timer) clearTimeout(timer);
+    for (const watcher of watchers) {
+      watcher.close();
+    }
+    watchers.clear();
+  };
+}
+
+/**
+ * Whether two server lists resolve to the same states and definitions
+ */
+export function sameServers(a: Server[], b: Server[]): boolean {
+  if (a.length !== b.length) return false;
+
+  return a.every((server) => {
+    const other = b.find((s) => s.name === server.name);
+    return (
+      !!other &&
+      getDisplayState(other) === getDisplayState(server) &&
+      other.scope === server.scope &&
+      other.definitionFile === server.definitionFile &&
+      JSON.stringify(other.definition) === JSON.stringify(server.definition) &&
+      JSON.stringify(other.flags) === JSON.stringify(server.flags)
+    );
+  });
+}
+
+/**
+ * Merge unsaved changes onto servers reloaded from disk
+ *
+ * @param original - Servers as last loaded (the base of the user's changes)
+ * @param current - Servers with the user's unsaved changes
+ * @param fresh - Servers reloaded from disk
+ * @returns Merged servers; conflicts are servers the user changed that
+ *   also changed on disk, removed are changed servers no longer on disk
+ */
+export function mergeReloadedServers(
+  original: Server[],
+  current: Server[],
+  fresh: Server[]
+): { servers: Server[]; conflicts: string[]; removed: string[] } {
+  const conflicts: string[] = [];
+  const servers: Server[] = [];
+
+  for (const reloaded of fresh) {
+    const mine = current.find((s) => s.name === reloaded.name);
+    const base = original.find((s) => s.name === reloaded.name);
+
+    if (!mine) {
+      // Removed in this session: keep it removed. New on disk: take it.
+      if (!base) servers.push(reloaded);
+      continue;
+    }
+
+    const userChanged = !base || getDisplayState(mine) !== getDisplayState(base);
+    if (!userChanged) {
+      servers.push(reloaded);
+      continue;
+    }
+
+    const diskChanged = !!base && getDisplayState(reloaded) !== getDisplayState(base);
+    if (diskChanged && getDisplayState(reloaded) !== getDisplayState(mine)) {
+      conflicts.push(reloaded.name);
+    }
+
+    // Keep the user's state, but the definition and policy flags from disk
+    servers.push({
+      ...reloaded,
+      state: mine.state,
+      runtime: mine.runtime,
+      flags: { ...mine.flags, ...reloaded.flags },
+    });
+  }
+
+  // Servers the user changed that were deleted on disk
+  const removed = current
+    .filter((mine) => !fresh.some((s) => s.name === mine.name))
+    .filter((mine) => {
+      const base = original.find((s) => s.name === mine.name);
+      return !base || getDisplayState(mine) !== getDisplayState(base);
+    })
+    .map((mine) => mine.name);
+
+  return { servers, conflicts, removed };
+}
@@ -3,20 +3,28 @@
  *
  * All configuration writes use temp file + rename pattern for atomicity.
  * This prevents partial writes from corrupting configuration files.
+ * JSON writes edit the existing text in place (see jsonc.ts), so only the
+ * keys that changed differ from the file on disk.
  */
 
-import { writeFileSync, renameSync, copyFileSync, mkdirSync, existsSync } from 'node:fs';
-import { homedir } from 'node:os';
-import { join, dirname, basename } from 'node:path';
+import { writeFileSync, readFileSync, renameSync, copyFileSync, mkdirSync, existsSync } from 'node:fs';
+import { join, dirname, basename, resolve } from 'node:path';
 import { randomUUID } from 'node:crypto';
+import type { BackupIndexEntry, BackupIndexSchema, BackupRetentionPolicy } from '@/types/index.js';
+import { getBackupIndexPath, getHomeDir } from '@/utils/platform.js';
+import { pruneBackups, type RetentionResult } from '@/core/backups/retention.js';
+import { interceptWrite, isDryRun, readTextFile } from './dry-run.js';
+import { parseJsonc, stripJsonComments, updateJsonText } from './jsonc.js';
 
-/** Backup directory for ~/.claude.json backups */
-const BACKUP_DIR = join(homedir(), '.claude', 'backups');
+/** Backup directory for ~/.claude.json backups (resolved per call so HOME changes apply) */
+export function getBackupDir(): string {
+  return join(getHomeDir(), '.claude', 'backups');
+}
 
 /**
  * Ensure a directory exists
  */
-function ensureDir(dir: string): void {
+export function ensureDir(dir: string): void {
   if (!existsSync(dir)) {
     mkdirSync(dir, { recursive: true });
   }
@@ -35,28 +43,136 @@ function getTempPath(targetPath: string): string {
 /**
  * Format JSON with 2-space indentation
  */
-function formatJson(data: unknown): string {
+export function formatJson(data: unknown): string {
   return JSON.stringify(data, null, 2) + '\n';
 }
 
+/**
+ * Serialise JSON for a file, editing its current text where possible
+ *
+ * Keys that did not change keep their formatting and comments. A missing,
+ * empty or unparseable file is written as formatted JSON, and so is a
+ * single-line file without comments (such as the "{}" a lock creates, or
+ * a compact ~/.claude.json), which has no layout worth keeping.
+ */
+export function formatJsonForFile(filePath: string, data: unknown): string {
+  const current = readTextFile(filePath);
+  const trimmed = current?.trim();
+  if (!current || !trimmed || (!trimmed.includes('\n') && stripJsonComments(trimmed) === trimmed)) {
+    return formatJson(data);
+  }
+
+  try {
+    return updateJsonText(current, data);
+  } catch {
+    return formatJson(data);
+  }
+}
+
+/**
+ * Read the backup index (empty if missing or unreadable)
+ */
+export function readBackupIndex(): BackupIndexEntry[] {
+  try {
+    const index = JSON.parse(readFileSync(getBackupIndexPath(), 'utf-8')) as BackupIndexSchema;
+    return Array.isArray(index.backups) ? index.backups : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Replace the backup index
+ */
+export function writeBackupIndex(backups: BackupIndexEntry[]): void {
+  const index: BackupIndexSchema = { version: 1, backups };
+  writeAtomically(getBackupIndexPath(), formatJson(index));
+}
+
+/**
+ * Prune old backups by the retention policy and drop them from the index
+ *
+ * @param options.policy - Settings that override the tool config for this run
+ */
+export function enforceBackupRetention(
+  options: { dryRun?: boolean; policy?: BackupRetentionPolicy } = {}
+): RetentionResult {
+  const result = pruneBackups(options);
+
+  const pruned = new Set(result.pruned.map((set) => set.id));
+  const index = readBackupIndex();
+  if (!options.dryRun && index.some((entry) => pruned.has(entry.file))) {
+    writeBackupIndex(index.filter((entry) => !pruned.has(entry.file)));
+  }
+
+  return result;
+}
+
 /**
  * Create a backup of a file before modifying
+ *
+ * The backup is recorded in the backup index with the file it came from
+ * and the operation that is about to change it (see mcp backups), then
+ * old backups are pruned by the retention policy.
+ *
+ * @param operation - What is about to change the file, e.g. "fix-config"
  */
-export function createBackup(filePath: string): string | null {
-  if (!existsSync(filePath)) {
+export function createBackup(filePath: string, operation = 'write'): string | null {
+  // Dry runs leave the backup directory alone
+  if (!existsSync(filePath) || isDryRun()) {
     return null;
   }
 
-  ensureDir(BACKUP_DIR);
+  const backupDir = getBackupDir();
+  ensureDir(backupDir);
 
-  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const createdAt = new Date().toISOString();
+  const timestamp = createdAt.replace(/[:.]/g, '-');
   const baseName = basename(filePath) || 'config';
-  const backupPath = join(BACKUP_DIR, `${baseName}.${timestamp}.bak`);
+  let backupPath = join(backupDir, `${baseName}.${timestamp}.bak`);
+  // Several backups of same-named files can land in one millisecond
+  for (let n = 1; existsSync(backupPath); n++) {
+    backupPath = join(backupDir, `${baseName}.${timestamp}-${n}.bak`);
+  }
 
   copyFileSync(filePath, backupPath);
+
+  writeBackupIndex([
+    ...readBackupIndex(),
+    { file: basename(backupPath), source: resolve(filePath), operation, createdAt },
+  ]);
+
+  // Retention must never fail the write it protects
+  try {
+    enforceBackupRetention();
+  } catch {
+    // Old backups are pruned again after the next one
+  }
+
   return backupPath;
 }
 
+/**
+ * Write text to a file via temp file + rename, bypassing write recording
+ */
+function writeAtomically(filePath: string, content: string): void {
+  const tempPath = getTempPath(filePath);
+
+  ensureDir(dirname(filePath));
+  writeFileSync(tempPath, content, 'utf-8');
+  renameSync(tempPath, filePath);
+}
+
+/**
+ * Atomically write text to a file (temp file + rename)
+ *
+ * Recorded for --diff and kept in memory on a dry run (see dry-run.ts).
+ */
+export function atomicWriteFile(filePath: string, content: string): void {
+  if (interceptWrite(filePath, content)) return;
+  writeAtomically(filePath, content);
+}
+
 /**
  * Atomically write JSON to a file
  *
@@ -68,19 +184,22 @@ export function createBackup(filePath: string): string | null {
 export function atomicWriteJson(
   filePath: string,
   data: unknown,
-  options?: { backup?: boolean }
+  options?: { backup?: boolean; operation?: string }
 ): void {
+  const content = formatJsonForFile(filePath, data);
+  if (interceptWrite(filePath, content)) return;
+
   const tempPath = getTempPath(filePath);
 
   // Ensure parent directory exists
   ensureDir(dirname(filePath));
 
   // Write to temp file
-  writeFileSync(tempPath, formatJson(data), 'utf-8');
+  writeFileSync(tempPath, content, 'utf-8');
 
   // Create backup if requested
   if (options?.backup) {
-    createBackup(filePath);
+    createBackup(filePath, options.operation);
   }
 
   // Atomic rename
@@ -105,7 +224,7 @@ export async function updateJsonFile<T>(
 
   try {
     const content = await readFile(filePath, 'utf-8');
-    data = JSON.parse(content) as T;
+    data = parseJsonc<T>(content);
   } catch {
     if (options?.defaultValue !== undefined) {
       data = options.defaultValue;
@@ -124,17 +243,18 @@ export async function updateJsonFile<T>(
 export async function getLatestBackup(fileName: string): Promise<string | null> {
   const { readdir } = await import('node:fs/promises');
 
-  if (!existsSync(BACKUP_DIR)) {
+  const backupDir = getBackupDir();
+  if (!existsSync(backupDir)) {
     return null;
   }
 
-  const files = await readdir(BACKUP_DIR);
+  const files = await readdir(backupDir);
   const backups = files
     .filter(f => f.startsWith(fileName))
     .sort()
     .reverse();
 
-  return backups.length > 0 ? join(BACKUP_DIR, backups[0]!) : null;
+  return backups.length > 0 ? join(backupDir, backups[0]!) : null;
 }
 
 /**
@@ -0,0 +1,389 @@
+/**
+ * Minimal MCP client
+ *
+ * Speaks just enough JSON-RPC to talk to a server from its definition:
+ * - stdio: spawns the command, newline-delimited JSON on stdin/stdout
+ * - http:  Streamable HTTP (POST, JSON or SSE responses, session header)
+ * - sse:   legacy HTTP+SSE (GET event stream, POST to the announced endpoint)
+ *
+ * Used for health probes and tool inventory; not a general purpose client.
+ */
+
+import { spawn, type ChildProcess } from 'node:child_process';
+import type { ServerDefinition } from '@/types/index.js';
+import { getTransportType } from '@/types/index.js';
+import { VERSION } from '@/utils/version.js';
+
+/** Protocol version sent in initialize */
+export const MCP_PROTOCOL_VERSION = '2025-06-18';
+
+const CLIENT_INFO = { name: 'mcp-selector', version: VERSION };
+
+/** Keep this much stderr for error messages */
+const STDERR_TAIL_CHARS = 2000;
+
+/** Result of the initialize handshake */
+export interface InitializeResult {
+  protocolVersion: string;
+  capabilities?: Record<string, unknown>;
+  serverInfo?: { name: string; version?: string };
+  instructions?: string;
+}
+
+/** An open connection to an MCP server */
+export interface McpConnection {
+  request<T = unknown>(method: string, params?: Record<string, unknown>): Promise<T>;
+  notify(method: string, params?: Record<string, unknown>): Promise<void>;
+  close(): void;
+}
+
+export interface ConnectOptions {
+  /** Working directory for stdio servers */
+  cwd?: string;
+  /** Environment for stdio servers, before the definition's env (default: process.env) */
+  env?: NodeJS.ProcessEnv;
+}
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+interface PendingRequest {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Error returned by the server in a JSON-RPC response
+ */
+export class McpError extends Error {
+  constructor(message: string, public readonly code: number) {
+    super(message);
+    this.name = 'McpError';
+  }
+}
+
+/**
+ * Tracks request ids and routes responses back to their callers
+ */
+class RequestTracker {
+  private nextId = 1;
+  private pending = new Map<number | string, PendingRequest>();
+  private closedError: Error | null = null;
+
+  create(): { id: number; promise: Promise<unknown> } {
+    const id = this.nextId++;
+    const promise = new Promise<unknown>((resolve, reject) => {
+      if (this.closedError) {
+        reject(this.closedError);
+        return;
+      }
+      this.pending.set(id, { resolve, reject });
+    });
+    return { id, promise };
+  }
+
+  handle(message: JsonRpcMessage): void {
+    if (message.id === undefined || message.method !== undefined) return;
+
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+    this.pending.delete(message.id);
+
+    if (message.error) {
+      pending.reject(new McpError(message.error.message, message.error.code));
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+
+  failAll(error: Error): void {
+    this.closedError ??= error;
+    for (const pending of this.pending.values()) {
+      pending.reject(error);
+    }
+    this.pending.clear();
+  }
+
+  reject(id: number, error: Error): void {
+    this.pending.get(id)?.reject(error);
+    this.pending.delete(id);
+  }
+}
+
+function parseMessages(text: string): JsonRpcMessage[] {
+  try {
+    const data = JSON.parse(text);
+    return Array.isArray(data) ? data : [data];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Parse a text/event-stream body, calling onEvent for each event
+ */
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: string, data: string) => void
+): Promise<void> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.search(/\r?\n\r?\n/)) !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+
+      let event = 'message';
+      const data: string[] = [];
+      for (const line of block.split(/\r?\n/)) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+      }
+      if (data.length > 0) onEvent(event, data.join('\n'));
+    }
+  }
+}
+
+/**
+ * Connect to a stdio server by spawning its command
+ */
+function connectStdio(definition: ServerDefinition, options: ConnectOptions): McpConnection {
+  const tracker = new RequestTracker();
+  let stderrTail = '';
+  let stdoutBuffer = '';
+
+  const child: ChildProcess = spawn(definition.command ?? '', definition.args ?? [], {
+    cwd: options.cwd,
+    env: { ...(options.env ?? process.env), ...definition.env },
+    stdio: ['pipe', 'pipe', 'pipe'],
+    // npx/uvx are .cmd shims on Windows
+    shell: process.platform === 'win32',
+  });
+
+  child.stdout?.setEncoding('utf-8');
+  child.stdout?.on('data', (chunk: string) => {
+    stdoutBuffer += chunk;
+    let newline: number;
+    while ((newline = stdoutBuffer.indexOf('\n')) !== -1) {
+      const line = stdoutBuffer.slice(0, newline).trim();
+      stdoutBuffer = stdoutBuffer.slice(newline + 1);
+      // Servers sometimes log to stdout - ignore anything that isn't JSON-RPC
+      if (line) parseMessages(line).forEach((m) => tracker.handle(m));
+    }
+  });
+
+  child.stderr?.setEncoding('utf-8');
+  child.stderr?.on('data', (chunk: string) => {
+    stderrTail = (stderrTail + chunk).slice(-STDERR_TAIL_CHARS);
+  });
+
+  child.on('error', (error: NodeJS.ErrnoException) => {
+    tracker.failAll(
+      error.code === 'ENOENT'
+        ? new Error(`Command not found: ${definition.command}`)
+        : error
+    );
+  });
+
+  child.on('exit', (code, signal) => {
+    const reason = signal ? `signal ${signal}` : `code ${code}`;
+    const detail = stderrTail.trim().split('\n').slice(-3).join(' ').trim();
+    tracker.failAll(new Error(`Process exited with ${reason}${detail ? `: ${detail}` : ''}`));
+  });
+
+  // Writes after the process died surface through the exit handler
+  child.stdin?.on('error', () => {});
+
+  const send = (message: JsonRpcMessage) => {
+    child.stdin?.write(JSON.stringify(message) + '\n');
+  };
+
+  return {
+    request: <T>(method: string, params?: Record<string, unknown>) => {
+      const { id, promise } = tracker.create();
+      send({ jsonrpc: '2.0', id, method, params });
+      return promise as Promise<T>;
+    },
+    notify: async (method, params) => {
+      send({ jsonrpc: '2.0', method, params });
+    },
+    close: () => {
+      tracker.failAll(new Error('Connection closed'));
+      child.stdin?.end();
+      if (child.exitCode === null && child.signalCode === null) {
+        child.kill();
+      }
+    },
+  };
+}
+
+/**
+ * Connect to a Streamable HTTP server
+ */
+function connectHttp(definition: ServerDefinition): McpConnection {
+  const tracker = new RequestTracker();
+  const controller = new AbortController();
+  const url = definition.url ?? '';
+  let sessionId: string | undefined;
+
+  const post = async (message: JsonRpcMessage): Promise<Response> => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        accept: 'application/json, text/event-stream',
+        'mcp-protocol-version': MCP_PROTOCOL_VERSION,
+        ...(sessionId ? { 'mcp-session-id': sessionId } : {}),
+        ...definition.headers,
+      },
+      body: JSON.stringify(message),
+      signal: controller.signal,
+    });
+
+    sessionId = response.headers.get('mcp-session-id') ?? sessionId;
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+    }
+    return response;
+  };
+
+  return {
+    request: <T>(method: string, params?: Record<string, unknown>) => {
+      const { id, promise } = tracker.create();
+
+      post({ jsonrpc: '2.0', id, method, params })
+        .then(async (response) => {
+          const contentType = response.headers.get('content-type') ?? '';
+          if (contentType.includes('text/event-stream') && response.body) {
+            await readEventStream(response.body, (_event, data) => {
+              parseMessages(data).forEach((m) => tracker.handle(m));
+            });
+          } else {
+            parseMessages(await response.text()).forEach((m) => tracker.handle(m));
+          }
+          tracker.reject(id, new Error(`No response to ${method}`));
+        })
+        .catch((error: unknown) => {
+          tracker.reject(id, error instanceof Error ? error : new Error(String(error)));
+        });
+
+      return promise as Promise<T>;
+    },
+    notify: async (method, params) => {
+      await post({ jsonrpc: '2.0', method, params });
+    },
+    close: () => {
+      tracker.failAll(new Error('Connection closed'));
+      controller.abort();
+    },
+  };
+}
+
+/**
+ * Connect to a legacy HTTP+SSE server
+ */
+function connectSse(definition: ServerDefinition): McpConnection {
+  const tracker = new RequestTracker();
+  const controller = new AbortController();
+  const url = definition.url ?? '';
+
+  let resolveEndpoint: (endpoint: string) => void = () => {};
+  let rejectEndpoint: (error: Error) => void = () => {};
+  const endpoint = new Promise<string>((resolve, reject) => {
+    resolveEndpoint = resolve;
+    rejectEndpoint = reject;
+  });
+  // Failures are reported through the request that awaits the endpoint
+  endpoint.catch(() => {});
+
+  const fail = (error: unknown) => {
+    const err = error instanceof Error ? error : new Error(String(error));
+    rejectEndpoint(err);
+    tracker.failAll(err);
+  };
+
+  fetch(url, {
+    headers: { accept: 'text/event-stream', ...definition.headers },
+    signal: controller.signal,
+  })
+    .then(async (response) => {
+      if (!response.ok || !response.body) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+      }
+      await readEventStream(response.body, (event, data) => {
+        if (event === 'endpoint') {
+          resolveEndpoint(new URL(data, url).toString());
+        } else {
+          parseMessages(data).forEach((m) => tracker.handle(m));
+        }
+      });
+      fail(new Error('Event stream closed'));
+    })
+    .catch(fail);
+
+  const post = async (message: JsonRpcMessage): Promise<void> => {
+    const response = await fetch(await endpoint, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...definition.headers },
+      body: JSON.stringify(message),
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+    }
+  };
+
+  return {
+    request: <T>(method: string, params?: Record<string, unknown>) => {
+      const { id, promise } = tracker.create();
+      post({ jsonrpc: '2.0', id, method, params }).catch((error: unknown) => {
+        tracker.reject(id, error instanceof Error ? error : new Error(String(error)));
+      });
+      return promise as Promise<T>;
+    },
+    notify: (method, params) => post({ jsonrpc: '2.0', method, params }),
+    close: () => {
+      tracker.failAll(new Error('Connection closed'));
+      controller.abort();
+    },
+  };
+}
+
+/**
+ * Open a connection to a server using the transport from its definition
+ *
+ * The connection is usable immediately; failures surface on the first request.
+ */
+export function connect(definition: ServerDefinition, options: ConnectOptions = {}): McpConnection {
+  switch (getTransportType(definition)) {
+    case 'http':
+      return connectHttp(definition);
+    case 'sse':
+      return connectSse(definition);
+    case 'stdio':
+      return connectStdio(definition, options);
+  }
+}
+
+/**
+ * Run the initialize handshake and send notifications/initialized
+ */
+export async function initialize(connection: McpConnection): Promise<InitializeResult> {
+  const result = await connection.request<InitializeResult>('initialize', {
+    protocolVersion: MCP_PROTOCOL_VERSION,
+    capabilities: {},
+    clientInfo: CLIENT_INFO,
+  });
+  await connection.notify('notifications/initialized');
+  return result;
+}
@@ -0,0 +1,175 @@
+/**
+ * Server inventory - tools, prompts and resources with token estimates
+ *
+ * Tool schemas are loaded into the model context for every enabled server,
+ * so their size is what disabling a server saves. Estimates use ~4 characters
+ * per token, which is close enough to rank servers without a tokenizer.
+ *
+ * Inventories are cached in ~/.claude/mcp-inventory.json, keyed by server
+ * name and invalidated when the server's definition changes.
+ */
+
+import type {
+  CachedInventory,
+  InventoryCacheSchema,
+  Server,
+  ServerDefinition,
+  ServerInventory,
+  ToolSummary,
+} from '@/types/index.js';
+import { getInventoryCachePath } from '@/utils/platform.js';
+import { parseJsonFile } from '@/core/config/parser.js';
+import { atomicWriteJson } from '@/core/config/writer.js';
+import type { InitializeResult, McpConnection } from './client.js';
+
+const CHARS_PER_TOKEN = 4;
+
+/** Stop following list cursors after this many pages */
+const MAX_LIST_PAGES = 50;
+
+interface ToolDescriptor {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema?: unknown;
+  outputSchema?: unknown;
+}
+
+/**
+ * Estimate the token count of a piece of text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate the context cost of a tool definition
+ */
+export function estimateToolTokens(tool: ToolDescriptor): number {
+  return estimateTokens(
+    JSON.stringify({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.inputSchema,
+    })
+  );
+}
+
+/**
+ * Fetch every page of a list method
+ */
+async function listAll<T>(connection: McpConnection, method: string, key: string): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+
+  for (let page = 0; page < MAX_LIST_PAGES; page++) {
+    const result = await connection.request<Record<string, unknown>>(method, cursor ? { cursor } : {});
+    items.push(...((result[key] as T[] | undefined) ?? []));
+
+    cursor = typeof result.nextCursor === 'string' ? result.nextCursor : undefined;
+    if (!cursor) break;
+  }
+
+  return items;
+}
+
+/**
+ * List what an initialized server exposes
+ *
+ * Only lists capabilities the server advertised. Prompts and resources are
+ * counted on a best-effort basis; a failing tools/list is an error.
+ */
+export async function collectInventory(
+  name: string,
+  connection: McpConnection,
+  init: InitializeResult
+): Promise<ServerInventory> {
+  const capabilities = init.capabilities ?? {};
+
+  const tools: ToolSummary[] = capabilities.tools
+    ? (await listAll<ToolDescriptor>(connection, 'tools/list', 'tools')).map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        tokens: estimateToolTokens(tool),
+      }))
+    : [];
+
+  const count = async (method: string, key: string, advertised: unknown) =>
+    advertised ? listAll(connection, method, key).then((items) => items.length, () => 0) : 0;
+
+  const prompts = await count('prompts/list', 'prompts', capabilities.prompts);
+  const resources = await count('resources/list', 'resources', capabilities.resources);
+
+  const instructionTokens = init.instructions ? estimateTokens(init.instructions) : 0;
+
+  return {
+    server: name,
+    tools,
+    prompts,
+    resources,
+    tokens: tools.reduce((sum, tool) => sum + tool.tokens, instructionTokens),
+    inspectedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Key used to detect definition changes since an inventory was cached
+ */
+export function getDefinitionKey(definition: ServerDefinition | undefined): string {
+  return JSON.stringify(definition ?? {});
+}
+
+/**
+ * Load cached inventories that still match the servers' definitions
+ *
+ * @returns Inventory by server name
+ */
+export async function loadCachedInventories(servers: Server[]): Promise<Record<string, ServerInventory>> {
+  const data = await parseJsonFile<InventoryCacheSchema>(getInventoryCachePath(), 'inventory');
+  const cached = data?.servers ?? {};
+  const result: Record<string, ServerInventory> = {};
+
+  for (const server of servers) {
+    const entry = cached[server.name];
+    if (entry && entry.definitionKey === getDefinitionKey(server.definition)) {
+      result[server.name] = {
+        server: entry.server,
+        tools: entry.tools,
+        prompts: entry.prompts,
+        resources: entry.resources,
+        tokens: entry.tokens,
+        inspectedAt: entry.inspectedAt,
+      };
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Add inventories to the cache, replacing older entries for the same servers
+ */
+export async function saveInventories(
+  entries: Array<{ inventory: ServerInventory; definition?: ServerDefinition }>
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  const path = getInventoryCachePath();
+  const data = (await parseJsonFile<InventoryCacheSchema>(path, 'inventory')) ?? {};
+  const servers: Record<string, CachedInventory> = { ...data.servers };
+
+  for (const { inventory, definition } of entries) {
+    servers[inventory.server] = { ...inventory, definitionKey: getDefinitionKey(definition) };
+  }
+
+  atomicWriteJson(path, { version: 1, servers });
+}
+
+/**
+ * Total estimated tokens for a set of inventories
+ */
+export function sumTokens(inventories: Iterable<ServerInventory>): number {
+  let total = 0;
+  for (const inventory of inventories) total += inventory.tokens;
+  return total;
+}
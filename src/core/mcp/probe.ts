@@ -0,0 +1,202 @@
+/**
+ * MCP health probe
+ *
+ * Starts (or connects to) a server from its definition and runs the
+ * initialize handshake, so no Claude CLI is needed to check that a
+ * server actually works.
+ */
+
+import type { HealthCheckResult, Server, ServerDefinition, ServerInventory, SourceType } from '@/types/index.js';
+import { getTransportType } from '@/types/index.js';
+import { parseInstalledPlugins } from '@/core/config/parser.js';
+import { expandServerDefinition } from '@/core/servers/expansion.js';
+import { getInstalledPluginsPath } from '@/utils/platform.js';
+import { getPluginKey } from '@/utils/plugin.js';
+import { connect, initialize } from './client.js';
+import { collectInventory, loadCachedInventories, saveInventories } from './inventory.js';
+
+/** Default time allowed for the initialize handshake */
+export const DEFAULT_PROBE_TIMEOUT_MS = 10000;
+
+/** Servers probed at the same time by probeServers() */
+const DEFAULT_CONCURRENCY = 4;
+
+export interface ProbeOptions {
+  /** Handshake timeout in milliseconds */
+  timeoutMs?: number;
+  /** Working directory for stdio servers */
+  cwd?: string;
+  /** Also list tools/prompts/resources (counts against the same timeout) */
+  inventory?: boolean;
+  /** How the server was discovered; plugin servers get CLAUDE_PLUGIN_ROOT */
+  sourceType?: SourceType;
+}
+
+/**
+ * Environment Claude Code starts a server with
+ *
+ * Plugin servers also get CLAUDE_PLUGIN_ROOT, the plugin's install path
+ * from installed_plugins.json.
+ */
+async function getServerEnv(name: string, sourceType: SourceType | undefined): Promise<NodeJS.ProcessEnv> {
+  const pluginKey = sourceType === 'plugin' ? getPluginKey(name) : null;
+  if (!pluginKey) return process.env;
+
+  const installed = await parseInstalledPlugins(getInstalledPluginsPath());
+  const installPath = installed?.plugins?.[pluginKey]?.[0]?.installPath;
+  return installPath ? { ...process.env, CLAUDE_PLUGIN_ROOT: installPath } : process.env;
+}
+
+/**
+ * Probe a single server
+ *
+ * Never throws - failures are reported in the result.
+ */
+export async function probeServer(
+  name: string,
+  definition: ServerDefinition,
+  options: ProbeOptions = {}
+): Promise<HealthCheckResult> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS;
+  const transport = getTransportType(definition);
+  const started = Date.now();
+  const elapsed = () => Date.now() - started;
+
+  // Start the server the way Claude Code would, with ${VAR} expanded
+  const env = await getServerEnv(name, options.sourceType);
+  const { definition: expanded, unresolved } = expandServerDefinition(definition, env);
+  if (unresolved.length > 0) {
+    return {
+      server: name,
+      status: 'failed',
+      transport,
+      latencyMs: 0,
+      error: `Variables not set: ${unresolved.join(', ')}`,
+    };
+  }
+
+  if (transport === 'stdio' ? !expanded.command : !expanded.url) {
+    return {
+      server: name,
+      status: 'failed',
+      transport,
+      latencyMs: 0,
+      error: transport === 'stdio' ? 'No command in definition' : 'No url in definition',
+    };
+  }
+
+  const connection = connect(expanded, { cwd: options.cwd, env });
+  let timer: NodeJS.Timeout | undefined;
+
+  const timeout = new Promise<'timeout'>((resolve) => {
+    timer = setTimeout(() => resolve('timeout'), timeoutMs);
+  });
+
+  try {
+    const handshake = async () => {
+      const init = await initialize(connection);
+      const inventory = options.inventory ? await collectInventory(name, connection, init) : undefined;
+      return { init, inventory };
+    };
+
+    const result = await Promise.race([handshake(), timeout]);
+
+    if (result === 'timeout') {
+      return {
+        server: name,
+        status: 'timeout',
+        transport,
+        latencyMs: elapsed(),
+        error: options.inventory
+          ? `No response within ${timeoutMs}ms`
+          : `No initialize response within ${timeoutMs}ms`,
+      };
+    }
+
+    return {
+      server: name,
+      status: 'connected',
+      transport,
+      latencyMs: elapsed(),
+      serverInfo: result.init.serverInfo,
+      protocolVersion: result.init.protocolVersion,
+      inventory: result.inventory,
+    };
+  } catch (error) {
+    return {
+      server: name,
+      status: 'failed',
+      transport,
+      latencyMs: elapsed(),
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    clearTimeout(timer);
+    connection.close();
+  }
+}
+
+/**
+ * Probe several servers, a few at a time
+ *
+ * @returns Results in the same order as the input
+ */
+export async function probeServers(
+  servers: Array<{ name: string; definition: ServerDefinition; sourceType?: SourceType }>,
+  options: ProbeOptions & { concurrency?: number } = {}
+): Promise<HealthCheckResult[]> {
+  const results: HealthCheckResult[] = new Array(servers.length);
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < servers.length) {
+      const index = next++;
+      const { name, definition, sourceType } = servers[index]!;
+      results[index] = await probeServer(name, definition, { ...options, sourceType });
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, servers.length) }, worker));
+  return results;
+}
+
+/** Inventories for a set of servers, plus the probes that failed */
+export interface InventoryResult {
+  inventories: Record<string, ServerInventory>;
+  failures: HealthCheckResult[];
+}
+
+/**
+ * Get inventories for servers, probing only those without a cached one
+ *
+ * Fresh inventories are written back to the cache.
+ */
+export async function getServerInventories(
+  servers: Server[],
+  options: ProbeOptions & { refresh?: boolean } = {}
+): Promise<InventoryResult> {
+  const withDefinition = servers.filter((s) => s.definition);
+  const inventories = options.refresh ? {} : await loadCachedInventories(withDefinition);
+  const missing = withDefinition.filter((s) => !inventories[s.name]);
+
+  const results = await probeServers(
+    missing.map((s) => ({ name: s.name, definition: s.definition!, sourceType: s.sourceType })),
+    { ...options, inventory: true }
+  );
+
+  const fresh: Array<{ inventory: ServerInventory; definition?: ServerDefinition }> = [];
+  const failures: HealthCheckResult[] = [];
+
+  results.forEach((result, i) => {
+    if (result.inventory) {
+      inventories[result.server] = result.inventory;
+      fresh.push({ inventory: result.inventory, definition: missing[i]!.definition });
+    } else {
+      failures.push(result);
+    }
+  });
+
+  await saveInventories(fresh);
+  return { inventories, failures };
+}
@@ -9,8 +9,9 @@ import { existsSync, mkdirSync, cpSync } from 'node:fs';
 import { join } from 'node:path';
 import type { InstalledPluginsSchema, InstalledPluginEntry } from '@/types/index.js';
 import { getInstalledPluginsPath, getMarketplacesDir } from '@/utils/platform.js';
-import { parseInstalledPlugins } from '@/core/config/parser.js';
+import { parseInstalledPlugins, parseJsonFile } from '@/core/config/parser.js';
 import { atomicWriteJson } from '@/core/config/writer.js';
+import { isDryRun } from '@/core/config/dry-run.js';
 
 export interface InstallResult {
   success: boolean;
@@ -62,10 +63,13 @@ export async function installPlugin(
     );
 
     try {
-      if (!existsSync(cacheDir)) {
-        mkdirSync(cacheDir, { recursive: true });
+      // A dry run only previews installed_plugins.json
+      if (!isDryRun()) {
+        if (!existsSync(cacheDir)) {
+          mkdirSync(cacheDir, { recursive: true });
+        }
+        cpSync(pluginSourcePath, cacheDir, { recursive: true });
       }
-      cpSync(pluginSourcePath, cacheDir, { recursive: true });
       installPath = cacheDir;
     } catch (error) {
       return {
@@ -83,7 +87,7 @@ export async function installPlugin(
   let data: InstalledPluginsSchema;
 
   try {
-    const existing = await parseInstalledPlugins(installedPluginsPath);
+    const existing = await parseJsonFile<InstalledPluginsSchema>(installedPluginsPath);
     data = existing ?? { version: 1, plugins: {} };
   } catch {
     data = { version: 1, plugins: {} };
@@ -141,7 +145,7 @@ export async function uninstallPlugin(
   // Load current installed_plugins.json
   let data: InstalledPluginsSchema;
   try {
-    const existing = await parseInstalledPlugins(installedPluginsPath);
+    const existing = await parseJsonFile<InstalledPluginsSchema>(installedPluginsPath);
     if (!existing?.plugins) {
       return {
         success: false,
@@ -0,0 +1,199 @@
+/**
+ * Server profiles
+ *
+ * Named snapshots of server display states (e.g. "frontend", "review")
+ * stored in ~/.claude/mcp-profiles.json. Applying a profile only changes
+ * in-memory server states; callers persist them via saveServerStates so the
+ * usual control array placement rules apply.
+ */
+
+import type { Server, DisplayState, Profile, ProfilesSchema } from '@/types/index.js';
+import { getProfilesPath } from '@/utils/platform.js';
+import { parseJsonFile } from '@/core/config/parser.js';
+import { atomicWriteJson } from '@/core/config/writer.js';
+import {
+  getDisplayState,
+  applyToggle,
+  enableServer,
+  disableServer,
+  pauseServer,
+} from '@/core/servers/toggle.js';
+
+/** Result of applying a profile entry to a single server */
+export interface ProfileApplyResult {
+  server: string;
+  success: boolean;
+  from?: DisplayState;
+  to: DisplayState;
+  error?: string;
+}
+
+/** Difference between a profile and the current server states */
+export interface ProfileDiffEntry {
+  server: string;
+  /** Current display state (undefined if the server no longer exists) */
+  current?: DisplayState;
+  /** State recorded in the profile (undefined if the server is not in the profile) */
+  profile?: DisplayState;
+}
+
+/**
+ * Validate a profile name
+ *
+ * @returns Error message or null if valid
+ */
+export function validateProfileName(name: string): string | null {
+  if (!name.trim()) return 'Profile name is required';
+  if (!/^[a-zA-Z0-9_-]+$/.test(name)) {
+    return 'Profile name can only contain letters, numbers, hyphens, and underscores';
+  }
+  return null;
+}
+
+/**
+ * Load all saved profiles
+ */
+export async function loadProfiles(): Promise<Record<string, Profile>> {
+  const data = await parseJsonFile<ProfilesSchema>(getProfilesPath(), 'profiles');
+  return data?.profiles ?? {};
+}
+
+/**
+ * Get a single profile by name
+ */
+export async function getProfile(name: string): Promise<Profile | null> {
+  const profiles = await loadProfiles();
+  return profiles[name] ?? null;
+}
+
+/**
+ * Write the full profile map back to disk
+ */
+function writeProfiles(profiles: Record<string, Profile>): void {
+  const data: ProfilesSchema = { version: 1, profiles };
+  atomicWriteJson(getProfilesPath(), data);
+}
+
+/**
+ * Snapshot the display state of every server
+ */
+export function createProfileSnapshot(servers: Server[]): Record<string, DisplayState> {
+  const snapshot: Record<string, DisplayState> = {};
+  for (const server of servers) {
+    snapshot[server.name] = getDisplayState(server);
+  }
+  return snapshot;
+}
+
+/**
+ * Save the current server states as a named profile
+ *
+ * Overwrites an existing profile with the same name, keeping its creation time.
+ */
+export async function saveProfile(
+  name: string,
+  servers: Server[],
+  description?: string
+): Promise<Profile> {
+  const profiles = await loadProfiles();
+  const existing = profiles[name];
+  const now = new Date().toISOString();
+
+  const profile: Profile = {
+    servers: createProfileSnapshot(servers),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    description: description ?? existing?.description,
+  };
+
+  profiles[name] = profile;
+  writeProfiles(profiles);
+  return profile;
+}
+
+/**
+ * Delete a profile
+ *
+ * @returns true if the profile existed
+ */
+export async function deleteProfile(name: string): Promise<boolean> {
+  const profiles = await loadProfiles();
+  if (!profiles[name]) return false;
+
+  delete profiles[name];
+  writeProfiles(profiles);
+  return true;
+}
+
+/**
+ * Apply a profile to a server list
+ *
+ * Servers not mentioned in the profile keep their current state.
+ * Enterprise, blocked and restricted servers are refused with the same
+ * reasons as the toggle functions. Returns a new array (does not mutate).
+ */
+export function applyProfileToServers(
+  servers: Server[],
+  profile: Profile
+): { servers: Server[]; results: ProfileApplyResult[] } {
+  const results: ProfileApplyResult[] = [];
+  const updated = [...servers];
+
+  for (const [name, target] of Object.entries(profile.servers)) {
+    const index = updated.findIndex((s) => s.name === name);
+    const server = updated[index];
+
+    if (!server) {
+      results.push({ server: name, success: false, to: target, error: 'Not found' });
+      continue;
+    }
+
+    const current = getDisplayState(server);
+    if (current === target) continue;
+
+    const result =
+      target === 'green'
+        ? enableServer(server)
+        : target === 'orange'
+          ? pauseServer(server)
+          : disableServer(server);
+
+    if (result.success && result.newState) {
+      updated[index] = applyToggle(server, result.newState);
+      results.push({ server: name, success: true, from: current, to: target });
+    } else {
+      results.push({ server: name, success: false, from: current, to: target, error: result.reason });
+    }
+  }
+
+  return { servers: updated, results };
+}
+
+/**
+ * Compare a profile against the current server states
+ *
+ * Only returns servers whose state differs, that are missing from the
+ * current list, or that are not covered by the profile.
+ */
+export function diffProfile(servers: Server[], profile: Profile): ProfileDiffEntry[] {
+  const diff: ProfileDiffEntry[] = [];
+  const seen = new Set<string>();
+
+  for (const server of servers) {
+    seen.add(server.name);
+    const current = getDisplayState(server);
+    const target = profile.servers[server.name];
+
+    if (target !== current) {
+      diff.push({ server: server.name, current, profile: target });
+    }
+  }
+
+  for (const [name, target] of Object.entries(profile.servers)) {
+    if (!seen.has(name)) {
+      diff.push({ server: name, profile: target });
+    }
+  }
+
+  return diff.sort((a, b) => a.server.localeCompare(b.server));
+}
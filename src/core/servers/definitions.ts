@@ -0,0 +1,484 @@
+/**
+ * Server definition editing
+ *
+ * Builds, validates, edits and writes MCP server definitions in the files
+ * Claude Code reads them from:
+ * - project: ./.mcp.json (mcpjson, shared with the team)
+ * - local:   ~/.claude.json .projects[cwd].mcpServers (direct-local)
+ * - user:    ~/.claude.json .mcpServers (direct-global)
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import type {
+  RawDefinition,
+  Scope,
+  Server,
+  ServerDefinition,
+  SourceType,
+  TransportType,
+} from '@/types/index.js';
+import { getClaudeJsonPath, getProjectMcpJsonPath } from '@/utils/platform.js';
+import { getProjectKey } from '@/utils/project.js';
+import { atomicWriteJson } from '@/core/config/writer.js';
+import { parseJsonc } from '@/core/config/jsonc.js';
+import { extractRawDefinitions } from '@/core/config/discovery.js';
+import { findWinningDefinition } from '@/core/config/precedence.js';
+
+/** Scopes a server definition can be written to */
+export type DefinitionScope = Exclude<Scope, 'enterprise'>;
+
+/** Values collected when creating a server definition */
+export interface ServerDefinitionInput {
+  transport: TransportType;
+  command?: string;
+  args?: string[];
+  url?: string;
+  env?: Record<string, string>;
+  headers?: Record<string, string>;
+}
+
+/** Where a definition for a given scope lives */
+export interface DefinitionLocation {
+  file: string;
+  sourceType: SourceType;
+}
+
+/**
+ * A single change to a definition field
+ *
+ * Paths: command, url, type, args, args[N], env, env.KEY, headers, headers.NAME.
+ * An undefined value removes the field.
+ */
+export interface DefinitionEdit {
+  path: string;
+  value?: string;
+}
+
+/** Result of editing a server definition in place */
+export interface DefinitionEditResult {
+  file: string;
+  scope: Scope;
+  before: ServerDefinition;
+  after: ServerDefinition;
+}
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Validate a server name
+ *
+ * @returns Error message or null if valid
+ */
+export function validateServerName(name: string): string | null {
+  if (!name.trim()) return 'Name is required';
+  if (!/^[a-zA-Z0-9_-]+$/.test(name)) {
+    return 'Name can only contain letters, numbers, hyphens, and underscores';
+  }
+  return null;
+}
+
+/**
+ * Split a command line into arguments, honouring single and double quotes
+ *
+ * @example splitArgs('-y "@scope/pkg name" --flag') → ['-y', '@scope/pkg name', '--flag']
+ */
+export function splitArgs(input: string): string[] {
+  const args: string[] = [];
+  let current = '';
+  let quote: '"' | "'" | null = null;
+  let hasToken = false;
+
+  for (const char of input) {
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      hasToken = true;
+    } else if (/\s/.test(char)) {
+      if (hasToken) {
+        args.push(current);
+        current = '';
+        hasToken = false;
+      }
+    } else {
+      current += char;
+      hasToken = true;
+    }
+  }
+
+  if (hasToken) {
+    args.push(current);
+  }
+
+  return args;
+}
+
+/**
+ * Join arguments back into a command line, quoting where needed (inverse of splitArgs)
+ */
+export function formatArgs(args: string[]): string {
+  return args
+    .map((arg) => (arg === '' || /[\s"']/.test(arg) ? `"${arg}"` : arg))
+    .join(' ');
+}
+
+/**
+ * Format key/value pairs as a comma-separated list (inverse of parseKeyValueList)
+ */
+export function formatKeyValueList(values: Record<string, string> | undefined, separator: '=' | ':'): string {
+  const joiner = separator === ':' ? ': ' : '=';
+  return Object.entries(values ?? {})
+    .map(([key, value]) => `${key}${joiner}${value}`)
+    .join(', ');
+}
+
+/**
+ * Parse a comma-separated list of key/value pairs
+ *
+ * Env vars use KEY=value, headers use Name: value.
+ *
+ * @returns Parsed pairs, or null if any entry is malformed
+ */
+export function parseKeyValueList(
+  input: string,
+  separator: '=' | ':'
+): Record<string, string> | null {
+  const result: Record<string, string> = {};
+
+  for (const entry of input.split(',')) {
+    if (!entry.trim()) continue;
+
+    const index = entry.indexOf(separator);
+    if (index <= 0) return null;
+
+    const key = entry.slice(0, index).trim();
+    if (!key || /\s/.test(key)) return null;
+
+    result[key] = entry.slice(index + 1).trim();
+  }
+
+  return result;
+}
+
+/**
+ * Build a definition in Claude Code's config format from wizard input
+ *
+ * Empty optional fields are omitted rather than written as empty values.
+ */
+export function buildServerDefinition(input: ServerDefinitionInput): ServerDefinition {
+  if (input.transport === 'stdio') {
+    const definition: ServerDefinition = { command: input.command?.trim() ?? '' };
+    if (input.args && input.args.length > 0) definition.args = input.args;
+    if (input.env && Object.keys(input.env).length > 0) definition.env = input.env;
+    return definition;
+  }
+
+  const definition: ServerDefinition = {
+    type: input.transport,
+    url: input.url?.trim() ?? '',
+  };
+  if (input.headers && Object.keys(input.headers).length > 0) definition.headers = input.headers;
+  return definition;
+}
+
+/**
+ * Validate a server definition
+ *
+ * @returns Error message or null if valid
+ */
+export function validateServerDefinition(definition: ServerDefinition): string | null {
+  if (definition.type === 'http' || definition.type === 'sse') {
+    if (definition.command) return 'URL-based servers cannot have a command';
+    if (!definition.url) return 'URL is required';
+
+    let url: URL;
+    try {
+      url = new URL(definition.url);
+    } catch {
+      return `Invalid URL: ${definition.url}`;
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return 'URL must start with http:// or https://';
+    }
+    return null;
+  }
+
+  if (definition.url) return 'stdio servers cannot have a URL (set type to http or sse)';
+  if (!definition.command?.trim()) return 'Command is required';
+  if (definition.headers) return 'Headers are only supported for http and sse servers';
+  return null;
+}
+
+/**
+ * Get the file and source type a definition in the given scope is written to
+ */
+export function getDefinitionLocation(scope: DefinitionScope, cwd: string): DefinitionLocation {
+  switch (scope) {
+    case 'project':
+      return { file: getProjectMcpJsonPath(cwd), sourceType: 'mcpjson' };
+    case 'local':
+      return { file: getClaudeJsonPath(), sourceType: 'direct-local' };
+    case 'user':
+      return { file: getClaudeJsonPath(), sourceType: 'direct-global' };
+  }
+}
+
+/**
+ * Read a JSON config file, refusing to continue if it exists but is invalid
+ * (writing would otherwise replace the user's file with a single server)
+ */
+function readConfigFile(file: string): JsonObject {
+  if (!existsSync(file)) return {};
+
+  let data: unknown;
+  try {
+    data = parseJsonc(readFileSync(file, 'utf-8'));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Cannot update ${file}: invalid JSON (${reason})`);
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error(`Cannot update ${file}: expected a JSON object`);
+  }
+  return data as JsonObject;
+}
+
+/**
+ * Get (creating if needed) the object that holds server definitions
+ *
+ * .mcp.json files using the root-level format (servers at the top level,
+ * no mcpServers key) keep that format so existing servers stay visible.
+ */
+function getServersObject(data: JsonObject, scope: DefinitionScope, cwd: string): JsonObject {
+  let parent = data;
+
+  if (scope === 'project') {
+    const usesRootFormat = data.mcpServers === undefined && Object.values(data).some(
+      (value) => typeof value === 'object' && value !== null &&
+        ('command' in value || 'url' in value || 'type' in value)
+    );
+    if (usesRootFormat) return data;
+  }
+
+  if (scope === 'local') {
+    const projectKey = getProjectKey(cwd);
+    const projects = (data.projects ??= {}) as JsonObject;
+    parent = (projects[projectKey] ??= {}) as JsonObject;
+  }
+
+  return (parent.mcpServers ??= {}) as JsonObject;
+}
+
+/**
+ * Add a new server definition to the file for the given scope
+ *
+ * ~/.claude.json is backed up before writing.
+ *
+ * @throws If the definition is invalid, the name is taken in that file,
+ *         or the target file cannot be parsed
+ * @returns Where the definition was written
+ */
+export function addServerDefinition(
+  name: string,
+  definition: ServerDefinition,
+  scope: DefinitionScope,
+  cwd: string
+): DefinitionLocation {
+  const error = validateServerName(name) ?? validateServerDefinition(definition);
+  if (error) throw new Error(error);
+
+  const location = getDefinitionLocation(scope, cwd);
+  const data = readConfigFile(location.file);
+  const servers = getServersObject(data, scope, cwd);
+
+  if (servers[name] !== undefined) {
+    throw new Error(`Server "${name}" already exists in ${location.file}`);
+  }
+
+  servers[name] = definition;
+  atomicWriteJson(location.file, data, { backup: location.sourceType !== 'mcpjson' });
+
+  return location;
+}
+
+/**
+ * Apply field edits to a definition
+ *
+ * Unknown fields in the definition are kept as they are.
+ *
+ * @throws On unknown paths or out-of-range argument indexes
+ * @returns A new definition (the input is not modified)
+ */
+export function applyDefinitionEdits(
+  definition: ServerDefinition,
+  edits: DefinitionEdit[]
+): ServerDefinition {
+  const result = structuredClone(definition);
+
+  for (const { path, value } of edits) {
+    const argMatch = path.match(/^args\[(\d+)\]$/);
+    const mapMatch = path.match(/^(env|headers)(?:\.(.+))?$/);
+
+    if (path === 'command' || path === 'url') {
+      if (value === undefined) delete result[path];
+      else result[path] = value;
+    } else if (path === 'type') {
+      if (value === undefined || value === 'stdio') {
+        delete result.type;
+      } else if (value === 'http' || value === 'sse') {
+        result.type = value;
+      } else {
+        throw new Error(`Invalid type "${value}" (expected stdio, http or sse)`);
+      }
+    } else if (path === 'args') {
+      if (value === undefined) delete result.args;
+      else result.args = splitArgs(value);
+    } else if (argMatch) {
+      const index = Number(argMatch[1]);
+      const args = [...(result.args ?? [])];
+      const limit = value === undefined ? args.length - 1 : args.length;
+      if (index > limit) {
+        throw new Error(`${path} is out of range (${args.length} args)`);
+      }
+      if (value === undefined) args.splice(index, 1);
+      else args[index] = value;
+      if (args.length > 0) result.args = args;
+      else delete result.args;
+    } else if (mapMatch) {
+      const field = mapMatch[1] as 'env' | 'headers';
+      const key = mapMatch[2];
+      if (key === undefined) {
+        if (value !== undefined) throw new Error(`Use ${field}.NAME=value to set ${field} entries`);
+        delete result[field];
+        continue;
+      }
+      const map = { ...(result[field] ?? {}) };
+      if (value === undefined) delete map[key];
+      else map[key] = value;
+      if (Object.keys(map).length > 0) result[field] = map;
+      else delete result[field];
+    } else {
+      throw new Error(`Unknown field "${path}"`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse a "path=value" assignment (e.g. args[1]=--verbose, env.API_KEY=abc)
+ *
+ * @returns The edit, or null if there is no "="
+ */
+export function parseAssignment(assignment: string): DefinitionEdit | null {
+  const index = assignment.indexOf('=');
+  if (index <= 0) return null;
+  return { path: assignment.slice(0, index).trim(), value: assignment.slice(index + 1) };
+}
+
+/**
+ * Whether a server's definition can be edited in place
+ *
+ * Enterprise definitions are managed centrally and plugin definitions
+ * live in the plugin's own files (overwritten on update).
+ */
+export function isDefinitionEditable(server: Pick<Server, 'scope' | 'sourceType'>): boolean {
+  return server.scope !== 'enterprise' && server.sourceType !== 'plugin';
+}
+
+/**
+ * Find the object holding an existing server entry in a parsed config file
+ */
+function findServersObject(
+  data: JsonObject,
+  name: string,
+  sourceType: SourceType,
+  cwd: string
+): JsonObject | undefined {
+  const isObject = (value: unknown): value is JsonObject =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  let container: unknown;
+  switch (sourceType) {
+    case 'mcpjson':
+      container = isObject(data.mcpServers) && data.mcpServers[name] !== undefined
+        ? data.mcpServers
+        : data;
+      break;
+    case 'direct-global':
+      container = data.mcpServers;
+      break;
+    case 'direct-local': {
+      const projects = isObject(data.projects) ? data.projects : {};
+      const project = projects[getProjectKey(cwd)];
+      container = isObject(project) ? project.mcpServers : undefined;
+      break;
+    }
+    default:
+      return undefined;
+  }
+
+  return isObject(container) && isObject(container[name]) ? container : undefined;
+}
+
+/**
+ * Replace a server's entry in the file it was discovered in
+ *
+ * Only that server's entry changes; the file is backed up first.
+ *
+ * @throws If the source is not editable, the entry is missing,
+ *         or the new definition is invalid
+ */
+export function updateServerDefinition(
+  name: string,
+  definition: ServerDefinition,
+  source: Pick<RawDefinition, 'file' | 'scope' | 'sourceType'>,
+  cwd: string
+): void {
+  if (source.scope === 'enterprise') {
+    throw new Error(`Server "${name}" is enterprise-managed and cannot be edited`);
+  }
+  if (source.sourceType === 'plugin' || !source.sourceType) {
+    throw new Error(`Server "${name}" is provided by a plugin and cannot be edited`);
+  }
+
+  const error = validateServerDefinition(definition);
+  if (error) throw new Error(error);
+
+  const data = readConfigFile(source.file);
+  const servers = findServersObject(data, name, source.sourceType, cwd);
+  if (!servers) {
+    throw new Error(`Server "${name}" not found in ${source.file}`);
+  }
+
+  servers[name] = definition;
+  atomicWriteJson(source.file, data, { backup: true, operation: `edit ${name}` });
+}
+
+/**
+ * Edit the winning definition of a server in place
+ *
+ * @throws If the server is not found, not editable, or the edits are invalid
+ */
+export async function editServerDefinition(
+  name: string,
+  edits: DefinitionEdit[],
+  cwd: string
+): Promise<DefinitionEditResult> {
+  const rawData = await extractRawDefinitions(cwd);
+  const source = findWinningDefinition(name, rawData);
+  if (!source) {
+    throw new Error(`Server "${name}" not found`);
+  }
+
+  const before: ServerDefinition = source.definition ?? {};
+  const after = applyDefinitionEdits(before, edits);
+  updateServerDefinition(name, after, source, cwd);
+
+  return { file: source.file, scope: source.scope, before, after };
+}
@@ -0,0 +1,170 @@
+/**
+ * Environment variable expansion and secret detection for server definitions
+ *
+ * Claude Code expands ${VAR} and ${VAR:-default} in command, args, env,
+ * url and headers when it starts a server. expandServerDefinition does the
+ * same against this process's environment, so previews, health probes and
+ * enterprise command/URL rules see the values Claude Code will use.
+ *
+ * findPlaintextSecrets flags API-key-shaped values written directly into
+ * env or headers - a problem when the file is committed to git.
+ */
+
+import type {
+  ExpandedDefinition,
+  PlaintextSecret,
+  Server,
+  ServerDefinition,
+  SourceType,
+} from '@/types/index.js';
+
+/** ${NAME} or ${NAME:-default} */
+const VARIABLE_PATTERN = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+/** Set by Claude Code when it starts a plugin's servers */
+const PLUGIN_ROOT_VARIABLE = 'CLAUDE_PLUGIN_ROOT';
+
+/** Token formats of common providers */
+const TOKEN_PATTERNS = [
+  /^sk-[A-Za-z0-9_-]{20,}$/, // OpenAI, Anthropic
+  /^(?:sk|pk|rk)_(?:live|test)_[A-Za-z0-9]{20,}$/, // Stripe
+  /^gh[pousr]_[A-Za-z0-9]{30,}$/, // GitHub
+  /^github_pat_[A-Za-z0-9_]{30,}$/,
+  /^glpat-[A-Za-z0-9_-]{20,}$/, // GitLab
+  /^xox[abposr]-[A-Za-z0-9-]{10,}$/, // Slack
+  /^AKIA[0-9A-Z]{16}$/, // AWS access key
+  /^AIza[0-9A-Za-z_-]{35}$/, // Google
+  /^npm_[A-Za-z0-9]{36}$/,
+];
+
+/** Keys whose values are credentials */
+const SECRET_KEY_PATTERN = /key|token|secret|password|passwd|credential|auth/i;
+
+/** Authorization scheme kept in front of the variable, e.g. "Bearer " */
+const SCHEME_PATTERN = /^(?:bearer|basic|token)\s+/i;
+
+export interface ExpandOptions {
+  /** Variables left as written and not reported (values only known at launch) */
+  keep?: string[];
+}
+
+/**
+ * Expand ${VAR} and ${VAR:-default} in a string
+ *
+ * A set variable wins over its default, even when empty. Variables that
+ * are neither set nor defaulted are left as written and reported.
+ */
+export function expandVariables(
+  value: string,
+  env: NodeJS.ProcessEnv = process.env,
+  options: ExpandOptions = {}
+): { value: string; unresolved: string[] } {
+  const unresolved: string[] = [];
+
+  const expanded = value.replace(VARIABLE_PATTERN, (match, name: string, fallback: string | undefined) => {
+    if (options.keep?.includes(name)) return match;
+    const set = env[name];
+    if (set !== undefined) return set;
+    if (fallback !== undefined) return fallback;
+    unresolved.push(name);
+    return match;
+  });
+
+  return { value: expanded, unresolved };
+}
+
+/**
+ * Expand every field Claude Code expands: command, args, env, url, headers
+ */
+export function expandServerDefinition(
+  definition: ServerDefinition,
+  env: NodeJS.ProcessEnv = process.env,
+  options: ExpandOptions = {}
+): ExpandedDefinition {
+  const unresolved = new Set<string>();
+  const expand = (value: string) => {
+    const result = expandVariables(value, env, options);
+    result.unresolved.forEach((name) => unresolved.add(name));
+    return result.value;
+  };
+  const expandRecord = (record: Record<string, string>) =>
+    Object.fromEntries(Object.entries(record).map(([key, value]) => [key, expand(value)]));
+
+  const expanded: ServerDefinition = { ...definition };
+  if (definition.command !== undefined) expanded.command = expand(definition.command);
+  if (definition.args) expanded.args = definition.args.map(expand);
+  if (definition.env) expanded.env = expandRecord(definition.env);
+  if (definition.url !== undefined) expanded.url = expand(definition.url);
+  if (definition.headers) expanded.headers = expandRecord(definition.headers);
+
+  return { definition: expanded, unresolved: [...unresolved] };
+}
+
+/**
+ * Expansion options for a server's source
+ *
+ * ${CLAUDE_PLUGIN_ROOT} in plugin servers is only set when Claude Code
+ * starts them, so it is left as written.
+ */
+export function getExpandOptions(sourceType: SourceType | undefined): ExpandOptions {
+  return { keep: sourceType === 'plugin' ? [PLUGIN_ROOT_VARIABLE] : [] };
+}
+
+/**
+ * Expand a resolved server's definition
+ */
+export function expandServer(server: Server, env: NodeJS.ProcessEnv = process.env): ExpandedDefinition {
+  return expandServerDefinition(server.definition ?? {}, env, getExpandOptions(server.sourceType));
+}
+
+/**
+ * Whether a value looks like an API key, token or password
+ */
+export function looksLikeSecret(key: string, value: string): boolean {
+  if (value.includes('${')) return false;
+
+  const token = value.replace(SCHEME_PATTERN, '');
+  if (TOKEN_PATTERNS.some((pattern) => pattern.test(token))) return true;
+
+  // Generic credentials: a secret-sounding key with a long mixed value
+  return (
+    SECRET_KEY_PATTERN.test(key) &&
+    token.length >= 16 &&
+    !/\s/.test(token) &&
+    /[A-Za-z]/.test(token) &&
+    /[0-9]/.test(token)
+  );
+}
+
+/**
+ * Variable name for a secret: the env key itself, or SERVER_TOKEN for headers
+ */
+function suggestVariable(serverName: string, field: PlaintextSecret['field'], key: string): string {
+  if (field === 'env' && /^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) return key;
+  const prefix = serverName.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  return `${prefix || 'MCP'}_TOKEN`;
+}
+
+/**
+ * API-key-shaped values in a definition's env and headers
+ */
+export function findPlaintextSecrets(serverName: string, definition: ServerDefinition): PlaintextSecret[] {
+  const secrets: PlaintextSecret[] = [];
+
+  for (const field of ['env', 'headers'] as const) {
+    for (const [key, value] of Object.entries(definition[field] ?? {})) {
+      if (!looksLikeSecret(key, value)) continue;
+
+      const scheme = SCHEME_PATTERN.exec(value)?.[0] ?? '';
+      const token = value.slice(scheme.length);
+      secrets.push({
+        field,
+        key,
+        masked: `${scheme}${token.slice(0, 4)}…`,
+        replacement: `${scheme}\${${suggestVariable(serverName, field, key)}}`,
+      });
+    }
+  }
+
+  return secrets;
+}
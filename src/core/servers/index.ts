@@ -3,3 +3,7 @@
  */
 
 export * from './toggle.js';
+export * from './definitions.js';
+export * from './selector.js';
+export * from './listing.js';
+export * from './expansion.js';
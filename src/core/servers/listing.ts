@@ -0,0 +1,173 @@
+/**
+ * Server listing for mcp list
+ *
+ * Converts resolved servers into the versioned ServerListSchema that
+ * scripts and status lines read, and flattens entries into text cells
+ * for the table and CSV formats. SERVER_LIST_JSON_SCHEMA describes the
+ * JSON output (mcp list --schema).
+ */
+
+import type { Server, ServerListEntry, ServerListPlugin, ServerListSchema } from '@/types/index.js';
+import { getTransportType } from '@/types/index.js';
+import { getPluginKey, getPluginName, getServerKey } from '@/utils/plugin.js';
+import { getDisplayState } from './toggle.js';
+
+export const SERVER_LIST_VERSION = 1;
+
+/** Fields in output order */
+export const SERVER_LIST_FIELDS = [
+  'name',
+  'state',
+  'scope',
+  'sourceType',
+  'definitionFile',
+  'transport',
+  'flags',
+  'plugin',
+] as const satisfies ReadonlyArray<keyof ServerListEntry>;
+
+export type ServerListField = (typeof SERVER_LIST_FIELDS)[number];
+
+/** Fields shown by the table format unless --fields is given */
+export const DEFAULT_TABLE_FIELDS: ServerListField[] = ['name', 'state', 'scope', 'sourceType', 'transport', 'flags'];
+
+/**
+ * Parse a --fields list, e.g. "name,state"
+ *
+ * @throws Error on an unknown field
+ */
+export function parseListFields(value: string): ServerListField[] {
+  const fields = value.split(',').map((f) => f.trim()).filter(Boolean);
+  const unknown = fields.find((f) => !(SERVER_LIST_FIELDS as readonly string[]).includes(f));
+  if (unknown !== undefined || fields.length === 0) {
+    throw new Error(`Unknown field "${unknown ?? value}" (expected ${SERVER_LIST_FIELDS.join(', ')})`);
+  }
+  return [...new Set(fields)] as ServerListField[];
+}
+
+function getPluginInfo(server: Server): ServerListPlugin | null {
+  if (server.sourceType !== 'plugin') return null;
+
+  const key = getPluginKey(server.name);
+  const name = getPluginName(server.name);
+  if (!key || !name) return null;
+
+  return {
+    key,
+    name,
+    marketplace: key.slice(key.indexOf('@') + 1),
+    serverKey: getServerKey(server.name),
+  };
+}
+
+/**
+ * Convert a resolved server to a list entry
+ */
+export function toServerListEntry(server: Server): ServerListEntry {
+  return {
+    name: server.name,
+    state: getDisplayState(server),
+    scope: server.scope,
+    sourceType: server.sourceType,
+    definitionFile: server.definitionFile,
+    transport: server.definition ? getTransportType(server.definition) : null,
+    flags: { ...server.flags },
+    plugin: getPluginInfo(server),
+  };
+}
+
+/**
+ * Build mcp list --json output
+ *
+ * @param fields - Keep only these fields of each entry (all by default)
+ */
+export function buildServerList(
+  servers: Server[],
+  cwd: string,
+  fields: readonly ServerListField[] = SERVER_LIST_FIELDS
+): ServerListSchema {
+  return {
+    version: SERVER_LIST_VERSION,
+    cwd,
+    servers: servers.map((server) => {
+      const entry = toServerListEntry(server);
+      return Object.fromEntries(fields.map((field) => [field, entry[field]]));
+    }),
+  };
+}
+
+/**
+ * Format a field as text for the table and CSV formats
+ *
+ * Flags become the set flag names separated by spaces, and plugins their
+ * enabledPlugins key; missing values are empty.
+ */
+export function formatListField(entry: ServerListEntry, field: ServerListField): string {
+  switch (field) {
+    case 'flags':
+      return Object.entries(entry.flags)
+        .filter(([, set]) => set)
+        .map(([flag]) => flag)
+        .join(' ');
+    case 'plugin':
+      return entry.plugin?.key ?? '';
+    case 'transport':
+      return entry.transport ?? '';
+    default:
+      return entry[field];
+  }
+}
+
+/** JSON Schema of ServerListSchema */
+export const SERVER_LIST_JSON_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  title: 'mcp list --json output (version 1)',
+  type: 'object',
+  required: ['version', 'cwd', 'servers'],
+  properties: {
+    version: { const: SERVER_LIST_VERSION },
+    cwd: { type: 'string', description: 'Project the states were resolved for' },
+    servers: {
+      type: 'array',
+      description: 'Servers sorted by name; entries only contain the fields selected with --fields',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          state: {
+            enum: ['red', 'green', 'orange'],
+            description: 'red = disabled, green = enabled, orange = enabled but paused in this project',
+          },
+          scope: { enum: ['enterprise', 'local', 'project', 'user'] },
+          sourceType: { enum: ['mcpjson', 'direct-global', 'direct-local', 'plugin'] },
+          definitionFile: { type: 'string' },
+          transport: { enum: ['stdio', 'http', 'sse', null] },
+          flags: {
+            type: 'object',
+            required: ['enterprise', 'blocked', 'restricted'],
+            properties: {
+              enterprise: { type: 'boolean' },
+              blocked: { type: 'boolean' },
+              restricted: { type: 'boolean' },
+            },
+          },
+          plugin: {
+            oneOf: [
+              { type: 'null' },
+              {
+                type: 'object',
+                required: ['key', 'name', 'marketplace', 'serverKey'],
+                properties: {
+                  key: { type: 'string', description: 'pluginName@marketplace' },
+                  name: { type: 'string' },
+                  marketplace: { type: 'string' },
+                  serverKey: { type: 'string' },
+                },
+              },
+            ],
+          },
+        },
+      },
+    },
+  },
+} as const;
@@ -0,0 +1,256 @@
+/**
+ * Server selectors
+ *
+ * Picks servers by name and attributes for mcp enable/disable and the
+ * TUI search:
+ * - Names: exact (fetch), glob (time?, *@wookstar-claude-plugins) or
+ *   regex (/^git/i); plugin:<plugin@marketplace> selects a plugin's
+ *   servers (plugin:*@wookstar-claude-plugins: every server of a marketplace)
+ * - Filters: source:plugin scope:user transport:http state:orange
+ *   (comma-separated values match any of them)
+ *
+ * A server is selected if it matches any name (or no names were given)
+ * and every filter.
+ */
+
+import type { Server } from '@/types/index.js';
+import { getTransportType } from '@/types/index.js';
+import { getPluginKey } from '@/utils/plugin.js';
+import { getDisplayState } from './toggle.js';
+
+export const SELECTOR_FIELDS = ['source', 'scope', 'transport', 'state'] as const;
+
+export type SelectorField = (typeof SELECTOR_FIELDS)[number];
+
+/** Allowed values of each filter */
+const FIELD_VALUES: Record<SelectorField, readonly string[]> = {
+  source: ['mcpjson', 'direct', 'direct-global', 'direct-local', 'plugin', 'enterprise'],
+  scope: ['enterprise', 'local', 'project', 'user'],
+  transport: ['stdio', 'http', 'sse'],
+  state: ['red', 'green', 'orange'],
+};
+
+/** Name terms selecting the servers of a plugin (plugin:<plugin@marketplace>) */
+const PLUGIN_PREFIX = /^plugin:(.+)$/i;
+
+export interface ServerSelector {
+  /** Exact names, globs or /regex/ (empty matches every name) */
+  names: string[];
+  /** Attribute filters; each lists the values that match */
+  filters: Partial<Record<SelectorField, string[]>>;
+}
+
+/**
+ * Whether a name term is a glob or regex rather than an exact name
+ */
+export function isNamePattern(term: string): boolean {
+  return /[*?]/.test(term) || /^\/.+\/[a-z]*$/.test(term) || PLUGIN_PREFIX.test(term);
+}
+
+/**
+ * Compile a name term into a matcher
+ *
+ * @throws Error if a /regex/ is invalid
+ */
+export function compileNamePattern(term: string): (name: string) => boolean {
+  const regex = term.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    try {
+      const pattern = new RegExp(regex[1]!, regex[2]);
+      return (name) => pattern.test(name);
+    } catch (error) {
+      throw new Error(`Invalid pattern ${term}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (/[*?]/.test(term)) {
+    const source = term
+      .split('')
+      .map((char) => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+      .join('');
+    const pattern = new RegExp(`^${source}$`);
+    return (name) => pattern.test(name);
+  }
+
+  return (name) => name === term;
+}
+
+/**
+ * Compile a name term into a server matcher
+ *
+ * plugin:<pattern> matches plugin servers whose plugin@marketplace key
+ * matches the pattern. Servers named <serverKey>:<plugin>@<marketplace>
+ * never match it by name, since their name starts with the server key.
+ *
+ * @throws Error if a /regex/ is invalid
+ */
+export function compileServerMatcher(term: string): (server: Server) => boolean {
+  const matchesName = compileNamePattern(term);
+  const plugin = PLUGIN_PREFIX.exec(term);
+  if (!plugin) {
+    return (server) => matchesName(server.name);
+  }
+
+  const matchesPlugin = compileNamePattern(plugin[1]!);
+  return (server) =>
+    matchesName(server.name) ||
+    (server.sourceType === 'plugin' && matchesPlugin(getPluginKey(server.name) ?? ''));
+}
+
+/**
+ * Parse a filter value list, e.g. "plugin,mcpjson"
+ *
+ * @throws Error if a value is not allowed for the field
+ */
+export function parseFilterValues(field: SelectorField, value: string): string[] {
+  const values = value.split(',').map((v) => v.trim().toLowerCase()).filter(Boolean);
+  const allowed = FIELD_VALUES[field];
+
+  const invalid = values.find((v) => !allowed.includes(v));
+  if (invalid !== undefined || values.length === 0) {
+    throw new Error(`Invalid ${field} "${invalid ?? value}" (expected ${allowed.join(', ')})`);
+  }
+  return values;
+}
+
+/**
+ * Split a term into a filter, if it starts with a known field
+ *
+ * Plugin server names also contain ":", so unknown prefixes are names.
+ */
+function splitFilter(term: string): [SelectorField, string] | null {
+  const colon = term.indexOf(':');
+  if (colon === -1) return null;
+
+  const field = term.slice(0, colon).toLowerCase();
+  return (SELECTOR_FIELDS as readonly string[]).includes(field)
+    ? [field as SelectorField, term.slice(colon + 1)]
+    : null;
+}
+
+/**
+ * Build a selector from terms and filter options
+ *
+ * @param terms - Names, patterns and field:value filters
+ * @param options - Filters from flags (--source, --scope, ...)
+ * @throws Error if a filter value or regex is invalid
+ */
+export function parseSelector(
+  terms: string[],
+  options: Partial<Record<SelectorField, string>> = {}
+): ServerSelector {
+  const selector: ServerSelector = { names: [], filters: {} };
+
+  const addFilter = (field: SelectorField, value: string) => {
+    selector.filters[field] = [...(selector.filters[field] ?? []), ...parseFilterValues(field, value)];
+  };
+
+  for (const term of terms) {
+    const filter = splitFilter(term);
+    if (filter) {
+      addFilter(...filter);
+    } else {
+      compileServerMatcher(term);
+      selector.names.push(term);
+    }
+  }
+
+  for (const field of SELECTOR_FIELDS) {
+    const value = options[field];
+    if (value !== undefined) addFilter(field, value);
+  }
+
+  return selector;
+}
+
+/**
+ * Whether a selector has any names or filters
+ */
+export function isSelectorEmpty(selector: ServerSelector): boolean {
+  return selector.names.length === 0 && Object.keys(selector.filters).length === 0;
+}
+
+function getFieldValues(server: Server, field: SelectorField): string[] {
+  switch (field) {
+    case 'source': {
+      const values: string[] = [server.sourceType];
+      if (server.sourceType.startsWith('direct')) values.push('direct');
+      if (server.flags.enterprise) values.push('enterprise');
+      return values;
+    }
+    case 'scope':
+      return [server.scope];
+    case 'transport':
+      return server.definition ? [getTransportType(server.definition)] : [];
+    case 'state':
+      return [getDisplayState(server)];
+  }
+}
+
+/**
+ * Whether a server matches every filter of a selector
+ */
+export function matchesFilters(server: Server, filters: ServerSelector['filters']): boolean {
+  return SELECTOR_FIELDS.every((field) => {
+    const wanted = filters[field];
+    return !wanted || getFieldValues(server, field).some((value) => wanted.includes(value));
+  });
+}
+
+/**
+ * Select servers
+ *
+ * @returns Matching servers (in list order) and the name terms that
+ *          matched no server that passes the filters
+ */
+export function selectServers(
+  servers: Server[],
+  selector: ServerSelector
+): { servers: Server[]; unmatched: string[] } {
+  const candidates = servers.filter((server) => matchesFilters(server, selector.filters));
+  if (selector.names.length === 0) {
+    return { servers: candidates, unmatched: [] };
+  }
+
+  const matchers = selector.names.map((term) => ({ term, matches: compileServerMatcher(term) }));
+  return {
+    servers: candidates.filter((server) => matchers.some(({ matches }) => matches(server))),
+    unmatched: matchers
+      .filter(({ matches }) => !candidates.some((server) => matches(server)))
+      .map(({ term }) => term),
+  };
+}
+
+/**
+ * Filter servers by a search query (TUI search)
+ *
+ * Uses the selector language, but plain words match anywhere in the
+ * name (case-insensitive), and incomplete or invalid terms are treated
+ * as plain words so typing never fails.
+ */
+export function searchServers(servers: Server[], query: string): Server[] {
+  const filters: ServerSelector['filters'] = {};
+  const matchers: Array<(server: Server) => boolean> = [];
+
+  for (const term of query.trim().split(/\s+/).filter(Boolean)) {
+    const filter = splitFilter(term);
+    try {
+      if (filter) {
+        filters[filter[0]] = [...(filters[filter[0]] ?? []), ...parseFilterValues(...filter)];
+        continue;
+      }
+      if (isNamePattern(term)) {
+        matchers.push(compileServerMatcher(term));
+        continue;
+      }
+    } catch {
+      // Fall back to a plain word
+    }
+    const word = term.toLowerCase();
+    matchers.push((server) => server.name.toLowerCase().includes(word));
+  }
+
+  return servers.filter(
+    (server) => matchesFilters(server, filters) && (matchers.length === 0 || matchers.some((m) => m(server)))
+  );
+}
@@ -12,6 +12,7 @@
 import type {
   Server,
   DisplayState,
+  ProjectAction,
   ToggleResult,
 } from '@/types/index.js';
 
@@ -148,6 +149,28 @@ export function pauseServer(server: Server): ToggleResult {
   return { success: true, newState: 'orange' };
 }
 
+/**
+ * Resume a paused server (ORANGE to GREEN)
+ *
+ * Disabled (RED) servers are refused, since resuming them would also
+ * enable them; use enableServer for that.
+ */
+export function resumeServer(server: Server): ToggleResult {
+  const result = enableServer(server);
+  if (result.success && server.state === 'off') {
+    return { success: false, reason: 'Server is disabled, not paused (use mcp enable)' };
+  }
+  return result;
+}
+
+/** Toggle for each state change (mcp enable, disable, pause, resume) */
+export const SERVER_ACTIONS: Record<ProjectAction, (server: Server) => ToggleResult> = {
+  enable: enableServer,
+  disable: disableServer,
+  pause: pauseServer,
+  resume: resumeServer,
+};
+
 /**
  * Apply strict-disable: Convert all ORANGE servers to RED
  *
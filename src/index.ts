@@ -0,0 +1,25 @@
+/**
+ * Library entry point
+ *
+ * The CLI's commands as a programmatic API, for tools that would
+ * otherwise shell out to mcp (see api/selector.ts).
+ */
+
+export { createSelector } from './api/selector.js';
+export type { ActionOptions, McpSelector, SelectorFilters, SelectorOptions } from './api/selector.js';
+export type { ProjectRoot } from './utils/project.js';
+export type {
+  AuditIssue,
+  AuditResult,
+  ConfigValidation,
+  DisplayState,
+  ProjectAction,
+  SchemaViolation,
+  Scope,
+  ServerActionOutcome,
+  ServerActionResult,
+  ServerExplanation,
+  ServerListEntry,
+  SourceType,
+  TransportType,
+} from './types/index.js';
@@ -12,26 +12,38 @@ import { ServerList } from './components/ServerList.js';
 import { Preview } from './components/Preview.js';
 import { StatusBar } from './components/StatusBar.js';
 import { ConfirmDialog } from './components/ConfirmDialog.js';
-import { InputDialog } from './components/InputDialog.js';
+import { AddServerDialog } from './components/AddServerDialog.js';
+import { EditServerDialog } from './components/EditServerDialog.js';
 import { InstallDialog } from './components/InstallDialog.js';
+import { ProfileDialog } from './components/ProfileDialog.js';
+import { BackupDialog } from './components/BackupDialog.js';
+import { SaveSummaryDialog } from './components/SaveSummaryDialog.js';
 import { MigrateDialog } from './components/MigrateDialog.js';
+import { WhyDialog } from './components/WhyDialog.js';
+import { ProjectsDialog } from './components/ProjectsDialog.js';
 import { SearchBar } from './components/SearchBar.js';
+import { ConfigErrorBanner } from './components/ConfigErrorBanner.js';
 import { HelpOverlay } from './components/HelpOverlay.js';
 import { ToastContainer } from './components/Toast.js';
 import { useKeyBindings } from './hooks/useKeyBindings.js';
 import { useTerminalResize } from './hooks/useTerminalResize.js';
 import { useTuiStore } from './store/index.js';
 import { getDisplayState } from '@/core/servers/toggle.js';
+import { watchConfigFiles } from '@/core/config/watch.js';
+import { isDefinitionEditable } from '@/core/servers/definitions.js';
+import { getEnabledTokens, planBudget } from '@/core/budget/budget.js';
 import { colors } from './styles/colors.js';
 import { isCompactMode } from '@/utils/terminal.js';
 
 interface AppProps {
   cwd: string;
   strictDisable?: boolean;
+  /** Reload when a config file changes on disk (default: true) */
+  watch?: boolean;
   onSaveComplete?: () => void;
 }
 
-export const App: React.FC<AppProps> = ({ cwd, strictDisable, onSaveComplete }) => {
+export const App: React.FC<AppProps> = ({ cwd, strictDisable, watch = true, onSaveComplete }) => {
   const { exit } = useApp();
   const { setRawMode } = useStdin();
 
@@ -42,6 +54,7 @@ export const App: React.FC<AppProps> = ({ cwd, strictDisable, onSaveComplete })
   // Store state
   const {
     servers,
+    originalServers,
     selectedIndex,
     filter,
     mode,
@@ -50,19 +63,32 @@ export const App: React.FC<AppProps> = ({ cwd, strictDisable, onSaveComplete })
     error,
     dirty,
     notifications,
+    health,
+    inventory,
+    sortByTokens,
+    budget,
+    configProblems,
     load,
+    reload,
     moveSelection,
     setFilter,
     setMode,
+    toggleSortByTokens,
     toggle,
     enableAll,
     disableAll,
+    applyProfile,
     addServer,
+    editServer,
     removeServer,
     hardDisablePlugin,
     migrateServer,
     installPlugin,
+    restoreBackup,
+    applyToAllProjects,
     refreshRuntimeStatus,
+    undo,
+    redo,
     save,
     openSearch,
     dismissNotification,
@@ -82,6 +108,40 @@ export const App: React.FC<AppProps> = ({ cwd, strictDisable, onSaveComplete })
     load(cwd, strictDisable);
   }, [cwd, strictDisable, load]);
 
+  // Reload when Claude Code or another terminal changes a config file
+  useEffect(() => {
+    if (!watch) return;
+
+    let stop: (() => void) | null = null;
+    let unmounted = false;
+
+    watchConfigFiles(cwd, () => {
+      void reload(cwd);
+    })
+      .then((close) => {
+        if (unmounted) close();
+        else stop = close;
+      })
+      .catch(() => {
+        // Watching is optional - the list just won't refresh by itself
+      });
+
+    return () => {
+      unmounted = true;
+      stop?.();
+    };
+  }, [cwd, watch, reload]);
+
+  // Save, notify and exit (launches Claude via onSaveComplete)
+  const saveAndExit = async () => {
+    const success = await save(cwd);
+    if (success) {
+      addNotification('success', 'Changes saved');
+      onSaveComplete?.();
+      exit();
+    }
+  };
+
   // Set up keyboard bindings
   useKeyBindings({
     mode,
@@ -105,7 +165,22 @@ export const App: React.FC<AppProps> = ({ cwd, strictDisable, onSaveComplete })
     onEnableAll: enableAll,
     onDisableAll: disableAll,
     onAdd: () => setMode('add'),
+    onEdit: () => {
+      const selected = getSelectedServer();
+      if (selected && isDefinitionEditable(selected)) {
+        setMode('edit', selected.name);
+      }
+    },
     onInstall: () => setMode('install'),
+    onProfiles: () => setMode('profiles'),
+    onBackups: () => setMode('backups'),
+    onWhy: () => {
+      const selected = getSelectedServer();
+      if (selected) {
+        setMode('why', selected.name);
+      }
+    },
+    onProjects: () => setMode('projects'),
     onRemove: () => {
       const selected = getSelectedServer();
       if (selected && !selected.flags.enterprise) {
@@ -113,17 +188,26 @@ export const App: React.FC<AppProps> = ({ cwd, strictDisable, onSaveComplete })
       }
     },
     onRefresh: () => {
-      refreshRuntimeStatus();
+      refreshRuntimeStatus(cwd);
+    },
+    onUndo: () => {
+      const label = undo();
+      addNotification('info', label ? `Undid: ${label}` : 'Nothing to undo');
     },
+    onRedo: () => {
+      const label = redo();
+      addNotification('info', label ? `Redid: ${label}` : 'Nothing to redo');
+    },
+    onToggleSort: toggleSortByTokens,
     onSetFilter: setFilter,
     onSearch: openSearch,
     onHelp: () => setMode('help'),
-    onSave: async () => {
-      const success = await save(cwd);
-      if (success) {
-        addNotification('success', 'Changes saved');
-        onSaveComplete?.();
-        exit();
+    onSave: () => {
+      // Review pending changes first; nothing to write goes straight through
+      if (dirty) {
+        setMode('confirm-save');
+      } else {
+        void saveAndExit();
       }
     },
     onCancel: () => {
@@ -155,6 +239,10 @@ export const App: React.FC<AppProps> = ({ cwd, strictDisable, onSaveComplete })
   const selectedServer = getSelectedServer();
   const enabledCount = servers.filter((s) => getDisplayState(s) !== 'red').length;
   const disabledCount = servers.filter((s) => getDisplayState(s) === 'red').length;
+  const hasInventory = Object.keys(inventory).length > 0;
+  const budgetPlan = budget.maxTokens && hasInventory
+    ? planBudget(servers, inventory, budget.maxTokens, budget.pinned)
+    : undefined;
 
   // Find target server for dialogs
   const targetServer = confirmTarget
@@ -198,23 +286,30 @@ export const App: React.FC<AppProps> = ({ cwd, strictDisable, onSaveComplete })
 
       case 'add':
         return (
-          <InputDialog
-            title="Add New Server"
-            placeholder="Enter server name..."
-            onSubmit={(name) => {
-              addServer(name);
+          <AddServerDialog
+            existingNames={servers.map((s) => s.name)}
+            onSubmit={async (name, definition, scope) => {
+              const success = await addServer(name, definition, scope, cwd);
+              if (success) {
+                addNotification('success', `Added "${name}" (${scope} scope)`);
+              }
             }}
             onCancel={() => setMode('list')}
-            validate={(name) => {
-              if (!name.trim()) return 'Name is required';
-              if (!/^[a-zA-Z0-9_-]+$/.test(name)) {
-                return 'Name can only contain letters, numbers, hyphens, and underscores';
-              }
-              if (servers.some((s) => s.name === name)) {
-                return 'Server with this name already exists';
+          />
+        );
+
+      case 'edit':
+        if (!targetServer) return null;
+        return (
+          <EditServerDialog
+            server={targetServer}
+            onSave={async (edits) => {
+              const success = await editServer(targetServer.name, edits, cwd);
+              if (success) {
+                addNotification('success', `Updated "${targetServer.name}"`);
               }
-              return null;
             }}
+            onCancel={() => setMode('list')}
           />
         );
 
@@ -228,6 +323,36 @@ export const App: React.FC<AppProps> = ({ cwd, strictDisable, onSaveComplete })
           />
         );
 
+      case 'profiles':
+        return (
+          <ProfileDialog
+            onApply={(name, profile) => {
+              const results = applyProfile(profile);
+              const failed = results.filter((r) => !r.success).length;
+              const changed = results.length - failed;
+              if (failed > 0) {
+                addNotification('warning', `Profile "${name}": ${changed} changed, ${failed} skipped`);
+              } else {
+                addNotification('success', `Profile "${name}" applied (${changed} changed)`);
+              }
+            }}
+            onCancel={() => setMode('list')}
+          />
+        );
+
+      case 'backups':
+        return (
+          <BackupDialog
+            onRestore={async (id, mcpOnly) => {
+              const success = await restoreBackup(id, mcpOnly, cwd);
+              if (success) {
+                addNotification('success', `Restored ${mcpOnly ? 'MCP settings' : 'file'} from backup (undo: mcp rollback --last)`);
+              }
+            }}
+            onCancel={() => setMode('list')}
+          />
+        );
+
       case 'migrate':
         if (!targetServer) return null;
         return (
@@ -240,6 +365,36 @@ export const App: React.FC<AppProps> = ({ cwd, strictDisable, onSaveComplete })
           />
         );
 
+      case 'confirm-save':
+        return (
+          <SaveSummaryDialog
+            original={originalServers}
+            servers={servers}
+            cwd={cwd}
+            onConfirm={() => {
+              setMode('list');
+              void saveAndExit();
+            }}
+            onCancel={() => setMode('list')}
+          />
+        );
+
+      case 'why':
+        if (!targetServer) return null;
+        return <WhyDialog server={targetServer} cwd={cwd} onClose={() => setMode('list')} />;
+
+      case 'projects':
+        return (
+          <ProjectsDialog
+            server={selectedServer}
+            cwd={cwd}
+            onApply={(action, name) => {
+              void applyToAllProjects(action, name, cwd);
+            }}
+            onCancel={() => setMode('list')}
+          />
+        );
+
       case 'help':
         return <HelpOverlay onClose={() => setMode('list')} />;
 
@@ -258,6 +413,8 @@ export const App: React.FC<AppProps> = ({ cwd, strictDisable, onSaveComplete })
         enabled={enabledCount}
         disabled={disabledCount}
         dirty={dirty}
+        tokens={hasInventory ? getEnabledTokens(servers, inventory) : undefined}
+        budget={budgetPlan}
       />
 
       {/* Main content or Dialog */}
@@ -267,6 +424,9 @@ export const App: React.FC<AppProps> = ({ cwd, strictDisable, onSaveComplete })
         </Box>
       ) : (
         <>
+          {/* Config files with syntax or schema errors */}
+          <ConfigErrorBanner problems={configProblems} />
+
           {/* Search bar (when active) */}
           {mode === 'search' && <SearchBar />}
 
@@ -278,8 +438,17 @@ export const App: React.FC<AppProps> = ({ cwd, strictDisable, onSaveComplete })
               filter={filter}
               fullWidth={compact}
               terminalColumns={columns}
+              health={health}
+              inventory={inventory}
+              sortByTokens={sortByTokens}
             />
-            {!compact && <Preview server={selectedServer} />}
+            {!compact && (
+              <Preview
+                server={selectedServer}
+                health={selectedServer && health[selectedServer.name]}
+                inventory={selectedServer && inventory[selectedServer.name]}
+              />
+            )}
           </Box>
 
           {/* Toast notifications */}
@@ -0,0 +1,295 @@
+/**
+ * AddServerDialog component - Multi-step wizard for new server definitions
+ *
+ * Steps: name → transport → command/args/env (stdio) or url/headers (http/sse)
+ * → target scope → confirm. Text steps reuse InputDialog; the definition is
+ * validated before it is handed to onSubmit for writing.
+ * Uses Ctrl-A to trigger.
+ */
+
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import type { ServerDefinition, TransportType } from '@/types/index.js';
+import {
+  buildServerDefinition,
+  parseKeyValueList,
+  splitArgs,
+  validateServerDefinition,
+  validateServerName,
+  type DefinitionScope,
+  type ServerDefinitionInput,
+} from '@/core/servers/definitions.js';
+import { InputDialog } from './InputDialog.js';
+import { ConfirmDialog } from './ConfirmDialog.js';
+import { colors } from '../styles/colors.js';
+
+type WizardStep =
+  | 'name'
+  | 'transport'
+  | 'command'
+  | 'args'
+  | 'env'
+  | 'url'
+  | 'headers'
+  | 'scope'
+  | 'confirm';
+
+interface Choice<T extends string> {
+  value: T;
+  label: string;
+  hint: string;
+}
+
+const transportChoices: Choice<TransportType>[] = [
+  { value: 'stdio', label: 'stdio', hint: 'Run a local command' },
+  { value: 'http', label: 'http', hint: 'Streamable HTTP endpoint' },
+  { value: 'sse', label: 'sse', hint: 'Server-sent events endpoint' },
+];
+
+const scopeChoices: Choice<DefinitionScope>[] = [
+  { value: 'project', label: 'project', hint: './.mcp.json (shared with team)' },
+  { value: 'local', label: 'local', hint: '~/.claude.json (this project only)' },
+  { value: 'user', label: 'user', hint: '~/.claude.json (all projects)' },
+];
+
+interface ChoiceStepProps<T extends string> {
+  title: string;
+  choices: Choice<T>[];
+  onSelect: (value: T) => void;
+  onCancel: () => void;
+}
+
+function ChoiceStep<T extends string>({ title, choices, onSelect, onCancel }: ChoiceStepProps<T>) {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  useInput((input, key) => {
+    if (key.escape) {
+      onCancel();
+      return;
+    }
+
+    if (key.return) {
+      const choice = choices[selectedIndex];
+      if (choice) onSelect(choice.value);
+      return;
+    }
+
+    if (key.upArrow || input === 'k') {
+      setSelectedIndex((prev) => Math.max(0, prev - 1));
+      return;
+    }
+
+    if (key.downArrow || input === 'j') {
+      setSelectedIndex((prev) => Math.min(choices.length - 1, prev + 1));
+    }
+  });
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="round"
+      borderColor={colors.cyan}
+      paddingX={2}
+      paddingY={1}
+    >
+      <Box marginBottom={1}>
+        <Text bold color={colors.cyan}>
+          {title}
+        </Text>
+      </Box>
+
+      <Box flexDirection="column" marginBottom={1}>
+        {choices.map((choice, idx) => {
+          const isSelected = idx === selectedIndex;
+          return (
+            <Box key={choice.value}>
+              <Text color={isSelected ? colors.cyan : undefined} bold={isSelected}>
+                {isSelected ? '▸ ' : '  '}
+              </Text>
+              <Text color={isSelected ? colors.white : colors.grey} bold={isSelected}>
+                {choice.label.padEnd(8)}
+              </Text>
+              <Text dimColor>{choice.hint}</Text>
+            </Box>
+          );
+        })}
+      </Box>
+
+      <Box justifyContent="center">
+        <Text dimColor>
+          <Text color={colors.cyan}>↑/k ↓/j</Text> Navigate{' '}
+          <Text color={colors.green}>Enter</Text> Select{' '}
+          <Text color={colors.red}>Esc</Text> Cancel
+        </Text>
+      </Box>
+    </Box>
+  );
+}
+
+interface AddServerDialogProps {
+  existingNames: string[];
+  onSubmit: (name: string, definition: ServerDefinition, scope: DefinitionScope) => void;
+  onCancel: () => void;
+}
+
+export const AddServerDialog: React.FC<AddServerDialogProps> = ({
+  existingNames,
+  onSubmit,
+  onCancel,
+}) => {
+  const [step, setStep] = useState<WizardStep>('name');
+  const [name, setName] = useState('');
+  const [input, setInput] = useState<ServerDefinitionInput>({ transport: 'stdio' });
+  const [scope, setScope] = useState<DefinitionScope>('project');
+
+  const update = (values: Partial<ServerDefinitionInput>, next: WizardStep) => {
+    setInput((prev) => ({ ...prev, ...values }));
+    setStep(next);
+  };
+
+  const title = (label: string) => `Add Server${name ? ` "${name}"` : ''} - ${label}`;
+
+  switch (step) {
+    case 'name':
+      return (
+        <InputDialog
+          key="name"
+          title="Add Server - Name"
+          placeholder="Enter server name..."
+          onSubmit={(value) => {
+            setName(value);
+            setStep('transport');
+          }}
+          onCancel={onCancel}
+          validate={(value) => {
+            const error = validateServerName(value);
+            if (error) return error;
+            if (existingNames.includes(value.trim())) {
+              return 'Server with this name already exists';
+            }
+            return null;
+          }}
+        />
+      );
+
+    case 'transport':
+      return (
+        <ChoiceStep
+          key="transport"
+          title={title('Transport')}
+          choices={transportChoices}
+          onSelect={(transport) => update({ transport }, transport === 'stdio' ? 'command' : 'url')}
+          onCancel={onCancel}
+        />
+      );
+
+    case 'command':
+      return (
+        <InputDialog
+          key="command"
+          title={title('Command')}
+          placeholder="e.g. npx, uvx, node"
+          onSubmit={(command) => update({ command }, 'args')}
+          onCancel={onCancel}
+          validate={(value) => (value.trim() ? null : 'Command is required')}
+        />
+      );
+
+    case 'args':
+      return (
+        <InputDialog
+          key="args"
+          title={title('Arguments (optional)')}
+          placeholder='e.g. -y @modelcontextprotocol/server-fetch "quoted arg"'
+          allowEmpty
+          onSubmit={(value) => update({ args: splitArgs(value) }, 'env')}
+          onCancel={onCancel}
+        />
+      );
+
+    case 'env':
+      return (
+        <InputDialog
+          key="env"
+          title={title('Environment variables (optional)')}
+          placeholder="KEY=value, OTHER=value"
+          allowEmpty
+          onSubmit={(value) => update({ env: parseKeyValueList(value, '=') ?? {} }, 'scope')}
+          onCancel={onCancel}
+          validate={(value) =>
+            parseKeyValueList(value, '=') ? null : 'Use KEY=value pairs separated by commas'
+          }
+        />
+      );
+
+    case 'url':
+      return (
+        <InputDialog
+          key="url"
+          title={title('URL')}
+          placeholder="https://example.com/mcp"
+          onSubmit={(url) => update({ url }, 'headers')}
+          onCancel={onCancel}
+          validate={(value) => validateServerDefinition(buildServerDefinition({ ...input, url: value }))}
+        />
+      );
+
+    case 'headers':
+      return (
+        <InputDialog
+          key="headers"
+          title={title('HTTP headers (optional)')}
+          placeholder="Authorization: Bearer token, X-Team: web"
+          allowEmpty
+          onSubmit={(value) => update({ headers: parseKeyValueList(value, ':') ?? {} }, 'scope')}
+          onCancel={onCancel}
+          validate={(value) =>
+            parseKeyValueList(value, ':') ? null : 'Use Name: value pairs separated by commas'
+          }
+        />
+      );
+
+    case 'scope':
+      return (
+        <ChoiceStep
+          key="scope"
+          title={title('Save to')}
+          choices={scopeChoices}
+          onSelect={(value) => {
+            setScope(value);
+            setStep('confirm');
+          }}
+          onCancel={onCancel}
+        />
+      );
+
+    case 'confirm': {
+      const definition = buildServerDefinition(input);
+      const error = validateServerDefinition(definition);
+      const target = scopeChoices.find((c) => c.value === scope)!;
+
+      if (error) {
+        return (
+          <ConfirmDialog
+            title={title('Invalid definition')}
+            message={`${error}\n\nStart again?`}
+            variant="warning"
+            onConfirm={() => setStep('transport')}
+            onCancel={onCancel}
+          />
+        );
+      }
+
+      return (
+        <ConfirmDialog
+          title={title('Confirm')}
+          message={`Write to ${target.hint}:\n\n${JSON.stringify({ [name]: definition }, null, 2)}`}
+          confirmLabel="Add"
+          cancelLabel="Cancel"
+          onConfirm={() => onSubmit(name, definition, scope)}
+          onCancel={onCancel}
+        />
+      );
+    }
+  }
+};
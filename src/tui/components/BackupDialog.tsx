@@ -0,0 +1,319 @@
+/**
+ * BackupDialog component - Backup history browser
+ *
+ * Lists configuration backups (newest first). Enter shows what restoring
+ * the selected backup would change in the MCP-related keys of its file,
+ * then 'r' restores the whole file or 'm' only the MCP keys.
+ * Uses 'h' key to trigger.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import type { BackupEntry, JsonChange } from '@/types/index.js';
+import { getHomeDir } from '@/utils/platform.js';
+import { colors } from '../styles/colors.js';
+import { ChangeRow } from './ChangeRow.js';
+
+interface BackupDialogProps {
+  onRestore: (id: string, mcpOnly: boolean) => void;
+  onCancel: () => void;
+}
+
+interface DiffState {
+  backup: BackupEntry;
+  target?: string;
+  changes: JsonChange[];
+  error?: string;
+}
+
+const MAX_VISIBLE = 10;
+
+function shortenPath(path: string): string {
+  const home = getHomeDir();
+  return path.startsWith(home) ? `~${path.slice(home.length)}` : path;
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString('en-AU', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export const BackupDialog: React.FC<BackupDialogProps> = ({
+  onRestore,
+  onCancel,
+}) => {
+  const [backups, setBackups] = useState<BackupEntry[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [diff, setDiff] = useState<DiffState | null>(null);
+  const [diffOffset, setDiffOffset] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load backup history on mount
+  useEffect(() => {
+    const loadBackups = async () => {
+      try {
+        const { listBackups } = await import('@/core/backups/backups.js');
+        setBackups(listBackups());
+        setLoading(false);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load backups');
+        setLoading(false);
+      }
+    };
+
+    loadBackups();
+  }, []);
+
+  const openDiff = async (backup: BackupEntry) => {
+    try {
+      const { diffBackup } = await import('@/core/backups/backups.js');
+      const { target, changes } = diffBackup(backup);
+      setDiff({ backup, target, changes });
+    } catch (err) {
+      setDiff({ backup, changes: [], error: err instanceof Error ? err.message : 'Failed to compare' });
+    }
+    setDiffOffset(0);
+  };
+
+  // Handle keyboard input
+  useInput((input, key) => {
+    if (diff) {
+      if (key.escape) {
+        setDiff(null);
+        return;
+      }
+      if (!diff.error && diff.backup.source) {
+        if (input === 'r') {
+          onRestore(diff.backup.id, false);
+          return;
+        }
+        if (input === 'm') {
+          onRestore(diff.backup.id, true);
+          return;
+        }
+      }
+      if (key.upArrow || input === 'k') {
+        setDiffOffset((prev) => Math.max(0, prev - 1));
+        return;
+      }
+      if (key.downArrow || input === 'j') {
+        setDiffOffset((prev) => Math.min(Math.max(0, diff.changes.length - MAX_VISIBLE), prev + 1));
+        return;
+      }
+      return;
+    }
+
+    if (key.escape) {
+      onCancel();
+      return;
+    }
+
+    if (key.return && backups.length > 0) {
+      const selected = backups[selectedIndex];
+      if (selected) {
+        void openDiff(selected);
+      }
+      return;
+    }
+
+    // Navigation
+    if (key.upArrow || input === 'k') {
+      setSelectedIndex((prev) => Math.max(0, prev - 1));
+      return;
+    }
+
+    if (key.downArrow || input === 'j') {
+      setSelectedIndex((prev) => Math.min(backups.length - 1, prev + 1));
+      return;
+    }
+  });
+
+  // Loading state
+  if (loading) {
+    return (
+      <Box
+        flexDirection="column"
+        borderStyle="round"
+        borderColor={colors.cyan}
+        paddingX={2}
+        paddingY={1}
+      >
+        <Text color={colors.cyan}>Loading backups...</Text>
+      </Box>
+    );
+  }
+
+  // Error state
+  if (error) {
+    return (
+      <Box
+        flexDirection="column"
+        borderStyle="round"
+        borderColor={colors.red}
+        paddingX={2}
+        paddingY={1}
+      >
+        <Text color={colors.red}>Error: {error}</Text>
+        <Box marginTop={1}>
+          <Text dimColor>Press <Text color={colors.red}>Esc</Text> to close</Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  // No backups yet
+  if (backups.length === 0) {
+    return (
+      <Box
+        flexDirection="column"
+        borderStyle="round"
+        borderColor={colors.yellow}
+        paddingX={2}
+        paddingY={1}
+      >
+        <Text bold color={colors.yellow}>
+          No backups found
+        </Text>
+        <Box marginTop={1}>
+          <Text dimColor>Backups are created automatically before configuration changes.</Text>
+        </Box>
+        <Box marginTop={1}>
+          <Text dimColor>Press <Text color={colors.red}>Esc</Text> to close</Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  // Diff of the selected backup against its file
+  if (diff) {
+    const visibleChanges = diff.changes.slice(diffOffset, diffOffset + MAX_VISIBLE);
+    const canRestore = !diff.error && !!diff.backup.source;
+
+    return (
+      <Box
+        flexDirection="column"
+        borderStyle="round"
+        borderColor={colors.cyan}
+        paddingX={2}
+        paddingY={1}
+        width={80}
+      >
+        {/* Title */}
+        <Box marginBottom={1} flexDirection="column">
+          <Text bold color={colors.cyan}>
+            Restore {formatDate(diff.backup.createdAt)} ({diff.backup.operation})
+          </Text>
+          {diff.target && <Text dimColor>{shortenPath(diff.target)}</Text>}
+        </Box>
+
+        {/* Changes */}
+        <Box flexDirection="column" marginBottom={1}>
+          {diff.error ? (
+            <Text color={colors.red}>{diff.error}</Text>
+          ) : diff.changes.length === 0 ? (
+            <Text dimColor>MCP configuration matches this backup</Text>
+          ) : (
+            visibleChanges.map((change, idx) => (
+              <ChangeRow key={`${diffOffset + idx}`} change={change} />
+            ))
+          )}
+        </Box>
+
+        {/* Scroll indicator */}
+        {diff.changes.length > MAX_VISIBLE && (
+          <Box marginBottom={1}>
+            <Text dimColor>
+              [{diffOffset + 1}-{Math.min(diffOffset + MAX_VISIBLE, diff.changes.length)} of {diff.changes.length}]
+            </Text>
+          </Box>
+        )}
+
+        {/* Hint */}
+        <Box justifyContent="center">
+          <Text dimColor>
+            {canRestore && (
+              <>
+                <Text color={colors.green}>r</Text> Restore file{' '}
+                <Text color={colors.green}>m</Text> MCP keys only{' '}
+              </>
+            )}
+            <Text color={colors.red}>Esc</Text> Back
+          </Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  // Show backup history
+  const startIndex = Math.max(0, selectedIndex - Math.floor(MAX_VISIBLE / 2));
+  const visibleBackups = backups.slice(startIndex, startIndex + MAX_VISIBLE);
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="round"
+      borderColor={colors.cyan}
+      paddingX={2}
+      paddingY={1}
+      width={80}
+    >
+      {/* Title */}
+      <Box marginBottom={1}>
+        <Text bold color={colors.cyan}>
+          Backup History
+        </Text>
+        <Text dimColor> ({backups.length} backups)</Text>
+      </Box>
+
+      {/* Backup list */}
+      <Box flexDirection="column" marginBottom={1}>
+        {visibleBackups.map((backup, idx) => {
+          const actualIndex = startIndex + idx;
+          const isSelected = actualIndex === selectedIndex;
+
+          return (
+            <Box key={backup.id}>
+              <Text
+                color={isSelected ? colors.cyan : undefined}
+                bold={isSelected}
+              >
+                {isSelected ? '▸ ' : '  '}
+              </Text>
+              <Text dimColor>{formatDate(backup.createdAt).padEnd(18)}</Text>
+              <Text
+                color={isSelected ? colors.white : colors.grey}
+                bold={isSelected}
+              >
+                {backup.source ? shortenPath(backup.source) : '(unknown file)'}
+              </Text>
+              <Text dimColor> - {backup.operation}</Text>
+            </Box>
+          );
+        })}
+      </Box>
+
+      {/* Scroll indicator */}
+      {backups.length > MAX_VISIBLE && (
+        <Box marginBottom={1}>
+          <Text dimColor>
+            [{startIndex + 1}-{Math.min(startIndex + MAX_VISIBLE, backups.length)} of {backups.length}]
+          </Text>
+        </Box>
+      )}
+
+      {/* Hint */}
+      <Box justifyContent="center">
+        <Text dimColor>
+          <Text color={colors.cyan}>↑/k ↓/j</Text> Navigate{' '}
+          <Text color={colors.green}>Enter</Text> Compare{' '}
+          <Text color={colors.red}>Esc</Text> Close
+        </Text>
+      </Box>
+    </Box>
+  );
+};
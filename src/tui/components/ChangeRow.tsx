@@ -0,0 +1,32 @@
+/**
+ * ChangeRow component - One JSON change (+ added, - removed, ~ changed)
+ *
+ * Used by the backup history and the save review.
+ */
+
+import React from 'react';
+import { Text } from 'ink';
+import type { JsonChange } from '@/types/index.js';
+import { colors } from '../styles/colors.js';
+
+const MAX_VALUE_LENGTH = 40;
+
+function formatValue(value: unknown): string {
+  const text = JSON.stringify(value) ?? 'undefined';
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text;
+}
+
+export const ChangeRow: React.FC<{ change: JsonChange }> = ({ change }) => {
+  switch (change.type) {
+    case 'added':
+      return <Text color={colors.green}>+ {change.path}: {formatValue(change.after)}</Text>;
+    case 'removed':
+      return <Text color={colors.red}>- {change.path}: {formatValue(change.before)}</Text>;
+    case 'changed':
+      return (
+        <Text color={colors.yellow}>
+          ~ {change.path}: {formatValue(change.before)} → {formatValue(change.after)}
+        </Text>
+      );
+  }
+};
@@ -0,0 +1,50 @@
+/**
+ * ConfigErrorBanner component - Config files with syntax or schema errors
+ *
+ * Servers in an invalid part of a file are left out of the list, so the
+ * banner says why they are missing. Shows the first few violations;
+ * mcp validate lists them all.
+ */
+
+import React from 'react';
+import { Box, Text } from 'ink';
+import type { ConfigValidation } from '@/types/index.js';
+import { abbreviatePath } from '@/utils/paths.js';
+import { colors } from '../styles/colors.js';
+
+/** Violations shown before "and N more" */
+const MAX_SHOWN = 3;
+
+interface ConfigErrorBannerProps {
+  problems: ConfigValidation[];
+}
+
+export const ConfigErrorBanner: React.FC<ConfigErrorBannerProps> = ({ problems }) => {
+  const violations = problems.flatMap((problem) =>
+    problem.violations.map((violation) => ({ file: problem.file, ...violation }))
+  );
+  if (violations.length === 0) return null;
+
+  const hidden = violations.length - MAX_SHOWN;
+  const files = problems.length === 1 ? '1 config file has' : `${problems.length} config files have`;
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor={colors.red} paddingX={1}>
+      <Text color={colors.red} bold>
+        ✗ {files} errors - affected servers are not shown
+      </Text>
+      {violations.slice(0, MAX_SHOWN).map((violation, index) => (
+        <Text key={index} wrap="truncate-end">
+          <Text dimColor>
+            {abbreviatePath(violation.file)}
+            {violation.line ? `:${violation.line}:${violation.column}` : ''}
+          </Text>
+          {violation.pointer ? ` ${violation.pointer}` : ''} {violation.message}
+        </Text>
+      ))}
+      <Text dimColor>
+        {hidden > 0 ? `and ${hidden} more - ` : ''}run mcp validate for details
+      </Text>
+    </Box>
+  );
+};
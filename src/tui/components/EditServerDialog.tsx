@@ -0,0 +1,224 @@
+/**
+ * EditServerDialog component - Edit a server definition in place
+ *
+ * Lists the editable fields for the server's transport (command/args/env
+ * for stdio, url/headers for http/sse). Enter on a field edits it with
+ * InputDialog; the Save row writes only the changed fields.
+ * Uses 'e' key to trigger (shown in the Preview panel).
+ */
+
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import type { Server } from '@/types/index.js';
+import { getTransportType } from '@/types/index.js';
+import {
+  formatArgs,
+  formatKeyValueList,
+  parseKeyValueList,
+  type DefinitionEdit,
+} from '@/core/servers/definitions.js';
+import { InputDialog } from './InputDialog.js';
+import { colors } from '../styles/colors.js';
+
+type EditField = 'command' | 'args' | 'env' | 'url' | 'headers';
+
+const fieldLabels: Record<EditField, string> = {
+  command: 'Command',
+  args: 'Arguments',
+  env: 'Environment',
+  url: 'URL',
+  headers: 'Headers',
+};
+
+const fieldPlaceholders: Record<EditField, string> = {
+  command: 'e.g. npx, uvx, node',
+  args: 'e.g. -y @modelcontextprotocol/server-fetch',
+  env: 'KEY=value, OTHER=value',
+  url: 'https://example.com/mcp',
+  headers: 'Authorization: Bearer token',
+};
+
+/**
+ * Current field values as editable strings
+ */
+function getInitialValues(server: Server): Record<EditField, string> {
+  const def = server.definition ?? {};
+  return {
+    command: def.command ?? '',
+    args: formatArgs(def.args ?? []),
+    env: formatKeyValueList(def.env, '='),
+    url: def.url ?? '',
+    headers: formatKeyValueList(def.headers, ':'),
+  };
+}
+
+/**
+ * Validate a field value
+ *
+ * @returns Error message or null if valid
+ */
+function validateField(field: EditField, value: string): string | null {
+  switch (field) {
+    case 'command':
+    case 'url':
+      return value.trim() ? null : `${fieldLabels[field]} is required`;
+    case 'env':
+      return parseKeyValueList(value, '=') ? null : 'Use KEY=value pairs separated by commas';
+    case 'headers':
+      return parseKeyValueList(value, ':') ? null : 'Use Name: value pairs separated by commas';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Convert a changed field to definition edits
+ */
+function toEdits(field: EditField, value: string): DefinitionEdit[] {
+  switch (field) {
+    case 'command':
+    case 'url':
+      return [{ path: field, value }];
+    case 'args':
+      return value ? [{ path: 'args', value }] : [{ path: 'args' }];
+    case 'env':
+    case 'headers': {
+      const entries = parseKeyValueList(value, field === 'env' ? '=' : ':') ?? {};
+      return [
+        { path: field },
+        ...Object.entries(entries).map(([key, entry]) => ({ path: `${field}.${key}`, value: entry })),
+      ];
+    }
+  }
+}
+
+interface EditServerDialogProps {
+  server: Server;
+  onSave: (edits: DefinitionEdit[]) => void;
+  onCancel: () => void;
+}
+
+export const EditServerDialog: React.FC<EditServerDialogProps> = ({
+  server,
+  onSave,
+  onCancel,
+}) => {
+  const transport = getTransportType(server.definition ?? {});
+  const fields: EditField[] = transport === 'stdio' ? ['command', 'args', 'env'] : ['url', 'headers'];
+
+  const [initialValues] = useState(() => getInitialValues(server));
+  const [values, setValues] = useState(initialValues);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [editing, setEditing] = useState<EditField | null>(null);
+
+  const changedFields = fields.filter((f) => values[f] !== initialValues[f]);
+  const saveIndex = fields.length;
+
+  useInput((input, key) => {
+    if (editing) return;
+
+    if (key.escape) {
+      onCancel();
+      return;
+    }
+
+    if (key.return) {
+      const field = fields[selectedIndex];
+      if (field) {
+        setEditing(field);
+      } else if (changedFields.length > 0) {
+        onSave(changedFields.flatMap((f) => toEdits(f, values[f])));
+      } else {
+        onCancel();
+      }
+      return;
+    }
+
+    if (key.upArrow || input === 'k') {
+      setSelectedIndex((prev) => Math.max(0, prev - 1));
+      return;
+    }
+
+    if (key.downArrow || input === 'j') {
+      setSelectedIndex((prev) => Math.min(saveIndex, prev + 1));
+    }
+  }, { isActive: editing === null });
+
+  if (editing) {
+    return (
+      <InputDialog
+        key={editing}
+        title={`Edit "${server.name}" - ${fieldLabels[editing]}`}
+        placeholder={fieldPlaceholders[editing]}
+        initialValue={values[editing]}
+        allowEmpty={editing !== 'command' && editing !== 'url'}
+        validate={(value) => validateField(editing, value)}
+        onSubmit={(value) => {
+          setValues((prev) => ({ ...prev, [editing]: value }));
+          setEditing(null);
+        }}
+        onCancel={() => setEditing(null)}
+      />
+    );
+  }
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="round"
+      borderColor={colors.cyan}
+      paddingX={2}
+      paddingY={1}
+      width={70}
+    >
+      {/* Title */}
+      <Box marginBottom={1}>
+        <Text bold color={colors.cyan}>
+          Edit "{server.name}"
+        </Text>
+        <Text dimColor> ({transport})</Text>
+      </Box>
+
+      {/* Fields */}
+      <Box flexDirection="column" marginBottom={1}>
+        {fields.map((field, idx) => {
+          const isSelected = idx === selectedIndex;
+          const changed = values[field] !== initialValues[field];
+          return (
+            <Box key={field}>
+              <Text color={isSelected ? colors.cyan : undefined} bold={isSelected}>
+                {isSelected ? '▸ ' : '  '}
+              </Text>
+              <Text color={isSelected ? colors.white : colors.grey} bold={isSelected}>
+                {fieldLabels[field].padEnd(12)}
+              </Text>
+              <Text color={changed ? colors.yellow : undefined} dimColor={!changed} wrap="truncate-end">
+                {values[field] || '(none)'}
+              </Text>
+            </Box>
+          );
+        })}
+        <Box marginTop={1}>
+          <Text color={selectedIndex === saveIndex ? colors.green : colors.grey} bold={selectedIndex === saveIndex}>
+            {selectedIndex === saveIndex ? '▸ ' : '  '}
+            {changedFields.length > 0 ? `Save ${changedFields.length} change(s)` : 'Close (no changes)'}
+          </Text>
+        </Box>
+      </Box>
+
+      {/* File */}
+      <Box marginBottom={1}>
+        <Text dimColor>Writes to {server.definitionFile} (backed up first)</Text>
+      </Box>
+
+      {/* Hint */}
+      <Box justifyContent="center">
+        <Text dimColor>
+          <Text color={colors.cyan}>↑/k ↓/j</Text> Navigate{' '}
+          <Text color={colors.green}>Enter</Text> Edit/Save{' '}
+          <Text color={colors.red}>Esc</Text> Cancel
+        </Text>
+      </Box>
+    </Box>
+  );
+};
@@ -4,6 +4,7 @@
 
 import React from 'react';
 import { Box, Text, useStdout } from 'ink';
+import type { BudgetPlan } from '@/types/index.js';
 import { colors, CLAUDE_SALMON } from '../styles/colors.js';
 import { isCompactMode } from '@/utils/terminal.js';
 
@@ -12,6 +13,10 @@ interface HeaderProps {
   enabled: number;
   disabled: number;
   dirty: boolean;
+  /** Estimated tokens of enabled servers (when inventories are known) */
+  tokens?: number;
+  /** Budget evaluation (when a budget is configured) */
+  budget?: BudgetPlan;
 }
 
 // ASCII art logo lines (97 chars wide)
@@ -24,7 +29,7 @@ const LOGO_LINES = [
   '╚═╝     ╚═╝ ╚═════╝╚═╝         ╚══════╝╚══════╝╚══════╝╚══════╝ ╚═════╝   ╚═╝    ╚═════╝ ╚═╝  ╚═╝',
 ];
 
-export const Header: React.FC<HeaderProps> = ({ total, enabled, disabled, dirty }) => {
+export const Header: React.FC<HeaderProps> = ({ total, enabled, disabled, dirty, tokens, budget }) => {
   const { stdout } = useStdout();
   const compact = isCompactMode(stdout?.columns);
   const percentage = total > 0 ? Math.round((enabled / total) * 100) : 0;
@@ -60,8 +65,27 @@ export const Header: React.FC<HeaderProps> = ({ total, enabled, disabled, dirty
           {dirty && (
             <Text color={colors.yellow}>{compact ? ' *' : ' [unsaved]'}</Text>
           )}
+          {tokens !== undefined && (
+            <>
+              <Text dimColor> · </Text>
+              <Text color={budget ? (budget.overBudget ? colors.red : colors.green) : undefined}>
+                ~{tokens}
+              </Text>
+              {budget && <Text dimColor>/{budget.maxTokens}</Text>}
+              <Text dimColor> tokens</Text>
+            </>
+          )}
         </Text>
       </Box>
+
+      {/* Budget suggestion */}
+      {!compact && budget?.overBudget && budget.suggestions.length > 0 && (
+        <Box>
+          <Text color={colors.yellow}>
+            Over budget - consider disabling: {budget.suggestions.map((s) => s.server).join(', ')}
+          </Text>
+        </Box>
+      )}
     </Box>
   );
 };
@@ -56,11 +56,18 @@ export const HelpOverlay: React.FC<HelpOverlayProps> = ({ onClose }) => {
       </Box>
       <ShortcutRow shortcut="SPACE" description="Toggle server state" />
       <ShortcutRow shortcut="i" description="Install marketplace plugin" />
+      <ShortcutRow shortcut="p" description="Apply saved profile" />
+      <ShortcutRow shortcut="h" description="Backup history (compare & restore)" />
+      <ShortcutRow shortcut="w" description="Why is this server on, off or paused?" />
+      <ShortcutRow shortcut="g" description="All projects (change a server everywhere)" />
+      <ShortcutRow shortcut="e" description="Edit server definition" />
       <ShortcutRow shortcut={`${ALT_KEY}M`} description="Migrate direct → .mcp.json" />
       <ShortcutRow shortcut={`${ALT_KEY}H`} description="Hard disable plugin" />
       <ShortcutRow shortcut="Ctrl-X" description="Delete server" />
       <ShortcutRow shortcut="Ctrl-A" description="Add new server" />
-      <ShortcutRow shortcut="Ctrl-R" description="Refresh runtime status" />
+      <ShortcutRow shortcut="r" description="Check server health (MCP handshake)" />
+      <ShortcutRow shortcut="u" description="Undo last change" />
+      <ShortcutRow shortcut="Ctrl-R" description="Redo" />
 
       {/* Bulk Operations */}
       <Box marginTop={1} marginBottom={1}>
@@ -75,6 +82,7 @@ export const HelpOverlay: React.FC<HelpOverlayProps> = ({ onClose }) => {
       </Box>
       <ShortcutRow shortcut="/" description="Search servers" />
       <ShortcutRow shortcut="?" description="Show this help" />
+      <ShortcutRow shortcut="t" description="Sort by estimated tokens" />
 
       {/* Filters */}
       <Box marginTop={1} marginBottom={1}>
@@ -92,7 +100,7 @@ export const HelpOverlay: React.FC<HelpOverlayProps> = ({ onClose }) => {
       <Box marginTop={1} marginBottom={1}>
         <Text bold color={colors.orange}>Save & Exit</Text>
       </Box>
-      <ShortcutRow shortcut="ENTER" description="Save changes and exit" color={colors.green} />
+      <ShortcutRow shortcut="ENTER" description="Review changes, then save and exit" color={colors.green} />
       <ShortcutRow shortcut="ESC" description="Cancel and exit" color={colors.red} />
 
       {/* Close hint */}
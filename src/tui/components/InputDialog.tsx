@@ -1,7 +1,7 @@
 /**
  * InputDialog component - Text input dialog with validation
  *
- * Used for: Add new server
+ * Used for: Add server wizard steps
  */
 
 import React, { useState } from 'react';
@@ -15,6 +15,7 @@ interface InputDialogProps {
   onSubmit: (value: string) => void;
   onCancel: () => void;
   validate?: (value: string) => string | null; // Returns error message or null if valid
+  allowEmpty?: boolean; // Submit empty values (for optional fields)
 }
 
 export const InputDialog: React.FC<InputDialogProps> = ({
@@ -24,6 +25,7 @@ export const InputDialog: React.FC<InputDialogProps> = ({
   onSubmit,
   onCancel,
   validate,
+  allowEmpty = false,
 }) => {
   const [value, setValue] = useState(initialValue);
   const [error, setError] = useState<string | null>(null);
@@ -45,7 +47,7 @@ export const InputDialog: React.FC<InputDialogProps> = ({
         }
       }
 
-      if (value.trim()) {
+      if (value.trim() || allowEmpty) {
         onSubmit(value.trim());
       }
       return;
@@ -4,19 +4,23 @@
 
 import React from 'react';
 import { Box, Text, useStdout } from 'ink';
-import type { Server } from '@/types/index.js';
+import type { Server, HealthCheckResult, ServerInventory } from '@/types/index.js';
 import { getDisplayState } from '@/core/servers/toggle.js';
+import { isDefinitionEditable } from '@/core/servers/definitions.js';
+import { expandServer, findPlaintextSecrets } from '@/core/servers/expansion.js';
 import { abbreviatePath } from '@/utils/paths.js';
-import { colors, stateColors, stateSymbols, stateLabels } from '../styles/colors.js';
+import { colors, stateColors, stateSymbols, stateLabels, healthColors } from '../styles/colors.js';
 
 // Max width for preview panel - enough for content without wasting space
 const MAX_PREVIEW_WIDTH = 38;
 
 interface PreviewProps {
   server: Server | undefined;
+  health?: HealthCheckResult;
+  inventory?: ServerInventory;
 }
 
-export const Preview: React.FC<PreviewProps> = ({ server }) => {
+export const Preview: React.FC<PreviewProps> = ({ server, health, inventory }) => {
   const { stdout } = useStdout();
   const columns = stdout?.columns ?? 80;
   const previewWidth = Math.min(Math.floor(columns * 0.3), MAX_PREVIEW_WIDTH);
@@ -47,6 +51,12 @@ export const Preview: React.FC<PreviewProps> = ({ server }) => {
   };
   const sourceLabel = sourceLabels[server.sourceType] ?? server.sourceType;
 
+  // Definition as Claude Code will run it
+  const expanded = expandServer(server);
+  const target = expanded.definition.url
+    ?? [expanded.definition.command, ...(expanded.definition.args ?? [])].filter(Boolean).join(' ');
+  const secrets = server.definition ? findPlaintextSecrets(server.name, server.definition) : [];
+
   // State label and symbol
   const stateLabel = stateLabels[displayState];
   const stateSymbol = stateSymbols[displayState];
@@ -84,10 +94,55 @@ export const Preview: React.FC<PreviewProps> = ({ server }) => {
         <Text>{abbreviatePath(server.definitionFile, 30)}</Text>
       </Box>
 
+      {/* Command or URL, with ${VAR} expanded */}
+      {target && (
+        <>
+          <Text color={colors.cyan}>{expanded.definition.url !== undefined ? 'URL' : 'Command'}</Text>
+          <Box flexDirection="column" marginBottom={1}>
+            <Text wrap="truncate-end">{target}</Text>
+            {expanded.unresolved.length > 0 && (
+              <Text color={colors.yellow} wrap="truncate-end">
+                Not set: {expanded.unresolved.join(', ')}
+              </Text>
+            )}
+            {secrets.map((secret) => (
+              <Text key={`${secret.field}.${secret.key}`} color={colors.yellow} wrap="truncate-end">
+                Plaintext secret: {secret.field}.{secret.key}
+              </Text>
+            ))}
+          </Box>
+        </>
+      )}
+
       {/* Status */}
       <Text color={colors.cyan}>Status</Text>
       <Text color={stateColor}>{stateSymbol} {stateLabel}</Text>
 
+      {/* Health probe result (after r) */}
+      {health && (
+        <>
+          <Text color={healthColors[health.status]}>
+            Health: {health.status} ({health.latencyMs}ms)
+          </Text>
+          {health.error && <Text dimColor wrap="truncate-end">{health.error}</Text>}
+        </>
+      )}
+
+      {/* Tool inventory (estimated context cost) */}
+      {inventory && (
+        <Box flexDirection="column" marginTop={1}>
+          <Text color={colors.cyan}>Context</Text>
+          <Text>
+            {inventory.tools.length} tools, ~{inventory.tokens} tokens
+          </Text>
+          {(inventory.prompts > 0 || inventory.resources > 0) && (
+            <Text dimColor>
+              {inventory.prompts} prompts, {inventory.resources} resources
+            </Text>
+          )}
+        </Box>
+      )}
+
       {/* Enterprise flags */}
       {server.flags.enterprise && (
         <Text color={colors.yellow}>Enterprise-managed</Text>
@@ -105,6 +160,9 @@ export const Preview: React.FC<PreviewProps> = ({ server }) => {
         {!server.flags.enterprise && (
           <Text dimColor>SPACE - Toggle</Text>
         )}
+        {isDefinitionEditable(server) && (
+          <Text dimColor>e - Edit definition</Text>
+        )}
         {(server.sourceType === 'direct-global' || server.sourceType === 'direct-local') && (
           <Text dimColor>Alt-M - Migrate</Text>
         )}
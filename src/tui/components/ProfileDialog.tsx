@@ -0,0 +1,200 @@
+/**
+ * ProfileDialog component - Saved profile picker
+ *
+ * Lists profiles from ~/.claude/mcp-profiles.json and applies the
+ * selected one to the current server list (saved with Enter as usual).
+ * Uses 'p' key to trigger.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import type { Profile } from '@/types/index.js';
+import { colors } from '../styles/colors.js';
+
+interface ProfileDialogProps {
+  onApply: (name: string, profile: Profile) => void;
+  onCancel: () => void;
+}
+
+export const ProfileDialog: React.FC<ProfileDialogProps> = ({
+  onApply,
+  onCancel,
+}) => {
+  const [profiles, setProfiles] = useState<Array<[string, Profile]>>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load saved profiles on mount
+  useEffect(() => {
+    const loadSavedProfiles = async () => {
+      try {
+        const { loadProfiles } = await import('@/core/profiles/profiles.js');
+        const saved = await loadProfiles();
+        setProfiles(Object.entries(saved).sort(([a], [b]) => a.localeCompare(b)));
+        setLoading(false);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load profiles');
+        setLoading(false);
+      }
+    };
+
+    loadSavedProfiles();
+  }, []);
+
+  // Handle keyboard input
+  useInput((input, key) => {
+    if (key.escape) {
+      onCancel();
+      return;
+    }
+
+    if (key.return && profiles.length > 0) {
+      const selected = profiles[selectedIndex];
+      if (selected) {
+        onApply(selected[0], selected[1]);
+      }
+      return;
+    }
+
+    // Navigation
+    if (key.upArrow || input === 'k') {
+      setSelectedIndex((prev) => Math.max(0, prev - 1));
+      return;
+    }
+
+    if (key.downArrow || input === 'j') {
+      setSelectedIndex((prev) => Math.min(profiles.length - 1, prev + 1));
+      return;
+    }
+  });
+
+  // Loading state
+  if (loading) {
+    return (
+      <Box
+        flexDirection="column"
+        borderStyle="round"
+        borderColor={colors.cyan}
+        paddingX={2}
+        paddingY={1}
+      >
+        <Text color={colors.cyan}>Loading profiles...</Text>
+      </Box>
+    );
+  }
+
+  // Error state
+  if (error) {
+    return (
+      <Box
+        flexDirection="column"
+        borderStyle="round"
+        borderColor={colors.red}
+        paddingX={2}
+        paddingY={1}
+      >
+        <Text color={colors.red}>Error: {error}</Text>
+        <Box marginTop={1}>
+          <Text dimColor>Press <Text color={colors.red}>Esc</Text> to close</Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  // No profiles saved
+  if (profiles.length === 0) {
+    return (
+      <Box
+        flexDirection="column"
+        borderStyle="round"
+        borderColor={colors.yellow}
+        paddingX={2}
+        paddingY={1}
+      >
+        <Text bold color={colors.yellow}>
+          No profiles saved
+        </Text>
+        <Box marginTop={1}>
+          <Text dimColor>Create one with: mcp profile save {'<name>'}</Text>
+        </Box>
+        <Box marginTop={1}>
+          <Text dimColor>Press <Text color={colors.red}>Esc</Text> to close</Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  // Show list of saved profiles
+  const maxVisible = 10;
+  const startIndex = Math.max(0, selectedIndex - Math.floor(maxVisible / 2));
+  const visibleProfiles = profiles.slice(startIndex, startIndex + maxVisible);
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="round"
+      borderColor={colors.cyan}
+      paddingX={2}
+      paddingY={1}
+      width={60}
+    >
+      {/* Title */}
+      <Box marginBottom={1}>
+        <Text bold color={colors.cyan}>
+          Apply Profile
+        </Text>
+        <Text dimColor> ({profiles.length} saved)</Text>
+      </Box>
+
+      {/* Profile list */}
+      <Box flexDirection="column" marginBottom={1}>
+        {visibleProfiles.map(([name, profile], idx) => {
+          const actualIndex = startIndex + idx;
+          const isSelected = actualIndex === selectedIndex;
+          const states = Object.values(profile.servers);
+          const enabled = states.filter((s) => s !== 'red').length;
+
+          return (
+            <Box key={name}>
+              <Text
+                color={isSelected ? colors.cyan : undefined}
+                bold={isSelected}
+              >
+                {isSelected ? '▸ ' : '  '}
+              </Text>
+              <Text
+                color={isSelected ? colors.white : colors.grey}
+                bold={isSelected}
+              >
+                {name}
+              </Text>
+              <Text dimColor> {enabled}/{states.length} on</Text>
+              {profile.description && (
+                <Text dimColor> - {profile.description}</Text>
+              )}
+            </Box>
+          );
+        })}
+      </Box>
+
+      {/* Scroll indicator */}
+      {profiles.length > maxVisible && (
+        <Box marginBottom={1}>
+          <Text dimColor>
+            [{startIndex + 1}-{Math.min(startIndex + maxVisible, profiles.length)} of {profiles.length}]
+          </Text>
+        </Box>
+      )}
+
+      {/* Hint */}
+      <Box justifyContent="center">
+        <Text dimColor>
+          <Text color={colors.cyan}>↑/k ↓/j</Text> Navigate{' '}
+          <Text color={colors.green}>Enter</Text> Apply{' '}
+          <Text color={colors.red}>Esc</Text> Cancel
+        </Text>
+      </Box>
+    </Box>
+  );
+};
@@ -0,0 +1,332 @@
+/**
+ * ProjectsDialog component - MCP state across every project
+ *
+ * Lists the projects in ~/.claude.json with their server counts by state,
+ * flagging stale entries whose folder no longer exists. 'd', 'e' and 'p'
+ * disable, enable or pause the server selected in the main list in every
+ * project, after a confirmation.
+ * Uses 'g' key to trigger.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import type { DisplayState, ProjectAction, ProjectSummary, Server } from '@/types/index.js';
+import { listProjects } from '@/core/config/projects.js';
+import { formatStateLabel } from '@/core/config/explain.js';
+import { getHomeDir } from '@/utils/platform.js';
+import { colors } from '../styles/colors.js';
+
+interface ProjectsDialogProps {
+  /** Server selected in the main list (target of bulk actions) */
+  server?: Server;
+  cwd: string;
+  onApply: (action: ProjectAction, name: string) => void;
+  onCancel: () => void;
+}
+
+const MAX_VISIBLE = 10;
+
+const ACTION_KEYS: Record<string, { action: ProjectAction; state: DisplayState; label: string }> = {
+  d: { action: 'disable', state: 'red', label: 'Disable' },
+  e: { action: 'enable', state: 'green', label: 'Enable' },
+  p: { action: 'pause', state: 'orange', label: 'Pause' },
+};
+
+const STATE_COLOURS: Record<DisplayState, string> = {
+  green: colors.green,
+  orange: colors.orange,
+  red: colors.red,
+};
+
+function shortenPath(path: string): string {
+  const home = getHomeDir();
+  return path.startsWith(home) ? `~${path.slice(home.length)}` : path;
+}
+
+function countState(project: ProjectSummary, state: DisplayState): number {
+  return project.servers.filter((s) => s.state === state).length;
+}
+
+export const ProjectsDialog: React.FC<ProjectsDialogProps> = ({
+  server,
+  cwd,
+  onApply,
+  onCancel,
+}) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [pending, setPending] = useState<(typeof ACTION_KEYS)[string] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load every project on mount
+  useEffect(() => {
+    const loadProjects = async () => {
+      try {
+        setProjects(await listProjects(cwd));
+        setLoading(false);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load projects');
+        setLoading(false);
+      }
+    };
+
+    loadProjects();
+  }, [cwd]);
+
+  // disabledMcpServers turns direct servers off, so they have no paused state
+  const canPause = !!server && !server.sourceType.startsWith('direct');
+
+  // Projects a pending action would change
+  const affected = pending && server
+    ? projects.filter((p) => p.servers.some((s) => s.name === server.name && s.state !== pending.state))
+    : [];
+
+  // Handle keyboard input
+  useInput((input, key) => {
+    if (pending) {
+      if (input === 'y' && server && affected.length > 0) {
+        onApply(pending.action, server.name);
+        return;
+      }
+      if (key.escape || input === 'n' || input === 'y') {
+        setPending(null);
+      }
+      return;
+    }
+
+    if (key.escape || input === 'q' || input === 'g') {
+      onCancel();
+      return;
+    }
+
+    const bulk = ACTION_KEYS[input];
+    if (bulk && server && !server.flags.enterprise && (bulk.action !== 'pause' || canPause)) {
+      setPending(bulk);
+      return;
+    }
+
+    // Navigation
+    if (key.upArrow || input === 'k') {
+      setSelectedIndex((prev) => Math.max(0, prev - 1));
+      return;
+    }
+
+    if (key.downArrow || input === 'j') {
+      setSelectedIndex((prev) => Math.min(projects.length - 1, prev + 1));
+      return;
+    }
+  });
+
+  // Loading state
+  if (loading) {
+    return (
+      <Box
+        flexDirection="column"
+        borderStyle="round"
+        borderColor={colors.cyan}
+        paddingX={2}
+        paddingY={1}
+      >
+        <Text color={colors.cyan}>Loading projects...</Text>
+      </Box>
+    );
+  }
+
+  // Error state
+  if (error) {
+    return (
+      <Box
+        flexDirection="column"
+        borderStyle="round"
+        borderColor={colors.red}
+        paddingX={2}
+        paddingY={1}
+      >
+        <Text color={colors.red}>Error: {error}</Text>
+        <Box marginTop={1}>
+          <Text dimColor>Press <Text color={colors.red}>Esc</Text> to close</Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  // No projects yet
+  if (projects.length === 0) {
+    return (
+      <Box
+        flexDirection="column"
+        borderStyle="round"
+        borderColor={colors.yellow}
+        paddingX={2}
+        paddingY={1}
+      >
+        <Text bold color={colors.yellow}>
+          No projects in ~/.claude.json
+        </Text>
+        <Box marginTop={1}>
+          <Text dimColor>Press <Text color={colors.red}>Esc</Text> to close</Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  // Confirm a change to every project
+  if (pending && server) {
+    return (
+      <Box
+        flexDirection="column"
+        borderStyle="round"
+        borderColor={colors.yellow}
+        paddingX={2}
+        paddingY={1}
+        width={80}
+      >
+        <Box marginBottom={1}>
+          <Text bold color={colors.yellow}>
+            {pending.label} {server.name} in every project
+          </Text>
+        </Box>
+
+        <Box flexDirection="column" marginBottom={1}>
+          {affected.length === 0 ? (
+            <Text dimColor>Already {formatStateLabel(pending.state)} wherever it is configured</Text>
+          ) : (
+            <>
+              {affected.slice(0, MAX_VISIBLE).map((project) => (
+                <Text key={project.path} wrap="truncate-end">
+                  {'  '}{shortenPath(project.path)}
+                </Text>
+              ))}
+              {affected.length > MAX_VISIBLE && (
+                <Text dimColor>  ...and {affected.length - MAX_VISIBLE} more</Text>
+              )}
+            </>
+          )}
+        </Box>
+
+        <Box justifyContent="center">
+          <Text dimColor>
+            {affected.length > 0 && (
+              <>
+                <Text color={colors.green}>y</Text> Change {affected.length} project{affected.length === 1 ? '' : 's'}{' '}
+              </>
+            )}
+            <Text color={colors.red}>n/Esc</Text> Back
+          </Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  // Show every project
+  const startIndex = Math.max(0, selectedIndex - Math.floor(MAX_VISIBLE / 2));
+  const visibleProjects = projects.slice(startIndex, startIndex + MAX_VISIBLE);
+  const selected = projects[selectedIndex];
+  const stale = projects.filter((p) => !p.exists).length;
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="round"
+      borderColor={colors.cyan}
+      paddingX={2}
+      paddingY={1}
+      width={90}
+    >
+      {/* Title */}
+      <Box marginBottom={1}>
+        <Text bold color={colors.cyan}>
+          Projects
+        </Text>
+        <Text dimColor>
+          {' '}({projects.length} projects{stale > 0 ? `, ${stale} stale` : ''})
+        </Text>
+      </Box>
+
+      {/* Project list */}
+      <Box flexDirection="column" marginBottom={1}>
+        {visibleProjects.map((project, idx) => {
+          const actualIndex = startIndex + idx;
+          const isSelected = actualIndex === selectedIndex;
+          const serverState = server && project.servers.find((s) => s.name === server.name)?.state;
+
+          return (
+            <Box key={project.path}>
+              <Text
+                color={isSelected ? colors.cyan : undefined}
+                bold={isSelected}
+              >
+                {isSelected ? '▸ ' : '  '}
+              </Text>
+              {project.exists ? (
+                <Text>
+                  <Text color={colors.green}>●{String(countState(project, 'green')).padEnd(3)}</Text>
+                  <Text color={colors.orange}>◐{String(countState(project, 'orange')).padEnd(3)}</Text>
+                  <Text color={colors.red}>○{String(countState(project, 'red')).padEnd(3)}</Text>
+                </Text>
+              ) : (
+                <Text color={colors.yellow}>{'stale'.padEnd(12)}</Text>
+              )}
+              <Text
+                color={isSelected ? colors.white : colors.grey}
+                bold={isSelected}
+                wrap="truncate-start"
+              >
+                {shortenPath(project.path)}
+              </Text>
+              {project.current && <Text color={colors.cyan}> (current)</Text>}
+              {serverState && (
+                <Text color={STATE_COLOURS[serverState]}> {formatStateLabel(serverState)}</Text>
+              )}
+            </Box>
+          );
+        })}
+      </Box>
+
+      {/* Scroll indicator */}
+      {projects.length > MAX_VISIBLE && (
+        <Box marginBottom={1}>
+          <Text dimColor>
+            [{startIndex + 1}-{Math.min(startIndex + MAX_VISIBLE, projects.length)} of {projects.length}]
+          </Text>
+        </Box>
+      )}
+
+      {/* Selected project */}
+      {selected && (
+        <Box flexDirection="column" marginBottom={1}>
+          {selected.exists ? (
+            (['green', 'orange', 'red'] as const).map((state) => {
+              const names = selected.servers.filter((s) => s.state === state).map((s) => s.name);
+              return names.length > 0 ? (
+                <Text key={state} wrap="truncate-end">
+                  <Text color={STATE_COLOURS[state]}>{formatStateLabel(state).padEnd(16)}</Text> {names.join(', ')}
+                </Text>
+              ) : null;
+            })
+          ) : (
+            <Text color={colors.yellow} wrap="wrap">
+              Folder no longer exists; ~/.claude.json still holds its entry
+            </Text>
+          )}
+        </Box>
+      )}
+
+      {/* Hint */}
+      <Box justifyContent="center">
+        <Text dimColor>
+          <Text color={colors.cyan}>↑/k ↓/j</Text> Navigate{' '}
+          {server && !server.flags.enterprise && (
+            <>
+              <Text color={colors.red}>d</Text>/<Text color={colors.green}>e</Text>
+              {canPause && <>/<Text color={colors.orange}>p</Text></>}{' '}
+              {canPause ? 'Disable/enable/pause' : 'Disable/enable'} {server.name} everywhere{' '}
+            </>
+          )}
+          <Text color={colors.red}>Esc</Text> Close
+        </Text>
+      </Box>
+    </Box>
+  );
+};
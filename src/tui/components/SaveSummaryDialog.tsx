@@ -0,0 +1,192 @@
+/**
+ * SaveSummaryDialog component - Review pending changes before save
+ *
+ * Lists the servers whose state changes (grouped by the colour they end
+ * up as) and the servers removed this session, then each file the save
+ * would write with the keys and array entries it adds or removes.
+ * Enter saves, Esc goes back to the list.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import type { FileDiff, JsonChange, Server } from '@/types/index.js';
+import { getChangeSummary } from '@/core/config/state.js';
+import { getHomeDir } from '@/utils/platform.js';
+import { colors } from '../styles/colors.js';
+import { ChangeRow } from './ChangeRow.js';
+
+interface SaveSummaryDialogProps {
+  original: Server[];
+  servers: Server[];
+  cwd: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/** A file heading or one of its changes */
+type ReviewLine = { file: FileDiff } | { change: JsonChange };
+
+const MAX_VISIBLE = 12;
+
+function shortenPath(path: string): string {
+  const home = getHomeDir();
+  return path.startsWith(home) ? `~${path.slice(home.length)}` : path;
+}
+
+const ChangeGroup: React.FC<{ label: string; names: string[]; color: string; symbol: string }> = ({
+  label,
+  names,
+  color,
+  symbol,
+}) => {
+  if (names.length === 0) return null;
+
+  return (
+    <Text wrap="wrap">
+      <Text color={color}>{symbol}</Text> <Text bold color={color}>{label}:</Text> {names.join(', ')}
+    </Text>
+  );
+};
+
+const FileHeading: React.FC<{ file: FileDiff }> = ({ file }) => (
+  <Text bold>
+    {shortenPath(file.path)}
+    <Text dimColor>
+      {!file.exists && ' (new file)'}
+      {file.changes.length === 0 && ' (no changes)'}
+    </Text>
+  </Text>
+);
+
+export const SaveSummaryDialog: React.FC<SaveSummaryDialogProps> = ({
+  original,
+  servers,
+  cwd,
+  onConfirm,
+  onCancel,
+}) => {
+  const [files, setFiles] = useState<FileDiff[]>([]);
+  const [offset, setOffset] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const summary = getChangeSummary(original, servers);
+  const changed =
+    summary.enabled.length + summary.paused.length + summary.disabled.length + summary.removed.length;
+
+  // Simulate the save on mount
+  useEffect(() => {
+    const loadPreview = async () => {
+      try {
+        const { previewServerStates } = await import('@/core/config/state.js');
+        setFiles(await previewServerStates(servers, cwd));
+        setLoading(false);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to preview changes');
+        setLoading(false);
+      }
+    };
+
+    loadPreview();
+  }, [servers, cwd]);
+
+  const lines: ReviewLine[] = files.flatMap((file) => [
+    { file },
+    ...file.changes.map((change) => ({ change })),
+  ]);
+
+  // Handle keyboard input
+  useInput((input, key) => {
+    if (key.escape) {
+      onCancel();
+      return;
+    }
+
+    if (key.return && !loading) {
+      onConfirm();
+      return;
+    }
+
+    // Scroll file changes
+    if (key.upArrow || input === 'k') {
+      setOffset((prev) => Math.max(0, prev - 1));
+      return;
+    }
+
+    if (key.downArrow || input === 'j') {
+      setOffset((prev) => Math.min(Math.max(0, lines.length - MAX_VISIBLE), prev + 1));
+      return;
+    }
+  });
+
+  const visibleLines = lines.slice(offset, offset + MAX_VISIBLE);
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="round"
+      borderColor={colors.cyan}
+      paddingX={2}
+      paddingY={1}
+      width={80}
+    >
+      {/* Title */}
+      <Box marginBottom={1}>
+        <Text bold color={colors.cyan}>
+          Review Changes
+        </Text>
+        <Text dimColor> ({changed} server{changed === 1 ? '' : 's'})</Text>
+      </Box>
+
+      {/* Server changes by resulting state */}
+      <Box flexDirection="column" marginBottom={1}>
+        <ChangeGroup label="Enable" names={summary.enabled} color={colors.green} symbol="●" />
+        <ChangeGroup label="Pause" names={summary.paused} color={colors.orange} symbol="●" />
+        <ChangeGroup label="Disable" names={summary.disabled} color={colors.red} symbol="●" />
+        <ChangeGroup label="Remove" names={summary.removed} color={colors.red} symbol="✗" />
+        {changed === 0 && <Text dimColor>No server changes state</Text>}
+      </Box>
+
+      {/* File changes */}
+      <Box flexDirection="column" marginBottom={1}>
+        {loading ? (
+          <Text color={colors.cyan}>Comparing with files on disk...</Text>
+        ) : error ? (
+          <Text color={colors.red}>Error: {error}</Text>
+        ) : (
+          visibleLines.map((line, idx) =>
+            'file' in line ? (
+              <FileHeading key={`${offset + idx}`} file={line.file} />
+            ) : (
+              <Box key={`${offset + idx}`} paddingLeft={2}>
+                <ChangeRow change={line.change} />
+              </Box>
+            )
+          )
+        )}
+      </Box>
+
+      {/* Scroll indicator */}
+      {lines.length > MAX_VISIBLE && (
+        <Box marginBottom={1}>
+          <Text dimColor>
+            [{offset + 1}-{Math.min(offset + MAX_VISIBLE, lines.length)} of {lines.length}]
+          </Text>
+        </Box>
+      )}
+
+      {/* Hint */}
+      <Box justifyContent="center">
+        <Text dimColor>
+          {lines.length > MAX_VISIBLE && (
+            <>
+              <Text color={colors.cyan}>↑/k ↓/j</Text> Scroll{' '}
+            </>
+          )}
+          <Text color={colors.green}>Enter</Text> Save and launch{' '}
+          <Text color={colors.red}>Esc</Text> Back to editing
+        </Text>
+      </Box>
+    </Box>
+  );
+};
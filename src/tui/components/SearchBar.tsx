@@ -38,7 +38,7 @@ export const SearchBar: React.FC = () => {
       {searchQuery ? (
         <Text color={colors.white}>{searchQuery}</Text>
       ) : (
-        <Text dimColor>Search servers...</Text>
+        <Text dimColor>Search servers... (time*, /^git/, source:plugin, state:orange)</Text>
       )}
       <Text color={colors.cyan}>▌</Text>
       <Text dimColor> ({matchCount} matches)</Text>
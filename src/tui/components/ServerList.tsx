@@ -5,13 +5,16 @@
  * - minimal (<60): Name + abbreviated type, no scope
  * - compact (60-79): Name + type + abbreviated scope
  * - standard/wide (80+): Full columns
+ *
+ * Tokens and health columns are added (outside minimal mode) once servers
+ * have an inventory or have been probed. 't' sorts by tokens.
  */
 
 import React, { useMemo } from 'react';
 import { Box, Text, useStdout } from 'ink';
-import type { Server, FilterType } from '@/types/index.js';
+import type { Server, FilterType, HealthCheckResult, ServerInventory } from '@/types/index.js';
 import { ServerRow } from './ServerRow.js';
-import { colors } from '../styles/colors.js';
+import { colors, HEALTH_COLUMN_WIDTH, TOKENS_COLUMN_WIDTH } from '../styles/colors.js';
 import { calculateColumnWidths, getLayoutMode } from '@/utils/terminal.js';
 
 interface ServerListProps {
@@ -20,6 +23,9 @@ interface ServerListProps {
   filter: FilterType;
   fullWidth?: boolean;
   terminalColumns?: number;
+  health?: Record<string, HealthCheckResult>;
+  inventory?: Record<string, ServerInventory>;
+  sortByTokens?: boolean;
 }
 
 export const ServerList: React.FC<ServerListProps> = ({
@@ -28,6 +34,9 @@ export const ServerList: React.FC<ServerListProps> = ({
   filter,
   fullWidth = false,
   terminalColumns,
+  health = {},
+  inventory = {},
+  sortByTokens = false,
 }) => {
   const { stdout } = useStdout();
   const terminalHeight = stdout?.rows ?? 24;
@@ -63,11 +72,18 @@ export const ServerList: React.FC<ServerListProps> = ({
   // Column header labels based on layout
   const typeHeader = layout === 'minimal' ? 'Type' : 'Source';
   const scopeHeader = layout === 'compact' ? 'Scope' : 'Scope';
+  const showHealth = layout !== 'minimal' && Object.keys(health).length > 0;
+  const showTokens = layout !== 'minimal' && (sortByTokens || Object.keys(inventory).length > 0);
+  const tokensHeader = sortByTokens ? 'Tokens↓' : 'Tokens';
+  const padScope = showHealth || showTokens;
 
   // Calculate width: use percentage up to a max, then cap
-  // Content width = status(3) + name + separator(3) + type + separator(3) + scope + padding(4)
+  // Content width = status(3) + name + separator(3) + type + separator(3) + scope
+  //                 + separator(3) + tokens + separator(3) + health + padding(4)
   const contentWidth = 3 + columnWidths.nameWidth + 3 + columnWidths.typeWidth +
-    (columnWidths.showScope ? 3 + columnWidths.scopeWidth : 0) + 4;
+    (columnWidths.showScope ? 3 + columnWidths.scopeWidth : 0) +
+    (showTokens ? 3 + TOKENS_COLUMN_WIDTH : 0) +
+    (showHealth ? 3 + HEALTH_COLUMN_WIDTH : 0) + 4;
   const maxListWidth = 100;
   const percentageWidth = Math.floor(columns * 0.7);
   const calculatedWidth = fullWidth
@@ -92,9 +108,11 @@ export const ServerList: React.FC<ServerListProps> = ({
           {columnWidths.showScope && (
             <>
               {' │ '}
-              {scopeHeader}
+              {padScope ? scopeHeader.padEnd(columnWidths.scopeWidth) : scopeHeader}
             </>
           )}
+          {showTokens && ` │ ${tokensHeader.padStart(TOKENS_COLUMN_WIDTH)}`}
+          {showHealth && `${' │ '}Health`}
           {filterLabel && <Text color={colors.cyan}>{filterLabel}</Text>}
         </Text>
       </Box>
@@ -110,6 +128,8 @@ export const ServerList: React.FC<ServerListProps> = ({
               {'─'.repeat(columnWidths.scopeWidth)}
             </>
           )}
+          {showTokens && `─┼─${'─'.repeat(TOKENS_COLUMN_WIDTH)}`}
+          {showHealth && `─┼─${'─'.repeat(HEALTH_COLUMN_WIDTH)}`}
         </Text>
       </Box>
 
@@ -128,6 +148,10 @@ export const ServerList: React.FC<ServerListProps> = ({
             typeWidth={columnWidths.typeWidth}
             scopeWidth={columnWidths.scopeWidth}
             showScope={columnWidths.showScope}
+            showHealth={showHealth}
+            health={health[server.name]}
+            showTokens={showTokens}
+            tokens={inventory[server.name]?.tokens}
             layout={layout}
           />
         ))
@@ -5,13 +5,25 @@
  * - Truncating long server names
  * - Using abbreviated type labels in minimal mode
  * - Hiding scope column in minimal mode
+ *
+ * The health and tokens columns only appear once servers have been probed
+ * (r) or have a cached inventory.
  */
 
 import React from 'react';
 import { Box, Text } from 'ink';
-import type { Server } from '@/types/index.js';
+import type { Server, HealthCheckResult } from '@/types/index.js';
 import { getDisplayState } from '@/core/servers/toggle.js';
-import { colors, stateColors, stateSymbols, flagIndicators } from '../styles/colors.js';
+import {
+  colors,
+  stateColors,
+  stateSymbols,
+  flagIndicators,
+  healthColors,
+  healthLabels,
+  HEALTH_COLUMN_WIDTH,
+  TOKENS_COLUMN_WIDTH,
+} from '../styles/colors.js';
 import { truncateString, type LayoutMode } from '@/utils/terminal.js';
 
 interface ServerRowProps {
@@ -21,6 +33,10 @@ interface ServerRowProps {
   typeWidth: number;
   scopeWidth: number;
   showScope: boolean;
+  showHealth: boolean;
+  health?: HealthCheckResult;
+  showTokens: boolean;
+  tokens?: number;
   layout: LayoutMode;
 }
 
@@ -29,7 +45,12 @@ export const ServerRow: React.FC<ServerRowProps> = ({
   isSelected,
   nameWidth,
   typeWidth,
+  scopeWidth,
   showScope,
+  showHealth,
+  health,
+  showTokens,
+  tokens,
   layout,
 }) => {
   const displayState = getDisplayState(server);
@@ -61,6 +82,7 @@ export const ServerRow: React.FC<ServerRowProps> = ({
   const truncatedName = truncateString(nameWithFlags, nameWidth - 1);
   const paddedName = truncatedName.padEnd(nameWidth);
   const paddedType = sourceLabel.padEnd(typeWidth);
+  const paddedScope = showHealth || showTokens ? scopeLabel.padEnd(scopeWidth) : scopeLabel;
 
   return (
     <Box>
@@ -76,7 +98,23 @@ export const ServerRow: React.FC<ServerRowProps> = ({
         {showScope && (
           <>
             <Text dimColor> │ </Text>
-            <Text dimColor>{scopeLabel}</Text>
+            <Text dimColor>{paddedScope}</Text>
+          </>
+        )}
+        {showTokens && (
+          <>
+            <Text dimColor> │ </Text>
+            <Text dimColor={tokens === undefined}>
+              {(tokens === undefined ? '-' : `~${tokens}`).padStart(TOKENS_COLUMN_WIDTH)}
+            </Text>
+          </>
+        )}
+        {showHealth && (
+          <>
+            <Text dimColor> │ </Text>
+            <Text color={health && !isSelected ? healthColors[health.status] : undefined} dimColor={!health}>
+              {(health ? healthLabels[health.status] : '-').padEnd(HEALTH_COLUMN_WIDTH)}
+            </Text>
           </>
         )}
         {' '}
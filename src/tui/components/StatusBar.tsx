@@ -121,6 +121,8 @@ const StandardStatusBar: React.FC<StatusBarProps> = ({ filter }) => {
         <Sep />
         <Shortcut k={`${ALT_KEY}D`} label="Disable All" />
         <Sep />
+        <Shortcut k="u" label="Undo" />
+        <Sep />
         <Shortcut k="/" label="Search" />
         <Sep />
         <Shortcut k="?" label="Help" />
@@ -159,6 +161,8 @@ const WideStatusBar: React.FC<StatusBarProps> = ({ filter }) => {
         <Sep />
         <Shortcut k="Alt-D" label="Off All" />
         <Sep />
+        <Shortcut k="u" label="Undo" />
+        <Sep />
         <Shortcut k="/" label="Search" />
         <Sep />
         <Shortcut k="?" label="Help" />
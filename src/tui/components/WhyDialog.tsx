@@ -0,0 +1,177 @@
+/**
+ * WhyDialog component - Explain the selected server's state
+ *
+ * Shows the same explanation as mcp why for the configuration on disk:
+ * the winning definition and state entries, enableAllProjectMcpServers,
+ * enterprise access and the edits that would change the outcome.
+ * Uses 'w' key to trigger.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import type { DisplayState, Server, ServerExplanation, WhyEntry } from '@/types/index.js';
+import { getDisplayState } from '@/core/servers/toggle.js';
+import { formatStateLabel, loadServerExplanation } from '@/core/config/explain.js';
+import { getHomeDir } from '@/utils/platform.js';
+import { colors } from '../styles/colors.js';
+
+interface WhyDialogProps {
+  server: Server;
+  cwd: string;
+  onClose: () => void;
+}
+
+const STATE_COLOURS: Record<DisplayState, string> = {
+  green: colors.green,
+  orange: colors.orange,
+  red: colors.red,
+};
+
+function shortenPath(path: string): string {
+  const home = getHomeDir();
+  return path.startsWith(home) ? `~${path.slice(home.length)}` : path;
+}
+
+const EntryRow: React.FC<{ entry: WhyEntry }> = ({ entry }) => (
+  <Text wrap="truncate-end" dimColor={!entry.won}>
+    <Text color={entry.won ? colors.green : undefined}>{entry.won ? '→' : ' '}</Text> [{entry.priority}]{' '}
+    {entry.scope.padEnd(10)} {entry.key} <Text dimColor>{shortenPath(entry.file)}</Text>
+  </Text>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <Box flexDirection="column" marginBottom={1}>
+    <Text bold color={colors.cyan}>{title}</Text>
+    {children}
+  </Box>
+);
+
+export const WhyDialog: React.FC<WhyDialogProps> = ({ server, cwd, onClose }) => {
+  const [explanation, setExplanation] = useState<ServerExplanation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Explain the saved configuration on mount
+  useEffect(() => {
+    const loadExplanation = async () => {
+      try {
+        const result = await loadServerExplanation(server.name, cwd);
+        if (result) {
+          setExplanation(result);
+        } else {
+          setError('Not saved yet: this server only exists in this session');
+        }
+        setLoading(false);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to explain server');
+        setLoading(false);
+      }
+    };
+
+    loadExplanation();
+  }, [server.name, cwd]);
+
+  // Handle keyboard input
+  useInput((input, key) => {
+    if (key.escape || input === 'w' || input === 'q') {
+      onClose();
+    }
+  });
+
+  const pending = getDisplayState(server);
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="round"
+      borderColor={colors.cyan}
+      paddingX={2}
+      paddingY={1}
+      width={90}
+    >
+      {/* Title */}
+      <Box marginBottom={1}>
+        <Text bold color={colors.cyan}>
+          Why: {server.name}
+        </Text>
+        {explanation && (
+          <Text>
+            {' '}is <Text color={STATE_COLOURS[explanation.state]}>{formatStateLabel(explanation.state)}</Text>
+          </Text>
+        )}
+      </Box>
+
+      {loading ? (
+        <Text color={colors.cyan}>Reading configuration...</Text>
+      ) : error || !explanation ? (
+        <Box marginBottom={1}>
+          <Text color={colors.red}>Error: {error}</Text>
+        </Box>
+      ) : (
+        <>
+          {pending !== explanation.state && (
+            <Box marginBottom={1}>
+              <Text color={colors.yellow}>
+                Unsaved: becomes <Text color={STATE_COLOURS[pending]}>{formatStateLabel(pending)}</Text> when you save
+              </Text>
+            </Box>
+          )}
+
+          <Text dimColor>Scope priority: enterprise 4 &gt; local 3 &gt; project 2 &gt; user 1</Text>
+          <Box marginBottom={1} />
+
+          <Section title="Definition">
+            {explanation.definition.entries.map((entry, idx) => (
+              <EntryRow key={idx} entry={entry} />
+            ))}
+          </Section>
+
+          <Section title="State">
+            {explanation.control.entries.map((entry, idx) => (
+              <EntryRow key={idx} entry={entry} />
+            ))}
+            {!explanation.control.entries.some((entry) => entry.won) && (
+              <Text wrap="wrap">{explanation.control.reason}</Text>
+            )}
+            {explanation.control.paused && (
+              <Text wrap="wrap">
+                <Text color={colors.orange}>Paused:</Text> {explanation.control.paused}
+              </Text>
+            )}
+          </Section>
+
+          <Section title="enableAllProjectMcpServers">
+            <Text wrap="wrap">
+              {explanation.enableAllProjectMcpServers.applies && <Text color={colors.green}>Applies. </Text>}
+              {explanation.enableAllProjectMcpServers.reason}
+            </Text>
+          </Section>
+
+          <Section title="Enterprise access">
+            <Text wrap="wrap">
+              <Text color={explanation.access.allowed ? colors.green : colors.red}>
+                {explanation.access.allowed ? 'Allowed' : 'Not allowed'}
+              </Text>
+              : {explanation.access.reason}
+            </Text>
+          </Section>
+
+          {explanation.changes.length > 0 && (
+            <Section title="To change this">
+              {explanation.changes.map((change, idx) => (
+                <Text key={idx} wrap="wrap">• {change}</Text>
+              ))}
+            </Section>
+          )}
+        </>
+      )}
+
+      {/* Hint */}
+      <Box justifyContent="center">
+        <Text dimColor>
+          <Text color={colors.red}>Esc</Text> Close
+        </Text>
+      </Box>
+    </Box>
+  );
+};
@@ -55,14 +55,34 @@ interface KeyBindingHandlers {
   onEnableAll: () => void;
   onDisableAll: () => void;
 
-  // Add/Remove/Install
+  // Add/Edit/Remove/Install
   onAdd: () => void;
+  onEdit: () => void;
   onRemove: () => void;
   onInstall: () => void;
 
+  // Profiles
+  onProfiles: () => void;
+
+  // Backup history
+  onBackups: () => void;
+
+  // Explain state
+  onWhy: () => void;
+
+  // Every project
+  onProjects: () => void;
+
   // Refresh
   onRefresh: () => void;
 
+  // History
+  onUndo: () => void;
+  onRedo: () => void;
+
+  // Sorting
+  onToggleSort: () => void;
+
   // Filters
   onSetFilter: (filter: FilterType) => void;
 
@@ -232,6 +252,42 @@ export function useKeyBindings(handlers: KeyBindingHandlers): void {
       return;
     }
 
+    // Edit definition with 'e'
+    if (input === 'e') {
+      handlers.onEdit();
+      return;
+    }
+
+    // Sort by estimated tokens with 't'
+    if (input === 't') {
+      handlers.onToggleSort();
+      return;
+    }
+
+    // Profile picker with 'p'
+    if (input === 'p') {
+      handlers.onProfiles();
+      return;
+    }
+
+    // Backup history with 'h'
+    if (input === 'h') {
+      handlers.onBackups();
+      return;
+    }
+
+    // Explain the selected server's state with 'w'
+    if (input === 'w') {
+      handlers.onWhy();
+      return;
+    }
+
+    // Every project in ~/.claude.json with 'g'
+    if (input === 'g') {
+      handlers.onProjects();
+      return;
+    }
+
     // Search with '/'
     if (input === '/') {
       handlers.onSearch();
@@ -260,11 +316,23 @@ export function useKeyBindings(handlers: KeyBindingHandlers): void {
           handlers.onRemove();
           return;
         case 'r':
-          handlers.onRefresh();
+          handlers.onRedo();
           return;
       }
     }
 
+    // Undo with 'u' (redo is Ctrl-R)
+    if (input === 'u') {
+      handlers.onUndo();
+      return;
+    }
+
+    // Check server health with 'r' (after Ctrl keys, which arrive as the plain letter)
+    if (input === 'r') {
+      handlers.onRefresh();
+      return;
+    }
+
     // Save with Enter
     if (key.return) {
       void handlers.onSave();
@@ -3,10 +3,22 @@
  */
 
 import { create } from 'zustand';
-import type { Server, FilterType } from '@/types/index.js';
+import type {
+  Server,
+  FilterType,
+  Profile,
+  ServerDefinition,
+  HealthCheckResult,
+  ServerInventory,
+  BudgetConfigSchema,
+  ConfigValidation,
+  ProjectAction,
+} from '@/types/index.js';
 import { extractRawDefinitions } from '@/core/config/discovery.js';
 import { resolveServers } from '@/core/config/precedence.js';
 import { saveServerStates } from '@/core/config/state.js';
+import { validateConfigSources } from '@/core/config/validation.js';
+import { mergeReloadedServers, sameServers } from '@/core/config/watch.js';
 import {
   toggleServer,
   applyToggle,
@@ -15,8 +27,22 @@ import {
   applyStrictDisable,
   getDisplayState,
 } from '@/core/servers/toggle.js';
+import { searchServers } from '@/core/servers/selector.js';
+import { applyProfileToServers, type ProfileApplyResult } from '@/core/profiles/profiles.js';
+import type { DefinitionEdit, DefinitionScope } from '@/core/servers/definitions.js';
 
-export type TuiMode = 'list' | 'add' | 'install' | 'confirm-delete' | 'confirm-hard-disable' | 'migrate' | 'search' | 'help';
+export type TuiMode = 'list' | 'add' | 'edit' | 'install' | 'profiles' | 'backups' | 'why' | 'projects' | 'confirm-save' | 'confirm-delete' | 'confirm-hard-disable' | 'migrate' | 'search' | 'help';
+
+/** Maximum undo steps kept per session */
+const HISTORY_LIMIT = 100;
+
+/** Server list before an undoable change */
+export interface HistoryEntry {
+  /** What the change did, e.g. "disable all" */
+  label: string;
+  servers: Server[];
+  dirty: boolean;
+}
 
 /** Toast notification */
 export interface Notification {
@@ -48,12 +74,36 @@ interface TuiState {
   // Notifications
   notifications: Notification[];
 
+  // Health probe results by server name (kept apart from Server.runtime,
+  // which drives the ORANGE display state)
+  health: Record<string, HealthCheckResult>;
+  probing: boolean;
+
+  // Tool inventories by server name (from cache on load, refreshed by probing)
+  inventory: Record<string, ServerInventory>;
+  sortByTokens: boolean;
+
+  // Context budget settings (mcp budget --save / --pin)
+  budget: BudgetConfigSchema;
+
+  // Undo/redo of unsaved changes (cleared when definitions are written)
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+
+  // Whether the last load converted ORANGE to RED (reapplied on reload)
+  strictDisable: boolean;
+
+  // Config files with syntax or schema errors (shown as a banner)
+  configProblems: ConfigValidation[];
+
   // Actions
   load: (cwd: string, strictDisable?: boolean) => Promise<void>;
+  reload: (cwd: string) => Promise<void>;
   setSelectedIndex: (index: number) => void;
   moveSelection: (delta: number) => void;
   setFilter: (filter: FilterType) => void;
   setMode: (mode: TuiMode, target?: string) => void;
+  toggleSortByTokens: () => void;
 
   // Search actions
   setSearchQuery: (query: string) => void;
@@ -64,16 +114,24 @@ interface TuiState {
   addNotification: (type: Notification['type'], message: string) => void;
   dismissNotification: (id: string) => void;
 
+  // History actions (return the label of the change, or null)
+  undo: () => string | null;
+  redo: () => string | null;
+
   // Server operations
   toggle: () => void;
   enableAll: () => void;
   disableAll: () => void;
-  addServer: (name: string) => void;
+  applyProfile: (profile: Profile) => ProfileApplyResult[];
+  addServer: (name: string, definition: ServerDefinition, scope: DefinitionScope, cwd: string) => Promise<boolean>;
+  editServer: (name: string, edits: DefinitionEdit[], cwd: string) => Promise<boolean>;
   removeServer: (name: string) => void;
   hardDisablePlugin: (name: string) => void;
   migrateServer: (cwd: string) => Promise<boolean>;
   installPlugin: (pluginName: string, marketplace: string, cwd: string) => Promise<boolean>;
-  refreshRuntimeStatus: () => Promise<void>;
+  restoreBackup: (id: string, mcpOnly: boolean, cwd: string) => Promise<boolean>;
+  applyToAllProjects: (action: ProjectAction, name: string, cwd: string) => Promise<boolean>;
+  refreshRuntimeStatus: (cwd: string) => Promise<void>;
   save: (cwd: string) => Promise<boolean>;
 
   // Computed
@@ -81,6 +139,51 @@ interface TuiState {
   getSelectedServer: () => Server | undefined;
 }
 
+/**
+ * Reload servers after a definition was written, keeping unsaved
+ * state changes to the servers already in the list
+ */
+async function reloadDefinitions(cwd: string, current: Server[]): Promise<Server[]> {
+  const reloaded = resolveServers(await extractRawDefinitions(cwd));
+
+  return reloaded.map((fresh) => {
+    const existing = current.find((s) => s.name === fresh.name);
+    return existing
+      ? {
+          ...existing,
+          scope: fresh.scope,
+          definitionFile: fresh.definitionFile,
+          sourceType: fresh.sourceType,
+          definition: fresh.definition,
+        }
+      : fresh;
+  });
+}
+
+/**
+ * State update for an undoable change to the server list
+ *
+ * Records the current servers so undo() can return to them; a new change
+ * discards anything that was undone.
+ */
+function recordChange(state: TuiState, label: string, servers: Server[]): Partial<TuiState> {
+  return {
+    servers,
+    dirty: true,
+    past: [...state.past, { label, servers: state.servers, dirty: state.dirty }].slice(-HISTORY_LIMIT),
+    future: [],
+  };
+}
+
+/**
+ * Validate the config files in the background - never blocks loading
+ */
+function refreshConfigProblems(cwd: string, set: (state: Partial<TuiState>) => void): void {
+  validateConfigSources(cwd)
+    .then((results) => set({ configProblems: results.filter((r) => !r.valid) }))
+    .catch(() => {});
+}
+
 export const useTuiStore = create<TuiState>((set, get) => ({
   // Initial state
   servers: [],
@@ -95,6 +198,15 @@ export const useTuiStore = create<TuiState>((set, get) => ({
   searchQuery: '',
   searchActive: false,
   notifications: [],
+  health: {},
+  probing: false,
+  inventory: {},
+  sortByTokens: false,
+  budget: {},
+  past: [],
+  future: [],
+  strictDisable: false,
+  configProblems: [],
 
   // Load servers from config
   load: async (cwd: string, strictDisable?: boolean) => {
@@ -114,7 +226,21 @@ export const useTuiStore = create<TuiState>((set, get) => ({
         originalServers: JSON.parse(JSON.stringify(servers)),
         loading: false,
         selectedIndex: 0,
+        past: [],
+        future: [],
+        strictDisable: !!strictDisable,
       });
+
+      // Cached tool inventories are optional - never block loading on them
+      import('@/core/mcp/inventory.js')
+        .then(({ loadCachedInventories }) => loadCachedInventories(servers))
+        .then((inventory) => set({ inventory }))
+        .catch(() => {});
+      import('@/core/budget/budget.js')
+        .then(({ loadBudgetConfig }) => loadBudgetConfig())
+        .then((budget) => set({ budget }))
+        .catch(() => {});
+      refreshConfigProblems(cwd, set);
     } catch (error) {
       set({
         error: error instanceof Error ? error.message : 'Failed to load servers',
@@ -123,6 +249,51 @@ export const useTuiStore = create<TuiState>((set, get) => ({
     }
   },
 
+  // Reload after a config file changed on disk, keeping unsaved changes
+  reload: async (cwd: string) => {
+    if (get().loading) return;
+    refreshConfigProblems(cwd, set);
+
+    try {
+      let fresh = resolveServers(await extractRawDefinitions(cwd));
+      if (get().strictDisable) {
+        fresh = applyStrictDisable(fresh);
+      }
+
+      // Read the session state after the await - keys may have been pressed
+      const { servers, originalServers, past, future, selectedIndex } = get();
+      if (sameServers(originalServers, fresh)) return;
+
+      const merged = mergeReloadedServers(originalServers, servers, fresh);
+      const rebase = (entry: HistoryEntry): HistoryEntry => ({
+        ...entry,
+        servers: mergeReloadedServers(originalServers, entry.servers, fresh).servers,
+      });
+
+      set({
+        servers: merged.servers,
+        originalServers: JSON.parse(JSON.stringify(fresh)),
+        dirty: !sameServers(merged.servers, fresh),
+        selectedIndex: Math.max(0, Math.min(selectedIndex, merged.servers.length - 1)),
+        past: past.map(rebase),
+        future: future.map(rebase),
+      });
+
+      if (merged.conflicts.length > 0) {
+        get().addNotification('warning', `Also changed on disk: ${merged.conflicts.join(', ')} - kept your unsaved changes`);
+      }
+      if (merged.removed.length > 0) {
+        get().addNotification('warning', `Removed on disk: ${merged.removed.join(', ')} - your changes to them were dropped`);
+      }
+      // Writes made by the TUI itself are already in the list - reload quietly
+      if (merged.conflicts.length === 0 && merged.removed.length === 0 && !sameServers(merged.servers, servers)) {
+        get().addNotification('info', 'Reloaded: configuration changed on disk');
+      }
+    } catch {
+      // Keep the current list - the next change reloads again
+    }
+  },
+
   // Selection
   setSelectedIndex: (index: number) => {
     const filtered = get().getFilteredServers();
@@ -147,6 +318,11 @@ export const useTuiStore = create<TuiState>((set, get) => ({
     set({ mode, confirmTarget: target ?? null });
   },
 
+  // Sort by estimated tokens (highest first) or config order
+  toggleSortByTokens: () => {
+    set((state) => ({ sortByTokens: !state.sortByTokens, selectedIndex: 0 }));
+  },
+
   // Search
   setSearchQuery: (query: string) => {
     set({ searchQuery: query, selectedIndex: 0 });
@@ -174,6 +350,38 @@ export const useTuiStore = create<TuiState>((set, get) => ({
     }));
   },
 
+  // Undo the last change to the server list
+  undo: () => {
+    const { past, future, servers, dirty } = get();
+    const entry = past[past.length - 1];
+    if (!entry) return null;
+
+    set({
+      servers: entry.servers,
+      dirty: entry.dirty,
+      past: past.slice(0, -1),
+      future: [...future, { label: entry.label, servers, dirty }],
+    });
+    get().setSelectedIndex(get().selectedIndex);
+    return entry.label;
+  },
+
+  // Redo the last undone change
+  redo: () => {
+    const { past, future, servers, dirty } = get();
+    const entry = future[future.length - 1];
+    if (!entry) return null;
+
+    set({
+      servers: entry.servers,
+      dirty: entry.dirty,
+      past: [...past, { label: entry.label, servers, dirty }],
+      future: future.slice(0, -1),
+    });
+    get().setSelectedIndex(get().selectedIndex);
+    return entry.label;
+  },
+
   // Toggle current server
   toggle: () => {
     const { servers, getSelectedServer } = get();
@@ -190,49 +398,95 @@ export const useTuiStore = create<TuiState>((set, get) => ({
     const updated = [...servers];
     updated[index] = applyToggle(selected, result.newState);
 
-    set({ servers: updated, dirty: true });
+    set(recordChange(get(), `toggle ${selected.name}`, updated));
   },
 
   // Enable all
   enableAll: () => {
-    const { servers } = get();
-    set({ servers: enableAllServers(servers), dirty: true });
+    set(recordChange(get(), 'enable all', enableAllServers(get().servers)));
   },
 
   // Disable all
   disableAll: () => {
-    const { servers } = get();
-    set({ servers: disableAllServers(servers), dirty: true });
+    set(recordChange(get(), 'disable all', disableAllServers(get().servers)));
   },
 
-  // Add server (placeholder - needs .mcp.json integration)
-  addServer: (name: string) => {
+  // Apply a saved profile (written on save like any other change)
+  applyProfile: (profile: Profile) => {
     const { servers } = get();
-    if (servers.some((s) => s.name === name)) return;
-
-    const newServer: Server = {
-      name,
-      state: 'on',
-      scope: 'project',
-      definitionFile: './.mcp.json',
-      sourceType: 'mcpjson',
-      flags: { enterprise: false, blocked: false, restricted: false },
-      runtime: 'unknown',
-    };
+    const result = applyProfileToServers(servers, profile);
+    const changed = result.results.some((r) => r.success);
 
-    set({
-      servers: [...servers, newServer].sort((a, b) => a.name.localeCompare(b.name)),
-      dirty: true,
-      mode: 'list',
-    });
+    if (changed) {
+      set({ ...recordChange(get(), 'apply profile', result.servers), mode: 'list' });
+    } else {
+      set({ mode: 'list' });
+    }
+
+    return result.results;
+  },
+
+  // Add server - writes the definition immediately (like migrate/install)
+  addServer: async (name: string, definition: ServerDefinition, scope: DefinitionScope, cwd: string) => {
+    try {
+      const { addServerDefinition } = await import('@/core/servers/definitions.js');
+
+      const location = addServerDefinition(name, definition, scope, cwd);
+
+      // Reload to pick up the new server with correct flags
+      const merged = await reloadDefinitions(cwd, get().servers);
+
+      set({
+        servers: merged,
+        // New .mcp.json servers need an enabledMcpjsonServers entry on save
+        dirty: get().dirty || location.sourceType === 'mcpjson',
+        mode: 'list',
+        // Undoing to a list without the new server would drop it from the save
+        past: [],
+        future: [],
+      });
+
+      return true;
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to add server',
+        mode: 'list',
+      });
+      return false;
+    }
+  },
+
+  // Edit server definition - written immediately with a backup
+  editServer: async (name: string, edits: DefinitionEdit[], cwd: string) => {
+    try {
+      const { editServerDefinition } = await import('@/core/servers/definitions.js');
+
+      await editServerDefinition(name, edits, cwd);
+
+      set({
+        servers: await reloadDefinitions(cwd, get().servers),
+        mode: 'list',
+        confirmTarget: null,
+        past: [],
+        future: [],
+      });
+
+      return true;
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to edit server',
+        mode: 'list',
+        confirmTarget: null,
+      });
+      return false;
+    }
   },
 
   // Remove server
   removeServer: (name: string) => {
     const { servers } = get();
     set({
-      servers: servers.filter((s) => s.name !== name),
-      dirty: true,
+      ...recordChange(get(), `remove ${name}`, servers.filter((s) => s.name !== name)),
       mode: 'list',
       confirmTarget: null,
     });
@@ -257,13 +511,63 @@ export const useTuiStore = create<TuiState>((set, get) => ({
     );
 
     set({
-      servers: updated,
-      dirty: true,
+      ...recordChange(get(), `hard disable ${name}`, updated),
       mode: 'list',
       confirmTarget: null,
     });
   },
 
+  // Restore a configuration backup - written immediately, then reloaded
+  restoreBackup: async (id: string, mcpOnly: boolean, cwd: string) => {
+    try {
+      const { findBackup, restoreBackup } = await import('@/core/backups/backups.js');
+
+      restoreBackup(findBackup(id), { mcpOnly });
+
+      set({ mode: 'list', dirty: false });
+      await get().load(cwd);
+      return true;
+    } catch (error) {
+      set({ mode: 'list' });
+      get().addNotification('error', `Restore failed: ${error instanceof Error ? error.message : error}`);
+      return false;
+    }
+  },
+
+  // Change one server in every project - written immediately, then reloaded
+  applyToAllProjects: async (action: ProjectAction, name: string, cwd: string) => {
+    // Reloading afterwards would drop unsaved changes
+    if (get().dirty) {
+      get().addNotification('warning', 'Save or undo your changes before changing every project');
+      return false;
+    }
+
+    try {
+      const { applyToProjects } = await import('@/core/config/projects.js');
+      const { results, errors } = await applyToProjects(action, { names: [name], filters: {} });
+
+      if (errors.length > 0) {
+        throw new Error(errors.join('; '));
+      }
+
+      set({ mode: 'list' });
+      await get().load(cwd);
+
+      const failed = results.filter((r) => !r.success).length;
+      const summary = `${action} ${name}: ${results.length - failed} project${results.length - failed === 1 ? '' : 's'}`;
+      if (failed > 0) {
+        get().addNotification('warning', `${summary}, ${failed} refused`);
+      } else {
+        get().addNotification('success', `${summary} (undo: mcp rollback --last)`);
+      }
+      return true;
+    } catch (error) {
+      set({ mode: 'list' });
+      get().addNotification('error', `Change failed: ${error instanceof Error ? error.message : error}`);
+      return false;
+    }
+  },
+
   // Migrate direct server to .mcp.json
   migrateServer: async (cwd: string) => {
     const { servers, getSelectedServer } = get();
@@ -316,6 +620,8 @@ export const useTuiStore = create<TuiState>((set, get) => ({
         dirty: false, // Migration saves directly, so not dirty
         mode: 'list',
         confirmTarget: null,
+        past: [],
+        future: [],
       });
 
       return true;
@@ -353,6 +659,8 @@ export const useTuiStore = create<TuiState>((set, get) => ({
         originalServers: JSON.parse(JSON.stringify(servers)),
         mode: 'list',
         dirty: false,
+        past: [],
+        future: [],
       });
 
       return true;
@@ -365,25 +673,48 @@ export const useTuiStore = create<TuiState>((set, get) => ({
     }
   },
 
-  // Refresh runtime status by calling claude mcp list
-  refreshRuntimeStatus: async () => {
-    const { servers } = get();
+  // Refresh runtime status by probing enabled servers with the MCP handshake
+  refreshRuntimeStatus: async (cwd: string) => {
+    const { servers, probing, addNotification } = get();
+    if (probing) return;
+
+    const targets = servers.filter((s) => s.state === 'on' && s.definition);
+    if (targets.length === 0) return;
+
+    set({ probing: true });
+    addNotification('info', `Checking ${targets.length} server(s)...`);
 
     try {
-      // Import the runtime check function dynamically
-      const { getRuntimeStatus } = await import('@/core/config/runtime.js');
+      const { probeServers } = await import('@/core/mcp/probe.js');
+      const { saveInventories } = await import('@/core/mcp/inventory.js');
 
-      const runtimeStates = await getRuntimeStatus();
+      const results = await probeServers(
+        targets.map((s) => ({ name: s.name, definition: s.definition!, sourceType: s.sourceType })),
+        { cwd, inventory: true }
+      );
+
+      const health = { ...get().health };
+      const inventory = { ...get().inventory };
+      for (const result of results) {
+        health[result.server] = result;
+        if (result.inventory) inventory[result.server] = result.inventory;
+      }
 
-      // Update servers with runtime status
-      const updated = servers.map((s) => ({
-        ...s,
-        runtime: runtimeStates[s.name] || 'unknown',
-      }));
+      await saveInventories(
+        results.flatMap((r, i) => (r.inventory ? [{ inventory: r.inventory, definition: targets[i]!.definition }] : []))
+      );
 
-      set({ servers: updated });
+      const unhealthy = results.filter((r) => r.status !== 'connected').length;
+      set({ health, inventory, probing: false });
+      addNotification(
+        unhealthy > 0 ? 'warning' : 'success',
+        unhealthy > 0
+          ? `${unhealthy} of ${results.length} server(s) unhealthy`
+          : `${results.length} server(s) connected`
+      );
     } catch {
-      // Silently fail - runtime status is optional
+      // Runtime status is optional
+      set({ probing: false });
     }
   },
 
@@ -401,7 +732,7 @@ export const useTuiStore = create<TuiState>((set, get) => ({
         return false;
       }
 
-      set({ dirty: false, originalServers: JSON.parse(JSON.stringify(servers)) });
+      set({ dirty: false, originalServers: JSON.parse(JSON.stringify(servers)), past: [], future: [] });
       return true;
     } catch (error) {
       set({ error: error instanceof Error ? error.message : 'Failed to save' });
@@ -411,7 +742,7 @@ export const useTuiStore = create<TuiState>((set, get) => ({
 
   // Get filtered servers
   getFilteredServers: () => {
-    const { servers, filter, searchQuery } = get();
+    const { servers, filter, searchQuery, sortByTokens, inventory } = get();
 
     // First apply type filter
     let filtered: Server[];
@@ -441,10 +772,16 @@ export const useTuiStore = create<TuiState>((set, get) => ({
         filtered = servers;
     }
 
-    // Then apply search filter if active
+    // Then apply search filter if active (words, globs, /regex/, field:value)
     if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase().trim();
-      filtered = filtered.filter((s) => s.name.toLowerCase().includes(query));
+      filtered = searchServers(filtered, searchQuery);
+    }
+
+    // Most expensive first; servers without an inventory go last
+    if (sortByTokens) {
+      filtered = [...filtered].sort(
+        (a, b) => (inventory[b.name]?.tokens ?? -1) - (inventory[a.name]?.tokens ?? -1)
+      );
     }
 
     return filtered;
@@ -64,3 +64,23 @@ export const flagIndicators = {
   blocked: '🔒',
   restricted: '⚠️',
 } as const;
+
+/** Health probe colours */
+export const healthColors = {
+  connected: colors.green,
+  failed: colors.red,
+  timeout: colors.yellow,
+} as const;
+
+/** Health probe labels (fit HEALTH_COLUMN_WIDTH) */
+export const healthLabels = {
+  connected: 'ok',
+  failed: 'failed',
+  timeout: 'timeout',
+} as const;
+
+/** Width of the health column in the server list */
+export const HEALTH_COLUMN_WIDTH = 7;
+
+/** Width of the estimated tokens column in the server list */
+export const TOKENS_COLUMN_WIDTH = 7;
@@ -62,8 +62,8 @@ export interface ServerDefinition {
   command?: string;
   /** For stdio transport: command arguments */
   args?: string[];
-  /** Transport type for URL-based servers */
-  type?: 'http' | 'sse';
+  /** Transport type ('stdio' is the default when omitted) */
+  type?: TransportType;
   /** For http/sse transport: the server URL */
   url?: string;
   /** Environment variables to set */
@@ -72,6 +72,23 @@ export interface ServerDefinition {
   headers?: Record<string, string>;
 }
 
+/** Server definition with ${VAR} and ${VAR:-default} expanded */
+export interface ExpandedDefinition {
+  definition: ServerDefinition;
+  /** Variables that are not set and have no default (left as written) */
+  unresolved: string[];
+}
+
+/** API-key-shaped value written directly into a server definition */
+export interface PlaintextSecret {
+  field: 'env' | 'headers';
+  key: string;
+  /** First characters of the value, for display */
+  masked: string;
+  /** Value to write instead, e.g. "Bearer ${GITHUB_TOKEN}" */
+  replacement: string;
+}
+
 /** Complete server representation with metadata */
 export interface Server {
   /** Server name (identifier) */
@@ -113,6 +130,21 @@ export interface PluginServer extends Server {
 // Configuration File Schemas
 // ============================================================================
 
+/** Config file formats with a runtime schema (see core/config/schema.ts) */
+export type ConfigFileKind =
+  | 'claude'
+  | 'mcp'
+  | 'settings'
+  | 'enterprise-mcp'
+  | 'enterprise-settings'
+  | 'marketplace'
+  | 'installed-plugins'
+  | 'profiles'
+  | 'inventory'
+  | 'budget'
+  | 'tool-config'
+  | 'backup-index';
+
 /** ~/.claude.json root configuration */
 export interface ClaudeJsonSchema {
   mcpServers?: Record<string, ServerDefinition>;
@@ -193,6 +225,42 @@ export interface InstalledPluginEntry {
   isLocal?: boolean;
 }
 
+/** Saved server profiles file (~/.claude/mcp-profiles.json) */
+export interface ProfilesSchema {
+  version?: number;
+  profiles?: Record<string, Profile>;
+}
+
+/** Cached server inventories (~/.claude/mcp-inventory.json) */
+export interface InventoryCacheSchema {
+  version?: number;
+  servers?: Record<string, CachedInventory>;
+}
+
+/** Inventory cache entry, invalidated when the definition changes */
+export interface CachedInventory extends ServerInventory {
+  /** JSON of the definition the inventory was taken from */
+  definitionKey: string;
+}
+
+/** Context budget settings (~/.claude/mcp-budget.json) */
+export interface BudgetConfigSchema {
+  version?: number;
+  /** Maximum estimated tokens for enabled servers' tools */
+  maxTokens?: number;
+  /** Servers never suggested for disabling */
+  pinned?: string[];
+}
+
+/** Named snapshot of server display states */
+export interface Profile {
+  /** Display state per server name */
+  servers: Record<string, DisplayState>;
+  createdAt?: string;
+  updatedAt?: string;
+  description?: string;
+}
+
 // ============================================================================
 // Internal State Types
 // ============================================================================
@@ -278,8 +346,14 @@ export interface AuditIssue {
   message: string;
   suggestion?: string;
   fixable?: boolean;
-  fixType?: 'remove-key' | 'move-array' | 'remove-explicit-false';
+  fixType?: 'remove-key' | 'move-array' | 'remove-explicit-false' | 'remove-array-entry';
+  /** Fix parameters - key paths are from the file root (see core/config/audit.ts) */
   fixData?: Record<string, unknown>;
+  /** JSON pointer to the offending value (schema violations) */
+  pointer?: string;
+  /** 1-based position of the offending value in the file */
+  line?: number;
+  column?: number;
 }
 
 /** Audit result */
@@ -288,6 +362,130 @@ export interface AuditResult {
   passedChecks: string[];
 }
 
+/** Config file content that does not match its schema */
+export interface SchemaViolation {
+  /** JSON pointer to the offending value ('' for the whole file) */
+  pointer: string;
+  message: string;
+  /** 1-based position of the value (for invalid JSON, of the syntax error) */
+  line?: number;
+  column?: number;
+}
+
+/** Validation result for one config file */
+export interface ConfigValidation {
+  file: string;
+  kind: ConfigFileKind;
+  valid: boolean;
+  /** Syntax errors are reported as a single violation at pointer '' */
+  violations: SchemaViolation[];
+}
+
+/** File touched by a transaction */
+export interface TransactionFile {
+  path: string;
+  /** Backup file name in the journal directory (null if the file did not exist) */
+  backup: string | null;
+}
+
+/** Multi-file transaction journal entry (see core/config/transaction.ts) */
+export interface TransactionEntry {
+  id: string;
+  /** What the transaction did, e.g. "save" */
+  operation: string;
+  /** ISO timestamp */
+  createdAt: string;
+  status: 'pending' | 'committed' | 'rolled-back' | 'undone';
+  files: TransactionFile[];
+  /** Why the transaction was rolled back */
+  error?: string;
+  /** Id of the transaction that undid this one */
+  undoneBy?: string;
+}
+
+/** Backup index (~/.claude/backups/index.json) */
+export interface BackupIndexSchema {
+  version?: number;
+  backups?: BackupIndexEntry[];
+}
+
+/** Backup recorded by createBackup (see core/config/writer.ts) */
+export interface BackupIndexEntry {
+  /** Backup file name in the backup directory */
+  file: string;
+  /** File that was backed up */
+  source: string;
+  /** What was about to change it, e.g. "fix-config" */
+  operation: string;
+  /** ISO timestamp */
+  createdAt: string;
+}
+
+/** Backup listed by core/backups (indexed, legacy or taken by a transaction) */
+export interface BackupEntry {
+  /** Path relative to the backup directory */
+  id: string;
+  path: string;
+  /** File that was backed up (null if it cannot be told from a legacy name) */
+  source: string | null;
+  operation: string;
+  /** ISO timestamp */
+  createdAt: string;
+  size: number;
+  /** Metadata was inferred from the file name (backup predates the index) */
+  inferred?: boolean;
+  /** Transaction that took the backup */
+  transaction?: string;
+}
+
+/** Tool settings (~/.claude/mcp-selector.json) */
+export interface ToolConfigSchema {
+  version?: number;
+  backups?: BackupRetentionPolicy;
+}
+
+/** How many backups to keep (see core/backups/retention.ts) */
+export interface BackupRetentionPolicy {
+  /** Always keep this many of the newest backups of each file */
+  keepLast?: number;
+  /** Also keep the newest backup of each day for this many days */
+  keepDailyDays?: number;
+  /** Delete the oldest backups beyond this total size (0 = no cap) */
+  maxTotalMB?: number;
+}
+
+/** Backups removed together by the retention policy */
+export interface BackupSet {
+  /** Path relative to the backup directory */
+  id: string;
+  /** Backups compete with others of the same group (usually the source file) */
+  group: string;
+  /** ISO timestamp */
+  createdAt: string;
+  size: number;
+  /** Files or directories to delete */
+  paths: string[];
+  /** Never pruned (e.g. a transaction that did not finish) */
+  protected?: boolean;
+}
+
+/** One difference between two JSON documents */
+export interface JsonChange {
+  /** Key path, e.g. projects["/repo"].disabledMcpServers */
+  path: string;
+  type: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+/** Changes a write would make to one file */
+export interface FileDiff {
+  path: string;
+  /** False if the file would be created */
+  exists: boolean;
+  changes: JsonChange[];
+}
+
 /** Toggle result */
 export interface ToggleResult {
   success: boolean;
@@ -295,6 +493,66 @@ export interface ToggleResult {
   reason?: string;
 }
 
+/** Health probe outcome for a server */
+export type HealthStatus = 'connected' | 'failed' | 'timeout';
+
+/** Health probe result (see core/mcp/probe.ts) */
+export interface HealthCheckResult {
+  server: string;
+  status: HealthStatus;
+  transport: TransportType;
+  /** Time until the initialize handshake completed or failed */
+  latencyMs: number;
+  /** Reported by the server in its initialize response */
+  serverInfo?: { name: string; version?: string };
+  protocolVersion?: string;
+  error?: string;
+  /** Tools/prompts/resources (only when requested and connected) */
+  inventory?: ServerInventory;
+}
+
+/** Tool exposed by a server, with its estimated context cost */
+export interface ToolSummary {
+  name: string;
+  description?: string;
+  /** Estimated tokens for the tool's name, description and input schema */
+  tokens: number;
+}
+
+/** What a server exposes to the model (see core/mcp/inventory.ts) */
+export interface ServerInventory {
+  server: string;
+  tools: ToolSummary[];
+  prompts: number;
+  resources: number;
+  /** Estimated context cost: tool schemas plus server instructions */
+  tokens: number;
+  /** ISO timestamp */
+  inspectedAt: string;
+}
+
+/** Server suggested for disabling to meet a context budget */
+export interface BudgetSuggestion {
+  server: string;
+  tokens: number;
+}
+
+/** Budget evaluation (see core/budget/budget.ts) */
+export interface BudgetPlan {
+  maxTokens: number;
+  /** Estimated tokens of the currently enabled servers */
+  totalTokens: number;
+  overBudget: boolean;
+  /** Servers to disable, most expensive first */
+  suggestions: BudgetSuggestion[];
+  /** Estimated tokens after applying the suggestions */
+  totalAfter: number;
+  /** False if the budget cannot be met without touching protected servers */
+  achievable: boolean;
+  /** Enabled servers without an inventory (not counted) */
+  unknown: string[];
+}
+
 /** Access check result */
 export interface AccessResult {
   allowed: boolean;
@@ -302,6 +560,155 @@ export interface AccessResult {
            'not_in_allowlist' | 'enterprise_only' | 'enterprise_managed';
 }
 
+/** Config entry that affects a server's definition or state (mcp why) */
+export interface WhyEntry {
+  type: RawDefinition['type'];
+  /** Config key, e.g. disabledMcpjsonServers or enabledPlugins["name@marketplace"] */
+  key: string;
+  scope: Scope;
+  priority: number;
+  file: string;
+  /** Whether this entry decided the outcome */
+  won: boolean;
+}
+
+/** Why a server is in its current state (see core/config/explain.ts) */
+export interface ServerExplanation {
+  server: string;
+  state: DisplayState;
+  sourceType: SourceType;
+  definition: {
+    entries: WhyEntry[];
+    reason: string;
+  };
+  /** Control arrays, enabledPlugins and disabledMcpServers entries */
+  control: {
+    entries: WhyEntry[];
+    reason: string;
+    /** Why the server is paused (ORANGE), if it is */
+    paused: string | null;
+  };
+  enableAllProjectMcpServers: {
+    entry: WhyEntry | null;
+    applies: boolean;
+    reason: string;
+  };
+  access: {
+    allowed: boolean;
+    /** managed-settings.json, if it exists */
+    file: string | null;
+    list: 'allowedMcpServers' | 'deniedMcpServers' | null;
+    /** Rule that matched */
+    rule: EnterpriseRestriction | null;
+    reason: string;
+  };
+  /** Edits that would change the outcome */
+  changes: string[];
+}
+
+/** Plugin that provides a server (parsed from serverKey:pluginName@marketplace) */
+export interface ServerListPlugin {
+  /** enabledPlugins key: pluginName@marketplace */
+  key: string;
+  name: string;
+  marketplace: string;
+  /** Server key inside the plugin's MCP config */
+  serverKey: string;
+}
+
+/** Server in mcp list --json output */
+export interface ServerListEntry {
+  name: string;
+  state: DisplayState;
+  scope: Scope;
+  sourceType: SourceType;
+  definitionFile: string;
+  /** null if the definition is unknown */
+  transport: TransportType | null;
+  flags: EnterpriseFlags;
+  plugin: ServerListPlugin | null;
+}
+
+/**
+ * mcp list --json output (see core/servers/listing.ts)
+ *
+ * version changes only when fields are removed or change meaning;
+ * new fields may be added within a version.
+ */
+export interface ServerListSchema {
+  version: 1;
+  /** Project the states were resolved for */
+  cwd: string;
+  servers: Array<Partial<ServerListEntry>>;
+}
+
+/** Server state in one project (mcp projects) */
+export interface ProjectServerState {
+  name: string;
+  state: DisplayState;
+  scope: Scope;
+  sourceType: SourceType;
+}
+
+/** Project from ~/.claude.json .projects (see core/config/projects.ts) */
+export interface ProjectSummary {
+  /** Project key in ~/.claude.json */
+  path: string;
+  /** False for stale entries whose folder no longer exists */
+  exists: boolean;
+  /** Whether this is the current project */
+  current: boolean;
+  /** Every server and its state in this project (empty when stale) */
+  servers: ProjectServerState[];
+  /** MCP keys stored for this project in ~/.claude.json */
+  entry: {
+    mcpServers: string[];
+    disabledMcpServers: string[];
+    enabledMcpjsonServers: string[];
+    disabledMcpjsonServers: string[];
+  };
+}
+
+/** State change applied to servers (mcp enable, disable, pause, resume) */
+export type ProjectAction = 'enable' | 'disable' | 'pause' | 'resume';
+
+/** Result of a project action for one server in one project */
+export interface ProjectActionResult {
+  project: string;
+  server: string;
+  success: boolean;
+  /** State before the change */
+  previous: DisplayState;
+  error?: string;
+}
+
+/** Result of a state change for one server in the current project */
+export interface ServerActionResult {
+  /** Server name, or the name or pattern that matched nothing */
+  server: string;
+  success: boolean;
+  /** State before the change (missing if the server was not found) */
+  previous?: DisplayState;
+  error?: string;
+}
+
+/** Outcome of enable, disable, pause or resume in the current project */
+export interface ServerActionOutcome {
+  results: ServerActionResult[];
+  /** Errors from saving the changed config files */
+  errors: string[];
+}
+
+/** Project entry in ~/.claude.json whose folder no longer exists */
+export interface StaleProjectEntry {
+  /** Project key in ~/.claude.json */
+  path: string;
+  /** MCP keys the entry holds (mcpServers, disabledMcpServers, ...) */
+  mcpKeys: string[];
+  /** Every other key (kept unless the whole entry is removed) */
+  otherKeys: string[];
+}
+
 // ============================================================================
 // Utility Types
 // ============================================================================
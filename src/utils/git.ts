@@ -0,0 +1,28 @@
+/**
+ * Git utilities
+ */
+
+import { execFile } from 'node:child_process';
+import { basename, dirname } from 'node:path';
+import { promisify } from 'node:util';
+import { expandPath } from './paths.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Check if a file is tracked by git (committed or staged)
+ *
+ * False when git is not installed or the file is outside a repository.
+ */
+export async function isTrackedByGit(path: string): Promise<boolean> {
+  const file = expandPath(path);
+  try {
+    await execFileAsync('git', ['ls-files', '--error-unmatch', '--', basename(file)], {
+      cwd: dirname(file),
+      timeout: 5000,
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -4,16 +4,16 @@
  * Path resolution, abbreviation, and validation.
  */
 
-import { homedir } from 'node:os';
 import { resolve, relative, isAbsolute, basename, dirname, sep } from 'node:path';
 import { realpathSync, existsSync } from 'node:fs';
+import { getHomeDir } from './platform.js';
 
 /**
  * Resolve a path that may contain ~ to an absolute path
  */
 export function expandPath(path: string): string {
   if (path.startsWith('~/') || path === '~') {
-    return path.replace(/^~/, homedir());
+    return path.replace(/^~/, getHomeDir());
   }
   return path;
 }
@@ -46,7 +46,7 @@ export function pathExists(path: string): boolean {
  * - Truncate long paths with ...
  */
 export function abbreviatePath(path: string, maxLength: number = 50): string {
-  const home = homedir();
+  const home = getHomeDir();
 
   // Replace home with ~
   let abbreviated = path;
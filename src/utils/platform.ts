@@ -4,6 +4,8 @@
  * Handles OS detection and platform-specific paths.
  */
 
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { existsSync } from 'node:fs';
 import { homedir, platform, release } from 'node:os';
 import { join, normalize } from 'node:path';
 
@@ -88,25 +90,46 @@ export function getEnterpriseSettingsPath(): string | null {
   }
 }
 
+const homeOverride = new AsyncLocalStorage<string>();
+
+/**
+ * Home folder holding the user configuration (~/.claude, ~/.claude.json)
+ *
+ * The user's home unless overridden with withHomeDir.
+ */
+export function getHomeDir(): string {
+  return homeOverride.getStore() ?? homedir();
+}
+
+/**
+ * Run a function, and everything it awaits, against another home folder
+ *
+ * Lets the library API (createSelector({ home })) work on a different
+ * user configuration without touching process-wide state.
+ */
+export function withHomeDir<T>(home: string, fn: () => T): T {
+  return homeOverride.run(home, fn);
+}
+
 /**
  * Get the Claude config directory
  */
 export function getClaudeConfigDir(): string {
-  return join(homedir(), '.claude');
+  return join(getHomeDir(), '.claude');
 }
 
 /**
  * Get the path to ~/.claude.json
  */
 export function getClaudeJsonPath(): string {
-  return join(homedir(), '.claude.json');
+  return join(getHomeDir(), '.claude.json');
 }
 
 /**
  * Get the path to ~/.mcp.json (user-level)
  */
 export function getUserMcpJsonPath(): string {
-  return join(homedir(), '.mcp.json');
+  return join(getHomeDir(), '.mcp.json');
 }
 
 /**
@@ -135,21 +158,56 @@ export function getProjectMcpJsonPath(cwd: string): string {
  * Get the marketplace plugins directory
  */
 export function getMarketplaceDir(): string {
-  return join(homedir(), '.claude', 'plugins');
+  return join(getHomeDir(), '.claude', 'plugins');
 }
 
 /**
  * Get the marketplaces directory (where actual plugin repos are)
  */
 export function getMarketplacesDir(): string {
-  return join(homedir(), '.claude', 'plugins', 'marketplaces');
+  return join(getHomeDir(), '.claude', 'plugins', 'marketplaces');
 }
 
 /**
  * Get the installed_plugins.json path
  */
 export function getInstalledPluginsPath(): string {
-  return join(homedir(), '.claude', 'plugins', 'installed_plugins.json');
+  return join(getHomeDir(), '.claude', 'plugins', 'installed_plugins.json');
+}
+
+/**
+ * Get the saved server profiles path
+ */
+export function getProfilesPath(): string {
+  return join(getHomeDir(), '.claude', 'mcp-profiles.json');
+}
+
+/**
+ * Get the cached server inventory path (tool lists and token estimates)
+ */
+export function getInventoryCachePath(): string {
+  return join(getHomeDir(), '.claude', 'mcp-inventory.json');
+}
+
+/**
+ * Get the context budget settings path
+ */
+export function getBudgetConfigPath(): string {
+  return join(getHomeDir(), '.claude', 'mcp-budget.json');
+}
+
+/**
+ * Get the tool settings path (backup retention)
+ */
+export function getToolConfigPath(): string {
+  return join(getHomeDir(), '.claude', 'mcp-selector.json');
+}
+
+/**
+ * Get the backup index path (metadata for files in ~/.claude/backups)
+ */
+export function getBackupIndexPath(): string {
+  return join(getHomeDir(), '.claude', 'backups', 'index.json');
 }
 
 /**
@@ -170,3 +228,58 @@ export function normaliseProjectPath(cwd: string): string {
     .replace(/\\/g, '/')
     .replace(/^[a-z]:/, (m: string) => m.toUpperCase());
 }
+
+/**
+ * Folders a Claude Code project key may refer to on this platform
+ *
+ * Keys are stored normalised (see normaliseProjectPath). Under WSL a key
+ * written by Claude Code on Windows ("C:/Users/me/repo") is reachable at
+ * /mnt/c/Users/me/repo; on Windows a WSL key ("/mnt/c/...") is "C:/...".
+ *
+ * @param key - Project key from ~/.claude.json
+ * @param os - Platform to resolve for (default: detected)
+ */
+export function getProjectPathCandidates(key: string, os: Platform = detectPlatform()): string[] {
+  const candidates = [key];
+  const normalised = normaliseProjectPath(key);
+  if (normalised !== key) {
+    candidates.push(normalised);
+  }
+
+  if (os === 'wsl') {
+    const drive = normalised.match(/^([A-Z]):\/(.*)$/);
+    if (drive) {
+      candidates.push(`/mnt/${drive[1]!.toLowerCase()}/${drive[2]}`);
+    }
+  }
+
+  if (os === 'windows') {
+    const mount = normalised.match(/^\/mnt\/([a-z])(?:\/(.*))?$/);
+    if (mount) {
+      candidates.push(`${mount[1]!.toUpperCase()}:/${mount[2] ?? ''}`);
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Folder of a Claude Code project key on this platform
+ *
+ * @param key - Project key from ~/.claude.json
+ * @param os - Platform to resolve for (default: detected)
+ * @returns The first candidate that exists, or null if none does
+ */
+export function resolveProjectPath(key: string, os: Platform = detectPlatform()): string | null {
+  return getProjectPathCandidates(key, os).find((path) => existsSync(path)) ?? null;
+}
+
+/**
+ * Whether the folder of a Claude Code project key still exists
+ *
+ * @param key - Project key from ~/.claude.json
+ * @param os - Platform to resolve for (default: detected)
+ */
+export function projectPathExists(key: string, os: Platform = detectPlatform()): boolean {
+  return resolveProjectPath(key, os) !== null;
+}
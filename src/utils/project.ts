@@ -0,0 +1,101 @@
+/**
+ * Project root resolution
+ *
+ * Claude Code started in a subfolder still works on the enclosing
+ * project: the nearest folder with a .git or .claude entry holds the
+ * project's .mcp.json and .claude/settings*.json. In ~/.claude.json the
+ * project is keyed by its git repository root, and a linked worktree
+ * shares the key of its main checkout.
+ */
+
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import { basename, dirname, join, resolve } from 'node:path';
+import { getHomeDir, normaliseProjectPath } from './platform.js';
+
+/** Project folder found from a starting folder */
+export interface ProjectRoot {
+  /** Folder the search started in */
+  start: string;
+  /** Folder holding the project's .mcp.json and .claude/ */
+  root: string;
+  /** Entry that marked the root (null: none found, the start folder is used) */
+  marker: '.git' | '.claude' | null;
+  /** Key of the project in ~/.claude.json */
+  key: string;
+}
+
+/**
+ * Walk up from a folder to the first one containing an entry
+ *
+ * ~/.claude is the user configuration, so it never marks a project.
+ */
+function findUp(start: string, entries: string[]): { dir: string; entry: string } | null {
+  const home = resolve(getHomeDir());
+  let dir = resolve(start);
+
+  for (;;) {
+    for (const entry of entries) {
+      if (entry === '.claude' && dir === home) continue;
+      if (existsSync(join(dir, entry))) return { dir, entry };
+    }
+
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+/**
+ * Main checkout of a linked worktree, or the folder itself
+ *
+ * A worktree's .git is a file ("gitdir: <repo>/.git/worktrees/<name>")
+ * whose gitdir holds a commondir file pointing back at <repo>/.git.
+ * Submodules have a .git file too, but no commondir.
+ */
+function getCanonicalGitRoot(gitRoot: string): string {
+  const dotGit = join(gitRoot, '.git');
+  try {
+    if (!statSync(dotGit).isFile()) return gitRoot;
+
+    const gitdir = /^gitdir:\s*(.+)$/m.exec(readFileSync(dotGit, 'utf-8'))?.[1]?.trim();
+    if (!gitdir) return gitRoot;
+
+    const worktreeGitDir = resolve(gitRoot, gitdir);
+    const commondir = join(worktreeGitDir, 'commondir');
+    if (!existsSync(commondir)) return gitRoot;
+
+    const commonGitDir = resolve(worktreeGitDir, readFileSync(commondir, 'utf-8').trim());
+    return basename(commonGitDir) === '.git' ? dirname(commonGitDir) : gitRoot;
+  } catch {
+    return gitRoot;
+  }
+}
+
+/**
+ * Key of a project in ~/.claude.json
+ *
+ * The canonical git root when the folder is inside a repository,
+ * otherwise the folder itself (normalised, see normaliseProjectPath).
+ */
+export function getProjectKey(dir: string): string {
+  const git = findUp(dir, ['.git']);
+  return normaliseProjectPath(git ? getCanonicalGitRoot(git.dir) : resolve(dir));
+}
+
+/**
+ * Find the project a folder belongs to
+ *
+ * Walks up to the nearest folder with a .git or .claude entry. Without
+ * one, the starting folder is the project (as before).
+ */
+export function findProjectRoot(start: string): ProjectRoot {
+  const found = findUp(start, ['.git', '.claude']);
+  const root = found?.dir ?? resolve(start);
+
+  return {
+    start: resolve(start),
+    root,
+    marker: (found?.entry as ProjectRoot['marker']) ?? null,
+    key: getProjectKey(root),
+  };
+}
@@ -0,0 +1,8 @@
+/**
+ * Package version
+ *
+ * Shown by mcp --version and sent as the client version in the MCP
+ * handshake. Must match package.json (checked by tests/unit/version.test.ts).
+ */
+
+export const VERSION = '2.5.1';
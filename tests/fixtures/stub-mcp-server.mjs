@@ -0,0 +1,74 @@
+#!/usr/bin/env node
+/**
+ * Stub MCP server for probe tests (stdio transport)
+ *
+ * Usage: node stub-mcp-server.mjs [mode]
+ *   ok      - answer initialize, tools/list and prompts/list (default)
+ *   paged   - like ok, but tools/list returns two pages
+ *   silent  - read requests but never answer
+ *   exit    - write to stderr and exit with code 3
+ *   error   - answer initialize with a JSON-RPC error
+ *   noisy   - log non-JSON lines to stdout before answering
+ *   plugin  - like ok, but exit with code 3 unless CLAUDE_PLUGIN_ROOT is set
+ */
+
+import { createInterface } from 'node:readline';
+
+const mode = process.argv[2] ?? 'ok';
+
+if (mode === 'plugin' && !process.env.CLAUDE_PLUGIN_ROOT) {
+  process.stderr.write('stub: CLAUDE_PLUGIN_ROOT not set\n');
+  process.exit(3);
+}
+
+if (mode === 'exit') {
+  process.stderr.write('stub: missing API_KEY\n');
+  process.exit(3);
+}
+
+const send = (message) => process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\n');
+
+createInterface({ input: process.stdin }).on('line', (line) => {
+  const message = JSON.parse(line);
+  if (message.id === undefined || mode === 'silent') return;
+
+  if (mode === 'error') {
+    send({ id: message.id, error: { code: -32603, message: 'stub refused' } });
+    return;
+  }
+
+  if (mode === 'noisy') {
+    process.stdout.write('Starting stub server...\n');
+  }
+
+  switch (message.method) {
+    case 'initialize':
+      send({
+        id: message.id,
+        result: {
+          protocolVersion: message.params.protocolVersion,
+          capabilities: { tools: {}, prompts: {} },
+          serverInfo: { name: 'stub', version: '1.0.0' },
+          instructions: 'Use echo to repeat text.',
+        },
+      });
+      break;
+    case 'tools/list': {
+      const echo = { name: 'echo', description: 'Echo input', inputSchema: { type: 'object' } };
+      const reverse = { name: 'reverse', description: 'Reverse input', inputSchema: { type: 'object' } };
+      if (mode !== 'paged') {
+        send({ id: message.id, result: { tools: [echo] } });
+      } else if (message.params?.cursor === 'page-2') {
+        send({ id: message.id, result: { tools: [reverse] } });
+      } else {
+        send({ id: message.id, result: { tools: [echo], nextCursor: 'page-2' } });
+      }
+      break;
+    }
+    case 'prompts/list':
+      send({ id: message.id, result: { prompts: [{ name: 'greet' }, { name: 'summarize' }] } });
+      break;
+    default:
+      send({ id: message.id, error: { code: -32601, message: `Unknown method ${message.method}` } });
+  }
+});
@@ -0,0 +1,132 @@
+/**
+ * Integration tests for the library API (createSelector)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdirSync, writeFileSync, readFileSync, rmSync, existsSync, realpathSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomUUID } from 'node:crypto';
+
+const env = vi.hoisted(() => ({ home: '' }));
+
+vi.mock('node:os', async () => {
+  const actual = await vi.importActual<typeof import('node:os')>('node:os');
+  return {
+    ...actual,
+    homedir: vi.fn(() => env.home),
+  };
+});
+
+import { createSelector } from '../../src/index.js';
+
+describe('createSelector', () => {
+  let testDir: string;
+  let home: string;
+  let repo: string;
+
+  const readJson = (path: string) => JSON.parse(readFileSync(path, 'utf-8'));
+
+  beforeEach(() => {
+    testDir = join(realpathSync(tmpdir()), `mcp-test-${randomUUID()}`);
+    env.home = join(testDir, 'default-home');
+    home = join(testDir, 'home');
+    repo = join(testDir, 'repo');
+    mkdirSync(env.home, { recursive: true });
+    mkdirSync(join(home, '.claude'), { recursive: true });
+    mkdirSync(join(repo, '.git'), { recursive: true });
+    mkdirSync(join(repo, 'src'));
+
+    writeFileSync(join(repo, '.mcp.json'), JSON.stringify({
+      mcpServers: {
+        fetch: { command: 'uvx', args: ['mcp-server-fetch'] },
+        docs: { type: 'http', url: 'https://example.com/mcp' },
+      },
+    }));
+    writeFileSync(join(home, '.claude.json'), JSON.stringify({
+      mcpServers: { time: { command: 'uvx', args: ['mcp-server-time'] } },
+    }));
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('works on the project root of a subfolder', () => {
+    const mcp = createSelector({ cwd: join(repo, 'src'), home });
+
+    expect(mcp.project).toMatchObject({ start: join(repo, 'src'), root: repo, marker: '.git' });
+  });
+
+  it('throws if the folder does not exist', () => {
+    expect(() => createSelector({ cwd: join(testDir, 'missing') })).toThrow('Project folder not found');
+  });
+
+  it('lists servers, optionally filtered', async () => {
+    const mcp = createSelector({ cwd: repo, home });
+
+    expect((await mcp.list()).map((s) => s.name).sort()).toEqual(['docs', 'fetch', 'time']);
+    expect((await mcp.list([], { transport: ['http', 'sse'] })).map((s) => s.name)).toEqual(['docs']);
+    expect(await mcp.list(['time'])).toEqual([expect.objectContaining({ name: 'time', state: 'green', scope: 'user' })]);
+    await expect(mcp.list([], { state: 'blue' })).rejects.toThrow('Invalid state "blue"');
+  });
+
+  it('disables and enables servers and returns the results', async () => {
+    const mcp = createSelector({ cwd: repo, home });
+
+    expect(await mcp.disable(['fetch', 'nope'])).toEqual({
+      results: [
+        { server: 'nope', success: false, error: 'Not found' },
+        { server: 'fetch', success: true, previous: 'green' },
+      ],
+      errors: [],
+    });
+    expect(readJson(join(repo, '.claude', 'settings.local.json')).disabledMcpjsonServers).toEqual(['fetch']);
+
+    const { results } = await mcp.enable([], { all: true });
+    expect(results.map((r) => [r.server, r.previous]).sort()).toEqual([['docs', 'green'], ['fetch', 'red'], ['time', 'green']]);
+    expect((await mcp.list()).every((s) => s.state === 'green')).toBe(true);
+  });
+
+  it('pauses servers in the given home only', async () => {
+    const mcp = createSelector({ cwd: repo, home });
+
+    const { results } = await mcp.pause(['time']);
+    expect(results).toEqual([{ server: 'time', success: false, previous: 'green', error: 'Direct servers cannot be paused (use mcp disable)' }]);
+
+    await mcp.pause([], { source: 'mcpjson' });
+    expect(readJson(join(home, '.claude.json')).projects[repo].disabledMcpServers.sort()).toEqual(['docs', 'fetch']);
+    expect(existsSync(join(env.home, '.claude.json'))).toBe(false);
+
+    expect((await mcp.resume(['fetch'])).results).toEqual([{ server: 'fetch', success: true, previous: 'orange' }]);
+  });
+
+  it('writes nothing when no server could be changed', async () => {
+    const mcp = createSelector({ cwd: repo, home });
+    const claudeJson = readFileSync(join(home, '.claude.json'), 'utf-8');
+
+    expect(await mcp.enable(['typo'])).toEqual({ results: [{ server: 'typo', success: false, error: 'Not found' }], errors: [] });
+    expect(existsSync(join(repo, '.claude'))).toBe(false);
+    expect(readFileSync(join(home, '.claude.json'), 'utf-8')).toBe(claudeJson);
+    expect(existsSync(join(home, '.claude', 'backups'))).toBe(false);
+  });
+
+  it('throws instead of printing usage when no servers are given', async () => {
+    const mcp = createSelector({ cwd: repo, home });
+
+    await expect(mcp.enable([])).rejects.toThrow('No servers specified');
+    await expect(mcp.pause([], {})).rejects.toThrow('No servers specified');
+  });
+
+  it('returns audit issues and explanations', async () => {
+    writeFileSync(join(repo, '.mcp.json'), '{ "mcpServers": ');
+    const mcp = createSelector({ cwd: repo, home });
+
+    const { issues } = await mcp.audit();
+    expect(issues).toContainEqual(expect.objectContaining({ file: join(repo, '.mcp.json'), severity: 'error' }));
+    expect(await mcp.why('time')).toMatchObject({ server: 'time', state: 'green' });
+    expect(await mcp.why('fetch')).toBeNull();
+  });
+});
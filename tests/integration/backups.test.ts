@@ -0,0 +1,194 @@
+/**
+ * Integration tests for the backup history
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdirSync, writeFileSync, readFileSync, rmSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomUUID } from 'node:crypto';
+
+const env = vi.hoisted(() => ({ home: '' }));
+
+vi.mock('node:os', async () => {
+  const actual = await vi.importActual<typeof import('node:os')>('node:os');
+  return {
+    ...actual,
+    homedir: vi.fn(() => env.home),
+  };
+});
+
+import { createBackup, enforceBackupRetention, readBackupIndex } from '../../src/core/config/writer.js';
+import { commitJsonTransaction, listTransactions } from '../../src/core/config/transaction.js';
+import { diffBackup, findBackup, listBackups, restoreBackup } from '../../src/core/backups/backups.js';
+
+describe('backup history', () => {
+  let testDir: string;
+  let backupDir: string;
+  let claudeJson: string;
+
+  const readJson = (path: string) => JSON.parse(readFileSync(path, 'utf-8'));
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `mcp-test-${randomUUID()}`);
+    env.home = join(testDir, 'home');
+    backupDir = join(env.home, '.claude', 'backups');
+    claudeJson = join(env.home, '.claude.json');
+    mkdirSync(env.home, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('records backups in the index with their source and operation', () => {
+    writeFileSync(claudeJson, JSON.stringify({ mcpServers: {} }));
+
+    const first = createBackup(claudeJson, 'fix-config');
+    const second = createBackup(claudeJson, 'fix-config');
+
+    expect(first).not.toBe(second);
+    expect(readBackupIndex()).toEqual([
+      expect.objectContaining({ source: claudeJson, operation: 'fix-config' }),
+      expect.objectContaining({ source: claudeJson, operation: 'fix-config' }),
+    ]);
+    expect(listBackups().map((b) => b.source)).toEqual([claudeJson, claudeJson]);
+  });
+
+  it('infers metadata of backups that predate the index', () => {
+    mkdirSync(backupDir, { recursive: true });
+    const mangled = claudeJson.replace(/[/\\]/g, '_');
+    writeFileSync(join(backupDir, 'claude.json.backup.1700000000000'), '{}');
+    writeFileSync(join(backupDir, `${mangled}.1700000001000.backup`), '{}');
+    writeFileSync(join(backupDir, 'settings.json.2024-01-02T03-04-05-678Z.bak'), '{}');
+    writeFileSync(join(backupDir, 'notes.txt'), 'not a backup');
+
+    const backups = listBackups();
+
+    expect(backups.map((b) => [b.operation, b.source, b.createdAt])).toEqual([
+      ['write', null, '2024-01-02T03:04:05.678Z'],
+      ['unknown', claudeJson, new Date(1700000001000).toISOString()],
+      ['migrate', claudeJson, new Date(1700000000000).toISOString()],
+    ]);
+    expect(backups.every((b) => b.inferred)).toBe(true);
+  });
+
+  it('lists files saved by transactions', () => {
+    const file = join(testDir, 'settings.local.json');
+    writeFileSync(file, '{}');
+    commitJsonTransaction('save', [{ path: file, data: { enabledMcpjsonServers: ['a'] } }]);
+
+    const [backup] = listBackups();
+    expect(backup).toMatchObject({ source: file, operation: 'save', transaction: listTransactions()[0]!.id });
+    expect(backup!.id.startsWith('transactions/')).toBe(true);
+  });
+
+  it('finds backups by number, id and unique prefix', () => {
+    writeFileSync(claudeJson, '{}');
+    createBackup(claudeJson, 'write');
+    const backups = listBackups();
+    const id = backups[0]!.id;
+
+    expect(findBackup('1', backups).id).toBe(id);
+    expect(findBackup(id, backups).id).toBe(id);
+    expect(findBackup(id.slice(0, 20), backups).id).toBe(id);
+    expect(() => findBackup('missing', backups)).toThrow('not found');
+  });
+
+  it('diffs and restores MCP keys only, keeping the rest of the file', () => {
+    writeFileSync(claudeJson, JSON.stringify({ tips: 1, projects: { '/repo': { disabledMcpServers: ['a'] } } }));
+    createBackup(claudeJson, 'write');
+    writeFileSync(claudeJson, JSON.stringify({ tips: 2, projects: { '/repo': { disabledMcpServers: ['b'] } } }));
+
+    const backup = findBackup('1');
+    expect(diffBackup(backup).changes).toEqual([
+      { path: 'projects["/repo"].disabledMcpServers[]', type: 'removed', before: 'b' },
+      { path: 'projects["/repo"].disabledMcpServers[]', type: 'added', after: 'a' },
+    ]);
+
+    const transaction = restoreBackup(backup, { mcpOnly: true });
+
+    expect(readJson(claudeJson)).toEqual({ tips: 2, projects: { '/repo': { disabledMcpServers: ['a'] } } });
+    expect(transaction.operation).toBe(`restore ${backup.id}`);
+  });
+
+  it('restores whole files as an undoable transaction', () => {
+    writeFileSync(claudeJson, '{"tips": 1}');
+    createBackup(claudeJson, 'write');
+    writeFileSync(claudeJson, '{"tips": 2}');
+
+    restoreBackup(findBackup('1'));
+
+    expect(readFileSync(claudeJson, 'utf-8')).toBe('{"tips": 1}');
+    expect(listTransactions()[0]!.status).toBe('committed');
+  });
+
+  it('needs a target for backups of unknown files', () => {
+    mkdirSync(backupDir, { recursive: true });
+    writeFileSync(join(backupDir, 'settings.json.2024-01-02T03-04-05-678Z.bak'), '{"a": 1}');
+    const backup = findBackup('1');
+    const target = join(testDir, 'settings.json');
+
+    expect(() => restoreBackup(backup)).toThrow('pass a target path');
+
+    restoreBackup(backup, { target });
+    expect(readJson(target)).toEqual({ a: 1 });
+  });
+});
+
+describe('backup retention', () => {
+  let testDir: string;
+  let claudeJson: string;
+
+  const writePolicy = (backups: Record<string, number>) => {
+    mkdirSync(join(env.home, '.claude'), { recursive: true });
+    writeFileSync(join(env.home, '.claude', 'mcp-selector.json'), JSON.stringify({ backups }));
+  };
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `mcp-test-${randomUUID()}`);
+    env.home = join(testDir, 'home');
+    claudeJson = join(env.home, '.claude.json');
+    mkdirSync(env.home, { recursive: true });
+    writeFileSync(claudeJson, '{}');
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('prunes old backups after each new one', () => {
+    writePolicy({ keepLast: 2, keepDailyDays: 0 });
+
+    const paths = [1, 2, 3].map(() => createBackup(claudeJson, 'write')!);
+
+    expect(existsSync(paths[0]!)).toBe(false);
+    expect(existsSync(paths[2]!)).toBe(true);
+    expect(readBackupIndex()).toHaveLength(2);
+  });
+
+  it('prunes old transactions with their journals', () => {
+    writePolicy({ keepLast: 1, keepDailyDays: 0 });
+
+    commitJsonTransaction('save', [{ path: claudeJson, data: { a: 1 } }]);
+    commitJsonTransaction('save', [{ path: claudeJson, data: { a: 2 } }]);
+
+    expect(listTransactions().map((t) => t.files[0]!.path)).toEqual([claudeJson]);
+  });
+
+  it('reports without deleting on a dry run', () => {
+    createBackup(claudeJson, 'write');
+    createBackup(claudeJson, 'write');
+
+    const result = enforceBackupRetention({ dryRun: true, policy: { keepLast: 1, keepDailyDays: 0 } });
+
+    expect(result.pruned).toHaveLength(1);
+    expect(result.freed).toBe(2);
+    expect(listBackups()).toHaveLength(2);
+    expect(readBackupIndex()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Integration tests for writing server definitions
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdirSync, writeFileSync, readFileSync, readdirSync, rmSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomUUID } from 'node:crypto';
+
+const env = vi.hoisted(() => ({ home: '' }));
+
+vi.mock('node:os', async () => {
+  const actual = await vi.importActual<typeof import('node:os')>('node:os');
+  return {
+    ...actual,
+    homedir: vi.fn(() => env.home),
+  };
+});
+
+import { addServerDefinition, editServerDefinition } from '../../src/core/servers/definitions.js';
+
+describe('addServerDefinition', () => {
+  let testDir: string;
+  let projectDir: string;
+
+  const readJson = (path: string) => JSON.parse(readFileSync(path, 'utf-8'));
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `mcp-test-${randomUUID()}`);
+    env.home = join(testDir, 'home');
+    projectDir = join(testDir, 'project');
+    mkdirSync(env.home, { recursive: true });
+    mkdirSync(projectDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('creates .mcp.json for project scope', () => {
+    const location = addServerDefinition('fetch', { command: 'uvx', args: ['mcp-server-fetch'] }, 'project', projectDir);
+
+    expect(location).toEqual({ file: join(projectDir, '.mcp.json'), sourceType: 'mcpjson' });
+    expect(readJson(location.file)).toEqual({
+      mcpServers: { fetch: { command: 'uvx', args: ['mcp-server-fetch'] } },
+    });
+  });
+
+  it('keeps the root-level .mcp.json format', () => {
+    const mcpJsonPath = join(projectDir, '.mcp.json');
+    writeFileSync(mcpJsonPath, JSON.stringify({ time: { command: 'uvx' } }));
+
+    addServerDefinition('fetch', { command: 'npx' }, 'project', projectDir);
+
+    expect(readJson(mcpJsonPath)).toEqual({
+      time: { command: 'uvx' },
+      fetch: { command: 'npx' },
+    });
+  });
+
+  it('writes local and user scopes to ~/.claude.json', () => {
+    const claudeJsonPath = join(env.home, '.claude.json');
+    writeFileSync(claudeJsonPath, JSON.stringify({ numStartups: 3 }));
+
+    addServerDefinition('remote', { type: 'http', url: 'https://example.com/mcp' }, 'local', projectDir);
+    const location = addServerDefinition('global', { command: 'node' }, 'user', projectDir);
+
+    expect(location.sourceType).toBe('direct-global');
+    expect(readJson(claudeJsonPath)).toEqual({
+      numStartups: 3,
+      mcpServers: { global: { command: 'node' } },
+      projects: {
+        [projectDir]: { mcpServers: { remote: { type: 'http', url: 'https://example.com/mcp' } } },
+      },
+    });
+  });
+
+  it('refuses duplicates, invalid definitions and unreadable files', () => {
+    addServerDefinition('fetch', { command: 'uvx' }, 'project', projectDir);
+    expect(() => addServerDefinition('fetch', { command: 'uvx' }, 'project', projectDir)).toThrow('already exists');
+    expect(() => addServerDefinition('other', { type: 'http' }, 'project', projectDir)).toThrow('URL is required');
+
+    writeFileSync(join(env.home, '.claude.json'), '{broken');
+    expect(() => addServerDefinition('other', { command: 'x' }, 'user', projectDir)).toThrow('invalid JSON');
+    expect(readFileSync(join(env.home, '.claude.json'), 'utf-8')).toBe('{broken');
+  });
+});
+
+describe('editServerDefinition', () => {
+  let testDir: string;
+  let projectDir: string;
+
+  const readJson = (path: string) => JSON.parse(readFileSync(path, 'utf-8'));
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `mcp-test-${randomUUID()}`);
+    env.home = join(testDir, 'home');
+    projectDir = join(testDir, 'project');
+    mkdirSync(env.home, { recursive: true });
+    mkdirSync(projectDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('edits only the winning definition and backs the file up', async () => {
+    const claudeJsonPath = join(env.home, '.claude.json');
+    const mcpJsonPath = join(projectDir, '.mcp.json');
+    writeFileSync(mcpJsonPath, JSON.stringify({ mcpServers: { fetch: { command: 'uvx' } } }));
+    writeFileSync(claudeJsonPath, JSON.stringify({
+      projects: {
+        [projectDir]: {
+          mcpServers: {
+            fetch: { command: 'npx', args: ['-y', 'fetch'] },
+            other: { command: 'node' },
+          },
+        },
+      },
+    }));
+
+    const result = await editServerDefinition('fetch', [
+      { path: 'args[1]', value: 'fetch@2' },
+      { path: 'env.DEBUG', value: '1' },
+    ], projectDir);
+
+    expect(result.file).toBe(claudeJsonPath);
+    expect(result.scope).toBe('local');
+    expect(readJson(claudeJsonPath).projects[projectDir].mcpServers).toEqual({
+      fetch: { command: 'npx', args: ['-y', 'fetch@2'], env: { DEBUG: '1' } },
+      other: { command: 'node' },
+    });
+    expect(readJson(mcpJsonPath).mcpServers.fetch).toEqual({ command: 'uvx' });
+    const backupDir = join(env.home, '.claude', 'backups');
+    expect(readdirSync(backupDir).filter((f) => f !== 'index.json')).toHaveLength(1);
+    expect(readJson(join(backupDir, 'index.json')).backups).toEqual([
+      expect.objectContaining({ source: claudeJsonPath, operation: 'edit fetch' }),
+    ]);
+  });
+
+  it('edits servers in the root-level .mcp.json format', async () => {
+    const mcpJsonPath = join(projectDir, '.mcp.json');
+    writeFileSync(mcpJsonPath, JSON.stringify({ time: { command: 'uvx', args: ['mcp-time'] } }));
+
+    await editServerDefinition('time', [{ path: 'command', value: 'pipx' }], projectDir);
+
+    expect(readJson(mcpJsonPath)).toEqual({ time: { command: 'pipx', args: ['mcp-time'] } });
+  });
+
+  it('rejects unknown servers and invalid results without writing', async () => {
+    const mcpJsonPath = join(projectDir, '.mcp.json');
+    writeFileSync(mcpJsonPath, JSON.stringify({ mcpServers: { fetch: { command: 'uvx' } } }));
+
+    await expect(editServerDefinition('missing', [], projectDir)).rejects.toThrow('not found');
+    await expect(editServerDefinition('fetch', [{ path: 'command' }], projectDir)).rejects.toThrow('Command is required');
+    expect(readJson(mcpJsonPath).mcpServers.fetch).toEqual({ command: 'uvx' });
+  });
+});
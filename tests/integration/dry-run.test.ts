@@ -0,0 +1,231 @@
+/**
+ * Integration tests for write recording and dry runs
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdirSync, writeFileSync, readFileSync, readdirSync, rmSync, existsSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomUUID } from 'node:crypto';
+import type { Server } from '../../src/types/index.js';
+
+const env = vi.hoisted(() => ({ home: '' }));
+
+vi.mock('node:os', async () => {
+  const actual = await vi.importActual<typeof import('node:os')>('node:os');
+  return {
+    ...actual,
+    homedir: vi.fn(() => env.home),
+  };
+});
+
+import {
+  formatUnifiedDiff,
+  readTextFile,
+  startWriteRecording,
+  stopWriteRecording,
+} from '../../src/core/config/dry-run.js';
+import { atomicWriteJson } from '../../src/core/config/writer.js';
+import { commitJsonTransaction, listTransactions } from '../../src/core/config/transaction.js';
+import { saveServerStates } from '../../src/core/config/state.js';
+import { withWriteMode } from '../../src/cli/dry-run.js';
+import { runEdit } from '../../src/cli/commands/edit.js';
+import { runProfileApply } from '../../src/cli/commands/profile.js';
+import { runBudget } from '../../src/cli/commands/budget.js';
+import { runBackupsRestore } from '../../src/cli/commands/backups.js';
+
+const STUB = join(__dirname, '..', 'fixtures', 'stub-mcp-server.mjs');
+
+describe('write recording', () => {
+  let testDir: string;
+  let file: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `mcp-test-${randomUUID()}`);
+    env.home = join(testDir, 'home');
+    mkdirSync(env.home, { recursive: true });
+
+    file = join(testDir, 'settings.json');
+    writeFileSync(file, '{\n  "a": 1\n}\n');
+  });
+
+  afterEach(() => {
+    stopWriteRecording();
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('keeps dry-run writes in memory and reports them', () => {
+    startWriteRecording({ dryRun: true });
+
+    atomicWriteJson(file, { a: 2 }, { backup: true });
+    expect(readTextFile(file)).toBe('{\n  "a": 2\n}\n');
+
+    const writes = stopWriteRecording();
+
+    expect(readFileSync(file, 'utf-8')).toBe('{\n  "a": 1\n}\n');
+    expect(existsSync(join(env.home, '.claude', 'backups'))).toBe(false);
+    expect(writes).toEqual([{ path: file, before: '{\n  "a": 1\n}\n', after: '{\n  "a": 2\n}\n' }]);
+  });
+
+  it('skips transaction journals on a dry run', () => {
+    const created = join(testDir, 'new.json');
+    startWriteRecording({ dryRun: true });
+
+    commitJsonTransaction('save', [
+      { path: file, data: { a: 3 } },
+      { path: created, data: {} },
+    ]);
+    const writes = stopWriteRecording();
+
+    expect(listTransactions()).toEqual([]);
+    expect(existsSync(created)).toBe(false);
+    expect(writes.map((w) => [w.path, w.before === null])).toEqual([
+      [file, false],
+      [created, true],
+    ]);
+  });
+
+  it('writes files as usual when only recording', () => {
+    startWriteRecording();
+
+    atomicWriteJson(file, { a: 2 });
+    const writes = stopWriteRecording();
+
+    expect(JSON.parse(readFileSync(file, 'utf-8'))).toEqual({ a: 2 });
+    expect(writes[0]!.after).toBe(readFileSync(file, 'utf-8'));
+  });
+
+  it('does not create settings files while previewing a save', async () => {
+    const projectDir = join(testDir, 'project');
+    mkdirSync(projectDir);
+    const server: Server = {
+      name: 'fetch',
+      state: 'off',
+      scope: 'project',
+      definitionFile: '',
+      sourceType: 'mcpjson',
+      flags: { enterprise: false, blocked: false, restricted: false },
+      runtime: 'unknown',
+    };
+
+    startWriteRecording({ dryRun: true });
+    const { errors } = await saveServerStates([server], projectDir);
+    const writes = stopWriteRecording();
+
+    expect(errors).toEqual([]);
+    expect(existsSync(join(projectDir, '.claude'))).toBe(false);
+    expect(existsSync(join(env.home, '.claude.json'))).toBe(false);
+    expect(writes.map((w) => w.path)).toEqual([
+      join(projectDir, '.claude', 'settings.local.json'),
+      join(env.home, '.claude.json'),
+    ]);
+  });
+});
+
+describe('commands with --dry-run', () => {
+  let testDir: string;
+  let repo: string;
+
+  /** Every file under the test folder with its contents */
+  const snapshot = () => Object.fromEntries(
+    readdirSync(testDir, { recursive: true, encoding: 'utf-8' })
+      .map((path) => join(testDir, path))
+      .filter((path) => statSync(path).isFile())
+      .map((path) => [path, readFileSync(path, 'utf-8')])
+  );
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `mcp-test-${randomUUID()}`);
+    env.home = join(testDir, 'home');
+    repo = join(testDir, 'repo');
+    mkdirSync(join(env.home, '.claude'), { recursive: true });
+    mkdirSync(join(repo, '.git'), { recursive: true });
+
+    const stub = { command: process.execPath, args: [STUB] };
+    writeFileSync(join(repo, '.mcp.json'), JSON.stringify({ mcpServers: { fetch: stub } }, null, 2));
+    writeFileSync(join(env.home, '.claude.json'), '{}\n');
+    writeFileSync(join(env.home, '.claude', 'mcp-profiles.json'), JSON.stringify({
+      profiles: { quiet: { servers: { fetch: 'orange', time: 'red' } } },
+    }, null, 2));
+
+    // Leaves a backup of the empty ~/.claude.json for backups restore
+    atomicWriteJson(join(env.home, '.claude.json'), { mcpServers: { time: stub } }, { backup: true });
+
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  const commands: Array<[string, (options: { dryRun: boolean }) => Promise<void>]> = [
+    ['edit', (options) => runEdit('fetch', { ...options, set: ['command=npx'], project: repo })],
+    ['profile apply', (options) => runProfileApply('quiet', { ...options, project: repo })],
+    ['budget --apply', (options) => runBudget({ ...options, maxTokens: '1', apply: true, project: repo })],
+    ['backups restore', (options) => runBackupsRestore('1', options)],
+  ];
+
+  it.each(commands)('%s leaves every file unchanged', async (_name, run) => {
+    const before = snapshot();
+    const options = { dryRun: true };
+
+    await withWriteMode(options, () => run(options));
+
+    expect(snapshot()).toEqual(before);
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('nothing was written'));
+  });
+});
+
+describe('formatUnifiedDiff', () => {
+  it('shows changed lines with context', () => {
+    const before = ['{', '  "a": [', '    "x"', '  ],', '  "b": 1', '}', ''].join('\n');
+    const after = ['{', '  "a": [', '    "x",', '    "y"', '  ],', '  "b": 1', '}', ''].join('\n');
+
+    expect(formatUnifiedDiff({ path: '/p.json', before, after })).toEqual([
+      '--- /p.json',
+      '+++ /p.json',
+      '@@ -1,6 +1,7 @@',
+      ' {',
+      '   "a": [',
+      '-    "x"',
+      '+    "x",',
+      '+    "y"',
+      '   ],',
+      '   "b": 1',
+      ' }',
+    ]);
+  });
+
+  it('splits distant changes into separate hunks', () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const changed = [...lines];
+    changed[1] = 'changed 2';
+    changed[18] = 'changed 19';
+
+    const diff = formatUnifiedDiff({ path: '/p', before: lines.join('\n'), after: changed.join('\n') });
+
+    expect(diff.filter((line) => line.startsWith('@@'))).toEqual(['@@ -1,5 +1,5 @@', '@@ -16,5 +16,5 @@']);
+  });
+
+  it('diffs new and deleted files against /dev/null', () => {
+    expect(formatUnifiedDiff({ path: '/p', before: null, after: 'a\nb\n' })).toEqual([
+      '--- /dev/null',
+      '+++ /p',
+      '@@ -0,0 +1,2 @@',
+      '+a',
+      '+b',
+    ]);
+    expect(formatUnifiedDiff({ path: '/p', before: 'a\n', after: null })).toEqual([
+      '--- /p',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-a',
+    ]);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Integration tests for server inventories and the inventory cache
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdirSync, readFileSync, rmSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomUUID } from 'node:crypto';
+import type { Server } from '../../src/types/index.js';
+
+const env = vi.hoisted(() => ({ home: '' }));
+
+vi.mock('node:os', async () => {
+  const actual = await vi.importActual<typeof import('node:os')>('node:os');
+  return {
+    ...actual,
+    homedir: vi.fn(() => env.home),
+  };
+});
+
+import { probeServer, getServerInventories } from '../../src/core/mcp/probe.js';
+import {
+  estimateTokens,
+  estimateToolTokens,
+  loadCachedInventories,
+  saveInventories,
+  sumTokens,
+} from '../../src/core/mcp/inventory.js';
+
+const STUB = join(__dirname, '..', 'fixtures', 'stub-mcp-server.mjs');
+
+const stub = (mode?: string) => ({
+  command: process.execPath,
+  args: mode ? [STUB, mode] : [STUB],
+});
+
+const makeServer = (name: string, definition = stub()): Server => ({
+  name,
+  state: 'on',
+  scope: 'project',
+  definitionFile: '/project/.mcp.json',
+  sourceType: 'mcpjson',
+  flags: { enterprise: false, blocked: false, restricted: false },
+  runtime: 'unknown',
+  definition,
+});
+
+describe('token estimates', () => {
+  it('uses about four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+
+  it('counts the tool schema', () => {
+    const small = estimateToolTokens({ name: 'a', inputSchema: { type: 'object' } });
+    const large = estimateToolTokens({
+      name: 'a',
+      description: 'A much longer description of what this tool does',
+      inputSchema: { type: 'object', properties: { query: { type: 'string' } } },
+    });
+    expect(large).toBeGreaterThan(small);
+  });
+});
+
+describe('probeServer with inventory', () => {
+  it('lists tools and prompts after initialize', async () => {
+    const result = await probeServer('stub', stub(), { inventory: true });
+
+    expect(result.status).toBe('connected');
+    expect(result.inventory).toMatchObject({
+      server: 'stub',
+      prompts: 2,
+      resources: 0,
+    });
+    expect(result.inventory!.tools.map((t) => t.name)).toEqual(['echo']);
+
+    const toolTokens = result.inventory!.tools[0]!.tokens;
+    expect(result.inventory!.tokens).toBe(toolTokens + estimateTokens('Use echo to repeat text.'));
+  });
+
+  it('follows list cursors', async () => {
+    const result = await probeServer('paged', stub('paged'), { inventory: true });
+    expect(result.inventory!.tools.map((t) => t.name)).toEqual(['echo', 'reverse']);
+  });
+
+  it('omits the inventory when the probe fails', async () => {
+    const result = await probeServer('broken', stub('exit'), { inventory: true });
+
+    expect(result.status).toBe('failed');
+    expect(result.inventory).toBeUndefined();
+  });
+});
+
+describe('inventory cache', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `mcp-test-${randomUUID()}`);
+    env.home = join(testDir, 'home');
+    mkdirSync(env.home, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  const inventory = (server: string, tokens: number) => ({
+    server,
+    tools: [],
+    prompts: 0,
+    resources: 0,
+    tokens,
+    inspectedAt: '2026-01-01T00:00:00.000Z',
+  });
+
+  it('round-trips inventories for unchanged definitions', async () => {
+    const server = makeServer('fetch');
+    await saveInventories([{ inventory: inventory('fetch', 120), definition: server.definition }]);
+
+    const cached = await loadCachedInventories([server]);
+    expect(cached).toEqual({ fetch: inventory('fetch', 120) });
+
+    const file = JSON.parse(readFileSync(join(env.home, '.claude', 'mcp-inventory.json'), 'utf-8'));
+    expect(file.version).toBe(1);
+  });
+
+  it('ignores entries whose definition changed', async () => {
+    await saveInventories([{ inventory: inventory('fetch', 120), definition: { command: 'old' } }]);
+
+    expect(await loadCachedInventories([makeServer('fetch')])).toEqual({});
+  });
+
+  it('keeps other servers when saving', async () => {
+    const a = makeServer('a');
+    const b = makeServer('b');
+    await saveInventories([{ inventory: inventory('a', 1), definition: a.definition }]);
+    await saveInventories([{ inventory: inventory('b', 2), definition: b.definition }]);
+
+    const cached = await loadCachedInventories([a, b]);
+    expect(sumTokens(Object.values(cached))).toBe(3);
+  });
+
+  it('probes only servers without a cached inventory', async () => {
+    const cachedServer = makeServer('cached', { command: 'definitely-not-a-real-mcp-command' });
+    await saveInventories([{ inventory: inventory('cached', 50), definition: cachedServer.definition }]);
+
+    const { inventories, failures } = await getServerInventories([
+      cachedServer,
+      makeServer('live'),
+      makeServer('broken', stub('exit')),
+    ]);
+
+    expect(inventories.cached!.tokens).toBe(50);
+    expect(inventories.live!.tools).toHaveLength(1);
+    expect(failures.map((f) => f.server)).toEqual(['broken']);
+
+    // The fresh inventory was written back
+    expect(Object.keys(await loadCachedInventories([makeServer('live')]))).toEqual(['live']);
+  });
+
+  it('re-probes everything with refresh', async () => {
+    const server = makeServer('missing', { command: 'definitely-not-a-real-mcp-command' });
+    await saveInventories([{ inventory: inventory('missing', 50), definition: server.definition }]);
+
+    const { inventories, failures } = await getServerInventories([server], { refresh: true });
+
+    expect(inventories).toEqual({});
+    expect(failures).toHaveLength(1);
+  });
+});
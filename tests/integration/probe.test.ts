@@ -0,0 +1,248 @@
+/**
+ * Integration tests for the MCP health probe
+ *
+ * Uses tests/fixtures/stub-mcp-server.mjs for stdio and an in-process
+ * node:http server for the HTTP transports.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { chmodSync, copyFileSync, mkdirSync, realpathSync, rmSync, writeFileSync } from 'node:fs';
+import { createServer, type IncomingMessage, type Server as HttpServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { probeServer, probeServers } from '../../src/core/mcp/probe.js';
+import { withHomeDir } from '../../src/utils/platform.js';
+
+const STUB = join(__dirname, '..', 'fixtures', 'stub-mcp-server.mjs');
+
+const stub = (mode?: string) => ({
+  command: process.execPath,
+  args: mode ? [STUB, mode] : [STUB],
+});
+
+describe('probeServer (stdio)', () => {
+  it('reports connected with server info', async () => {
+    const result = await probeServer('stub', stub());
+
+    expect(result).toMatchObject({
+      server: 'stub',
+      status: 'connected',
+      transport: 'stdio',
+      serverInfo: { name: 'stub', version: '1.0.0' },
+      protocolVersion: '2025-06-18',
+    });
+    expect(result.error).toBeUndefined();
+  });
+
+  it('ignores non-JSON lines on stdout', async () => {
+    const result = await probeServer('noisy', stub('noisy'));
+    expect(result.status).toBe('connected');
+  });
+
+  it('reports a missing command', async () => {
+    const result = await probeServer('missing', { command: 'definitely-not-a-real-mcp-command' });
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toContain('Command not found');
+  });
+
+  it('reports exit code and stderr when the process dies', async () => {
+    const result = await probeServer('broken', stub('exit'));
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toContain('code 3');
+    expect(result.error).toContain('missing API_KEY');
+  });
+
+  it('reports JSON-RPC errors from initialize', async () => {
+    const result = await probeServer('refusing', stub('error'));
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toBe('stub refused');
+  });
+
+  it('times out when the server never answers', async () => {
+    const result = await probeServer('silent', stub('silent'), { timeoutMs: 300 });
+
+    expect(result.status).toBe('timeout');
+    expect(result.latencyMs).toBeGreaterThanOrEqual(250);
+  });
+
+  it('fails without a command or url', async () => {
+    expect((await probeServer('empty', {})).error).toBe('No command in definition');
+    expect((await probeServer('empty', { type: 'http' })).error).toBe('No url in definition');
+  });
+});
+
+describe('probeServer (plugin)', () => {
+  let testDir: string;
+  let home: string;
+  let installPath: string;
+
+  // Launched through ${CLAUDE_PLUGIN_ROOT}, as plugins ship their servers
+  const definition = { command: '${CLAUDE_PLUGIN_ROOT}/server.mjs', args: ['plugin'] };
+
+  beforeAll(() => {
+    testDir = join(realpathSync(tmpdir()), `mcp-test-${randomUUID()}`);
+    home = join(testDir, 'home');
+    installPath = join(home, '.claude', 'plugins', 'cache', 'tools');
+    mkdirSync(installPath, { recursive: true });
+    copyFileSync(STUB, join(installPath, 'server.mjs'));
+    chmodSync(join(installPath, 'server.mjs'), 0o755);
+    writeFileSync(join(home, '.claude', 'plugins', 'installed_plugins.json'), JSON.stringify({
+      version: 2,
+      plugins: { 'tools@market': [{ scope: 'user', installPath }] },
+    }));
+  });
+
+  afterAll(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('sets CLAUDE_PLUGIN_ROOT to the install path', async () => {
+    const result = await withHomeDir(home, () =>
+      probeServer('stub:tools@market', definition, { sourceType: 'plugin' })
+    );
+
+    expect(result).toMatchObject({ status: 'connected', serverInfo: { name: 'stub' } });
+  });
+
+  it('passes the source type through probeServers', async () => {
+    const results = await withHomeDir(home, () =>
+      probeServers([{ name: 'stub:tools@market', definition, sourceType: 'plugin' }])
+    );
+
+    expect(results[0]!.status).toBe('connected');
+  });
+
+  it('reports CLAUDE_PLUGIN_ROOT for servers that are not plugins', async () => {
+    const result = await withHomeDir(home, () => probeServer('stub:tools@market', definition));
+
+    expect(result.error).toBe('Variables not set: CLAUDE_PLUGIN_ROOT');
+  });
+});
+
+describe('probeServers', () => {
+  it('returns results in input order', async () => {
+    const results = await probeServers(
+      [
+        { name: 'a', definition: stub() },
+        { name: 'b', definition: stub('exit') },
+        { name: 'c', definition: stub() },
+      ],
+      { concurrency: 2 }
+    );
+
+    expect(results.map((r) => [r.server, r.status])).toEqual([
+      ['a', 'connected'],
+      ['b', 'failed'],
+      ['c', 'connected'],
+    ]);
+  });
+});
+
+describe('probeServer (http/sse)', () => {
+  let server: HttpServer;
+  let baseUrl: string;
+  const sseClients = new Set<import('node:http').ServerResponse>();
+
+  const readBody = async (req: IncomingMessage) => {
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    return JSON.parse(body);
+  };
+
+  const initializeResult = (id: number) => ({
+    jsonrpc: '2.0',
+    id,
+    result: { protocolVersion: '2025-06-18', capabilities: {}, serverInfo: { name: 'http-stub' } },
+  });
+
+  beforeAll(async () => {
+    server = createServer(async (req, res) => {
+      const url = req.url ?? '';
+
+      if (url === '/mcp' && req.method === 'POST') {
+        const message = await readBody(req);
+        if (message.id === undefined) {
+          res.writeHead(202).end();
+          return;
+        }
+        res.writeHead(200, { 'content-type': 'application/json', 'mcp-session-id': 'abc' });
+        res.end(JSON.stringify(initializeResult(message.id)));
+        return;
+      }
+
+      if (url === '/mcp-stream' && req.method === 'POST') {
+        const message = await readBody(req);
+        if (message.id === undefined) {
+          res.writeHead(202).end();
+          return;
+        }
+        res.writeHead(200, { 'content-type': 'text/event-stream' });
+        res.end(`event: message\ndata: ${JSON.stringify(initializeResult(message.id))}\n\n`);
+        return;
+      }
+
+      if (url === '/auth') {
+        res.writeHead(req.headers.authorization === 'Bearer ok' ? 200 : 401).end();
+        return;
+      }
+
+      if (url === '/sse' && req.method === 'GET') {
+        res.writeHead(200, { 'content-type': 'text/event-stream' });
+        res.write('event: endpoint\ndata: /messages\n\n');
+        sseClients.add(res);
+        req.on('close', () => sseClients.delete(res));
+        return;
+      }
+
+      if (url === '/messages' && req.method === 'POST') {
+        const message = await readBody(req);
+        res.writeHead(202).end();
+        if (message.id !== undefined) {
+          for (const client of sseClients) {
+            client.write(`event: message\ndata: ${JSON.stringify(initializeResult(message.id))}\n\n`);
+          }
+        }
+        return;
+      }
+
+      res.writeHead(404).end();
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    for (const client of sseClients) client.end();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('connects to a streamable http server with a JSON response', async () => {
+    const result = await probeServer('http', { type: 'http', url: `${baseUrl}/mcp` });
+
+    expect(result).toMatchObject({ status: 'connected', transport: 'http', serverInfo: { name: 'http-stub' } });
+  });
+
+  it('connects to a streamable http server with an SSE response', async () => {
+    const result = await probeServer('http', { type: 'http', url: `${baseUrl}/mcp-stream` });
+    expect(result.status).toBe('connected');
+  });
+
+  it('reports HTTP errors', async () => {
+    const result = await probeServer('auth', { type: 'http', url: `${baseUrl}/auth` });
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toContain('401');
+  });
+
+  it('connects to a legacy sse server', async () => {
+    const result = await probeServer('sse', { type: 'sse', url: `${baseUrl}/sse` });
+
+    expect(result).toMatchObject({ status: 'connected', transport: 'sse' });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Integration tests for project root and project key resolution
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdirSync, writeFileSync, rmSync, existsSync, realpathSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomUUID } from 'node:crypto';
+
+const env = vi.hoisted(() => ({ home: '' }));
+
+vi.mock('node:os', async () => {
+  const actual = await vi.importActual<typeof import('node:os')>('node:os');
+  return {
+    ...actual,
+    homedir: vi.fn(() => env.home),
+  };
+});
+
+import { findProjectRoot, getProjectKey } from '../../src/utils/project.js';
+import { extractRawDefinitions } from '../../src/core/config/discovery.js';
+
+describe('findProjectRoot', () => {
+  let testDir: string;
+  let repo: string;
+
+  beforeEach(() => {
+    testDir = join(realpathSync(tmpdir()), `mcp-test-${randomUUID()}`);
+    env.home = join(testDir, 'home');
+    repo = join(env.home, 'repo');
+    mkdirSync(join(repo, '.git'), { recursive: true });
+    mkdirSync(join(repo, 'packages', 'app', 'src'), { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('walks up to the nearest .git', () => {
+    expect(findProjectRoot(join(repo, 'packages', 'app', 'src'))).toEqual({
+      start: join(repo, 'packages', 'app', 'src'),
+      root: repo,
+      marker: '.git',
+      key: repo,
+    });
+  });
+
+  it('stops at a nearer .claude but keys the project by its git root', () => {
+    mkdirSync(join(repo, 'packages', 'app', '.claude'));
+
+    expect(findProjectRoot(join(repo, 'packages', 'app', 'src'))).toMatchObject({
+      root: join(repo, 'packages', 'app'),
+      marker: '.claude',
+      key: repo,
+    });
+  });
+
+  it('does not treat ~/.claude as a project marker', () => {
+    mkdirSync(join(env.home, '.claude'));
+    mkdirSync(join(env.home, 'notes', 'drafts'), { recursive: true });
+
+    expect(findProjectRoot(join(env.home, 'notes', 'drafts'))).toEqual({
+      start: join(env.home, 'notes', 'drafts'),
+      root: join(env.home, 'notes', 'drafts'),
+      marker: null,
+      key: join(env.home, 'notes', 'drafts'),
+    });
+  });
+
+  it('keys a linked worktree by its main checkout', () => {
+    const worktree = join(testDir, 'feature');
+    const worktreeGitDir = join(repo, '.git', 'worktrees', 'feature');
+    mkdirSync(worktreeGitDir, { recursive: true });
+    mkdirSync(worktree);
+    writeFileSync(join(worktree, '.git'), `gitdir: ${worktreeGitDir}\n`);
+    writeFileSync(join(worktreeGitDir, 'commondir'), '../..\n');
+
+    expect(findProjectRoot(worktree)).toMatchObject({ root: worktree, marker: '.git', key: repo });
+  });
+
+  it('keys a submodule by its own folder', () => {
+    const submodule = join(repo, 'vendor', 'lib');
+    mkdirSync(join(repo, '.git', 'modules', 'lib'), { recursive: true });
+    mkdirSync(submodule, { recursive: true });
+    writeFileSync(join(submodule, '.git'), 'gitdir: ../../.git/modules/lib\n');
+
+    expect(getProjectKey(submodule)).toBe(submodule);
+  });
+
+  it('reads the project entry of ~/.claude.json by the project key', async () => {
+    writeFileSync(join(env.home, '.claude.json'), JSON.stringify({
+      projects: { [repo]: { mcpServers: { notes: { command: 'notes-mcp' } } } },
+    }));
+    mkdirSync(join(repo, 'packages', 'app', '.claude'));
+
+    const root = findProjectRoot(join(repo, 'packages', 'app', 'src')).root;
+    const defs = await extractRawDefinitions(root);
+
+    expect(defs.find((d) => d.server === 'notes')?.scope).toBe('local');
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Integration tests for the cross-project view (mcp projects, prune-projects)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdirSync, writeFileSync, readFileSync, rmSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomUUID } from 'node:crypto';
+import type { ClaudeJsonSchema, Server } from '../../src/types/index.js';
+
+const env = vi.hoisted(() => ({ home: '' }));
+
+vi.mock('node:os', async () => {
+  const actual = await vi.importActual<typeof import('node:os')>('node:os');
+  return {
+    ...actual,
+    homedir: vi.fn(() => env.home),
+  };
+});
+
+import {
+  applyProjectAction,
+  applyToProjects,
+  findStaleProjects,
+  listProjects,
+  pruneStaleProjects,
+} from '../../src/core/config/projects.js';
+import { readBackupIndex } from '../../src/core/config/writer.js';
+import { listTransactions } from '../../src/core/config/transaction.js';
+
+function createProject(dir: string, servers: string[]): void {
+  mkdirSync(join(dir, '.claude'), { recursive: true });
+  const mcpServers = Object.fromEntries(servers.map((name) => [name, { command: 'uvx', args: [name] }]));
+  writeFileSync(join(dir, '.mcp.json'), JSON.stringify({ mcpServers }));
+  writeFileSync(join(dir, '.claude', 'settings.local.json'), JSON.stringify({ enableAllProjectMcpServers: true }));
+}
+
+describe('mcp projects', () => {
+  let testDir: string;
+  let projectA: string;
+  let projectB: string;
+  let stale: string;
+
+  const readClaudeJson = (): ClaudeJsonSchema =>
+    JSON.parse(readFileSync(join(env.home, '.claude.json'), 'utf-8'));
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `mcp-test-${randomUUID()}`);
+    env.home = join(testDir, 'home');
+    mkdirSync(env.home, { recursive: true });
+
+    projectA = join(testDir, 'a');
+    projectB = join(testDir, 'b');
+    stale = join(testDir, 'deleted');
+    createProject(projectA, ['fetch', 'time']);
+    createProject(projectB, ['fetch']);
+
+    writeFileSync(join(env.home, '.claude.json'), JSON.stringify({
+      mcpServers: { github: { command: 'gh' } },
+      projects: {
+        [projectA]: {},
+        [projectB]: { disabledMcpServers: ['fetch'] },
+        [stale]: { disabledMcpServers: ['github'], mcpServers: { old: { command: 'old' } } },
+      },
+    }));
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('lists every project with its server states and flags stale paths', async () => {
+    const projects = await listProjects(projectA);
+
+    expect(projects.map((p) => [p.path, p.exists, p.current])).toEqual([
+      [projectA, true, true],
+      [projectB, true, false],
+      [stale, false, false],
+    ]);
+    expect(projects[1]!.servers.map((s) => [s.name, s.state])).toEqual([
+      ['fetch', 'orange'],
+      ['github', 'green'],
+    ]);
+    expect(projects[2]!.servers).toEqual([]);
+    expect(projects[2]!.entry).toEqual({
+      mcpServers: ['old'],
+      disabledMcpServers: ['github'],
+      enabledMcpjsonServers: [],
+      disabledMcpjsonServers: [],
+    });
+  });
+
+  it('disables a server in every project as one transaction', async () => {
+    const { results, unmatched, skipped, errors } = await applyToProjects('disable', { names: ['fetch'], filters: {} });
+
+    expect(errors).toEqual([]);
+    expect(unmatched).toEqual([]);
+    expect(skipped).toEqual([stale]);
+    expect(results.map((r) => [r.project, r.previous, r.success])).toEqual([
+      [projectA, 'green', true],
+      [projectB, 'orange', true],
+    ]);
+
+    for (const project of [projectA, projectB]) {
+      const settings = JSON.parse(readFileSync(join(project, '.claude', 'settings.local.json'), 'utf-8'));
+      expect(settings.disabledMcpjsonServers).toEqual(['fetch']);
+    }
+    expect(readClaudeJson().projects?.[projectB]?.disabledMcpServers).toBeUndefined();
+    expect(readClaudeJson().projects?.[stale]?.disabledMcpServers).toEqual(['github']);
+
+    expect(listTransactions().map((t) => t.operation)).toEqual(['save projects']);
+  });
+
+  it('only changes the given projects and reports names found nowhere', async () => {
+    const { results, unmatched } = await applyToProjects(
+      'pause',
+      { names: ['time', 'missing'], filters: {} },
+      { projects: [projectA] }
+    );
+
+    expect(results).toEqual([{ project: projectA, server: 'time', success: true, previous: 'green' }]);
+    expect(unmatched).toEqual(['missing']);
+    expect(readClaudeJson().projects?.[projectA]?.disabledMcpServers).toEqual(['time']);
+    expect(readClaudeJson().projects?.[projectB]?.disabledMcpServers).toEqual(['fetch']);
+  });
+
+  it('writes nothing when no state changes', async () => {
+    await applyToProjects('enable', { names: ['github'], filters: {} });
+    expect(listTransactions()).toEqual([]);
+  });
+
+  it('prunes only the MCP keys of stale projects and backs up the file', async () => {
+    const { pruned, backup } = await pruneStaleProjects();
+
+    expect(pruned).toEqual([{ path: stale, mcpKeys: ['disabledMcpServers', 'mcpServers'], otherKeys: [] }]);
+    expect(backup).not.toBeNull();
+    expect(readBackupIndex().map((b) => b.operation)).toEqual(['prune-projects']);
+
+    const { projects } = readClaudeJson();
+    expect(projects?.[stale]).toEqual({});
+    expect(projects?.[projectB]).toEqual({ disabledMcpServers: ['fetch'] });
+
+    // Nothing left to prune without --entire
+    expect((await pruneStaleProjects()).pruned).toEqual([]);
+
+    await pruneStaleProjects({ entire: true });
+    expect(Object.keys(readClaudeJson().projects ?? {})).toEqual([projectA, projectB]);
+  });
+
+  it('rejects project paths that are not in ~/.claude.json', async () => {
+    await expect(
+      applyToProjects('disable', { names: ['fetch'], filters: {} }, { projects: [join(testDir, 'other')] })
+    ).rejects.toThrow('Not a project in ~/.claude.json');
+  });
+});
+
+describe('findStaleProjects', () => {
+  it('splits MCP keys from the rest of each stale entry', () => {
+    const projects = {
+      '/gone': { disabledMcpServers: ['x'], allowedTools: [] },
+      '/here': { mcpServers: {} },
+    };
+
+    expect(findStaleProjects(projects, (path) => path === '/here')).toEqual([
+      { path: '/gone', mcpKeys: ['disabledMcpServers'], otherKeys: ['allowedTools'] },
+    ]);
+  });
+});
+
+describe('applyProjectAction', () => {
+  const github: Server = {
+    name: 'github',
+    state: 'on',
+    scope: 'user',
+    definitionFile: '~/.claude.json',
+    sourceType: 'direct-global',
+    flags: { enterprise: false, blocked: false, restricted: false },
+    runtime: 'unknown',
+  };
+
+  it('refuses to pause direct servers', () => {
+    const outcome = applyProjectAction('/repo', [github], 'pause', { names: ['github'], filters: {} });
+
+    expect(outcome.changed).toBe(false);
+    expect(outcome.results[0]).toMatchObject({ success: false, error: expect.stringContaining('cannot be paused') });
+  });
+});
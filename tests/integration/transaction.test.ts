@@ -0,0 +1,266 @@
+/**
+ * Integration tests for multi-file transactions
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdirSync, writeFileSync, readFileSync, rmSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomUUID } from 'node:crypto';
+import type { Server } from '../../src/types/index.js';
+
+const env = vi.hoisted(() => ({ home: '' }));
+
+vi.mock('node:os', async () => {
+  const actual = await vi.importActual<typeof import('node:os')>('node:os');
+  return {
+    ...actual,
+    homedir: vi.fn(() => env.home),
+  };
+});
+
+import {
+  commitJsonTransaction,
+  listTransactions,
+  undoTransaction,
+  TransactionError,
+} from '../../src/core/config/transaction.js';
+import { previewServerStates, saveServerStates } from '../../src/core/config/state.js';
+
+describe('commitJsonTransaction', () => {
+  let testDir: string;
+  let fileA: string;
+  let fileB: string;
+
+  const readJson = (path: string) => JSON.parse(readFileSync(path, 'utf-8'));
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `mcp-test-${randomUUID()}`);
+    env.home = join(testDir, 'home');
+    mkdirSync(env.home, { recursive: true });
+
+    fileA = join(testDir, 'a.json');
+    fileB = join(testDir, 'b.json');
+    writeFileSync(fileA, JSON.stringify({ a: 1 }));
+    writeFileSync(fileB, JSON.stringify({ b: 1 }));
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('writes every file and records one committed journal entry', () => {
+    const entry = commitJsonTransaction('save', [
+      { path: fileA, data: { a: 2 } },
+      { path: fileB, data: { b: 2 } },
+    ]);
+
+    expect(readJson(fileA)).toEqual({ a: 2 });
+    expect(readJson(fileB)).toEqual({ b: 2 });
+    expect(entry.status).toBe('committed');
+    expect(listTransactions()).toHaveLength(1);
+    expect(listTransactions()[0]!.files.map((f) => f.path)).toEqual([fileA, fileB]);
+  });
+
+  it('restores every file when a later write fails', () => {
+    // A path below a regular file cannot be created
+    const impossible = join(fileB, 'nested.json');
+
+    let thrown: unknown;
+    try {
+      commitJsonTransaction('save', [
+        { path: fileA, data: { a: 2 } },
+        { path: impossible, data: {} },
+      ]);
+    } catch (error) {
+      thrown = error;
+    }
+
+    expect(thrown).toBeInstanceOf(TransactionError);
+    expect((thrown as TransactionError).message).toContain('rolled back');
+    expect(readJson(fileA)).toEqual({ a: 1 });
+    expect(listTransactions()[0]!.status).toBe('rolled-back');
+  });
+
+  it('undoes a committed transaction as a unit', () => {
+    const newFile = join(testDir, 'new.json');
+    const entry = commitJsonTransaction('save', [
+      { path: fileA, data: { a: 2 } },
+      { path: newFile, data: { created: true } },
+    ]);
+
+    undoTransaction(entry.id);
+
+    expect(readJson(fileA)).toEqual({ a: 1 });
+    expect(existsSync(newFile)).toBe(false);
+
+    const [undo, original] = listTransactions();
+    expect(original!.status).toBe('undone');
+    expect(original!.undoneBy).toBe(undo!.id);
+    expect(undo!.operation).toContain('undo save');
+  });
+
+  it('refuses to undo a transaction twice', () => {
+    const entry = commitJsonTransaction('save', [{ path: fileA, data: { a: 2 } }]);
+    undoTransaction(entry.id);
+
+    expect(() => undoTransaction(entry.id)).toThrow('cannot be undone');
+    expect(() => undoTransaction('missing')).toThrow('not found');
+  });
+});
+
+describe('saveServerStates transaction', () => {
+  let testDir: string;
+  let projectDir: string;
+
+  const server: Server = {
+    name: 'fetch',
+    state: 'on',
+    scope: 'project',
+    definitionFile: '',
+    sourceType: 'mcpjson',
+    flags: { enterprise: false, blocked: false, restricted: false },
+    runtime: 'stopped',
+  };
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `mcp-test-${randomUUID()}`);
+    env.home = join(testDir, 'home');
+    projectDir = join(testDir, 'project');
+    mkdirSync(env.home, { recursive: true });
+    mkdirSync(projectDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('journals both files of a save together', async () => {
+    const { errors } = await saveServerStates([server], projectDir);
+
+    expect(errors).toEqual([]);
+    const [entry] = listTransactions();
+    expect(entry!.operation).toBe('save');
+    expect(entry!.files.map((f) => f.path)).toEqual([
+      join(projectDir, '.claude', 'settings.local.json'),
+      join(env.home, '.claude.json'),
+    ]);
+  });
+
+  it('leaves settings untouched when ~/.claude.json cannot be written', async () => {
+    const settingsPath = join(projectDir, '.claude', 'settings.local.json');
+    mkdirSync(join(projectDir, '.claude'));
+    writeFileSync(settingsPath, JSON.stringify({ enabledMcpjsonServers: ['old'] }));
+
+    // A directory in place of ~/.claude.json makes the second write fail
+    mkdirSync(join(env.home, '.claude.json'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const { saved, errors } = await saveServerStates([server], projectDir);
+
+    expect(saved).toBe(0);
+    expect(errors[0]).toContain('Failed to save');
+    expect(JSON.parse(readFileSync(settingsPath, 'utf-8'))).toEqual({ enabledMcpjsonServers: ['old'] });
+    expect(listTransactions().filter((t) => t.status === 'committed')).toEqual([]);
+  });
+
+  it('edits only the server arrays of a commented settings file', async () => {
+    const settingsPath = join(projectDir, '.claude', 'settings.local.json');
+    mkdirSync(join(projectDir, '.claude'));
+    const original = [
+      '{',
+      '    // Shared with the team',
+      '    "permissions": {"allow": ["Bash(npm test)"]},',
+      '    "enabledMcpjsonServers": [],',
+      '    "model": "opus", /* pinned */',
+      '}',
+      '',
+    ].join('\n');
+    writeFileSync(settingsPath, original);
+
+    const { errors } = await saveServerStates([server], projectDir);
+
+    expect(errors).toEqual([]);
+    expect(readFileSync(settingsPath, 'utf-8')).toBe(
+      original.replace('"enabledMcpjsonServers": []', '"enabledMcpjsonServers": ["fetch"]')
+    );
+  });
+});
+
+describe('previewServerStates', () => {
+  let testDir: string;
+  let projectDir: string;
+  let settingsPath: string;
+
+  const createServer = (name: string, overrides: Partial<Server> = {}): Server => ({
+    name,
+    state: 'on',
+    scope: 'project',
+    definitionFile: '',
+    sourceType: 'mcpjson',
+    flags: { enterprise: false, blocked: false, restricted: false },
+    runtime: 'unknown',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `mcp-test-${randomUUID()}`);
+    env.home = join(testDir, 'home');
+    projectDir = join(testDir, 'project');
+    settingsPath = join(projectDir, '.claude', 'settings.local.json');
+    mkdirSync(env.home, { recursive: true });
+    mkdirSync(join(projectDir, '.claude'), { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('lists the keys and array entries a save would change without writing', async () => {
+    const settings = { enabledMcpjsonServers: ['time'], disabledMcpjsonServers: ['fetch'], model: 'opus' };
+    writeFileSync(settingsPath, JSON.stringify(settings));
+
+    const [settingsDiff] = await previewServerStates(
+      [createServer('fetch'), createServer('time')],
+      projectDir
+    );
+
+    expect(settingsDiff).toEqual({
+      path: settingsPath,
+      exists: true,
+      changes: [
+        { path: 'disabledMcpjsonServers', type: 'removed', before: ['fetch'] },
+        { path: 'enabledMcpjsonServers[]', type: 'added', after: 'fetch' },
+      ],
+    });
+    expect(JSON.parse(readFileSync(settingsPath, 'utf-8'))).toEqual(settings);
+    expect(listTransactions()).toEqual([]);
+  });
+
+  it('reports runtime-disabled servers under the project in ~/.claude.json', async () => {
+    const files = await previewServerStates([createServer('memory', { runtime: 'stopped' })], projectDir);
+    const claudeJson = files.find((f) => f.path === join(env.home, '.claude.json'));
+
+    expect(claudeJson!.exists).toBe(false);
+    expect(claudeJson!.changes).toEqual([
+      { path: 'projects', type: 'added', after: { [projectDir]: { disabledMcpServers: ['memory'] } } },
+    ]);
+    expect(existsSync(join(env.home, '.claude.json'))).toBe(false);
+  });
+
+  it('reports nothing when the files already match', async () => {
+    const servers = [createServer('fetch'), createServer('time', { state: 'off' })];
+    await saveServerStates(servers, projectDir);
+
+    const files = await previewServerStates(servers, projectDir);
+
+    expect(files.map((f) => f.changes)).toEqual([[], []]);
+  });
+});
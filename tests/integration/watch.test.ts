@@ -0,0 +1,91 @@
+/**
+ * Integration tests for config file watching
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdirSync, writeFileSync, rmSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomUUID } from 'node:crypto';
+
+const env = vi.hoisted(() => ({ home: '' }));
+
+vi.mock('node:os', async () => {
+  const actual = await vi.importActual<typeof import('node:os')>('node:os');
+  return {
+    ...actual,
+    homedir: vi.fn(() => env.home),
+  };
+});
+
+import { watchConfigFiles } from '../../src/core/config/watch.js';
+
+/** Wait for the next reported change (or fail after a timeout) */
+function nextChange(changes: string[][]): Promise<string[]> {
+  const seen = changes.length;
+  return vi.waitFor(
+    () => {
+      if (changes.length === seen) throw new Error('No change reported');
+      return changes[seen]!;
+    },
+    { timeout: 3000, interval: 20 }
+  );
+}
+
+describe('watchConfigFiles', () => {
+  let testDir: string;
+  let project: string;
+  let stop: (() => void) | null;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `mcp-test-${randomUUID()}`);
+    env.home = join(testDir, 'home');
+    project = join(testDir, 'project');
+    mkdirSync(env.home, { recursive: true });
+    mkdirSync(project, { recursive: true });
+    writeFileSync(join(env.home, '.claude.json'), '{}');
+    stop = null;
+  });
+
+  afterEach(() => {
+    stop?.();
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('reports changes to watched files once writes settle', async () => {
+    const changes: string[][] = [];
+    stop = await watchConfigFiles(project, (paths) => changes.push(paths), { debounceMs: 50 });
+
+    const change = nextChange(changes);
+    writeFileSync(join(env.home, '.claude.json'), '{"projects":{}}');
+    writeFileSync(join(env.home, '.claude.json'), '{"projects":{"a":{}}}');
+
+    expect(await change).toEqual([join(env.home, '.claude.json')]);
+  });
+
+  it('ignores other files in watched directories', async () => {
+    const changes: string[][] = [];
+    stop = await watchConfigFiles(project, (paths) => changes.push(paths), { debounceMs: 50 });
+
+    const change = nextChange(changes);
+    writeFileSync(join(project, 'README.md'), 'hello');
+    writeFileSync(join(project, '.mcp.json'), '{"mcpServers":{}}');
+
+    expect(await change).toEqual([join(project, '.mcp.json')]);
+  });
+
+  it('watches a settings directory created after startup', async () => {
+    const changes: string[][] = [];
+    stop = await watchConfigFiles(project, (paths) => changes.push(paths), { debounceMs: 50 });
+
+    let change = nextChange(changes);
+    mkdirSync(join(project, '.claude'));
+    await change;
+
+    change = nextChange(changes);
+    writeFileSync(join(project, '.claude', 'settings.local.json'), '{}');
+    expect(await change).toEqual([join(project, '.claude', 'settings.local.json')]);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Integration tests for JSON file writes
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, writeFileSync, readFileSync, rmSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomUUID } from 'node:crypto';
+import { formatJsonForFile } from '../../src/core/config/writer.js';
+
+describe('formatJsonForFile', () => {
+  let testDir: string;
+  let file: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `mcp-test-${randomUUID()}`);
+    mkdirSync(testDir, { recursive: true });
+    file = join(testDir, 'settings.json');
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  const format = (text: string | null, data: unknown) => {
+    if (text !== null) writeFileSync(file, text);
+    return formatJsonForFile(file, data);
+  };
+
+  it('formats missing, empty and "{}" files from scratch', () => {
+    const expected = '{\n  "enabledMcpjsonServers": [\n    "fetch"\n  ]\n}\n';
+
+    expect(format(null, { enabledMcpjsonServers: ['fetch'] })).toBe(expected);
+    expect(format('', { enabledMcpjsonServers: ['fetch'] })).toBe(expected);
+    expect(format('{}', { enabledMcpjsonServers: ['fetch'] })).toBe(expected);
+  });
+
+  it('formats compact files from scratch', () => {
+    const updated = format('{"mcpServers":{"time":{"command":"uvx"}}}', {
+      mcpServers: { time: { command: 'uvx' } },
+      projects: { '/repo': { disabledMcpServers: ['time'] } },
+    });
+
+    expect(updated).toBe(JSON.stringify({
+      mcpServers: { time: { command: 'uvx' } },
+      projects: { '/repo': { disabledMcpServers: ['time'] } },
+    }, null, 2) + '\n');
+  });
+
+  it('edits files with a layout or comments in place', () => {
+    expect(format('{ "a": 1 } // keep\n', { a: 2 })).toBe('{ "a": 2 } // keep\n');
+    expect(format('{\n    "a": 1\n}\n', { a: 1, b: 2 })).toBe('{\n    "a": 1,\n    "b": 2\n}\n');
+    expect(readFileSync(file, 'utf-8')).toBe('{\n    "a": 1\n}\n');
+  });
+});
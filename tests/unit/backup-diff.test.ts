@@ -0,0 +1,83 @@
+/**
+ * Unit tests for the MCP config diff used by backups
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffJson, diffMcpKeys, mergeMcpKeys, pickMcpKeys } from '../../src/core/backups/diff.js';
+
+describe('pickMcpKeys', () => {
+  it('keeps MCP keys at the root and per project', () => {
+    const picked = pickMcpKeys({
+      numStartups: 12,
+      mcpServers: { fetch: { command: 'uvx' } },
+      projects: {
+        '/repo': { history: ['x'], disabledMcpServers: ['fetch'] },
+        '/other': { history: [] },
+      },
+    });
+
+    expect(picked).toEqual({
+      mcpServers: { fetch: { command: 'uvx' } },
+      projects: { '/repo': { disabledMcpServers: ['fetch'] } },
+    });
+  });
+
+  it('returns an empty object for non-objects', () => {
+    expect(pickMcpKeys(null)).toEqual({});
+    expect(pickMcpKeys([1, 2])).toEqual({});
+  });
+});
+
+describe('diffJson', () => {
+  it('reports server name lists entry by entry', () => {
+    expect(diffJson({ list: ['a', 'b'] }, { list: ['b', 'c'] })).toEqual([
+      { path: 'list[]', type: 'removed', before: 'a' },
+      { path: 'list[]', type: 'added', after: 'c' },
+    ]);
+  });
+
+  it('quotes keys that are not identifiers', () => {
+    expect(diffJson({ projects: {} }, { projects: { '/repo': { x: 1 } } })).toEqual([
+      { path: 'projects["/repo"]', type: 'added', after: { x: 1 } },
+    ]);
+  });
+
+  it('reports changed values and ignores equal ones', () => {
+    expect(diffJson(
+      { fetch: { command: 'uvx', args: ['a'] }, same: true },
+      { fetch: { command: 'npx', args: ['a'] }, same: true }
+    )).toEqual([{ path: 'fetch.command', type: 'changed', before: 'uvx', after: 'npx' }]);
+  });
+});
+
+describe('diffMcpKeys', () => {
+  it('ignores unrelated keys', () => {
+    expect(diffMcpKeys({ tips: 1, enabledPlugins: {} }, { tips: 2, enabledPlugins: {} })).toEqual([]);
+  });
+});
+
+describe('mergeMcpKeys', () => {
+  it('replaces MCP keys and keeps everything else', () => {
+    const current = {
+      tips: 2,
+      mcpServers: { added: { command: 'x' } },
+      projects: {
+        '/repo': { history: ['new'], disabledMcpServers: ['a'] },
+        '/new': { disabledMcpServers: ['b'] },
+      },
+    };
+    const backup = {
+      tips: 1,
+      disabledMcpServers: ['c'],
+      projects: { '/repo': { history: ['old'] } },
+    };
+
+    expect(mergeMcpKeys(current, backup)).toEqual({
+      tips: 2,
+      disabledMcpServers: ['c'],
+      projects: { '/repo': { history: ['new'] } },
+    });
+    // Input is not modified
+    expect(current.mcpServers).toEqual({ added: { command: 'x' } });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for the context budget planner
+ */
+
+import { describe, it, expect } from 'vitest';
+import { planBudget, getEnabledTokens, isBudgetCandidate } from '@/core/budget/budget.js';
+import type { Server, ServerInventory } from '@/types/index.js';
+
+// Helper to create test servers
+function createServer(overrides: Partial<Server> = {}): Server {
+  return {
+    name: 'test-server',
+    state: 'on',
+    scope: 'project',
+    definitionFile: './.mcp.json',
+    sourceType: 'mcpjson',
+    flags: { enterprise: false, blocked: false, restricted: false },
+    runtime: 'unknown',
+    ...overrides,
+  };
+}
+
+// Inventories with only a token count
+function inventories(tokens: Record<string, number>): Record<string, ServerInventory> {
+  return Object.fromEntries(
+    Object.entries(tokens).map(([server, count]) => [
+      server,
+      { server, tools: [], prompts: 0, resources: 0, tokens: count, inspectedAt: '' },
+    ])
+  );
+}
+
+describe('getEnabledTokens', () => {
+  it('only counts GREEN servers', () => {
+    const servers = [
+      createServer({ name: 'on' }),
+      createServer({ name: 'off', state: 'off' }),
+      createServer({ name: 'paused', runtime: 'stopped' }),
+    ];
+
+    expect(getEnabledTokens(servers, inventories({ on: 100, off: 200, paused: 300 }))).toBe(100);
+  });
+});
+
+describe('isBudgetCandidate', () => {
+  it('excludes protected and pinned servers', () => {
+    expect(isBudgetCandidate(createServer(), [])).toBe(true);
+    expect(isBudgetCandidate(createServer({ flags: { enterprise: true, blocked: false, restricted: false } }), [])).toBe(false);
+    expect(isBudgetCandidate(createServer({ flags: { enterprise: false, blocked: true, restricted: false } }), [])).toBe(false);
+    expect(isBudgetCandidate(createServer({ name: 'keep' }), ['keep'])).toBe(false);
+  });
+});
+
+describe('planBudget', () => {
+  const servers = [
+    createServer({ name: 'big' }),
+    createServer({ name: 'medium' }),
+    createServer({ name: 'small' }),
+    createServer({ name: 'tiny' }),
+  ];
+  const tokens = inventories({ big: 5000, medium: 3000, small: 1000, tiny: 200 });
+
+  it('reports within budget with no suggestions', () => {
+    const plan = planBudget(servers, tokens, 10000);
+
+    expect(plan).toMatchObject({ totalTokens: 9200, overBudget: false, suggestions: [], achievable: true });
+  });
+
+  it('picks the cheapest server that closes a small gap', () => {
+    const plan = planBudget(servers, tokens, 8500);
+
+    expect(plan.suggestions).toEqual([{ server: 'small', tokens: 1000 }]);
+    expect(plan.totalAfter).toBe(8200);
+  });
+
+  it('disables as few servers as possible', () => {
+    const plan = planBudget(servers, tokens, 1500);
+
+    expect(plan.suggestions.map((s) => s.server)).toEqual(['big', 'medium']);
+    expect(plan.achievable).toBe(true);
+  });
+
+  it('never suggests pinned or enterprise servers', () => {
+    const mixed = [
+      ...servers.slice(1),
+      createServer({ name: 'big', flags: { enterprise: true, blocked: false, restricted: false } }),
+    ];
+
+    const plan = planBudget(mixed, tokens, 4000, ['medium']);
+
+    expect(plan.suggestions.map((s) => s.server)).toEqual(['small', 'tiny']);
+    expect(plan.achievable).toBe(false);
+  });
+
+  it('lists enabled servers without an inventory', () => {
+    const plan = planBudget([...servers, createServer({ name: 'unseen' })], tokens, 10000);
+    expect(plan.unknown).toEqual(['unseen']);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Tests for server definition building and validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  splitArgs,
+  parseKeyValueList,
+  buildServerDefinition,
+  validateServerDefinition,
+  validateServerName,
+  applyDefinitionEdits,
+  parseAssignment,
+  formatArgs,
+  formatKeyValueList,
+  isDefinitionEditable,
+} from '@/core/servers/definitions.js';
+
+describe('splitArgs', () => {
+  it('splits on whitespace', () => {
+    expect(splitArgs('-y  @modelcontextprotocol/server-fetch')).toEqual([
+      '-y',
+      '@modelcontextprotocol/server-fetch',
+    ]);
+  });
+
+  it('keeps quoted arguments together', () => {
+    expect(splitArgs(`--root "/my projects" --name 'a b'`)).toEqual([
+      '--root',
+      '/my projects',
+      '--name',
+      'a b',
+    ]);
+  });
+
+  it('keeps empty quoted arguments', () => {
+    expect(splitArgs('--prefix ""')).toEqual(['--prefix', '']);
+  });
+
+  it('returns nothing for blank input', () => {
+    expect(splitArgs('   ')).toEqual([]);
+  });
+});
+
+describe('parseKeyValueList', () => {
+  it('parses env vars', () => {
+    expect(parseKeyValueList('API_KEY=abc, URL=http://x?a=b', '=')).toEqual({
+      API_KEY: 'abc',
+      URL: 'http://x?a=b',
+    });
+  });
+
+  it('parses headers', () => {
+    expect(parseKeyValueList('Authorization: Bearer t', ':')).toEqual({
+      Authorization: 'Bearer t',
+    });
+  });
+
+  it('returns an empty object for blank input', () => {
+    expect(parseKeyValueList('', '=')).toEqual({});
+  });
+
+  it('rejects malformed entries', () => {
+    expect(parseKeyValueList('NOVALUE', '=')).toBeNull();
+    expect(parseKeyValueList('=value', '=')).toBeNull();
+    expect(parseKeyValueList('TWO WORDS=x', '=')).toBeNull();
+  });
+});
+
+describe('buildServerDefinition', () => {
+  it('builds stdio definitions without empty fields', () => {
+    expect(buildServerDefinition({ transport: 'stdio', command: 'uvx', args: [], env: {} })).toEqual({
+      command: 'uvx',
+    });
+  });
+
+  it('builds http definitions with headers', () => {
+    expect(buildServerDefinition({
+      transport: 'http',
+      url: 'https://example.com/mcp',
+      headers: { Authorization: 'Bearer t' },
+    })).toEqual({
+      type: 'http',
+      url: 'https://example.com/mcp',
+      headers: { Authorization: 'Bearer t' },
+    });
+  });
+});
+
+describe('validateServerDefinition', () => {
+  it('accepts valid definitions', () => {
+    expect(validateServerDefinition({ command: 'npx', args: ['-y', 'pkg'] })).toBeNull();
+    expect(validateServerDefinition({ type: 'sse', url: 'http://localhost:3000/sse' })).toBeNull();
+  });
+
+  it('requires a command for stdio servers', () => {
+    expect(validateServerDefinition({ args: ['x'] })).toContain('Command');
+  });
+
+  it('rejects invalid URLs', () => {
+    expect(validateServerDefinition({ type: 'http', url: 'not a url' })).toContain('Invalid URL');
+    expect(validateServerDefinition({ type: 'http', url: 'ftp://host' })).toContain('http');
+  });
+
+  it('rejects mixed transports', () => {
+    expect(validateServerDefinition({ type: 'http', url: 'https://a', command: 'x' })).toContain('command');
+    expect(validateServerDefinition({ command: 'x', url: 'https://a' })).toContain('URL');
+  });
+});
+
+describe('validateServerName', () => {
+  it('rejects invalid names', () => {
+    expect(validateServerName('')).toContain('required');
+    expect(validateServerName('my server')).toContain('letters');
+    expect(validateServerName('my-server_2')).toBeNull();
+  });
+});
+
+describe('formatArgs / formatKeyValueList', () => {
+  it('round-trips through splitArgs and parseKeyValueList', () => {
+    const args = ['-y', 'my pkg', '', "it's"];
+    expect(splitArgs(formatArgs(args))).toEqual(args);
+
+    const headers = { Authorization: 'Bearer t', 'X-Team': 'web' };
+    expect(parseKeyValueList(formatKeyValueList(headers, ':'), ':')).toEqual(headers);
+  });
+});
+
+describe('parseAssignment', () => {
+  it('splits on the first "="', () => {
+    expect(parseAssignment('env.URL=http://x?a=b')).toEqual({ path: 'env.URL', value: 'http://x?a=b' });
+    expect(parseAssignment('args[0]=')).toEqual({ path: 'args[0]', value: '' });
+  });
+
+  it('rejects assignments without a path', () => {
+    expect(parseAssignment('novalue')).toBeNull();
+    expect(parseAssignment('=x')).toBeNull();
+  });
+});
+
+describe('applyDefinitionEdits', () => {
+  const base = { command: 'npx', args: ['-y', 'pkg'], env: { A: '1' } };
+
+  it('replaces, appends and removes arguments', () => {
+    expect(applyDefinitionEdits(base, [{ path: 'args[1]', value: 'other' }]).args).toEqual(['-y', 'other']);
+    expect(applyDefinitionEdits(base, [{ path: 'args[2]', value: '--v' }]).args).toEqual(['-y', 'pkg', '--v']);
+    expect(applyDefinitionEdits(base, [{ path: 'args[0]' }]).args).toEqual(['pkg']);
+    expect(applyDefinitionEdits(base, [{ path: 'args', value: 'a "b c"' }]).args).toEqual(['a', 'b c']);
+  });
+
+  it('rejects out-of-range argument indexes', () => {
+    expect(() => applyDefinitionEdits(base, [{ path: 'args[5]', value: 'x' }])).toThrow('out of range');
+    expect(() => applyDefinitionEdits(base, [{ path: 'args[2]' }])).toThrow('out of range');
+  });
+
+  it('sets and removes env entries, dropping empty maps', () => {
+    expect(applyDefinitionEdits(base, [{ path: 'env.B', value: '2' }]).env).toEqual({ A: '1', B: '2' });
+    expect(applyDefinitionEdits(base, [{ path: 'env.A' }])).not.toHaveProperty('env');
+  });
+
+  it('switches transport fields', () => {
+    const result = applyDefinitionEdits({ command: 'x' }, [
+      { path: 'command' },
+      { path: 'type', value: 'http' },
+      { path: 'url', value: 'https://example.com/mcp' },
+      { path: 'headers.Authorization', value: 'Bearer t' },
+    ]);
+
+    expect(result).toEqual({
+      type: 'http',
+      url: 'https://example.com/mcp',
+      headers: { Authorization: 'Bearer t' },
+    });
+  });
+
+  it('keeps unknown fields and does not mutate the input', () => {
+    const definition = { command: 'npx', timeout: 30 } as Parameters<typeof applyDefinitionEdits>[0];
+    const result = applyDefinitionEdits(definition, [{ path: 'command', value: 'node' }]);
+
+    expect(result).toEqual({ command: 'node', timeout: 30 });
+    expect(definition.command).toBe('npx');
+  });
+
+  it('rejects unknown paths and invalid types', () => {
+    expect(() => applyDefinitionEdits(base, [{ path: 'cwd', value: '/' }])).toThrow('Unknown field');
+    expect(() => applyDefinitionEdits(base, [{ path: 'type', value: 'ws' }])).toThrow('Invalid type');
+    expect(() => applyDefinitionEdits(base, [{ path: 'env', value: 'x' }])).toThrow('env.NAME');
+  });
+});
+
+describe('isDefinitionEditable', () => {
+  it('excludes enterprise and plugin servers', () => {
+    expect(isDefinitionEditable({ scope: 'project', sourceType: 'mcpjson' })).toBe(true);
+    expect(isDefinitionEditable({ scope: 'enterprise', sourceType: 'mcpjson' })).toBe(false);
+    expect(isDefinitionEditable({ scope: 'user', sourceType: 'plugin' })).toBe(false);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Tests for server state explanations (mcp why)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { explainServer } from '@/core/config/explain.js';
+import type { RawDefinition } from '@/types/index.js';
+
+const mcpjsonDefs: RawDefinition[] = [
+  { type: 'def', server: 'fetch', scope: 'user', file: '~/.mcp.json', sourceType: 'mcpjson', definition: { command: 'uvx' } },
+  {
+    type: 'def',
+    server: 'fetch',
+    scope: 'project',
+    file: './.mcp.json',
+    sourceType: 'mcpjson',
+    definition: { command: 'npx', args: ['-y', 'mcp-fetch'] },
+  },
+];
+
+describe('explainServer', () => {
+  it('returns null for unknown servers', () => {
+    expect(explainServer('missing', mcpjsonDefs)).toBeNull();
+  });
+
+  it('names the winning definition and control array entry', () => {
+    const explanation = explainServer('fetch', [
+      ...mcpjsonDefs,
+      { type: 'disable', server: 'fetch', scope: 'user', file: '~/.claude/settings.json' },
+      { type: 'enable', server: 'fetch', scope: 'local', file: './.claude/settings.local.json' },
+    ])!;
+
+    expect(explanation.state).toBe('green');
+    expect(explanation.definition.entries.map((e) => [e.scope, e.won])).toEqual([
+      ['user', false],
+      ['project', true],
+    ]);
+    expect(explanation.control.entries.filter((e) => e.won).map((e) => e.key)).toEqual(['enabledMcpjsonServers']);
+    expect(explanation.control.reason).toContain('overrides disabledMcpjsonServers');
+    expect(explanation.changes[0]).toBe('mcp disable fetch turns it off for this project');
+  });
+
+  it('explains the default state when no entry applies', () => {
+    const explanation = explainServer('fetch', mcpjsonDefs)!;
+    expect(explanation.control.reason).toContain('.mcp.json servers default to on');
+  });
+
+  it('reports paused servers and how to resume them', () => {
+    const explanation = explainServer('fetch', [
+      ...mcpjsonDefs,
+      { type: 'runtime-disable', server: 'fetch', scope: 'local', file: '~/.claude.json' },
+    ])!;
+
+    expect(explanation.state).toBe('orange');
+    expect(explanation.control.paused).toContain('disabledMcpServers in ~/.claude.json');
+    expect(explanation.changes).toContain("mcp resume fetch removes it from this project's disabledMcpServers");
+  });
+
+  it('explains plugins disabled by a higher-priority disabledMcpServers entry', () => {
+    const explanation = explainServer('docs:tools@market', [
+      { type: 'def', server: 'docs:tools@market', scope: 'user', file: 'installed_plugins.json', sourceType: 'plugin' },
+      { type: 'enable', server: 'tools@market', scope: 'user', file: '~/.claude/settings.json', sourceType: 'plugin' },
+      { type: 'runtime-disable', server: 'plugin:tools:docs', scope: 'local', file: '~/.claude.json' },
+    ])!;
+
+    expect(explanation.state).toBe('red');
+    expect(explanation.control.reason).toMatch(/^disabledMcpServers .* outranks enabledPlugins\["tools@market"\] = true/);
+  });
+
+  it('points at the top-level disabledMcpServers for direct servers disabled there', () => {
+    const explanation = explainServer('github', [
+      { type: 'def', server: 'github', scope: 'user', file: '~/.claude.json', sourceType: 'direct-global' },
+      { type: 'runtime-disable', server: 'github', scope: 'user', file: '~/.claude.json' },
+    ])!;
+
+    expect(explanation.state).toBe('red');
+    expect(explanation.changes[0]).toContain('top-level disabledMcpServers');
+  });
+
+  it('reports whether enableAllProjectMcpServers applies', () => {
+    const flag: RawDefinition = {
+      type: 'enable-all-project',
+      server: '*',
+      scope: 'local',
+      file: './.claude/settings.local.json',
+      sourceType: 'mcpjson',
+    };
+
+    expect(explainServer('fetch', [...mcpjsonDefs, flag])!.enableAllProjectMcpServers.applies).toBe(true);
+    expect(explainServer('fetch', mcpjsonDefs)!.enableAllProjectMcpServers.reason).toBe('Not set');
+  });
+
+  it('finds the enterprise rule that matched, including command rules', () => {
+    const denied = explainServer('fetch', mcpjsonDefs, {
+      config: { deniedMcpServers: [{ serverCommand: ['npx', '-y', 'mcp-fetch'] }] },
+      file: '/etc/claude-code/managed-settings.json',
+    })!;
+
+    expect(denied.access).toMatchObject({
+      allowed: false,
+      list: 'deniedMcpServers',
+      rule: { serverCommand: ['npx', '-y', 'mcp-fetch'] },
+    });
+    expect(denied.changes[0]).toContain('remove');
+
+    const allowed = explainServer('fetch', mcpjsonDefs, {
+      config: { allowedMcpServers: [{ serverName: 'fetch' }] },
+      file: '/etc/claude-code/managed-settings.json',
+    })!;
+
+    expect(allowed.access).toMatchObject({ allowed: true, list: 'allowedMcpServers', rule: { serverName: 'fetch' } });
+
+    const restricted = explainServer('fetch', mcpjsonDefs, {
+      config: { allowedMcpServers: [{ serverName: 'github' }] },
+      file: '/etc/claude-code/managed-settings.json',
+    })!;
+
+    expect(restricted.access.allowed).toBe(false);
+    expect(restricted.changes[0]).toContain('allowedMcpServers');
+  });
+
+  it('matches command and URL rules against expanded values', () => {
+    process.env.MCP_TEST_FETCH_HOST = 'fetch.example.com';
+    const defs: RawDefinition[] = [{
+      type: 'def',
+      server: 'fetch',
+      scope: 'project',
+      file: './.mcp.json',
+      sourceType: 'mcpjson',
+      definition: { type: 'http', url: 'https://${MCP_TEST_FETCH_HOST}/mcp' },
+    }];
+
+    try {
+      const denied = explainServer('fetch', defs, {
+        config: { deniedMcpServers: [{ serverUrl: 'https://*.example.com/*' }] },
+        file: '/etc/claude-code/managed-settings.json',
+      })!;
+
+      expect(denied.access).toMatchObject({ allowed: false, rule: { serverUrl: 'https://*.example.com/*' } });
+    } finally {
+      delete process.env.MCP_TEST_FETCH_HOST;
+    }
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Tests for TUI undo/redo history and the pending changes summary
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useTuiStore } from '@/tui/store/index.js';
+import { getChangeSummary } from '@/core/config/state.js';
+import { getDisplayState } from '@/core/servers/toggle.js';
+import type { Server } from '@/types/index.js';
+
+// Helper to create test servers
+function createServer(overrides: Partial<Server> = {}): Server {
+  return {
+    name: 'test-server',
+    state: 'on',
+    scope: 'project',
+    definitionFile: './.mcp.json',
+    sourceType: 'mcpjson',
+    flags: { enterprise: false, blocked: false, restricted: false },
+    runtime: 'unknown',
+    ...overrides,
+  };
+}
+
+const initial = [
+  createServer({ name: 'fetch' }),
+  createServer({ name: 'time', state: 'off' }),
+  createServer({ name: 'memory', runtime: 'stopped' }),
+];
+
+function states(): string[] {
+  return useTuiStore.getState().servers.map((s) => `${s.name}:${getDisplayState(s)}`);
+}
+
+describe('TUI history', () => {
+  beforeEach(() => {
+    useTuiStore.setState({
+      servers: initial,
+      originalServers: initial,
+      selectedIndex: 0,
+      filter: 'all',
+      searchQuery: '',
+      dirty: false,
+      past: [],
+      future: [],
+    });
+  });
+
+  it('undoes and redoes bulk changes', () => {
+    const { disableAll, undo, redo } = useTuiStore.getState();
+    const before = states();
+
+    disableAll();
+    const disabled = states();
+    expect(disabled.every((s) => s.endsWith(':red'))).toBe(true);
+    expect(useTuiStore.getState().dirty).toBe(true);
+
+    expect(undo()).toBe('disable all');
+    expect(states()).toEqual(before);
+    expect(useTuiStore.getState().dirty).toBe(false);
+
+    expect(redo()).toBe('disable all');
+    expect(states()).toEqual(disabled);
+    expect(useTuiStore.getState().dirty).toBe(true);
+  });
+
+  it('restores a removed server', () => {
+    const { removeServer, undo } = useTuiStore.getState();
+
+    removeServer('time');
+    expect(useTuiStore.getState().servers.map((s) => s.name)).toEqual(['fetch', 'memory']);
+
+    expect(undo()).toBe('remove time');
+    expect(useTuiStore.getState().servers.map((s) => s.name)).toEqual(['fetch', 'time', 'memory']);
+  });
+
+  it('steps back through several changes in order', () => {
+    const { toggle, enableAll, undo } = useTuiStore.getState();
+
+    toggle();
+    enableAll();
+
+    expect(undo()).toBe('enable all');
+    expect(undo()).toBe('toggle fetch');
+    expect(undo()).toBeNull();
+    expect(states()).toEqual(['fetch:green', 'time:red', 'memory:orange']);
+  });
+
+  it('drops redo history after a new change', () => {
+    const { enableAll, disableAll, undo, redo } = useTuiStore.getState();
+
+    enableAll();
+    undo();
+    disableAll();
+
+    expect(redo()).toBeNull();
+    expect(useTuiStore.getState().past.map((e) => e.label)).toEqual(['disable all']);
+  });
+});
+
+describe('getChangeSummary', () => {
+  it('groups servers by the state they change to', () => {
+    const modified = [
+      createServer({ name: 'fetch', state: 'off' }),
+      createServer({ name: 'time', state: 'on' }),
+      createServer({ name: 'extra' }),
+    ];
+
+    expect(getChangeSummary(initial, modified)).toEqual({
+      enabled: ['time'],
+      disabled: ['fetch'],
+      paused: [],
+      removed: ['memory'],
+      unchanged: 0,
+    });
+  });
+});
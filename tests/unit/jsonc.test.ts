@@ -0,0 +1,142 @@
+/**
+ * Tests for JSONC parsing and minimal-edit JSON updates
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseJsonc, stripJsonComments, updateJsonText } from '@/core/config/jsonc.js';
+
+describe('stripJsonComments', () => {
+  it('blanks comments and trailing commas without moving anything', () => {
+    const text = '{\n  // line\n  "a": "// not a comment", /* block */\n  "b": [1, 2,],\n}\n';
+    const stripped = stripJsonComments(text);
+
+    expect(stripped).toHaveLength(text.length);
+    expect(stripped.split('\n').map((line) => line.trimEnd())).toEqual([
+      '{',
+      '',
+      '  "a": "// not a comment",',
+      '  "b": [1, 2 ]',
+      '}',
+      '',
+    ]);
+  });
+
+  it('parses JSONC', () => {
+    expect(parseJsonc('{ "a": [1, /* two */ 2,], } // end')).toEqual({ a: [1, 2] });
+  });
+});
+
+describe('updateJsonText', () => {
+  const settings = [
+    '{',
+    '  // Team defaults - keep in sync with the wiki',
+    '  "permissions": { "allow": ["Bash(npm test)"] },',
+    '  "enabledMcpjsonServers": [',
+    '    "fetch"',
+    '  ],',
+    '  "model": "sonnet"',
+    '}',
+    '',
+  ].join('\n');
+
+  it('returns the text unchanged when the value is the same', () => {
+    expect(updateJsonText(settings, parseJsonc(settings))).toBe(settings);
+  });
+
+  it('replaces only the changed array and keeps comments and formatting', () => {
+    const updated = updateJsonText(settings, {
+      permissions: { allow: ['Bash(npm test)'] },
+      enabledMcpjsonServers: ['fetch', 'time'],
+      model: 'sonnet',
+    });
+
+    expect(updated).toBe(settings.replace('    "fetch"\n', '    "fetch",\n    "time"\n'));
+  });
+
+  it('appends new keys in the indentation of their object', () => {
+    const updated = updateJsonText(settings, {
+      ...parseJsonc<object>(settings),
+      disabledMcpjsonServers: ['github'],
+    });
+
+    expect(updated).toBe(settings.replace(
+      '  "model": "sonnet"\n',
+      '  "model": "sonnet",\n  "disabledMcpjsonServers": [\n    "github"\n  ]\n'
+    ));
+  });
+
+  it('removes keys with their separator', () => {
+    const first = updateJsonText(settings, { enabledMcpjsonServers: ['fetch'], model: 'sonnet' });
+    expect(first).toBe([
+      '{',
+      '  // Team defaults - keep in sync with the wiki',
+      '  "enabledMcpjsonServers": [',
+      '    "fetch"',
+      '  ],',
+      '  "model": "sonnet"',
+      '}',
+      '',
+    ].join('\n'));
+
+    const middleAndLast = updateJsonText(settings, { permissions: { allow: ['Bash(npm test)'] } });
+    expect(middleAndLast).toBe([
+      '{',
+      '  // Team defaults - keep in sync with the wiki',
+      '  "permissions": { "allow": ["Bash(npm test)"] }',
+      '}',
+      '',
+    ].join('\n'));
+  });
+
+  it('keeps single-line values on one line', () => {
+    const updated = updateJsonText(settings, {
+      ...parseJsonc<object>(settings),
+      permissions: { allow: ['Bash(npm test)'], deny: ['Read(.env)'] },
+    });
+
+    expect(updated).toContain('  "permissions": { "allow": ["Bash(npm test)"], "deny": ["Read(.env)"] },\n');
+  });
+
+  it('edits nested objects in place', () => {
+    const text = '{\n\t"projects": {\n\t\t"/repo": {\n\t\t\t"allowedTools": []\n\t\t}\n\t}\n}';
+    const updated = updateJsonText(text, { projects: { '/repo': { allowedTools: [], disabledMcpServers: ['x'] } } });
+
+    expect(updated).toBe(
+      '{\n\t"projects": {\n\t\t"/repo": {\n\t\t\t"allowedTools": [],\n\t\t\t"disabledMcpServers": [\n\t\t\t\t"x"\n\t\t\t]\n\t\t}\n\t}\n}'
+    );
+  });
+
+  it('lays out emptied and empty objects from scratch', () => {
+    expect(updateJsonText('{"a": 1}', {})).toBe('{}');
+    expect(updateJsonText('{}\n', { a: ['x'] })).toBe('{\n  "a": [\n    "x"\n  ]\n}\n');
+    expect(updateJsonText('{\n  "a": 1\n}', { b: 2 })).toBe('{\n  "b": 2\n}');
+  });
+
+  it('removes several keys in a row', () => {
+    const text = '{\n  "a": 1,\n  "b": 2,\n  "c": 3,\n  "d": 4,\n  "e": 5\n}';
+
+    expect(updateJsonText(text, { c: 3, e: 5 })).toBe('{\n  "c": 3,\n  "e": 5\n}');
+  });
+
+  it('keeps comments on the lines of kept members when removing keys', () => {
+    expect(updateJsonText('{\n  "a": 1, // about a\n  "b": 2\n}\n', { a: 1 })).toBe('{\n  "a": 1 // about a\n}\n');
+
+    const text = '{\n  "a": 1, // about a\n  "b": 2, // about b\n  "c": 3 // about c\n}';
+    expect(updateJsonText(text, { a: 1, c: 3 })).toBe('{\n  "a": 1, // about a\n  "c": 3 // about c\n}');
+    expect(updateJsonText(text, { c: 3 })).toBe('{\n  "c": 3 // about c\n}');
+    expect(updateJsonText('{ "a": 1 /* a */, "b": 2 }', { a: 1 })).toBe('{ "a": 1 /* a */ }');
+  });
+
+  it('keeps new nested objects on one line in single-line objects', () => {
+    expect(updateJsonText('{ "projects": {} }', { projects: { '/repo': { mcpServers: {} } } }))
+      .toBe('{ "projects": {"/repo": {"mcpServers": {}}} }');
+  });
+
+  it('ignores undefined values like JSON.stringify', () => {
+    expect(updateJsonText('{\n  "a": [1],\n  "b": 2\n}', { a: undefined, b: 2 })).toBe('{\n  "b": 2\n}');
+  });
+
+  it('throws for invalid JSON', () => {
+    expect(() => updateJsonText('{ "a": ', {})).toThrow(SyntaxError);
+  });
+});
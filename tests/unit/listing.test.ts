@@ -0,0 +1,104 @@
+/**
+ * Tests for mcp list output
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  SERVER_LIST_FIELDS,
+  SERVER_LIST_JSON_SCHEMA,
+  buildServerList,
+  formatListField,
+  parseListFields,
+  toServerListEntry,
+} from '@/core/servers/listing.js';
+import type { Server } from '@/types/index.js';
+
+// Helper to create test servers
+function createServer(overrides: Partial<Server> = {}): Server {
+  return {
+    name: 'test-server',
+    state: 'on',
+    scope: 'project',
+    definitionFile: './.mcp.json',
+    sourceType: 'mcpjson',
+    flags: { enterprise: false, blocked: false, restricted: false },
+    runtime: 'unknown',
+    ...overrides,
+  };
+}
+
+const plugin = createServer({
+  name: 'docs:tools@wookstar-claude-plugins',
+  scope: 'user',
+  sourceType: 'plugin',
+  definitionFile: '~/.claude/plugins/tools/.mcp.json',
+  runtime: 'stopped',
+  definition: { type: 'sse', url: 'https://example.com/sse' },
+});
+
+describe('toServerListEntry', () => {
+  it('includes display state, transport and plugin metadata', () => {
+    expect(toServerListEntry(plugin)).toEqual({
+      name: 'docs:tools@wookstar-claude-plugins',
+      state: 'orange',
+      scope: 'user',
+      sourceType: 'plugin',
+      definitionFile: '~/.claude/plugins/tools/.mcp.json',
+      transport: 'sse',
+      flags: { enterprise: false, blocked: false, restricted: false },
+      plugin: {
+        key: 'tools@wookstar-claude-plugins',
+        name: 'tools',
+        marketplace: 'wookstar-claude-plugins',
+        serverKey: 'docs',
+      },
+    });
+  });
+
+  it('leaves transport and plugin null when unknown', () => {
+    const entry = toServerListEntry(createServer({ state: 'off' }));
+    expect(entry.state).toBe('red');
+    expect(entry.transport).toBeNull();
+    expect(entry.plugin).toBeNull();
+  });
+});
+
+describe('buildServerList', () => {
+  it('produces a versioned document with every field by default', () => {
+    const list = buildServerList([plugin], '/repo');
+    expect(list.version).toBe(1);
+    expect(list.cwd).toBe('/repo');
+    expect(Object.keys(list.servers[0]!)).toEqual([...SERVER_LIST_FIELDS]);
+  });
+
+  it('keeps only the selected fields', () => {
+    expect(buildServerList([plugin], '/repo', ['name', 'state']).servers).toEqual([
+      { name: 'docs:tools@wookstar-claude-plugins', state: 'orange' },
+    ]);
+  });
+
+  it('matches the fields described by the JSON Schema', () => {
+    expect(Object.keys(SERVER_LIST_JSON_SCHEMA.properties.servers.items.properties)).toEqual([...SERVER_LIST_FIELDS]);
+  });
+});
+
+describe('parseListFields', () => {
+  it('parses and de-duplicates fields', () => {
+    expect(parseListFields('name, state,name')).toEqual(['name', 'state']);
+  });
+
+  it('rejects unknown fields', () => {
+    expect(() => parseListFields('name,colour')).toThrow('Unknown field "colour"');
+  });
+});
+
+describe('formatListField', () => {
+  it('flattens flags and plugins to text', () => {
+    const entry = toServerListEntry(
+      createServer({ flags: { enterprise: true, blocked: false, restricted: true } })
+    );
+    expect(formatListField(entry, 'flags')).toBe('enterprise restricted');
+    expect(formatListField(entry, 'plugin')).toBe('');
+    expect(formatListField(toServerListEntry(plugin), 'plugin')).toBe('tools@wookstar-claude-plugins');
+  });
+});
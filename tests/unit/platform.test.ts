@@ -394,3 +394,36 @@ describe('normaliseProjectPath', () => {
     expect(result).toMatch(/^\/home\/user\/project\/?$/);
   });
 });
+
+describe('getProjectPathCandidates', () => {
+  it('tries the key as stored and normalised', async () => {
+    const { getProjectPathCandidates } = await import('@/utils/platform.js');
+    expect(getProjectPathCandidates('/home/user/project', 'linux')).toEqual(['/home/user/project']);
+    expect(getProjectPathCandidates('c:/Users/henrik/project', 'windows')).toEqual([
+      'c:/Users/henrik/project',
+      'C:/Users/henrik/project',
+    ]);
+  });
+
+  it('maps Windows drive keys to /mnt under WSL', async () => {
+    const { getProjectPathCandidates } = await import('@/utils/platform.js');
+    expect(getProjectPathCandidates('C:/Users/henrik/project', 'wsl')).toEqual([
+      'C:/Users/henrik/project',
+      '/mnt/c/Users/henrik/project',
+    ]);
+  });
+
+  it('maps WSL /mnt keys to drive letters on Windows', async () => {
+    const { getProjectPathCandidates } = await import('@/utils/platform.js');
+    expect(getProjectPathCandidates('/mnt/d/work/repo', 'windows')).toEqual(['/mnt/d/work/repo', 'D:/work/repo']);
+    expect(getProjectPathCandidates('/mnt/d/work/repo', 'linux')).toEqual(['/mnt/d/work/repo']);
+  });
+});
+
+describe('resolveProjectPath', () => {
+  it('returns the first candidate that exists', async () => {
+    const { resolveProjectPath } = await import('@/utils/platform.js');
+    expect(resolveProjectPath(__dirname, 'linux')).toBe(__dirname);
+    expect(resolveProjectPath(join(__dirname, 'missing'), 'linux')).toBeNull();
+  });
+});
@@ -5,7 +5,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { resolveServers, tracePrecedence } from '../../src/core/config/precedence.js';
+import { resolveServers, tracePrecedence, findWinningDefinition } from '../../src/core/config/precedence.js';
 import type { RawDefinition } from '../../src/types/index.js';
 
 describe('resolveServers', () => {
@@ -210,6 +210,31 @@ describe('tracePrecedence', () => {
   });
 });
 
+describe('findWinningDefinition', () => {
+  it('should return the highest priority definition', () => {
+    const rawData: RawDefinition[] = [
+      { type: 'def', server: 'fetch', scope: 'local', file: '~/.claude.json', sourceType: 'direct-local' },
+      { type: 'def', server: 'fetch', scope: 'project', file: './.mcp.json', sourceType: 'mcpjson' },
+      { type: 'enable', server: 'fetch', scope: 'enterprise', file: '/etc/managed-settings.json' },
+    ];
+
+    expect(findWinningDefinition('fetch', rawData)?.file).toBe('~/.claude.json');
+  });
+
+  it('should use last-wins at the same priority', () => {
+    const rawData: RawDefinition[] = [
+      { type: 'def', server: 'fetch', scope: 'user', file: '~/.mcp.json', sourceType: 'mcpjson' },
+      { type: 'def', server: 'fetch', scope: 'user', file: '~/.claude.json', sourceType: 'direct-global' },
+    ];
+
+    expect(findWinningDefinition('fetch', rawData)?.sourceType).toBe('direct-global');
+  });
+
+  it('should return undefined for unknown servers', () => {
+    expect(findWinningDefinition('missing', [])).toBeUndefined();
+  });
+});
+
 describe('same-priority conflicts', () => {
   it('should use last-wins for same priority definitions', () => {
     // When two definitions have the same priority, the last one wins
@@ -387,6 +412,35 @@ describe('runtime-disable handling', () => {
     expect(result[0]?.state).toBe('off');
   });
 
+  it('should read enabled mcpjson servers in disabledMcpServers as paused', () => {
+    const rawData: RawDefinition[] = [
+      {
+        type: 'def',
+        server: 'fetch',
+        scope: 'project',
+        file: './.mcp.json',
+        sourceType: 'mcpjson',
+      },
+      {
+        type: 'enable',
+        server: 'fetch',
+        scope: 'local',
+        file: './.claude/settings.local.json',
+      },
+      {
+        type: 'runtime-disable',
+        server: 'fetch',
+        scope: 'local',
+        file: '~/.claude.json',
+      },
+    ];
+
+    const result = resolveServers(rawData);
+
+    expect(result[0]?.state).toBe('on');
+    expect(result[0]?.runtime).toBe('stopped');
+  });
+
   it('should handle plugin disable format in disabledMcpServers', () => {
     const rawData: RawDefinition[] = [
       {
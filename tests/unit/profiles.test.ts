@@ -0,0 +1,141 @@
+/**
+ * Tests for server profiles
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  validateProfileName,
+  createProfileSnapshot,
+  applyProfileToServers,
+  diffProfile,
+} from '@/core/profiles/profiles.js';
+import { getDisplayState } from '@/core/servers/toggle.js';
+import type { Server, Profile } from '@/types/index.js';
+
+// Helper to create test servers
+function createServer(overrides: Partial<Server> = {}): Server {
+  return {
+    name: 'test-server',
+    state: 'on',
+    scope: 'project',
+    definitionFile: './.mcp.json',
+    sourceType: 'mcpjson',
+    flags: { enterprise: false, blocked: false, restricted: false },
+    runtime: 'unknown',
+    ...overrides,
+  };
+}
+
+describe('validateProfileName', () => {
+  it('accepts simple names', () => {
+    expect(validateProfileName('frontend-work')).toBeNull();
+    expect(validateProfileName('data_2')).toBeNull();
+  });
+
+  it('rejects empty names', () => {
+    expect(validateProfileName('  ')).toContain('required');
+  });
+
+  it('rejects names with special characters', () => {
+    expect(validateProfileName('a/b')).toContain('letters');
+  });
+});
+
+describe('createProfileSnapshot', () => {
+  it('records the display state of every server', () => {
+    const servers = [
+      createServer({ name: 'fetch', state: 'on' }),
+      createServer({ name: 'time', state: 'off' }),
+      createServer({ name: 'github', state: 'on', runtime: 'stopped' }),
+    ];
+
+    expect(createProfileSnapshot(servers)).toEqual({
+      fetch: 'green',
+      time: 'red',
+      github: 'orange',
+    });
+  });
+});
+
+describe('applyProfileToServers', () => {
+  it('moves servers to the recorded states', () => {
+    const servers = [
+      createServer({ name: 'fetch', state: 'off' }),
+      createServer({ name: 'time', state: 'on' }),
+    ];
+    const profile: Profile = { servers: { fetch: 'green', time: 'orange' } };
+
+    const result = applyProfileToServers(servers, profile);
+
+    expect(getDisplayState(result.servers[0]!)).toBe('green');
+    expect(getDisplayState(result.servers[1]!)).toBe('orange');
+    expect(result.results).toEqual([
+      { server: 'fetch', success: true, from: 'red', to: 'green' },
+      { server: 'time', success: true, from: 'green', to: 'orange' },
+    ]);
+  });
+
+  it('leaves servers not in the profile untouched', () => {
+    const servers = [createServer({ name: 'extra', state: 'off' })];
+    const result = applyProfileToServers(servers, { servers: {} });
+
+    expect(result.servers[0]).toBe(servers[0]);
+    expect(result.results).toHaveLength(0);
+  });
+
+  it('skips servers already in the recorded state', () => {
+    const servers = [createServer({ name: 'fetch', state: 'on' })];
+    const result = applyProfileToServers(servers, { servers: { fetch: 'green' } });
+
+    expect(result.results).toHaveLength(0);
+  });
+
+  it('reports servers that no longer exist', () => {
+    const result = applyProfileToServers([], { servers: { gone: 'green' } });
+
+    expect(result.results[0]).toMatchObject({ server: 'gone', success: false, error: 'Not found' });
+  });
+
+  it('refuses to change enterprise servers', () => {
+    const servers = [
+      createServer({
+        name: 'corp',
+        state: 'on',
+        flags: { enterprise: true, blocked: false, restricted: false },
+      }),
+    ];
+    const result = applyProfileToServers(servers, { servers: { corp: 'red' } });
+
+    expect(result.results[0]?.success).toBe(false);
+    expect(result.results[0]?.error).toContain('enterprise');
+    expect(result.servers[0]?.state).toBe('on');
+  });
+
+  it('does not mutate the input array', () => {
+    const servers = [createServer({ name: 'fetch', state: 'off' })];
+    applyProfileToServers(servers, { servers: { fetch: 'green' } });
+
+    expect(servers[0]?.state).toBe('off');
+  });
+});
+
+describe('diffProfile', () => {
+  it('returns nothing when state matches', () => {
+    const servers = [createServer({ name: 'fetch' })];
+    expect(diffProfile(servers, { servers: { fetch: 'green' } })).toEqual([]);
+  });
+
+  it('reports changed, uncovered and missing servers', () => {
+    const servers = [
+      createServer({ name: 'fetch', state: 'off' }),
+      createServer({ name: 'new-server' }),
+    ];
+    const profile: Profile = { servers: { fetch: 'green', removed: 'red' } };
+
+    expect(diffProfile(servers, profile)).toEqual([
+      { server: 'fetch', current: 'red', profile: 'green' },
+      { server: 'new-server', current: 'green', profile: undefined },
+      { server: 'removed', profile: 'red' },
+    ]);
+  });
+});
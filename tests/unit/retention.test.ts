@@ -0,0 +1,108 @@
+/**
+ * Unit tests for the backup retention policy
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { BackupSet } from '../../src/types/index.js';
+import {
+  DEFAULT_RETENTION,
+  getBackupNameTimestamp,
+  planRetention,
+  resolvePolicy,
+} from '../../src/core/backups/retention.js';
+
+const NOW = Date.parse('2026-03-31T12:00:00.000Z');
+
+function createSet(id: string, ageHours: number, overrides: Partial<BackupSet> = {}): BackupSet {
+  return {
+    id,
+    group: '/home/user/.claude.json',
+    createdAt: new Date(NOW - ageHours * 60 * 60 * 1000).toISOString(),
+    size: 1024,
+    paths: [id],
+    ...overrides,
+  };
+}
+
+const ids = (sets: BackupSet[]) => sets.map((s) => s.id);
+
+describe('resolvePolicy', () => {
+  it('fills in defaults', () => {
+    expect(resolvePolicy()).toEqual(DEFAULT_RETENTION);
+  });
+
+  it('always keeps at least one backup and ignores invalid values', () => {
+    expect(resolvePolicy({ keepLast: 0, keepDailyDays: -1, maxTotalMB: 0 })).toEqual({
+      keepLast: 1,
+      keepDailyDays: DEFAULT_RETENTION.keepDailyDays,
+      maxTotalMB: 0,
+    });
+  });
+});
+
+describe('getBackupNameTimestamp', () => {
+  it('reads the timestamps of every backup naming scheme', () => {
+    const ms = new Date(1700000000000).toISOString();
+    expect(getBackupNameTimestamp('claude.json.backup.1700000000000')).toBe(ms);
+    expect(getBackupNameTimestamp('_home_u_.claude.json.1700000000000.backup')).toBe(ms);
+    expect(getBackupNameTimestamp('pre-rollback._home_u_.claude.json.1700000000000.bak')).toBe(ms);
+    expect(getBackupNameTimestamp('.claude.json.2024-01-02T03-04-05-678Z.bak')).toBe('2024-01-02T03:04:05.678Z');
+    expect(getBackupNameTimestamp('.claude.json.2024-01-02T03-04-05-678Z-1.bak')).toBe('2024-01-02T03:04:05.678Z');
+    expect(getBackupNameTimestamp('notes.bak')).toBeNull();
+  });
+});
+
+describe('planRetention', () => {
+  const policy = { keepLast: 2, keepDailyDays: 0, maxTotalMB: 0 };
+
+  it('keeps the newest backups of each file', () => {
+    const sets = [
+      createSet('a1', 1),
+      createSet('a2', 2),
+      createSet('a3', 3),
+      createSet('b1', 4, { group: '/repo/.claude/settings.local.json' }),
+    ];
+
+    const { kept, pruned } = planRetention(sets, policy, NOW);
+
+    expect(ids(kept)).toEqual(['a1', 'a2', 'b1']);
+    expect(ids(pruned)).toEqual(['a3']);
+  });
+
+  it('keeps the newest backup of each day within the window', () => {
+    const sets = [
+      createSet('today', 1),
+      createSet('today-older', 2),
+      createSet('yesterday', 25),
+      createSet('yesterday-older', 26),
+      createSet('last-week', 7 * 24),
+      createSet('last-month', 30 * 24),
+    ];
+
+    const { kept } = planRetention(sets, { keepLast: 1, keepDailyDays: 10, maxTotalMB: 0 }, NOW);
+
+    expect(ids(kept)).toEqual(['today', 'yesterday', 'last-week']);
+  });
+
+  it('drops the oldest backups over the size cap but keeps the newest per file', () => {
+    const mb = 1024 * 1024;
+    const sets = [
+      createSet('a1', 1, { size: 2 * mb }),
+      createSet('a2', 2, { size: 2 * mb }),
+      createSet('b1', 3, { size: 2 * mb, group: 'other' }),
+      createSet('a3', 4, { size: 2 * mb }),
+    ];
+
+    const { kept } = planRetention(sets, { keepLast: 10, keepDailyDays: 0, maxTotalMB: 3 }, NOW);
+
+    expect(ids(kept)).toEqual(['a1', 'b1']);
+  });
+
+  it('never prunes protected sets', () => {
+    const sets = [createSet('new', 1), createSet('pending', 48, { protected: true })];
+
+    const { pruned } = planRetention(sets, { keepLast: 1, keepDailyDays: 0, maxTotalMB: 0 }, NOW);
+
+    expect(pruned).toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for config file schemas and violation locations
+ */
+
+import { describe, it, expect } from 'vitest';
+import { checkConfig, locateViolations } from '@/core/config/schema.js';
+import type { McpJsonSchema, SettingsSchema } from '@/types/index.js';
+
+describe('checkConfig', () => {
+  it('accepts valid files and keeps unknown keys', () => {
+    const settings = { enabledMcpjsonServers: ['fetch'], permissions: { allow: [] } };
+
+    expect(checkConfig('settings', settings)).toEqual({ data: settings, violations: [] });
+  });
+
+  it('leaves out invalid server definitions but keeps the others', () => {
+    const { data, violations } = checkConfig<McpJsonSchema>('mcp', {
+      mcpServers: {
+        fetch: { command: 'uvx', args: ['mcp-server-fetch'] },
+        both: { command: 'uvx', url: 'https://example.com' },
+        args: { command: 'node', args: ['server.js', 3] },
+        kind: { type: 'websocket', url: 'wss://example.com' },
+        remote: { url: 'https://example.com/mcp' },
+        empty: {},
+      },
+    });
+
+    expect(Object.keys(data!.mcpServers)).toEqual(['fetch']);
+    expect(violations).toEqual([
+      { pointer: '/mcpServers/both', message: 'has both "command" and "url" (a server is either stdio or http/sse)' },
+      { pointer: '/mcpServers/args/args/1', message: 'expected a string, got a number' },
+      { pointer: '/mcpServers/kind/type', message: 'expected one of "stdio", "http", "sse", got "websocket"' },
+      { pointer: '/mcpServers/remote', message: 'has a "url" but no "type" (expected "http" or "sse")' },
+      { pointer: '/mcpServers/empty', message: 'needs "command" (stdio) or "url" (http/sse)' },
+    ]);
+  });
+
+  it('checks root-level servers in plugin .mcp.json files', () => {
+    const { data, violations } = checkConfig<Record<string, unknown>>('mcp', {
+      good: { command: 'uvx' },
+      bad: { type: 'http', command: 'uvx' },
+    });
+
+    expect(Object.keys(data!)).toEqual(['good']);
+    expect(violations).toEqual([{ pointer: '/bad', message: 'has type "http" but a "command" instead of a "url"' }]);
+  });
+
+  it('drops invalid entries from name lists and escapes pointer tokens', () => {
+    const { data, violations } = checkConfig<SettingsSchema>('settings', {
+      disabledMcpjsonServers: ['fetch', null],
+      enabledPlugins: { 'a/b~c': 'yes' },
+    });
+
+    expect(data).toEqual({ disabledMcpjsonServers: ['fetch'], enabledPlugins: {} });
+    expect(violations.map((v) => v.pointer)).toEqual(['/disabledMcpjsonServers/1', '/enabledPlugins/a~1b~0c']);
+  });
+
+  it('rejects a root that is not an object', () => {
+    expect(checkConfig('claude', [])).toEqual({
+      data: null,
+      violations: [{ pointer: '', message: 'expected an object, got an array' }],
+    });
+  });
+
+  it('reports missing required keys', () => {
+    const { violations } = checkConfig('installed-plugins', { plugins: { 'a@b': [{ scope: 'user' }] } });
+
+    expect(violations).toEqual([{ pointer: '/plugins/a@b/0', message: 'missing required key "installPath"' }]);
+  });
+});
+
+describe('locateViolations', () => {
+  it('adds the line and column of each pointer', () => {
+    const text = '{\n  "mcpServers": {\n    "a/b": { "args": [1, "x"] }\n  }\n}\n';
+    const located = locateViolations(text, [
+      { pointer: '/mcpServers/a~1b/args/0', message: 'm' },
+      { pointer: '/mcpServers', message: 'm' },
+      { pointer: '/missing', message: 'm' },
+    ]);
+
+    expect(located).toEqual([
+      { pointer: '/mcpServers/a~1b/args/0', message: 'm', line: 3, column: 23 },
+      { pointer: '/mcpServers', message: 'm', line: 2, column: 17 },
+      { pointer: '/missing', message: 'm' },
+    ]);
+  });
+
+  it('handles escaped quotes, nested arrays and empty containers', () => {
+    const text = '{"a\\"b": [[], {}, "x\\\\"], "c": {"d": true}}';
+
+    expect(locateViolations(text, [{ pointer: '/c/d', message: 'm' }])).toEqual([
+      { pointer: '/c/d', message: 'm', line: 1, column: 38 },
+    ]);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Tests for server selectors
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  compileNamePattern,
+  isNamePattern,
+  parseSelector,
+  searchServers,
+  selectServers,
+} from '@/core/servers/selector.js';
+import type { Server } from '@/types/index.js';
+
+// Helper to create test servers
+function createServer(overrides: Partial<Server> = {}): Server {
+  return {
+    name: 'test-server',
+    state: 'on',
+    scope: 'project',
+    definitionFile: './.mcp.json',
+    sourceType: 'mcpjson',
+    flags: { enterprise: false, blocked: false, restricted: false },
+    runtime: 'unknown',
+    definition: { command: 'npx' },
+    ...overrides,
+  };
+}
+
+const servers = [
+  createServer({ name: 'fetch' }),
+  createServer({ name: 'time', scope: 'user', sourceType: 'direct-global', runtime: 'stopped' }),
+  createServer({ name: 'timezone', state: 'off', scope: 'local', sourceType: 'direct-local' }),
+  createServer({
+    name: 'docs:tools@wookstar-claude-plugins',
+    scope: 'user',
+    sourceType: 'plugin',
+    definition: { type: 'http', url: 'https://example.com/mcp' },
+  }),
+  createServer({ name: 'github:github@claude-plugins', scope: 'user', sourceType: 'plugin' }),
+];
+
+const names = (selected: Server[]) => selected.map((s) => s.name);
+
+describe('compileNamePattern', () => {
+  it('matches exact names literally', () => {
+    const matches = compileNamePattern('time.x');
+    expect(matches('time.x')).toBe(true);
+    expect(matches('timeXx')).toBe(false);
+  });
+
+  it('matches globs against the whole name', () => {
+    expect(compileNamePattern('time*')('timezone')).toBe(true);
+    expect(compileNamePattern('time?')('times')).toBe(true);
+    expect(compileNamePattern('time?')('timezone')).toBe(false);
+    expect(compileNamePattern('*:*@wookstar-claude-plugins')('docs:tools@wookstar-claude-plugins')).toBe(true);
+  });
+
+  it('supports regex with flags', () => {
+    expect(compileNamePattern('/^GIT/i')('github:github@claude-plugins')).toBe(true);
+    expect(() => compileNamePattern('/[/')).toThrow('Invalid pattern');
+  });
+
+  it('tells patterns from names', () => {
+    expect(isNamePattern('fetch')).toBe(false);
+    expect(isNamePattern('fetch*')).toBe(true);
+    expect(isNamePattern('/fetch/')).toBe(true);
+  });
+});
+
+describe('parseSelector', () => {
+  it('splits names from field:value filters and merges flag filters', () => {
+    expect(parseSelector(['fetch', 'state:green,orange', 'docs:tools@x'], { scope: 'user' })).toEqual({
+      names: ['fetch', 'docs:tools@x'],
+      filters: { state: ['green', 'orange'], scope: ['user'] },
+    });
+  });
+
+  it('rejects unknown filter values', () => {
+    expect(() => parseSelector([], { state: 'blue' })).toThrow('Invalid state "blue"');
+    expect(() => parseSelector(['transport:'])).toThrow('Invalid transport');
+  });
+});
+
+describe('selectServers', () => {
+  it('selects by glob and reports patterns that match nothing', () => {
+    const result = selectServers(servers, parseSelector(['*@wookstar-claude-plugins', 'missing', 'nope*']));
+
+    expect(names(result.servers)).toEqual(['docs:tools@wookstar-claude-plugins']);
+    expect(result.unmatched).toEqual(['missing', 'nope*']);
+  });
+
+  it('selects every server of a marketplace or plugin with plugin:', () => {
+    const result = selectServers(servers, parseSelector(['plugin:*@wookstar-claude-plugins']));
+    expect(names(result.servers)).toEqual(['docs:tools@wookstar-claude-plugins']);
+    expect(result.unmatched).toEqual([]);
+
+    expect(names(selectServers(servers, parseSelector(['plugin:github@claude-plugins'])).servers)).toEqual([
+      'github:github@claude-plugins',
+    ]);
+    expect(selectServers(servers, parseSelector(['plugin:*@nowhere'])).unmatched).toEqual(['plugin:*@nowhere']);
+  });
+
+  it('selects every server matching filters when no names are given', () => {
+    expect(names(selectServers(servers, parseSelector([], { source: 'plugin' })).servers)).toEqual([
+      'docs:tools@wookstar-claude-plugins',
+      'github:github@claude-plugins',
+    ]);
+    expect(names(selectServers(servers, parseSelector([], { source: 'direct' })).servers)).toEqual([
+      'time',
+      'timezone',
+    ]);
+  });
+
+  it('combines names with filters', () => {
+    const selector = parseSelector(['time*'], { state: 'orange' });
+    expect(names(selectServers(servers, selector).servers)).toEqual(['time']);
+
+    const http = parseSelector([], { scope: 'user', transport: 'http' });
+    expect(names(selectServers(servers, http).servers)).toEqual(['docs:tools@wookstar-claude-plugins']);
+  });
+});
+
+describe('searchServers', () => {
+  it('matches plain words anywhere in the name', () => {
+    expect(names(searchServers(servers, 'ZONE'))).toEqual(['timezone']);
+  });
+
+  it('applies filters and patterns', () => {
+    expect(names(searchServers(servers, 'state:red'))).toEqual(['timezone']);
+    expect(names(searchServers(servers, 'git source:plugin'))).toEqual(['github:github@claude-plugins']);
+    expect(names(searchServers(servers, '/^t/ state:green'))).toEqual([]);
+  });
+
+  it('treats incomplete terms as plain words', () => {
+    expect(names(searchServers(servers, 'state:'))).toEqual([]);
+    expect(names(searchServers(servers, '/[/'))).toEqual([]);
+    expect(searchServers(servers, '  ')).toHaveLength(servers.length);
+  });
+});
@@ -11,6 +11,7 @@ import {
   enableServer,
   disableServer,
   pauseServer,
+  resumeServer,
   applyStrictDisable,
   enableAllServers,
   disableAllServers,
@@ -214,6 +215,29 @@ describe('pauseServer', () => {
   });
 });
 
+describe('resumeServer', () => {
+  it('resumes paused servers to green', () => {
+    const server = createServer({ state: 'on', runtime: 'stopped' });
+    const result = resumeServer(server);
+    expect(result.success).toBe(true);
+    expect(result.newState).toBe('green');
+  });
+
+  it('refuses disabled servers', () => {
+    const server = createServer({ state: 'off' });
+    const result = resumeServer(server);
+    expect(result.success).toBe(false);
+    expect(result.reason).toContain('mcp enable');
+  });
+
+  it('refuses enterprise and blocked servers with their reason', () => {
+    const enterprise = createServer({ runtime: 'stopped', flags: { enterprise: true, blocked: false, restricted: false } });
+    const blocked = createServer({ runtime: 'stopped', flags: { enterprise: false, blocked: true, restricted: false } });
+    expect(resumeServer(enterprise).reason).toBe('Cannot modify enterprise-managed server');
+    expect(resumeServer(blocked).reason).toBe('Server is blocked by enterprise policy');
+  });
+});
+
 describe('applyStrictDisable', () => {
   it('converts orange servers to red', () => {
     const servers = [
@@ -0,0 +1,14 @@
+/**
+ * Tests for the package version constant
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { VERSION } from '@/utils/version.js';
+
+describe('VERSION', () => {
+  it('matches package.json', () => {
+    const pkg = JSON.parse(readFileSync(new URL('../../package.json', import.meta.url), 'utf-8')) as { version: string };
+    expect(VERSION).toBe(pkg.version);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Tests for merging unsaved changes into reloaded servers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mergeReloadedServers, sameServers } from '@/core/config/watch.js';
+import { applyToggle, getDisplayState } from '@/core/servers/toggle.js';
+import type { Server } from '@/types/index.js';
+
+// Helper to create test servers
+function createServer(overrides: Partial<Server> = {}): Server {
+  return {
+    name: 'test-server',
+    state: 'on',
+    scope: 'project',
+    definitionFile: './.mcp.json',
+    sourceType: 'mcpjson',
+    flags: { enterprise: false, blocked: false, restricted: false },
+    runtime: 'unknown',
+    ...overrides,
+  };
+}
+
+const states = (servers: Server[]) => servers.map((s) => [s.name, getDisplayState(s)]);
+
+describe('mergeReloadedServers', () => {
+  const original = [createServer({ name: 'fetch' }), createServer({ name: 'time' }), createServer({ name: 'github' })];
+
+  it('takes disk changes to servers the user did not touch', () => {
+    const current = [applyToggle(original[0]!, 'red'), original[1]!, original[2]!];
+    const fresh = [original[0]!, applyToggle(original[1]!, 'orange'), original[2]!];
+
+    const merged = mergeReloadedServers(original, current, fresh);
+
+    expect(states(merged.servers)).toEqual([
+      ['fetch', 'red'],
+      ['time', 'orange'],
+      ['github', 'green'],
+    ]);
+    expect(merged.conflicts).toEqual([]);
+  });
+
+  it('keeps unsaved changes and reports servers changed on both sides', () => {
+    const current = [applyToggle(original[0]!, 'red'), original[1]!, original[2]!];
+    const fresh = [applyToggle(original[0]!, 'orange'), original[1]!, original[2]!];
+
+    const merged = mergeReloadedServers(original, current, fresh);
+
+    expect(states(merged.servers)[0]).toEqual(['fetch', 'red']);
+    expect(merged.conflicts).toEqual(['fetch']);
+  });
+
+  it('does not report a conflict when both sides made the same change', () => {
+    const current = [applyToggle(original[0]!, 'red'), original[1]!, original[2]!];
+    const fresh = [applyToggle(original[0]!, 'red'), original[1]!, original[2]!];
+
+    expect(mergeReloadedServers(original, current, fresh).conflicts).toEqual([]);
+  });
+
+  it('adds new servers, keeps session removals and reports changed servers deleted on disk', () => {
+    const current = [applyToggle(original[0]!, 'red'), original[2]!];
+    const fresh = [original[1]!, original[2]!, createServer({ name: 'notion' })];
+
+    const merged = mergeReloadedServers(original, current, fresh);
+
+    expect(merged.servers.map((s) => s.name)).toEqual(['github', 'notion']);
+    expect(merged.removed).toEqual(['fetch']);
+  });
+
+  it('takes definitions from disk for servers with unsaved state changes', () => {
+    const current = [applyToggle(original[0]!, 'red')];
+    const fresh = [createServer({ name: 'fetch', definition: { command: 'uvx' } })];
+
+    const [merged] = mergeReloadedServers([original[0]!], current, fresh).servers;
+
+    expect(merged!.definition).toEqual({ command: 'uvx' });
+    expect(getDisplayState(merged!)).toBe('red');
+  });
+});
+
+describe('sameServers', () => {
+  it('compares states and definitions by name', () => {
+    const a = [createServer({ name: 'fetch' }), createServer({ name: 'time' })];
+
+    expect(sameServers(a, [...a].reverse())).toBe(true);
+    expect(sameServers(a, [a[0]!, applyToggle(a[1]!, 'red')])).toBe(false);
+    expect(sameServers(a, [a[0]!, { ...a[1]!, definition: { command: 'uvx' } }])).toBe(false);
+    expect(sameServers(a, [a[0]!])).toBe(false);
+  });
+});